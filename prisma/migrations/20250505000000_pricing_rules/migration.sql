@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "billing_increment_min" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "minimum_charge" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "tables" ADD COLUMN     "type" TEXT;
+
+-- CreateTable
+CREATE TABLE "pricing_rules" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "table_type" TEXT,
+    "days_of_week" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "hourly_rate" DECIMAL(10,2) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_company_id_active_idx" ON "pricing_rules"("company_id", "active");
+
+-- AddForeignKey
+ALTER TABLE "pricing_rules" ADD CONSTRAINT "pricing_rules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "table_session_pauses" (
+    "id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "paused_at" TIMESTAMPTZ(6) NOT NULL,
+    "resumed_at" TIMESTAMPTZ(6),
+    "reason" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "table_session_pauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "table_session_pauses_session_id_idx" ON "table_session_pauses"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "table_session_pauses" ADD CONSTRAINT "table_session_pauses_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "table_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
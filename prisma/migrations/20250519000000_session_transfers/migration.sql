@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "table_sessions" ADD COLUMN "transferred_from_id" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "table_sessions_transferred_from_id_key" ON "table_sessions"("transferred_from_id");
+
+-- AddForeignKey
+ALTER TABLE "table_sessions" ADD CONSTRAINT "table_sessions_transferred_from_id_fkey" FOREIGN KEY ("transferred_from_id") REFERENCES "table_sessions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
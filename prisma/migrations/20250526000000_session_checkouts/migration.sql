@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "session_checkouts" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "staff_id" UUID,
+    "time_cost" DECIMAL(10,2) NOT NULL,
+    "orders_total" DECIMAL(10,2) NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "discount_reason" TEXT,
+    "tip_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "total" DECIMAL(10,2) NOT NULL,
+    "payment_method" TEXT,
+    "finance_transaction_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_checkouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_checkouts_session_id_key" ON "session_checkouts"("session_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_checkouts_finance_transaction_id_key" ON "session_checkouts"("finance_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "session_checkouts_company_id_created_at_idx" ON "session_checkouts"("company_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "table_sessions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_finance_transaction_id_fkey" FOREIGN KEY ("finance_transaction_id") REFERENCES "finance_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
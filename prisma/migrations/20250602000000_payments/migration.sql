@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'TRANSFER', 'QR');
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "order_id" UUID,
+    "checkout_id" UUID,
+    "staff_id" UUID,
+    "method" "PaymentMethod" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "tendered_amount" DECIMAL(10,2),
+    "change_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "payer_name" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- Move the single payment method recorded on existing checkouts into payments
+INSERT INTO "payments" ("id", "company_id", "checkout_id", "staff_id", "method", "amount", "created_at")
+SELECT
+    gen_random_uuid(),
+    "company_id",
+    "id",
+    "staff_id",
+    CASE
+        WHEN "payment_method" IN ('CASH', 'CARD', 'TRANSFER', 'QR') THEN "payment_method"::"PaymentMethod"
+        ELSE 'CASH'::"PaymentMethod"
+    END,
+    "total",
+    "created_at"
+FROM "session_checkouts";
+
+-- AlterTable
+ALTER TABLE "session_checkouts" DROP COLUMN "payment_method";
+
+-- CreateIndex
+CREATE INDEX "payments_company_id_created_at_idx" ON "payments"("company_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "payments_order_id_idx" ON "payments"("order_id");
+
+-- CreateIndex
+CREATE INDEX "payments_checkout_id_idx" ON "payments"("checkout_id");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "pos_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_checkout_id_fkey" FOREIGN KEY ("checkout_id") REFERENCES "session_checkouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "ReversalType" AS ENUM ('VOID', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "ReversalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "pos_orders" ADD COLUMN "voided_at" TIMESTAMPTZ(6);
+
+-- CreateTable
+CREATE TABLE "pos_order_reversals" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "type" "ReversalType" NOT NULL,
+    "status" "ReversalStatus" NOT NULL DEFAULT 'PENDING',
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT,
+    "requested_by_id" UUID,
+    "approved_by_id" UUID,
+    "approved_at" TIMESTAMPTZ(6),
+    "finance_transaction_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "pos_order_reversals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pos_order_reversal_items" (
+    "id" UUID NOT NULL,
+    "reversal_id" UUID NOT NULL,
+    "order_item_id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "pos_order_reversal_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "pos_order_reversals_finance_transaction_id_key" ON "pos_order_reversals"("finance_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "pos_order_reversals_order_id_idx" ON "pos_order_reversals"("order_id");
+
+-- CreateIndex
+CREATE INDEX "pos_order_reversals_company_id_status_idx" ON "pos_order_reversals"("company_id", "status");
+
+-- CreateIndex
+CREATE INDEX "pos_order_reversal_items_reversal_id_idx" ON "pos_order_reversal_items"("reversal_id");
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "pos_orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_requested_by_id_fkey" FOREIGN KEY ("requested_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_approved_by_id_fkey" FOREIGN KEY ("approved_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_finance_transaction_id_fkey" FOREIGN KEY ("finance_transaction_id") REFERENCES "finance_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversal_items" ADD CONSTRAINT "pos_order_reversal_items_reversal_id_fkey" FOREIGN KEY ("reversal_id") REFERENCES "pos_order_reversals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversal_items" ADD CONSTRAINT "pos_order_reversal_items_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "pos_order_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
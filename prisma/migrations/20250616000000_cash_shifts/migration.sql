@@ -0,0 +1,103 @@
+-- CreateEnum
+CREATE TYPE "CashShiftStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "pos_orders" ADD COLUMN "shift_id" UUID;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "shift_id" UUID;
+
+-- AlterTable
+ALTER TABLE "session_checkouts" ADD COLUMN "shift_id" UUID;
+
+-- AlterTable
+ALTER TABLE "pos_order_reversals" ADD COLUMN "shift_id" UUID;
+
+-- CreateTable
+CREATE TABLE "cash_shifts" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "status" "CashShiftStatus" NOT NULL DEFAULT 'OPEN',
+    "opened_by_id" UUID NOT NULL,
+    "closed_by_id" UUID,
+    "opening_float" DECIMAL(10,2) NOT NULL,
+    "expected_cash" DECIMAL(10,2),
+    "counted_cash" DECIMAL(10,2),
+    "variance" DECIMAL(10,2),
+    "note" TEXT,
+    "opened_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closed_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "cash_shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cash_payouts" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "shift_id" UUID NOT NULL,
+    "staff_id" UUID,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "finance_transaction_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_payouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pos_orders_shift_id_idx" ON "pos_orders"("shift_id");
+
+-- CreateIndex
+CREATE INDEX "payments_shift_id_idx" ON "payments"("shift_id");
+
+-- CreateIndex
+CREATE INDEX "session_checkouts_shift_id_idx" ON "session_checkouts"("shift_id");
+
+-- CreateIndex
+CREATE INDEX "pos_order_reversals_shift_id_idx" ON "pos_order_reversals"("shift_id");
+
+-- CreateIndex
+CREATE INDEX "cash_shifts_company_id_status_idx" ON "cash_shifts"("company_id", "status");
+
+-- Only one drawer can be open per company at a time
+CREATE UNIQUE INDEX "cash_shifts_company_id_open_key" ON "cash_shifts"("company_id") WHERE "status" = 'OPEN';
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_payouts_finance_transaction_id_key" ON "cash_payouts"("finance_transaction_id");
+
+-- CreateIndex
+CREATE INDEX "cash_payouts_shift_id_idx" ON "cash_payouts"("shift_id");
+
+-- AddForeignKey
+ALTER TABLE "pos_orders" ADD CONSTRAINT "pos_orders_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_checkouts" ADD CONSTRAINT "session_checkouts_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_reversals" ADD CONSTRAINT "pos_order_reversals_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_opened_by_id_fkey" FOREIGN KEY ("opened_by_id") REFERENCES "profiles"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_closed_by_id_fkey" FOREIGN KEY ("closed_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_payouts" ADD CONSTRAINT "cash_payouts_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_payouts" ADD CONSTRAINT "cash_payouts_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "cash_shifts"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_payouts" ADD CONSTRAINT "cash_payouts_staff_id_fkey" FOREIGN KEY ("staff_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_payouts" ADD CONSTRAINT "cash_payouts_finance_transaction_id_fkey" FOREIGN KEY ("finance_transaction_id") REFERENCES "finance_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
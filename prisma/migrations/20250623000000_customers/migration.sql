@@ -0,0 +1,54 @@
+-- AlterEnum
+ALTER TYPE "PaymentMethod" ADD VALUE 'TAB';
+
+-- AlterTable
+ALTER TABLE "table_sessions" ADD COLUMN "customer_id" UUID;
+
+-- AlterTable
+ALTER TABLE "table_reservations" ADD COLUMN "customer_id" UUID;
+
+-- AlterTable
+ALTER TABLE "pos_orders" ADD COLUMN "customer_id" UUID;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "customer_id" UUID;
+
+-- CreateTable
+CREATE TABLE "customers" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "phone" TEXT,
+    "email" TEXT,
+    "notes" TEXT,
+    "credit_limit" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customers_company_id_name_idx" ON "customers"("company_id", "name");
+
+-- CreateIndex
+CREATE INDEX "pos_orders_customer_id_idx" ON "pos_orders"("customer_id");
+
+-- CreateIndex
+CREATE INDEX "payments_customer_id_idx" ON "payments"("customer_id");
+
+-- AddForeignKey
+ALTER TABLE "customers" ADD CONSTRAINT "customers_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "table_sessions" ADD CONSTRAINT "table_sessions_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "table_reservations" ADD CONSTRAINT "table_reservations_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_orders" ADD CONSTRAINT "pos_orders_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,135 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "membership_id" UUID,
+ADD COLUMN "prepaid_card_id" UUID;
+
+-- CreateTable
+CREATE TABLE "membership_plans" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "discount_percent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "free_hours_per_month" DECIMAL(6,2) NOT NULL DEFAULT 0,
+    "duration_days" INTEGER NOT NULL DEFAULT 30,
+    "price" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "membership_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "customer_memberships" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "plan_id" UUID NOT NULL,
+    "starts_at" TIMESTAMPTZ(6) NOT NULL,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "cancelled_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_memberships_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prepaid_hour_cards" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "hours_purchased" DECIMAL(6,2) NOT NULL,
+    "minutes_remaining" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prepaid_hour_cards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "session_member_benefits" (
+    "id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "customer_id" UUID NOT NULL,
+    "membership_id" UUID,
+    "gross_cost" DECIMAL(10,2) NOT NULL,
+    "free_minutes" INTEGER NOT NULL DEFAULT 0,
+    "prepaid_minutes" INTEGER NOT NULL DEFAULT 0,
+    "covered_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "session_member_benefits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prepaid_hour_usages" (
+    "id" UUID NOT NULL,
+    "card_id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "prepaid_hour_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "customer_memberships_customer_id_expires_at_idx" ON "customer_memberships"("customer_id", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "customer_memberships_company_id_expires_at_idx" ON "customer_memberships"("company_id", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "prepaid_hour_cards_customer_id_idx" ON "prepaid_hour_cards"("customer_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "session_member_benefits_session_id_key" ON "session_member_benefits"("session_id");
+
+-- CreateIndex
+CREATE INDEX "session_member_benefits_membership_id_created_at_idx" ON "session_member_benefits"("membership_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "prepaid_hour_usages_card_id_idx" ON "prepaid_hour_usages"("card_id");
+
+-- CreateIndex
+CREATE INDEX "prepaid_hour_usages_session_id_idx" ON "prepaid_hour_usages"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "membership_plans" ADD CONSTRAINT "membership_plans_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_memberships" ADD CONSTRAINT "customer_memberships_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_memberships" ADD CONSTRAINT "customer_memberships_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "customer_memberships" ADD CONSTRAINT "customer_memberships_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "membership_plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prepaid_hour_cards" ADD CONSTRAINT "prepaid_hour_cards_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prepaid_hour_cards" ADD CONSTRAINT "prepaid_hour_cards_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_member_benefits" ADD CONSTRAINT "session_member_benefits_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "table_sessions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_member_benefits" ADD CONSTRAINT "session_member_benefits_customer_id_fkey" FOREIGN KEY ("customer_id") REFERENCES "customers"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "session_member_benefits" ADD CONSTRAINT "session_member_benefits_membership_id_fkey" FOREIGN KEY ("membership_id") REFERENCES "customer_memberships"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prepaid_hour_usages" ADD CONSTRAINT "prepaid_hour_usages_card_id_fkey" FOREIGN KEY ("card_id") REFERENCES "prepaid_hour_cards"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prepaid_hour_usages" ADD CONSTRAINT "prepaid_hour_usages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "table_sessions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_membership_id_fkey" FOREIGN KEY ("membership_id") REFERENCES "customer_memberships"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_prepaid_card_id_fkey" FOREIGN KEY ("prepaid_card_id") REFERENCES "prepaid_hour_cards"("id") ON DELETE SET NULL ON UPDATE CASCADE;
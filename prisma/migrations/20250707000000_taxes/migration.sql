@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "prices_include_tax" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "table_time_tax_rate_id" UUID;
+
+-- AlterTable
+ALTER TABLE "inventory_categories" ADD COLUMN "tax_rate_id" UUID;
+
+-- AlterTable
+ALTER TABLE "pos_orders" ADD COLUMN "tax_amount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN "tax_inclusive" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "pos_order_items" ADD COLUMN "tax_rate_id" UUID,
+ADD COLUMN "tax_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "session_checkouts" ADD COLUMN "tax_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "tax_lines" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "order_id" UUID,
+    "checkout_id" UUID,
+    "tax_rate_id" UUID,
+    "name" TEXT NOT NULL,
+    "rate" DECIMAL(5,2) NOT NULL,
+    "inclusive" BOOLEAN NOT NULL DEFAULT false,
+    "taxable_amount" DECIMAL(10,2) NOT NULL,
+    "tax_amount" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "tax_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "tax_rates_company_id_active_idx" ON "tax_rates"("company_id", "active");
+
+-- CreateIndex
+CREATE INDEX "tax_lines_company_id_created_at_idx" ON "tax_lines"("company_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "tax_lines_order_id_idx" ON "tax_lines"("order_id");
+
+-- CreateIndex
+CREATE INDEX "tax_lines_checkout_id_idx" ON "tax_lines"("checkout_id");
+
+-- AddForeignKey
+ALTER TABLE "companies" ADD CONSTRAINT "companies_table_time_tax_rate_id_fkey" FOREIGN KEY ("table_time_tax_rate_id") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_categories" ADD CONSTRAINT "inventory_categories_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_items" ADD CONSTRAINT "pos_order_items_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_rates" ADD CONSTRAINT "tax_rates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lines" ADD CONSTRAINT "tax_lines_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lines" ADD CONSTRAINT "tax_lines_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "pos_orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lines" ADD CONSTRAINT "tax_lines_checkout_id_fkey" FOREIGN KEY ("checkout_id") REFERENCES "session_checkouts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_lines" ADD CONSTRAINT "tax_lines_tax_rate_id_fkey" FOREIGN KEY ("tax_rate_id") REFERENCES "tax_rates"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,123 @@
+-- CreateEnum
+CREATE TYPE "PromotionType" AS ENUM ('PERCENT_OFF', 'AMOUNT_OFF', 'BUY_X_GET_Y', 'COMBO');
+
+-- AlterTable
+ALTER TABLE "pos_orders" ADD COLUMN "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "pos_order_items" ADD COLUMN "discount_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "promotions" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "PromotionType" NOT NULL,
+    "code" TEXT,
+    "value" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "item_id" UUID,
+    "category_id" UUID,
+    "buy_quantity" INTEGER,
+    "get_quantity" INTEGER,
+    "table_minutes" INTEGER NOT NULL DEFAULT 0,
+    "usage_limit" INTEGER,
+    "times_used" INTEGER NOT NULL DEFAULT 0,
+    "starts_at" TIMESTAMPTZ(6),
+    "ends_at" TIMESTAMPTZ(6),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promotion_combo_items" (
+    "id" UUID NOT NULL,
+    "promotion_id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "promotion_combo_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promotion_redemptions" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "promotion_id" UUID NOT NULL,
+    "order_id" UUID NOT NULL,
+    "discount_amount" DECIMAL(10,2) NOT NULL,
+    "table_minutes" INTEGER NOT NULL DEFAULT 0,
+    "table_minutes_used" INTEGER NOT NULL DEFAULT 0,
+    "table_credit" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotion_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "promotion_time_usages" (
+    "id" UUID NOT NULL,
+    "redemption_id" UUID NOT NULL,
+    "session_id" UUID NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "credit" DECIMAL(10,2) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "promotion_time_usages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "promotions_company_id_active_idx" ON "promotions"("company_id", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promotions_company_id_code_key" ON "promotions"("company_id", "code");
+
+-- CreateIndex
+CREATE INDEX "promotion_combo_items_promotion_id_idx" ON "promotion_combo_items"("promotion_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_company_id_created_at_idx" ON "promotion_redemptions"("company_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_promotion_id_idx" ON "promotion_redemptions"("promotion_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_redemptions_order_id_idx" ON "promotion_redemptions"("order_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_time_usages_redemption_id_idx" ON "promotion_time_usages"("redemption_id");
+
+-- CreateIndex
+CREATE INDEX "promotion_time_usages_session_id_idx" ON "promotion_time_usages"("session_id");
+
+-- AddForeignKey
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotions" ADD CONSTRAINT "promotions_category_id_fkey" FOREIGN KEY ("category_id") REFERENCES "inventory_categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_combo_items" ADD CONSTRAINT "promotion_combo_items_promotion_id_fkey" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_combo_items" ADD CONSTRAINT "promotion_combo_items_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_promotion_id_fkey" FOREIGN KEY ("promotion_id") REFERENCES "promotions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_redemptions" ADD CONSTRAINT "promotion_redemptions_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "pos_orders"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_time_usages" ADD CONSTRAINT "promotion_time_usages_redemption_id_fkey" FOREIGN KEY ("redemption_id") REFERENCES "promotion_redemptions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "promotion_time_usages" ADD CONSTRAINT "promotion_time_usages_session_id_fkey" FOREIGN KEY ("session_id") REFERENCES "table_sessions"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
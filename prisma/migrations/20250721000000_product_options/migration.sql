@@ -0,0 +1,79 @@
+-- DropIndex
+DROP INDEX "inventory_transactions_pos_order_item_id_key";
+
+-- AlterTable
+ALTER TABLE "pos_order_items" ADD COLUMN "variant_id" UUID;
+
+-- CreateTable
+CREATE TABLE "product_variants" (
+    "id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "stock_item_id" UUID,
+    "stock_quantity" INTEGER NOT NULL DEFAULT 1,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "product_modifiers" (
+    "id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "price_delta" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "stock_item_id" UUID,
+    "stock_quantity" INTEGER NOT NULL DEFAULT 1,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "product_modifiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "pos_order_item_modifiers" (
+    "id" UUID NOT NULL,
+    "order_item_id" UUID NOT NULL,
+    "modifier_id" UUID,
+    "name" TEXT NOT NULL,
+    "price_delta" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "pos_order_item_modifiers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "inventory_transactions_pos_order_item_id_idx" ON "inventory_transactions"("pos_order_item_id");
+
+-- CreateIndex
+CREATE INDEX "product_variants_item_id_idx" ON "product_variants"("item_id");
+
+-- CreateIndex
+CREATE INDEX "product_modifiers_item_id_idx" ON "product_modifiers"("item_id");
+
+-- CreateIndex
+CREATE INDEX "pos_order_item_modifiers_order_item_id_idx" ON "pos_order_item_modifiers"("order_item_id");
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "inventory_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_modifiers" ADD CONSTRAINT "product_modifiers_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_modifiers" ADD CONSTRAINT "product_modifiers_stock_item_id_fkey" FOREIGN KEY ("stock_item_id") REFERENCES "inventory_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_items" ADD CONSTRAINT "pos_order_items_variant_id_fkey" FOREIGN KEY ("variant_id") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_item_modifiers" ADD CONSTRAINT "pos_order_item_modifiers_order_item_id_fkey" FOREIGN KEY ("order_item_id") REFERENCES "pos_order_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "pos_order_item_modifiers" ADD CONSTRAINT "pos_order_item_modifiers_modifier_id_fkey" FOREIGN KEY ("modifier_id") REFERENCES "product_modifiers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "inventory_items" ADD COLUMN "unit_cost" DECIMAL(12,4);
+
+-- AlterTable
+ALTER TABLE "pos_order_items" ADD COLUMN "cost_amount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "recipe_ingredients" (
+    "id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "ingredient_id" UUID NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "recipe_ingredients_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recipe_ingredients_ingredient_id_idx" ON "recipe_ingredients"("ingredient_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recipe_ingredients_item_id_ingredient_id_key" ON "recipe_ingredients"("item_id", "ingredient_id");
+
+-- AddForeignKey
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recipe_ingredients" ADD CONSTRAINT "recipe_ingredients_ingredient_id_fkey" FOREIGN KEY ("ingredient_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
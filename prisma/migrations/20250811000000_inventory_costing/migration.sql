@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "CostingMethod" AS ENUM ('WEIGHTED_AVERAGE', 'FIFO');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "costing_method" "CostingMethod" NOT NULL DEFAULT 'WEIGHTED_AVERAGE';
+
+-- AlterTable
+ALTER TABLE "inventory_transactions" ADD COLUMN "cost_amount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "inventory_lots" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "transaction_id" UUID,
+    "unit_cost" DECIMAL(12,4) NOT NULL,
+    "quantity_received" INTEGER NOT NULL,
+    "quantity_remaining" INTEGER NOT NULL,
+    "received_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inventory_lots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_lots_transaction_id_key" ON "inventory_lots"("transaction_id");
+
+-- CreateIndex
+CREATE INDEX "inventory_lots_item_id_received_at_idx" ON "inventory_lots"("item_id", "received_at");
+
+-- AddForeignKey
+ALTER TABLE "inventory_lots" ADD CONSTRAINT "inventory_lots_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_lots" ADD CONSTRAINT "inventory_lots_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_lots" ADD CONSTRAINT "inventory_lots_transaction_id_fkey" FOREIGN KEY ("transaction_id") REFERENCES "inventory_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Open a lot for the stock already on hand, at each item's current cost
+INSERT INTO "inventory_lots" ("id", "company_id", "item_id", "unit_cost", "quantity_received", "quantity_remaining")
+SELECT gen_random_uuid(), "company_id", "id", COALESCE("unit_cost", 0), "quantity", "quantity"
+FROM "inventory_items"
+WHERE "quantity" > 0;
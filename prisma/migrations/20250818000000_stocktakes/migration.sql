@@ -0,0 +1,65 @@
+-- CreateEnum
+CREATE TYPE "StocktakeStatus" AS ENUM ('IN_PROGRESS', 'POSTED', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "inventory_transactions" ADD COLUMN "stocktake_id" UUID;
+
+-- CreateTable
+CREATE TABLE "stocktakes" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "reference" TEXT NOT NULL,
+    "status" "StocktakeStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "notes" TEXT,
+    "created_by_id" UUID,
+    "posted_by_id" UUID,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "posted_at" TIMESTAMPTZ(6),
+    "cancelled_at" TIMESTAMPTZ(6),
+
+    CONSTRAINT "stocktakes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "stocktake_items" (
+    "id" UUID NOT NULL,
+    "stocktake_id" UUID NOT NULL,
+    "item_id" UUID NOT NULL,
+    "expected_quantity" INTEGER NOT NULL,
+    "counted_quantity" INTEGER,
+    "counted_by_id" UUID,
+    "counted_at" TIMESTAMPTZ(6),
+    "variance_cost" DECIMAL(10,2),
+
+    CONSTRAINT "stocktake_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "stocktakes_company_id_status_idx" ON "stocktakes"("company_id", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "stocktake_items_stocktake_id_item_id_key" ON "stocktake_items"("stocktake_id", "item_id");
+
+-- CreateIndex
+CREATE INDEX "inventory_transactions_stocktake_id_idx" ON "inventory_transactions"("stocktake_id");
+
+-- AddForeignKey
+ALTER TABLE "inventory_transactions" ADD CONSTRAINT "inventory_transactions_stocktake_id_fkey" FOREIGN KEY ("stocktake_id") REFERENCES "stocktakes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktakes" ADD CONSTRAINT "stocktakes_posted_by_id_fkey" FOREIGN KEY ("posted_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_stocktake_id_fkey" FOREIGN KEY ("stocktake_id") REFERENCES "stocktakes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_item_id_fkey" FOREIGN KEY ("item_id") REFERENCES "inventory_items"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "stocktake_items" ADD CONSTRAINT "stocktake_items_counted_by_id_fkey" FOREIGN KEY ("counted_by_id") REFERENCES "profiles"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "InventoryTransactionType" ADD VALUE 'WRITE_OFF';
+
+-- AlterTable
+ALTER TABLE "inventory_lots" ADD COLUMN "expires_at" DATE,
+ADD COLUMN "lot_number" TEXT;
+
+-- CreateIndex
+CREATE INDEX "inventory_lots_company_id_expires_at_idx" ON "inventory_lots"("company_id", "expires_at");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "inventory_items" ADD COLUMN "barcode" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_items_company_id_barcode_key" ON "inventory_items"("company_id", "barcode");
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ReservationFrequency" AS ENUM ('WEEKLY', 'BIWEEKLY', 'MONTHLY_WEEKDAY');
+
+-- AlterTable
+ALTER TABLE "table_reservations" ADD COLUMN "series_id" UUID;
+
+-- CreateTable
+CREATE TABLE "reservation_series" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "frequency" "ReservationFrequency" NOT NULL,
+    "until" TIMESTAMPTZ(6),
+    "occurrence_count" INTEGER,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reservation_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "table_reservations_series_id_idx" ON "table_reservations"("series_id");
+
+-- CreateIndex
+CREATE INDEX "reservation_series_company_id_idx" ON "reservation_series"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "table_reservations" ADD CONSTRAINT "table_reservations_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "reservation_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reservation_series" ADD CONSTRAINT "reservation_series_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "ReservationSource" AS ENUM ('STAFF', 'ONLINE');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN "booking_days_ahead" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN "booking_max_hours" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN "booking_max_per_phone" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN "booking_slot_minutes" INTEGER NOT NULL DEFAULT 30,
+ADD COLUMN "online_booking_enabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "time_zone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "table_reservations" ADD COLUMN "source" "ReservationSource" NOT NULL DEFAULT 'STAFF';
+
+-- CreateTable
+CREATE TABLE "opening_hours" (
+    "id" UUID NOT NULL,
+    "company_id" UUID NOT NULL,
+    "weekday" INTEGER NOT NULL,
+    "opens_at" TEXT NOT NULL,
+    "closes_at" TEXT NOT NULL,
+
+    CONSTRAINT "opening_hours_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "opening_hours_company_id_weekday_key" ON "opening_hours"("company_id", "weekday");
+
+-- AddForeignKey
+ALTER TABLE "opening_hours" ADD CONSTRAINT "opening_hours_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "reservation_series" ADD COLUMN "time_zone" TEXT;
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { EXPIRY_WARNING_DAYS, getExpiringLots } from "@/lib/inventoryUtils";
+
+export async function GET(req: NextRequest) {
+  try {
+    // Get the session
+    const session = await auth();
+
+    // Check if user is authenticated
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get company ID, and how many days ahead to look, from query params
+    const { searchParams } = new URL(req.url);
+    const companyId = searchParams.get("companyId");
+    const days = parseInt(searchParams.get("days") ?? String(EXPIRY_WARNING_DAYS), 10);
+
+    if (!companyId) {
+      return NextResponse.json({ error: "Company ID is required" }, { status: 400 });
+    }
+
+    if (isNaN(days) || days < 0) {
+      return NextResponse.json({ error: "Invalid number of days" }, { status: 400 });
+    }
+
+    // Check if user has permission to access this company's data
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+      select: { role: true, companyId: true },
+    });
+    if (!profile || (profile.role.toString() !== "SUPERADMIN" && profile.companyId !== companyId)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    // Get stock that has expired or is about to
+    const lots = await getExpiringLots(companyId, days);
+
+    return NextResponse.json(lots);
+  } catch (error) {
+    console.error("Error in expiring stock API:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expiring stock" },
+      { status: 500 }
+    );
+  }
+}
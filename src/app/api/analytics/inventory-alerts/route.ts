@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { hasApiPermission } from "@/lib/rbac";
-import { getInventoryAlerts } from "@/lib/analyticsUtils";
+import { getReorderSuggestions } from "@/lib/purchasingUtils";
 
 export async function GET(req: NextRequest) {
   try {
@@ -27,8 +27,8 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
     }
 
-    // Get inventory alerts
-    const alerts = await getInventoryAlerts(companyId);
+    // Get inventory alerts, with what is on order and how many to reorder
+    const alerts = await getReorderSuggestions(companyId);
 
     return NextResponse.json(alerts);
   } catch (error) {
@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { membershipSaleSchema } from "@/lib/validations/membership";
+import {
+  calculateMembershipPeriod,
+  getMemberBenefits,
+  recordMembershipSale,
+  validateMembershipSale,
+} from "@/lib/membershipUtils";
+
+// GET /api/customers/[id]/memberships - Get a customer's memberships, prepaid hours and current balances
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    const [benefits, memberships, prepaidCards] = await Promise.all([
+      getMemberBenefits(customer.id),
+      prisma.customerMembership.findMany({
+        where: { customerId: customer.id },
+        include: { plan: { select: { id: true, name: true } } },
+        orderBy: { expiresAt: "desc" },
+      }),
+      prisma.prepaidHourCard.findMany({
+        where: { customerId: customer.id },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json({ benefits, memberships, prepaidCards });
+  } catch (error) {
+    console.error("[GET_CUSTOMER_MEMBERSHIPS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/customers/[id]/memberships - Sell or renew a membership
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = membershipSaleSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.findUnique({
+        where: { id, companyId: validatedData.companyId },
+      });
+
+      if (!customer) {
+        return { error: "Customer not found", httpStatus: 404 };
+      }
+
+      const plan = await tx.membershipPlan.findUnique({
+        where: { id: validatedData.planId, companyId: validatedData.companyId },
+      });
+
+      if (!plan || !plan.active) {
+        return { error: "Membership plan not found", httpStatus: 404 };
+      }
+
+      const payments = validatedData.payments ?? [];
+      const check = await validateMembershipSale(tx, customer, Number(plan.price), payments);
+      if ("error" in check) return check;
+
+      // A renewal picks up where the latest membership leaves off
+      const latest = await tx.customerMembership.findFirst({
+        where: { customerId: customer.id, cancelledAt: null },
+        orderBy: { expiresAt: "desc" },
+      });
+      const period = calculateMembershipPeriod(plan.durationDays, latest?.expiresAt);
+
+      const membership = await tx.customerMembership.create({
+        data: {
+          companyId: customer.companyId,
+          customerId: customer.id,
+          planId: plan.id,
+          ...period,
+        },
+        include: { plan: { select: { id: true, name: true } } },
+      });
+
+      const salePayments = await recordMembershipSale(tx, {
+        customer,
+        staffId: profile.id,
+        shiftId: check.shiftId,
+        price: Number(plan.price),
+        payments,
+        description: `Membership ${plan.name} for ${customer.name}`,
+        membershipId: membership.id,
+      });
+
+      return { membership, payments: salePayments };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("[SELL_MEMBERSHIP_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { prepaidCardSaleSchema } from "@/lib/validations/membership";
+import { recordMembershipSale, validateMembershipSale } from "@/lib/membershipUtils";
+
+// POST /api/customers/[id]/prepaid-cards - Sell a block of prepaid table hours
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = prepaidCardSaleSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.findUnique({
+        where: { id, companyId: validatedData.companyId },
+      });
+
+      if (!customer) {
+        return { error: "Customer not found", httpStatus: 404 };
+      }
+
+      const payments = validatedData.payments ?? [];
+      const check = await validateMembershipSale(tx, customer, validatedData.price, payments);
+      if ("error" in check) return check;
+
+      const prepaidCard = await tx.prepaidHourCard.create({
+        data: {
+          companyId: customer.companyId,
+          customerId: customer.id,
+          hoursPurchased: validatedData.hours,
+          minutesRemaining: Math.round(validatedData.hours * 60),
+          price: validatedData.price,
+          expiresAt: validatedData.expiresAt ? new Date(validatedData.expiresAt) : null,
+        },
+      });
+
+      const salePayments = await recordMembershipSale(tx, {
+        customer,
+        staffId: profile.id,
+        shiftId: check.shiftId,
+        price: validatedData.price,
+        payments,
+        description: `${validatedData.hours} prepaid hours for ${customer.name}`,
+        prepaidCardId: prepaidCard.id,
+      });
+
+      return { prepaidCard, payments: salePayments };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("[SELL_PREPAID_HOURS_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { customerUpdateSchema } from "@/lib/validations/customer";
+import { getAvailableCredit, getTabBalance } from "@/lib/customerUtils";
+
+// GET /api/customers/[id] - Get a customer with their tab balance
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    const tabBalance = await getTabBalance(customer.id);
+
+    return NextResponse.json({
+      ...customer,
+      tabBalance,
+      availableCredit: getAvailableCredit(Number(customer.creditLimit), tabBalance),
+    });
+  } catch (error) {
+    console.error("[GET_CUSTOMER_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/customers/[id] - Update a customer's details or credit limit
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = customerUpdateSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const existing = await prisma.customer.findUnique({
+      where: { id, companyId: validatedData.companyId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    // Extending credit is up to admins
+    const isAdmin = profile.role === UserRole.ADMIN || isSuperadmin;
+    const changesCredit = validatedData.creditLimit !== undefined
+      && validatedData.creditLimit !== Number(existing.creditLimit);
+    if (changesCredit && !isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can change a credit limit" },
+        { status: 403 }
+      );
+    }
+
+    const customer = await prisma.customer.update({
+      where: { id },
+      data: {
+        ...(validatedData.name !== undefined && { name: validatedData.name }),
+        ...(validatedData.phone !== undefined && { phone: validatedData.phone || null }),
+        ...(validatedData.email !== undefined && { email: validatedData.email || null }),
+        ...(validatedData.notes !== undefined && { notes: validatedData.notes || null }),
+        ...(validatedData.creditLimit !== undefined && { creditLimit: validatedData.creditLimit }),
+        ...(validatedData.active !== undefined && { active: validatedData.active }),
+      },
+    });
+
+    const tabBalance = await getTabBalance(customer.id);
+
+    return NextResponse.json({
+      ...customer,
+      tabBalance,
+      availableCredit: getAvailableCredit(Number(customer.creditLimit), tabBalance),
+    });
+  } catch (error) {
+    console.error("[UPDATE_CUSTOMER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
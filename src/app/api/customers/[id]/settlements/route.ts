@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { settlementSchema } from "@/lib/validations/customer";
+import { getAvailableCredit, getTabBalance } from "@/lib/customerUtils";
+import { calculateChange, sumPayments } from "@/lib/paymentUtils";
+import { getOpenShift } from "@/lib/shiftUtils";
+
+// POST /api/customers/[id]/settlements - Pay down a customer's tab
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = settlementSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    // Sales were booked as income when they were charged to the tab,
+    // so settling only records the payments
+    const result = await prisma.$transaction(async (tx) => {
+      const customer = await tx.customer.findUnique({
+        where: { id, companyId: validatedData.companyId },
+      });
+
+      if (!customer) {
+        return { error: "Customer not found", httpStatus: 404 };
+      }
+
+      const balance = await getTabBalance(customer.id, undefined, tx);
+      const paymentTotal = sumPayments(validatedData.payments);
+
+      if (Math.round(paymentTotal * 100) > Math.round(balance * 100)) {
+        return {
+          error: `Payments exceed the tab balance of ${balance.toFixed(2)}`,
+          httpStatus: 400,
+        };
+      }
+
+      // Cash goes into the drawer of the open shift
+      const shift = await getOpenShift(customer.companyId, tx);
+      if (!shift && validatedData.payments.some((payment) => payment.method === "CASH")) {
+        return { error: "Open a cash drawer shift before taking cash payments", httpStatus: 400 };
+      }
+
+      const payments = await Promise.all(
+        validatedData.payments.map((payment) =>
+          tx.payment.create({
+            data: {
+              companyId: customer.companyId,
+              customerId: customer.id,
+              staffId: profile.id,
+              method: payment.method,
+              amount: payment.amount,
+              tenderedAmount: payment.tenderedAmount ?? null,
+              changeAmount: calculateChange(payment.amount, payment.tenderedAmount),
+              payerName: payment.payerName || customer.name,
+              shiftId: shift?.id ?? null,
+            },
+          })
+        )
+      );
+
+      const tabBalance = sumPayments([{ amount: balance }, { amount: -paymentTotal }]);
+
+      return {
+        payments,
+        tabBalance,
+        availableCredit: getAvailableCredit(Number(customer.creditLimit), tabBalance),
+      };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("[CUSTOMER_SETTLEMENT_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
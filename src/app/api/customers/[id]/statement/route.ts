@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { endOfDay, startOfDay, startOfToday, subDays } from "date-fns";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { buildStatementEntries, getTabBalance } from "@/lib/customerUtils";
+import { sumPayments } from "@/lib/paymentUtils";
+
+// GET /api/customers/[id]/statement - Tab statement for a date range
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const searchParams = req.nextUrl.searchParams;
+    const companyId = searchParams.get("companyId");
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!customer) {
+      return NextResponse.json(
+        { error: "Customer not found" },
+        { status: 404 }
+      );
+    }
+
+    // Defaults to the last 30 days
+    const from = fromParam ? startOfDay(new Date(fromParam)) : subDays(startOfToday(), 30);
+    const to = toParam ? endOfDay(new Date(toParam)) : new Date();
+
+    const [openingBalance, payments] = await Promise.all([
+      getTabBalance(customer.id, from),
+      prisma.payment.findMany({
+        where: {
+          customerId: customer.id,
+          createdAt: { gte: from, lte: to },
+        },
+        include: {
+          order: { select: { orderNumber: true } },
+          checkout: { include: { session: { include: { table: { select: { name: true } } } } } },
+        },
+        orderBy: { createdAt: "asc" },
+      }),
+    ]);
+
+    const entries = buildStatementEntries(payments, openingBalance);
+
+    return NextResponse.json({
+      customer,
+      from,
+      to,
+      openingBalance,
+      entries,
+      totalCharges: sumPayments(entries.map((entry) => ({ amount: entry.charge }))),
+      totalPayments: sumPayments(entries.map((entry) => ({ amount: entry.payment }))),
+      closingBalance: entries.length > 0 ? entries[entries.length - 1].balance : openingBalance,
+    });
+  } catch (error) {
+    console.error("[GET_CUSTOMER_STATEMENT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
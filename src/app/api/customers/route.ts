@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { customerSchema } from "@/lib/validations/customer";
+import { getAvailableCredit, getTabBalances } from "@/lib/customerUtils";
+
+// GET /api/customers - Search customers with their tab balances
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const companyId = searchParams.get("companyId");
+    const search = searchParams.get("search")?.trim();
+    const includeInactive = searchParams.get("includeInactive") === "true";
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const customers = await prisma.customer.findMany({
+      where: {
+        companyId,
+        ...(includeInactive ? {} : { active: true }),
+        ...(search
+          ? {
+              OR: [
+                { name: { contains: search, mode: "insensitive" } },
+                { phone: { contains: search } },
+                { email: { contains: search, mode: "insensitive" } },
+              ],
+            }
+          : {}),
+      },
+      orderBy: { name: "asc" },
+      take: search ? 20 : 200,
+    });
+
+    const balances = await getTabBalances(customers.map((customer) => customer.id));
+
+    return NextResponse.json(
+      customers.map((customer) => {
+        const tabBalance = balances[customer.id] ?? 0;
+        return {
+          ...customer,
+          tabBalance,
+          availableCredit: getAvailableCredit(Number(customer.creditLimit), tabBalance),
+        };
+      })
+    );
+  } catch (error) {
+    console.error("[GET_CUSTOMERS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/customers - Create a customer
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = customerSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    // Extending credit is up to admins
+    const isAdmin = profile.role === UserRole.ADMIN || isSuperadmin;
+    if (validatedData.creditLimit > 0 && !isAdmin) {
+      return NextResponse.json(
+        { error: "Only admins can set a credit limit" },
+        { status: 403 }
+      );
+    }
+
+    const customer = await prisma.customer.create({
+      data: {
+        companyId: validatedData.companyId,
+        name: validatedData.name,
+        phone: validatedData.phone || null,
+        email: validatedData.email || null,
+        notes: validatedData.notes || null,
+        creditLimit: validatedData.creditLimit,
+      },
+    });
+
+    return NextResponse.json(
+      { ...customer, tabBalance: 0, availableCredit: Number(customer.creditLimit) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("[CREATE_CUSTOMER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
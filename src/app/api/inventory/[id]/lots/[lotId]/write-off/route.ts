@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { InsufficientStockError, writeOffLot } from "@/lib/inventoryUtils";
+import { LotUnavailableError } from "@/lib/costingUtils";
+import { lotWriteOffSchema } from "@/lib/validations/inventoryLot";
+
+// POST - Write off what is left of an expired lot
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; lotId: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins can take stock off the books
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyId: true },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = lotWriteOffSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const lot = await prisma.inventoryLot.findUnique({
+      where: { id: params.lotId, itemId: item.id },
+      select: { id: true },
+    });
+
+    if (!lot) {
+      return NextResponse.json({ error: "Lot not found" }, { status: 404 });
+    }
+
+    const writeOff = await prisma.$transaction((tx) =>
+      writeOffLot(lot.id, item.companyId, result.data.note, profile.id, tx)
+    );
+
+    if ("error" in writeOff) {
+      return NextResponse.json(
+        { error: writeOff.error },
+        { status: writeOff.httpStatus }
+      );
+    }
+
+    return NextResponse.json(writeOff, { status: 201 });
+  } catch (error) {
+    console.error("[API] /inventory/[id]/lots/[lotId]/write-off POST - Error:", error);
+
+    if (error instanceof InsufficientStockError || error instanceof LotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to write off stock" },
+      { status: 500 }
+    );
+  }
+}
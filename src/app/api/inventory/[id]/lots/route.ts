@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getItemLots } from "@/lib/inventoryUtils";
+
+// GET - The lots an item's stock is held in, with when each expires
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins see costs, and only for their own company
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyId: true },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const lots = await getItemLots(item.id);
+
+    return NextResponse.json(lots);
+  } catch (error) {
+    console.error("[API] /inventory/[id]/lots GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch inventory lots" },
+      { status: 500 }
+    );
+  }
+}
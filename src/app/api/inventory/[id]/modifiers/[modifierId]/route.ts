@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { productModifierUpdateSchema } from "@/lib/validations/productOption";
+
+// PATCH - Change an add-on, or take it off the menu
+// Modifiers are retired by deactivating them; past orders keep their own copy
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; modifierId: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins can change what is on the menu
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const modifier = await prisma.productModifier.findUnique({
+      where: { id: params.modifierId, itemId: params.id },
+      include: { item: true },
+    });
+
+    if (!modifier) {
+      return NextResponse.json({ error: "Modifier not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && modifier.item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = productModifierUpdateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+
+    if (data.stockItemId) {
+      const stockItem = await prisma.inventoryItem.findUnique({
+        where: { id: data.stockItemId, companyId: modifier.item.companyId },
+      });
+
+      if (!stockItem) {
+        return NextResponse.json({ error: "Stock item not found" }, { status: 404 });
+      }
+    }
+
+    const updatedModifier = await prisma.productModifier.update({
+      where: { id: modifier.id },
+      data: {
+        ...data,
+        stockItemId: data.stockItemId === undefined ? undefined : data.stockItemId || null,
+      },
+      include: {
+        stockItem: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json(updatedModifier);
+  } catch (error) {
+    console.error("[API] /inventory/[id]/modifiers/[modifierId] PATCH - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update modifier" },
+      { status: 500 }
+    );
+  }
+}
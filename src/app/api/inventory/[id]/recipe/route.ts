@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getRecipeCost } from "@/lib/recipeUtils";
+import { recipeSchema } from "@/lib/validations/recipe";
+import { isSuperAdmin } from "../../../utils/superadminAccess";
+
+const recipeInclude = {
+  ingredient: { select: { id: true, name: true, unitCost: true, quantity: true } },
+} as const;
+
+// GET - The ingredients an item is made from, and what one unit costs to make
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+      include: {
+        recipe: { include: recipeInclude, orderBy: { quantity: "desc" } },
+        _count: { select: { usedInRecipes: true } },
+      },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Item not found" }, { status: 404 });
+    }
+
+    const userIsSuperAdmin = await isSuperAdmin(session.user.id);
+    if (!userIsSuperAdmin && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      ingredients: item.recipe,
+      unitCost: getRecipeCost(item.recipe),
+      usedAsIngredient: item._count.usedInRecipes > 0,
+    });
+  } catch (error) {
+    console.error("[API] /inventory/[id]/recipe GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch recipe" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - Replace an item's recipe. Recipes are one level deep: an ingredient
+// can't have a recipe of its own, and an ingredient can't be given one.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins can change recipes
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { usedInRecipes: true } } },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = recipeSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { ingredients } = result.data;
+
+    if (ingredients.length > 0) {
+      if (item._count.usedInRecipes > 0) {
+        return NextResponse.json(
+          { error: `${item.name} is an ingredient in other recipes and can't have a recipe of its own` },
+          { status: 400 }
+        );
+      }
+
+      if (ingredients.some((ingredient) => ingredient.ingredientId === item.id)) {
+        return NextResponse.json(
+          { error: "An item can't be an ingredient of itself" },
+          { status: 400 }
+        );
+      }
+
+      const ingredientItems = await prisma.inventoryItem.findMany({
+        where: {
+          id: { in: ingredients.map((ingredient) => ingredient.ingredientId) },
+          companyId: item.companyId,
+        },
+        include: { _count: { select: { recipe: true } } },
+      });
+
+      if (ingredientItems.length !== ingredients.length) {
+        return NextResponse.json({ error: "Ingredient not found" }, { status: 404 });
+      }
+
+      const composite = ingredientItems.find((ingredient) => ingredient._count.recipe > 0);
+      if (composite) {
+        return NextResponse.json(
+          { error: `${composite.name} has a recipe of its own and can't be used as an ingredient` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const recipe = await prisma.$transaction(async (tx) => {
+      await tx.recipeIngredient.deleteMany({
+        where: { itemId: item.id },
+      });
+
+      if (ingredients.length > 0) {
+        await tx.recipeIngredient.createMany({
+          data: ingredients.map((ingredient) => ({
+            itemId: item.id,
+            ingredientId: ingredient.ingredientId,
+            quantity: ingredient.quantity,
+          })),
+        });
+      }
+
+      return tx.recipeIngredient.findMany({
+        where: { itemId: item.id },
+        include: recipeInclude,
+        orderBy: { quantity: "desc" },
+      });
+    });
+
+    return NextResponse.json({
+      ingredients: recipe,
+      unitCost: getRecipeCost(recipe),
+      usedAsIngredient: item._count.usedInRecipes > 0,
+    });
+  } catch (error) {
+    console.error("[API] /inventory/[id]/recipe PUT - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save recipe" },
+      { status: 500 }
+    );
+  }
+}
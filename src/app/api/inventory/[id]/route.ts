@@ -3,6 +3,7 @@ import { auth } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
 import { z } from "zod";
+import { adjustInventoryQuantity } from "@/lib/inventoryUtils";
 import { getEffectiveCompanyId, isSuperAdmin } from "../../utils/superadminAccess";
 
 interface RouteParams {
@@ -17,9 +18,13 @@ const inventoryItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
   categoryId: z.string().uuid().optional().nullable(),
   sku: z.string().optional().nullable(),
+  barcode: z.string().optional().nullable(),
   quantity: z.number().min(0, "Quantity can't be negative"),
   criticalThreshold: z.number().min(0, "Threshold can't be negative"),
   price: z.number().min(0, "Price can't be negative").optional().nullable(),
+  unitCost: z.number().min(0, "Cost can't be negative").optional().nullable(),
+  supplierId: z.string().uuid().optional().nullable(),
+  reorderQuantity: z.number().int().min(1, "Reorder quantity must be at least 1").optional().nullable(),
 });
 
 // GET - Get a single inventory item
@@ -71,6 +76,14 @@ export async function GET(
       where: { id },
       include: {
         category: true,
+        variants: {
+          include: { stockItem: { select: { id: true, name: true } } },
+          orderBy: { price: "asc" },
+        },
+        modifiers: {
+          include: { stockItem: { select: { id: true, name: true } } },
+          orderBy: { name: "asc" },
+        },
       },
     });
     
@@ -155,36 +168,60 @@ export async function PUT(
     }
     
     const data = result.data;
+    const barcode = data.barcode?.trim() || null;
+
+    if (barcode) {
+      const barcodeTaken = await prisma.inventoryItem.findFirst({
+        where: { companyId: existingItem.companyId, barcode, id: { not: id } },
+        select: { name: true },
+      });
+
+      if (barcodeTaken) {
+        return NextResponse.json(
+          { error: `${barcodeTaken.name} already has barcode ${barcode}` },
+          { status: 409 }
+        );
+      }
+    }
     
     // Calculate quantity change for transaction record
     const quantityDelta = data.quantity - existingItem.quantity;
     
-    // Update the inventory item
-    const updatedItem = await prisma.inventoryItem.update({
-      where: { id: id },
-      data: {
-        name: data.name,
-        categoryId: data.categoryId || null,
-        sku: data.sku || null,
-        quantity: data.quantity,
-        criticalThreshold: data.criticalThreshold,
-        price: data.price !== undefined ? data.price : null,
-      },
-    });
-    
-    // Create an inventory transaction for quantity changes
-    if (quantityDelta !== 0) {
-      await prisma.inventoryTransaction.create({
+    // Update the inventory item, and record quantity changes as a costed
+    // stock movement so lots and valuation stay in step
+    const updatedItem = await prisma.$transaction(async (tx) => {
+      await tx.inventoryItem.update({
+        where: { id: id },
         data: {
-          companyId: data.companyId,
-          itemId: updatedItem.id,
+          name: data.name,
+          categoryId: data.categoryId || null,
+          sku: data.sku || null,
+          barcode,
+          criticalThreshold: data.criticalThreshold,
+          price: data.price !== undefined ? data.price : null,
+          unitCost: data.unitCost !== undefined ? data.unitCost : null,
+          supplierId: data.supplierId || null,
+          reorderQuantity: data.reorderQuantity ?? null,
+        },
+      });
+
+      if (quantityDelta === 0) {
+        return tx.inventoryItem.findUniqueOrThrow({ where: { id: id } });
+      }
+
+      const { item } = await adjustInventoryQuantity(
+        {
+          companyId: existingItem.companyId,
+          itemId: id,
           transactionType: quantityDelta > 0 ? "INCOMING" : "ADJUSTMENT",
           quantityDelta: quantityDelta,
           note: "Manual inventory adjustment",
           staffId: profile.id,
         },
-      });
-    }
+        tx
+      );
+      return item;
+    });
     
     return NextResponse.json(updatedItem);
   } catch (error) {
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns";
+import { InventoryTransactionType } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getInventoryLedger } from "@/lib/inventoryUtils";
+
+const MAX_PAGE_SIZE = 200;
+
+// GET /api/inventory/[id]/transactions?type=&staffId=&from=yyyy-MM-dd&to=yyyy-MM-dd&orderNumber=&page=&pageSize=
+// - An item's stock movements with a running balance, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins see costs, and only for their own company
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+      select: { id: true, companyId: true, quantity: true },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const type = searchParams.get("type");
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = fromParam ? startOfDay(parseISO(fromParam)) : undefined;
+    const to = toParam ? endOfDay(parseISO(toParam)) : undefined;
+    const page = parseInt(searchParams.get("page") ?? "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") ?? "50", 10);
+
+    if (type && !Object.values(InventoryTransactionType).includes(type as InventoryTransactionType)) {
+      return NextResponse.json({ error: "Invalid transaction type" }, { status: 400 });
+    }
+
+    if ((from && !isValid(from)) || (to && !isValid(to)) || (from && to && from > to)) {
+      return NextResponse.json({ error: "Provide a valid period" }, { status: 400 });
+    }
+
+    if (isNaN(page) || page < 1 || isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return NextResponse.json({ error: "Invalid page" }, { status: 400 });
+    }
+
+    const ledger = await getInventoryLedger(item, {
+      transactionType: (type as InventoryTransactionType) || undefined,
+      staffId: searchParams.get("staffId") || undefined,
+      from,
+      to,
+      orderNumber: searchParams.get("orderNumber")?.trim() || undefined,
+      page,
+      pageSize,
+    });
+
+    return NextResponse.json(ledger);
+  } catch (error) {
+    console.error("[API] /inventory/[id]/transactions GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch inventory transactions" },
+      { status: 500 }
+    );
+  }
+}
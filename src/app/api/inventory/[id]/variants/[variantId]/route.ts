@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { productVariantUpdateSchema } from "@/lib/validations/productOption";
+
+// PATCH - Change a variant, or take it off the menu
+// Variants are retired by deactivating them, since past orders refer to them
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; variantId: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins can change what is on the menu
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const variant = await prisma.productVariant.findUnique({
+      where: { id: params.variantId, itemId: params.id },
+      include: { item: true },
+    });
+
+    if (!variant) {
+      return NextResponse.json({ error: "Variant not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && variant.item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = productVariantUpdateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+
+    if (data.stockItemId) {
+      const stockItem = await prisma.inventoryItem.findUnique({
+        where: { id: data.stockItemId, companyId: variant.item.companyId },
+      });
+
+      if (!stockItem) {
+        return NextResponse.json({ error: "Stock item not found" }, { status: 404 });
+      }
+    }
+
+    const updatedVariant = await prisma.productVariant.update({
+      where: { id: variant.id },
+      data: {
+        ...data,
+        stockItemId: data.stockItemId === undefined
+          ? undefined
+          : data.stockItemId && data.stockItemId !== variant.itemId ? data.stockItemId : null,
+      },
+      include: {
+        stockItem: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json(updatedVariant);
+  } catch (error) {
+    console.error("[API] /inventory/[id]/variants/[variantId] PATCH - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update variant" },
+      { status: 500 }
+    );
+  }
+}
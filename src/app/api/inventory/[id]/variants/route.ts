@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { productVariantSchema } from "@/lib/validations/productOption";
+
+// POST - Add a size or flavor to a menu item
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins can change what is on the menu
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const item = await prisma.inventoryItem.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!item) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && item.companyId !== profile.companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = productVariantSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const data = result.data;
+
+    if (data.stockItemId) {
+      const stockItem = await prisma.inventoryItem.findUnique({
+        where: { id: data.stockItemId, companyId: item.companyId },
+      });
+
+      if (!stockItem) {
+        return NextResponse.json({ error: "Stock item not found" }, { status: 404 });
+      }
+    }
+
+    const variant = await prisma.productVariant.create({
+      data: {
+        ...data,
+        // Taking stock from the item itself is the default
+        stockItemId: data.stockItemId && data.stockItemId !== item.id ? data.stockItemId : null,
+        itemId: item.id,
+      },
+      include: {
+        stockItem: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json(variant, { status: 201 });
+  } catch (error) {
+    console.error("[API] /inventory/[id]/variants POST - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create variant" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,94 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import prisma from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
+import { z } from "zod";
+
+// Validation schema for updating inventory categories
+const categoryUpdateSchema = z.object({
+  name: z.string().min(1, "Name is required").optional(),
+  description: z.string().optional().nullable(),
+  taxRateId: z.string().uuid().optional().nullable(),
+});
+
+// PATCH - Update a category, e.g. to assign its tax class
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    const id = params.id;
+    
+    if (!session?.user) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+    
+    // Get the user's profile for role check
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+    
+    // Only admins can update categories
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+    
+    const category = await prisma.inventoryCategory.findUnique({
+      where: { id },
+    });
+    
+    if (!category || (category.companyId !== profile.companyId && profile.role !== UserRole.SUPERADMIN)) {
+      return NextResponse.json(
+        { error: "Category not found" },
+        { status: 404 }
+      );
+    }
+    
+    const body = await request.json();
+    const validatedData = categoryUpdateSchema.parse(body);
+    
+    // The tax class has to belong to the same company
+    if (validatedData.taxRateId) {
+      const taxRate = await prisma.taxRate.findFirst({
+        where: { id: validatedData.taxRateId, companyId: category.companyId },
+      });
+      
+      if (!taxRate) {
+        return NextResponse.json(
+          { error: "Tax rate not found" },
+          { status: 404 }
+        );
+      }
+    }
+    
+    const updatedCategory = await prisma.inventoryCategory.update({
+      where: { id },
+      data: validatedData,
+    });
+    
+    return NextResponse.json(updatedCategory);
+  } catch (error) {
+    console.error("Error updating category:", error);
+    
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+    
+    return NextResponse.json(
+      { error: "Failed to update category" },
+      { status: 500 }
+    );
+  }
+}
 
 // DELETE - Delete a category
 export async function DELETE(
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { exportInventoryCategories } from "@/lib/inventoryImportUtils";
+import { SPREADSHEET_FORMATS, SpreadsheetFormat, renderSpreadsheet } from "@/lib/spreadsheetUtils";
+
+// GET /api/inventory/categories/export?companyId=&format=csv|xlsx - every category,
+// in the columns /api/inventory/categories/import reads
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get("companyId");
+    const spreadsheetFormat = (searchParams.get("format") ?? "csv") as SpreadsheetFormat;
+
+    if (!companyId) {
+      return NextResponse.json({ error: "Company ID is required" }, { status: 400 });
+    }
+
+    if (!SPREADSHEET_FORMATS.includes(spreadsheetFormat)) {
+      return NextResponse.json(
+        { error: `Format must be one of ${SPREADSHEET_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins export categories, and only their own company's
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const rows = await exportInventoryCategories(companyId);
+    const { body, contentType, filename } = renderSpreadsheet(rows, spreadsheetFormat, "Categories");
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[API] /inventory/categories/export GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to export inventory categories" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { importInventoryCategories } from "@/lib/inventoryImportUtils";
+import { SpreadsheetError, readSpreadsheet } from "@/lib/spreadsheetUtils";
+import { ColumnMapping, columnMappingSchema } from "@/lib/validations/inventoryImport";
+
+// Larger files are more than a category list needs
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+// POST /api/inventory/categories/import - multipart form with companyId, file (.csv or
+// .xlsx), mapping (JSON of field to column header, guessed from the headers
+// when left out) and dryRun ("true" to preview without saving)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const companyId = formData.get("companyId");
+    const file = formData.get("file");
+    const mappingField = formData.get("mapping");
+    const dryRun = formData.get("dryRun") === "true";
+
+    if (typeof companyId !== "string" || !companyId || !(file instanceof File)) {
+      return NextResponse.json(
+        { error: "Company ID and a file are required" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: "The file is too large. Import at most 5 MB at a time" },
+        { status: 400 }
+      );
+    }
+
+    let mapping: ColumnMapping | undefined;
+    if (typeof mappingField === "string" && mappingField) {
+      const result = columnMappingSchema.safeParse(JSON.parse(mappingField));
+      if (!result.success) {
+        return NextResponse.json(
+          { error: "Invalid input", details: result.error.format() },
+          { status: 400 }
+        );
+      }
+      mapping = result.data;
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins import categories, and only into their own company
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const sheet = readSpreadsheet(Buffer.from(await file.arrayBuffer()));
+    const outcome = await importInventoryCategories(companyId, sheet, mapping, {
+      dryRun,
+      staffId: profile.id,
+    });
+
+    if ("error" in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.httpStatus });
+    }
+
+    return NextResponse.json(outcome.result);
+  } catch (error) {
+    console.error("[API] /inventory/categories/import POST - Error:", error);
+
+    if (error instanceof SpreadsheetError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: "Mapping must be valid JSON" }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to import inventory categories" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import {
+  BARCODE_SYMBOLOGIES,
+  BarcodeError,
+  BarcodeSymbology,
+  chooseSymbology,
+  getItemCode,
+} from "@/lib/barcodeUtils";
+import { BarcodeLabel, LABEL_FORMATS, LabelFormat, renderLabels } from "@/lib/labelRenderers";
+
+const MAX_COPIES = 100;
+
+// GET /api/inventory/labels?companyId=&ids=a,b&format=svg|pdf&symbology=code128|ean13&copies=
+// - Barcode labels for items, by their barcode or SKU. Without a symbology,
+// codes that are valid EAN-13s print as EAN-13 and the rest as Code 128.
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get("companyId");
+    const ids = Array.from(new Set((searchParams.get("ids") ?? "").split(",").filter(Boolean)));
+    const labelFormat = (searchParams.get("format") ?? "svg") as LabelFormat;
+    const symbology = searchParams.get("symbology") as BarcodeSymbology | null;
+    const copies = parseInt(searchParams.get("copies") ?? "1", 10);
+
+    if (!companyId || ids.length === 0) {
+      return NextResponse.json(
+        { error: "Company ID and at least one item are required" },
+        { status: 400 }
+      );
+    }
+
+    if (!LABEL_FORMATS.includes(labelFormat)) {
+      return NextResponse.json(
+        { error: `Format must be one of ${LABEL_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (symbology && !BARCODE_SYMBOLOGIES.includes(symbology)) {
+      return NextResponse.json(
+        { error: `Symbology must be one of ${BARCODE_SYMBOLOGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(copies) || copies < 1 || copies > MAX_COPIES) {
+      return NextResponse.json(
+        { error: `Copies must be between 1 and ${MAX_COPIES}` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins print labels, and only for their own company
+    if (!profile || (profile.role.toString() !== "ADMIN" && profile.role.toString() !== "SUPERADMIN")) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role.toString() !== "SUPERADMIN" && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const items = await prisma.inventoryItem.findMany({
+      where: { id: { in: ids }, companyId },
+      select: { id: true, name: true, sku: true, barcode: true, price: true },
+      orderBy: { name: "asc" },
+    });
+
+    if (items.length !== ids.length) {
+      return NextResponse.json({ error: "Inventory item not found" }, { status: 404 });
+    }
+
+    const labels: BarcodeLabel[] = [];
+    for (const item of items) {
+      const code = getItemCode(item);
+      if (!code) {
+        return NextResponse.json(
+          { error: `${item.name} has no barcode or SKU to print` },
+          { status: 400 }
+        );
+      }
+
+      const label: BarcodeLabel = {
+        name: item.name,
+        code,
+        symbology: symbology ?? chooseSymbology(code),
+        price: item.price === null ? null : Number(item.price),
+      };
+      labels.push(...Array.from({ length: copies }, () => label));
+    }
+
+    const { body, contentType, filename } = renderLabels(labels, labelFormat);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `${labelFormat === "svg" ? "inline" : "attachment"}; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[API] /inventory/labels GET - Error:", error);
+
+    if (error instanceof BarcodeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate labels" },
+      { status: 500 }
+    );
+  }
+}
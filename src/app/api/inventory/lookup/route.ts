@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+
+// GET /api/inventory/lookup?companyId=&code= - Find the item a scanned barcode or SKU belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get("companyId");
+    const code = searchParams.get("code")?.trim();
+
+    if (!companyId || !code) {
+      return NextResponse.json(
+        { error: "Company ID and code are required" },
+        { status: 400 }
+      );
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Any staff member can scan, but only in their own company
+    if (!profile || (profile.role.toString() !== "SUPERADMIN" && profile.companyId !== companyId)) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    // A manufacturer's barcode wins over a SKU that happens to match it
+    const items = await prisma.inventoryItem.findMany({
+      where: {
+        companyId,
+        OR: [{ barcode: code }, { sku: code }],
+      },
+      include: {
+        category: true,
+        variants: {
+          orderBy: { price: "asc" },
+        },
+        modifiers: {
+          orderBy: { name: "asc" },
+        },
+        recipe: {
+          select: { ingredientId: true, quantity: true },
+        },
+      },
+    });
+    const item = items.find((candidate) => candidate.barcode === code) ?? items[0];
+
+    if (!item) {
+      return NextResponse.json(
+        { error: `No item with barcode or SKU ${code}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error("[API] /inventory/lookup GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to look up inventory item" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endOfDay, endOfMonth, isValid, parseISO, startOfDay, startOfMonth } from "date-fns";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getGrossMarginReport } from "@/lib/costingUtils";
+
+// GET /api/inventory/margins?companyId=&from=yyyy-MM-dd&to=yyyy-MM-dd - Revenue,
+// cost of goods and gross margin per product sold, this month by default
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json({ error: "Company ID is required" }, { status: 400 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins see costs, and only for their own company
+    const userIsSuperAdmin = profile?.role.toString() === "SUPERADMIN";
+    if (!profile || (profile.role.toString() !== "ADMIN" && !userIsSuperAdmin)) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    if (!userIsSuperAdmin && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const now = new Date();
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = fromParam ? startOfDay(parseISO(fromParam)) : startOfMonth(now);
+    const to = toParam ? endOfDay(parseISO(toParam)) : endOfMonth(now);
+
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return NextResponse.json({ error: "Provide a valid period" }, { status: 400 });
+    }
+
+    const report = await getGrossMarginReport(companyId, from, to);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[API] /inventory/margins GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch margin report" },
+      { status: 500 }
+    );
+  }
+}
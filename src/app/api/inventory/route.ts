@@ -2,6 +2,7 @@ import { NextResponse, NextRequest } from "next/server";
 import { z } from "zod";
 import prisma from "@/lib/prisma";
 import { withAuth } from "@/lib/auth-server-utils";
+import { adjustInventoryQuantity } from "@/lib/inventoryUtils";
 
 // Validation schema for creating/updating inventory items
 const inventoryItemSchema = z.object({
@@ -9,9 +10,13 @@ const inventoryItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
   categoryId: z.string().uuid().optional().nullable(),
   sku: z.string().optional().nullable(),
+  barcode: z.string().optional().nullable(),
   quantity: z.number().min(0, "Quantity can't be negative"),
   criticalThreshold: z.number().min(0, "Threshold can't be negative"),
   price: z.number().min(0, "Price can't be negative").optional().nullable(),
+  unitCost: z.number().min(0, "Cost can't be negative").optional().nullable(),
+  supplierId: z.string().uuid().optional().nullable(),
+  reorderQuantity: z.number().int().min(1, "Reorder quantity must be at least 1").optional().nullable(),
 });
 
 // GET: Fetch all inventory items for a company
@@ -32,6 +37,15 @@ export const GET = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
       },
       include: {
         category: true,
+        variants: {
+          orderBy: { price: "asc" },
+        },
+        modifiers: {
+          orderBy: { name: "asc" },
+        },
+        recipe: {
+          select: { ingredientId: true, quantity: true },
+        },
       },
       orderBy: {
         name: "asc",
@@ -73,12 +87,54 @@ export const POST = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyI
     // This ensures SUPERADMIN can create items in other companies while
     // regular users can only create in their own company
     
-    // Create the inventory item
-    const inventoryItem = await prisma.inventoryItem.create({
-      data: {
-        ...itemData,
-        companyId: effectiveCompanyId,
-      },
+    const barcode = itemData.barcode?.trim() || null;
+    if (barcode) {
+      const barcodeTaken = await prisma.inventoryItem.findFirst({
+        where: { companyId: effectiveCompanyId, barcode },
+        select: { name: true },
+      });
+
+      if (barcodeTaken) {
+        return NextResponse.json(
+          { error: `${barcodeTaken.name} already has barcode ${barcode}` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: user.id },
+      select: { id: true },
+    });
+
+    // Create the inventory item, and book any opening stock in as a movement
+    // so the item's ledger adds up from the start
+    const inventoryItem = await prisma.$transaction(async (tx) => {
+      const item = await tx.inventoryItem.create({
+        data: {
+          ...itemData,
+          barcode,
+          quantity: 0,
+          companyId: effectiveCompanyId,
+        },
+      });
+
+      if (itemData.quantity === 0) {
+        return item;
+      }
+
+      const { item: stockedItem } = await adjustInventoryQuantity(
+        {
+          itemId: item.id,
+          companyId: item.companyId,
+          quantityDelta: itemData.quantity,
+          transactionType: "INCOMING",
+          note: "Opening stock",
+          staffId: profile?.id,
+        },
+        tx
+      );
+      return stockedItem;
     });
 
     return NextResponse.json(inventoryItem);
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from "next/server";
+import { CostingMethod } from "@prisma/client";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import prisma from "@/lib/prisma";
+import { getStockValuation } from "@/lib/costingUtils";
+
+const costingSettingsSchema = z.object({
+  companyId: z.string().uuid(),
+  costingMethod: z.nativeEnum(CostingMethod),
+});
+
+// GET /api/inventory/valuation?companyId= - What the stock on hand is worth
+// under the company's costing method
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const companyId = searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json({ error: "Company ID is required" }, { status: 400 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Only admins see costs, and only for their own company
+    const userIsSuperAdmin = profile?.role.toString() === "SUPERADMIN";
+    if (!profile || (profile.role.toString() !== "ADMIN" && !userIsSuperAdmin)) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    if (!userIsSuperAdmin && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const report = await getStockValuation(companyId);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[API] /inventory/valuation GET - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch stock valuation" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/inventory/valuation - Choose how stock taken out is costed. Applies
+// to stock movements from now on; past sales keep the cost they were charged.
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    const userIsSuperAdmin = profile?.role.toString() === "SUPERADMIN";
+    if (!profile || (profile.role.toString() !== "ADMIN" && !userIsSuperAdmin)) {
+      return NextResponse.json(
+        { error: "Unauthorized. Admin privileges required." },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const result = costingSettingsSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid input", details: result.error.format() },
+        { status: 400 }
+      );
+    }
+
+    const { companyId, costingMethod } = result.data;
+
+    if (!userIsSuperAdmin && profile.companyId !== companyId) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const company = await prisma.company.update({
+      where: { id: companyId },
+      data: { costingMethod },
+      select: { costingMethod: true },
+    });
+
+    await prisma.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "COSTING_METHOD",
+        metadata: { costingMethod },
+      },
+    });
+
+    return NextResponse.json(company);
+  } catch (error) {
+    console.error("[API] /inventory/valuation PUT - Error:", error);
+    return NextResponse.json(
+      { error: "Failed to update costing method" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { addDays } from "date-fns";
+
+// GET /api/memberships/expiring - Memberships and prepaid hours running out in the next few days
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const requestCompanyId = req.nextUrl.searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const days = Math.min(365, Math.max(1, Number(req.nextUrl.searchParams.get("days")) || 30));
+    const now = new Date();
+    const until = addDays(now, days);
+
+    const [memberships, prepaidCards] = await Promise.all([
+      db.customerMembership.findMany({
+        where: {
+          companyId,
+          cancelledAt: null,
+          expiresAt: { gt: now, lte: until },
+        },
+        include: {
+          plan: { select: { id: true, name: true } },
+          customer: { select: { id: true, name: true, phone: true, email: true } },
+        },
+        orderBy: { expiresAt: "asc" },
+      }),
+      db.prepaidHourCard.findMany({
+        where: {
+          companyId,
+          minutesRemaining: { gt: 0 },
+          expiresAt: { gt: now, lte: until },
+        },
+        include: {
+          customer: { select: { id: true, name: true, phone: true, email: true } },
+        },
+        orderBy: { expiresAt: "asc" },
+      }),
+    ]);
+
+    // Members who already renewed don't need chasing
+    const renewals = await db.customerMembership.findMany({
+      where: {
+        customerId: { in: memberships.map((membership) => membership.customerId) },
+        cancelledAt: null,
+        expiresAt: { gt: until },
+      },
+      select: { customerId: true },
+    });
+    const renewedCustomerIds = new Set(renewals.map((renewal) => renewal.customerId));
+
+    return NextResponse.json({
+      days,
+      memberships: memberships.map((membership) => ({
+        ...membership,
+        renewed: renewedCustomerIds.has(membership.customerId),
+      })),
+      prepaidCards,
+    });
+  } catch (error) {
+    console.error("Error fetching expiring memberships:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch expiring memberships" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { membershipPlanUpdateSchema } from "@/lib/validations/membership";
+
+// PATCH /api/memberships/plans/[id] - Update a membership plan
+// Plans are retired by deactivating them, since sold memberships refer to them
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const planId = params.id;
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage membership plans" },
+        { status: 403 }
+      );
+    }
+
+    const existingPlan = await db.membershipPlan.findUnique({
+      where: { id: planId },
+    });
+
+    if (!existingPlan) {
+      return NextResponse.json(
+        { error: "Membership plan not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.companyId !== existingPlan.companyId &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Unauthorized to update this membership plan" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = membershipPlanUpdateSchema.parse(body);
+
+    const plan = await db.membershipPlan.update({
+      where: { id: planId },
+      data: validatedData,
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId: existingPlan.companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "MEMBERSHIP_PLAN",
+        entityId: planId,
+        metadata: { name: plan.name, changes: Object.keys(validatedData) },
+      },
+    });
+
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error("Error updating membership plan:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update membership plan" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { membershipPlanSchema } from "@/lib/validations/membership";
+
+// GET /api/memberships/plans - List membership plans for the current company
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const requestCompanyId = req.nextUrl.searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const includeInactive = req.nextUrl.searchParams.get("includeInactive") === "true";
+
+    const plans = await db.membershipPlan.findMany({
+      where: {
+        companyId,
+        ...(includeInactive ? {} : { active: true }),
+      },
+      orderBy: [{ active: "desc" }, { name: "asc" }],
+    });
+
+    return NextResponse.json({ plans });
+  } catch (error) {
+    console.error("Error fetching membership plans:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch membership plans" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/memberships/plans - Create a membership plan
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage membership plans" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...planData } = body;
+    const validatedData = membershipPlanSchema.parse(planData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const plan = await db.membershipPlan.create({
+      data: {
+        ...validatedData,
+        companyId,
+      },
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "CREATE",
+        entityType: "MEMBERSHIP_PLAN",
+        entityId: plan.id,
+        metadata: { name: plan.name, price: validatedData.price },
+      },
+    });
+
+    return NextResponse.json(
+      { plan },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating membership plan:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create membership plan" },
+      { status: 500 }
+    );
+  }
+}
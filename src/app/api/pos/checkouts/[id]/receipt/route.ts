@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { buildCheckoutReceipt } from "@/lib/receiptUtils";
+import { RECEIPT_FORMATS, ReceiptFormat, renderReceipt } from "@/lib/receiptRenderers";
+
+// GET /api/pos/checkouts/[id]/receipt - Receipt for a table checkout as HTML, PDF or ESC/POS (?format=html|pdf|escpos)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const { searchParams } = new URL(req.url);
+    const companyId = searchParams.get("companyId");
+    const receiptFormat = (searchParams.get("format") ?? "html") as ReceiptFormat;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!RECEIPT_FORMATS.includes(receiptFormat)) {
+      return NextResponse.json(
+        { error: `Format must be one of ${RECEIPT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const receipt = await buildCheckoutReceipt(id, companyId);
+
+    if (!receipt) {
+      return NextResponse.json(
+        { error: "Checkout not found" },
+        { status: 404 }
+      );
+    }
+
+    const { body, contentType, filename } = renderReceipt(receipt, receiptFormat);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `${receiptFormat === "html" ? "inline" : "attachment"}; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error("[CHECKOUT_RECEIPT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
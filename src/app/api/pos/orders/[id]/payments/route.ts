@@ -0,0 +1,269 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { FinanceCategoryType, UserRole } from "@prisma/client";
+import { getOrCreateFinanceCategory, SALES_CATEGORY_NAME } from "@/lib/financeUtils";
+import { paymentsSchema, TAB_PAYMENT_METHOD } from "@/lib/validations/payment";
+import { getOpenShift } from "@/lib/shiftUtils";
+import { validateTabCharge } from "@/lib/customerUtils";
+import {
+  calculateChange,
+  getOutstandingBalance,
+  getPaymentStatus,
+  sumPayments,
+} from "@/lib/paymentUtils";
+
+const orderPaymentsSchema = paymentsSchema.extend({
+  companyId: z.string(),
+});
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const order = await prisma.posOrder.findUnique({
+      where: { id, companyId },
+      include: {
+        payments: {
+          orderBy: { createdAt: "asc" },
+        },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    const total = Number(order.totalAmount ?? 0);
+    const paid = Number(order.paidAmount ?? 0);
+
+    return NextResponse.json({
+      payments: order.payments,
+      total,
+      paid,
+      outstanding: getOutstandingBalance(total, paid),
+      status: getPaymentStatus(total, paid),
+    });
+  } catch (error) {
+    console.error("[GET_ORDER_PAYMENTS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = orderPaymentsSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    // Record the payments and update the paid amount together
+    const result = await prisma.$transaction(async (tx) => {
+      // Payments on the same order wait for each other here, so the balance
+      // read below is still the balance when it's written back
+      await tx.$queryRaw`SELECT id FROM pos_orders WHERE id = ${id}::uuid FOR UPDATE`;
+
+      const order = await tx.posOrder.findUnique({
+        where: { id, companyId: validatedData.companyId },
+        include: {
+          customer: true,
+          tableSession: { include: { customer: true } },
+        },
+      });
+
+      if (!order) {
+        return { error: "Order not found", httpStatus: 404 };
+      }
+
+      if (order.voidedAt) {
+        return { error: "Order has been voided", httpStatus: 400 };
+      }
+
+      const total = Number(order.totalAmount ?? 0);
+      const previouslyPaid = Number(order.paidAmount ?? 0);
+      const outstanding = getOutstandingBalance(total, previouslyPaid);
+      const paymentTotal = sumPayments(validatedData.payments);
+
+      if (paymentTotal > outstanding) {
+        return {
+          error: `Payments exceed the outstanding balance of ${outstanding.toFixed(2)}`,
+          httpStatus: 400,
+        };
+      }
+
+      // Tab charges go to the order's customer, or the customer at its table
+      const tabCustomer = order.customer ?? order.tableSession?.customer ?? null;
+      const tabTotal = sumPayments(
+        validatedData.payments.filter((payment) => payment.method === TAB_PAYMENT_METHOD)
+      );
+      if (tabTotal > 0) {
+        const tabError = tabCustomer
+          ? await validateTabCharge(tabCustomer, tabTotal, tx)
+          : "Attach a customer to the order to charge it to a tab";
+
+        if (tabError) {
+          return { error: tabError, httpStatus: 400 };
+        }
+      }
+
+      // Cash goes into the drawer of the open shift
+      const shift = await getOpenShift(order.companyId, tx);
+      if (!shift && validatedData.payments.some((payment) => payment.method === "CASH")) {
+        return { error: "Open a cash drawer shift before taking cash payments", httpStatus: 400 };
+      }
+
+      const payments = await Promise.all(
+        validatedData.payments.map((payment) =>
+          tx.payment.create({
+            data: {
+              companyId: order.companyId,
+              orderId: order.id,
+              staffId: profile.id,
+              method: payment.method,
+              amount: payment.amount,
+              tenderedAmount: payment.tenderedAmount ?? null,
+              changeAmount: calculateChange(payment.amount, payment.tenderedAmount),
+              payerName: payment.payerName || null,
+              shiftId: shift?.id ?? null,
+              customerId: payment.method === TAB_PAYMENT_METHOD ? tabCustomer?.id : null,
+            },
+          })
+        )
+      );
+
+      // Post the income for what was collected
+      const category = await getOrCreateFinanceCategory(
+        order.companyId,
+        SALES_CATEGORY_NAME,
+        FinanceCategoryType.INCOME,
+        tx
+      );
+
+      await tx.financeTransaction.create({
+        data: {
+          companyId: order.companyId,
+          categoryId: category.id,
+          amount: paymentTotal,
+          transactionDate: new Date(),
+          description: `Payment for order ${order.orderNumber}`,
+          staffId: profile.id,
+        },
+      });
+
+      // paidAmount starts out null, so set it rather than incrementing
+      const paid = sumPayments([{ amount: previouslyPaid }, { amount: paymentTotal }]);
+      await tx.posOrder.update({
+        where: { id: order.id },
+        data: { paidAmount: paid },
+      });
+
+      return {
+        payments,
+        total,
+        paid,
+        outstanding: getOutstandingBalance(total, paid),
+        status: getPaymentStatus(total, paid),
+      };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("[ORDER_PAYMENT_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { ReversalStatus, UserRole } from "@prisma/client";
+import { reviewReversalSchema } from "@/lib/validations/reversal";
+import { applyReversal, ReversalConflictError } from "@/lib/reversalUtils";
+
+// PATCH /api/pos/orders/[id]/refunds/[refundId] - Approve or reject a pending refund
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; refundId: string } }
+) {
+  try {
+    const { id, refundId } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = reviewReversalSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can review refunds" },
+        { status: 403 }
+      );
+    }
+
+    const order = await prisma.posOrder.findUnique({
+      where: { id, companyId: validatedData.companyId },
+      include: {
+        orderItems: true,
+        reversals: { include: { items: true } },
+      },
+    });
+
+    const reversal = await prisma.posOrderReversal.findFirst({
+      where: { id: refundId, orderId: id },
+      include: { items: { include: { orderItem: { include: { inventoryTransactions: true } } } } },
+    });
+
+    if (!order || !reversal) {
+      return NextResponse.json(
+        { error: "Refund not found" },
+        { status: 404 }
+      );
+    }
+
+    if (reversal.status !== ReversalStatus.PENDING) {
+      return NextResponse.json(
+        { error: "Refund has already been reviewed" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.action === "APPROVE") {
+      const approved = await prisma.$transaction((tx) => applyReversal(tx, reversal, order.id, profile.id));
+      return NextResponse.json(approved);
+    }
+
+    // Only reject it if nobody has approved it meanwhile
+    const { count } = await prisma.posOrderReversal.updateMany({
+      where: { id: reversal.id, status: ReversalStatus.PENDING },
+      data: {
+        status: ReversalStatus.REJECTED,
+        approvedById: profile.id,
+        approvedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Refund has already been reviewed" },
+        { status: 409 }
+      );
+    }
+
+    const rejected = await prisma.posOrderReversal.findUnique({
+      where: { id: reversal.id },
+      include: { items: true },
+    });
+
+    return NextResponse.json(rejected);
+  } catch (error) {
+    console.error("[REVIEW_REFUND_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReversalConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
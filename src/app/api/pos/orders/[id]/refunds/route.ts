@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { ReversalStatus, ReversalType, UserRole } from "@prisma/client";
+import { refundOrderSchema } from "@/lib/validations/reversal";
+import {
+  applyReversal,
+  getRefundItems,
+  lockOrderForReversal,
+  ReversalConflictError,
+} from "@/lib/reversalUtils";
+
+// POST /api/pos/orders/[id]/refunds - Refund some items of an order.
+// Refunds requested by sellers wait for an admin to approve them.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = refundOrderSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const order = await prisma.posOrder.findUnique({
+      where: { id, companyId: validatedData.companyId },
+      include: {
+        orderItems: true,
+        reversals: { include: { items: true } },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    if (order.voidedAt) {
+      return NextResponse.json(
+        { error: "Order has been voided" },
+        { status: 400 }
+      );
+    }
+
+    const refund = getRefundItems(order, validatedData.items);
+    if ("error" in refund) {
+      return NextResponse.json(
+        { error: refund.error },
+        { status: 400 }
+      );
+    }
+
+    const canApprove = profile.role === UserRole.ADMIN || profile.role === UserRole.SUPERADMIN;
+
+    const reversal = await prisma.$transaction(async (tx) => {
+      // Another refund of the order may have been made since it was read,
+      // so count what's left again under the order's lock
+      const current = await lockOrderForReversal(tx, order.id);
+      if (current.voidedAt) {
+        throw new ReversalConflictError("Order has been voided");
+      }
+
+      const lockedRefund = getRefundItems(current, validatedData.items);
+      if ("error" in lockedRefund) {
+        throw new ReversalConflictError(lockedRefund.error);
+      }
+
+      const created = await tx.posOrderReversal.create({
+        data: {
+          companyId: order.companyId,
+          orderId: order.id,
+          type: ReversalType.REFUND,
+          status: ReversalStatus.PENDING,
+          amount: lockedRefund.items.reduce((sum, item) => sum + item.amount, 0),
+          reason: validatedData.reason,
+          requestedById: profile.id,
+          items: { create: lockedRefund.items },
+        },
+        include: { items: { include: { orderItem: { include: { inventoryTransactions: true } } } } },
+      });
+
+      return canApprove ? applyReversal(tx, created, order.id, profile.id) : created;
+    });
+
+    return NextResponse.json(reversal, { status: 201 });
+  } catch (error) {
+    console.error("[REFUND_ORDER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReversalConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
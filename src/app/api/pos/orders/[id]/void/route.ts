@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { ReversalStatus, ReversalType, UserRole } from "@prisma/client";
+import { voidOrderSchema } from "@/lib/validations/reversal";
+import {
+  applyReversal,
+  getReversedQuantities,
+  lockOrderForReversal,
+  ReversalConflictError,
+} from "@/lib/reversalUtils";
+import { getOpenShift } from "@/lib/shiftUtils";
+
+// POST /api/pos/orders/[id]/void - Fully reverse an order from the current shift
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = voidOrderSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const order = await prisma.posOrder.findUnique({
+      where: { id, companyId: validatedData.companyId },
+      include: {
+        orderItems: true,
+        reversals: { include: { items: true } },
+      },
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    if (order.voidedAt) {
+      return NextResponse.json(
+        { error: "Order has already been voided" },
+        { status: 400 }
+      );
+    }
+
+    // A void undoes a sale made by mistake, older orders have to be refunded
+    const shift = await getOpenShift(order.companyId);
+    if (!shift || order.shiftId !== shift.id) {
+      return NextResponse.json(
+        { error: "Only orders from the current shift can be voided, use a refund instead" },
+        { status: 400 }
+      );
+    }
+
+    if (Object.keys(getReversedQuantities(order)).length > 0) {
+      return NextResponse.json(
+        { error: "Order has refunds and can no longer be voided" },
+        { status: 400 }
+      );
+    }
+
+    const reversal = await prisma.$transaction(async (tx) => {
+      // A refund of the order may have come in since it was read
+      const current = await lockOrderForReversal(tx, order.id);
+      if (Object.keys(getReversedQuantities(current)).length > 0) {
+        throw new ReversalConflictError("Order has refunds and can no longer be voided");
+      }
+
+      const created = await tx.posOrderReversal.create({
+        data: {
+          companyId: order.companyId,
+          orderId: order.id,
+          type: ReversalType.VOID,
+          status: ReversalStatus.PENDING,
+          amount: Number(order.totalAmount ?? 0),
+          reason: validatedData.reason,
+          requestedById: profile.id,
+          items: {
+            create: order.orderItems.map((item) => ({
+              orderItemId: item.id,
+              quantity: item.quantity,
+              amount: Number(item.lineTotal) - Number(item.discountAmount),
+            })),
+          },
+        },
+        include: { items: { include: { orderItem: { include: { inventoryTransactions: true } } } } },
+      });
+
+      return applyReversal(tx, created, order.id, profile.id);
+    });
+
+    return NextResponse.json(reversal, { status: 201 });
+  } catch (error) {
+    console.error("[VOID_ORDER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof ReversalConflictError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
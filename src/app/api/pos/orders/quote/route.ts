@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { priceOrder } from "@/lib/promotionUtils";
+import { orderQuoteSchema } from "@/lib/validations/promotion";
+
+// POST /api/pos/orders/quote - Price a cart the way the order would be
+// priced, with promotions and tax, without placing it
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = orderQuoteSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const pricing = await priceOrder(
+      validatedData.companyId,
+      validatedData.items,
+      {
+        promoCodes: validatedData.promoCodes,
+        hasTableSession: !!validatedData.tableSessionId,
+      }
+    );
+
+    if ("error" in pricing) {
+      return NextResponse.json(
+        { error: pricing.error },
+        { status: pricing.httpStatus }
+      );
+    }
+
+    return NextResponse.json(pricing);
+  } catch (error) {
+    console.error("[POS_ORDER_QUOTE_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,19 +4,28 @@ import { z } from "zod";
 import prisma from "@/lib/prisma";
 import { UserRole } from "@prisma/client";
 import { auth } from "@/lib/auth";
+import { getOpenShift } from "@/lib/shiftUtils";
+import { adjustInventoryQuantity, InsufficientStockError } from "@/lib/inventoryUtils";
+import {
+  priceOrder,
+  PromotionUnavailableError,
+  recordPromotionRedemptions,
+} from "@/lib/promotionUtils";
 
 const orderSchema = z.object({
   companyId: z.string(),
   tableSessionId: z.string().optional(),
+  customerId: z.string().optional().nullable(),
+  // Prices and totals are always taken from the inventory, never from the client
   items: z.array(
     z.object({
       inventoryItemId: z.string(),
-      name: z.string(),
-      price: z.number(),
       quantity: z.number().int().positive(),
+      variantId: z.string().uuid().optional().nullable(),
+      modifierIds: z.array(z.string().uuid()).default([]),
     })
-  ),
-  total: z.number().positive(),
+  ).min(1, "Add at least one item"),
+  promoCodes: z.array(z.string()).default([]),
   staffId: z.string(),
 });
 
@@ -67,7 +76,63 @@ export async function GET(req: NextRequest) {
         companyId,
       },
       include: {
-        orderItems: true,
+        orderItems: {
+          include: {
+            item: {
+              select: {
+                name: true,
+              },
+            },
+            variant: {
+              select: {
+                name: true,
+              },
+            },
+            modifiers: true,
+          },
+        },
+        payments: {
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+        reversals: {
+          include: {
+            items: true,
+            requestedBy: {
+              select: {
+                firstName: true,
+                lastName: true,
+              },
+            },
+            approvedBy: {
+              select: {
+                firstName: true,
+                lastName: true,
+              },
+            },
+          },
+          orderBy: {
+            createdAt: "asc",
+          },
+        },
+        taxLines: true,
+        redemptions: {
+          include: {
+            promotion: {
+              select: {
+                name: true,
+                code: true,
+              },
+            },
+          },
+        },
+        customer: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         tableSession: {
           include: {
             table: {
@@ -75,6 +140,12 @@ export async function GET(req: NextRequest) {
                 name: true,
               },
             },
+            customer: {
+              select: {
+                id: true,
+                name: true,
+              },
+            },
           },
         },
       },
@@ -128,62 +199,121 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (validatedData.customerId) {
+      const customer = await prisma.customer.findUnique({
+        where: { id: validatedData.customerId, companyId: validatedData.companyId },
+      });
+
+      if (!customer) {
+        return NextResponse.json(
+          { error: "Customer not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Resolve what is being sold, at what price and with which promotions
+    const pricing = await priceOrder(
+      validatedData.companyId,
+      validatedData.items,
+      {
+        promoCodes: validatedData.promoCodes,
+        hasTableSession: !!validatedData.tableSessionId,
+      }
+    );
+
+    if ("error" in pricing) {
+      return NextResponse.json(
+        { error: pricing.error },
+        { status: pricing.httpStatus }
+      );
+    }
+
     // Create order and order items in a transaction
     const order = await prisma.$transaction(async (tx) => {
+      const shift = await getOpenShift(validatedData.companyId, tx);
+
       // Create the order
       const order = await tx.posOrder.create({
         data: {
           companyId: validatedData.companyId,
           tableSessionId: validatedData.tableSessionId,
-          totalAmount: validatedData.total,
+          totalAmount: pricing.totalAmount,
+          discountAmount: pricing.discountAmount,
+          taxAmount: pricing.taxAmount,
+          taxInclusive: pricing.pricesIncludeTax,
           staffId: validatedData.staffId,
           orderNumber: generateOrderNumber(),
+          shiftId: shift?.id ?? null,
+          customerId: validatedData.customerId || null,
         },
       });
 
-      // Create order items
-      await Promise.all(
-        validatedData.items.map((item) =>
-          tx.posOrderItem.create({
-            data: {
-              orderId: order.id,
-              itemId: item.inventoryItemId,
-              quantity: item.quantity,
-              unitPrice: item.price,
-              lineTotal: item.price * item.quantity,
+      // Create order items and take them out of stock. Running out of any
+      // item throws and rolls back the whole order.
+      for (const line of pricing.lines) {
+        const orderItem = await tx.posOrderItem.create({
+          data: {
+            orderId: order.id,
+            itemId: line.inventoryItemId,
+            quantity: line.quantity,
+            unitPrice: line.price,
+            lineTotal: line.lineTotal,
+            discountAmount: line.discountAmount,
+            taxRateId: line.taxRate?.id ?? null,
+            taxAmount: line.taxAmount,
+            variantId: line.variantId,
+            modifiers: {
+              create: line.modifiers.map((modifier) => ({
+                modifierId: modifier.modifierId,
+                name: modifier.name,
+                priceDelta: modifier.priceDelta,
+              })),
             },
-          })
-        )
-      );
+          },
+        });
 
-      // Create inventory transactions for each item
-      await Promise.all(
-        validatedData.items.map((item) =>
-          tx.inventoryTransaction.create({
-            data: {
+        // A variant, add-on or recipe may pour from other stock items than the one on the menu
+        let costAmount = 0;
+        for (const deduction of line.stockDeductions) {
+          const { transaction } = await adjustInventoryQuantity(
+            {
+              itemId: deduction.itemId,
               companyId: validatedData.companyId,
-              itemId: item.inventoryItemId,
-              quantityDelta: -item.quantity, // Negative for outgoing
+              quantityDelta: -deduction.quantity, // Negative for outgoing
               transactionType: "OUTGOING",
               note: `POS Order: ${order.id}`,
               staffId: profile.id,
+              posOrderItemId: orderItem.id,
             },
-          })
-        )
-      );
+            tx
+          );
+          costAmount += Number(transaction.costAmount ?? 0);
+        }
 
-      // Update inventory item stock
-      await Promise.all(
-        validatedData.items.map((item) =>
-          tx.inventoryItem.update({
-            where: { id: item.inventoryItemId },
-            data: {
-              quantity: {
-                decrement: item.quantity,
-              },
-            },
-          })
-        )
+        // Charge the sale what its stock cost under the company's costing method
+        await tx.posOrderItem.update({
+          where: { id: orderItem.id },
+          data: { costAmount: Math.round(costAmount * 100) / 100 },
+        });
+      }
+
+      if (pricing.taxLines.length > 0) {
+        await tx.taxLine.createMany({
+          data: pricing.taxLines.map((line) => ({
+            ...line,
+            companyId: validatedData.companyId,
+            orderId: order.id,
+          })),
+        });
+      }
+
+      // Promotions that ran out while the order was being placed roll it back
+      await recordPromotionRedemptions(
+        tx,
+        validatedData.companyId,
+        order.id,
+        pricing.promotions
       );
 
       return order;
@@ -200,6 +330,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    if (error instanceof InsufficientStockError) {
+      return NextResponse.json(
+        { error: error.message, itemId: error.itemId },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PromotionUnavailableError) {
+      return NextResponse.json(
+        { error: error.message, promotionId: error.promotionId },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
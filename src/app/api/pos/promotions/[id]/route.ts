@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { PromotionType, UserRole } from "@prisma/client";
+import { promotionUpdateSchema } from "@/lib/validations/promotion";
+
+// PATCH /api/pos/promotions/[id] - Change a promotion's terms, or switch it off
+// Promotions are retired by deactivating them, since redemptions refer to them
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...updateData } = body;
+    const validatedData = promotionUpdateSchema.parse(updateData);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage promotions" },
+        { status: 403 }
+      );
+    }
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!promotion) {
+      return NextResponse.json(
+        { error: "Promotion not found" },
+        { status: 404 }
+      );
+    }
+
+    const value = validatedData.value ?? Number(promotion.value);
+    if (promotion.type === PromotionType.PERCENT_OFF && (value <= 0 || value > 100)) {
+      return NextResponse.json(
+        { error: "Percentage must be between 0 and 100" },
+        { status: 400 }
+      );
+    }
+
+    const startsAt = validatedData.startsAt === undefined
+      ? promotion.startsAt
+      : validatedData.startsAt && new Date(validatedData.startsAt);
+    const endsAt = validatedData.endsAt === undefined
+      ? promotion.endsAt
+      : validatedData.endsAt && new Date(validatedData.endsAt);
+
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return NextResponse.json(
+        { error: "End must be after the start" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.code && validatedData.code !== promotion.code) {
+      const existing = await prisma.promotion.findFirst({
+        where: { companyId, code: validatedData.code },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: `Promo code ${validatedData.code} is already in use` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const updatedPromotion = await prisma.promotion.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        code: validatedData.code === undefined ? undefined : validatedData.code || null,
+        startsAt,
+        endsAt,
+      },
+      include: {
+        item: { select: { id: true, name: true } },
+        category: { select: { id: true, name: true } },
+        comboItems: { include: { item: { select: { id: true, name: true, price: true } } } },
+      },
+    });
+
+    return NextResponse.json(updatedPromotion);
+  } catch (error) {
+    console.error("[UPDATE_PROMOTION_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { endOfDay, endOfMonth, isValid, parseISO, startOfDay, startOfMonth } from "date-fns";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { getPromotionReport } from "@/lib/promotionUtils";
+
+// GET /api/pos/promotions/report?companyId=&from=yyyy-MM-dd&to=yyyy-MM-dd - Discount given per promotion, this month by default
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const companyId = searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can view the promotions report" },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date();
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = fromParam ? startOfDay(parseISO(fromParam)) : startOfMonth(now);
+    const to = toParam ? endOfDay(parseISO(toParam)) : endOfMonth(now);
+
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return NextResponse.json(
+        { error: "Provide a valid period" },
+        { status: 400 }
+      );
+    }
+
+    const report = await getPromotionReport(companyId, from, to);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[PROMOTION_REPORT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { promotionSchema } from "@/lib/validations/promotion";
+
+const promotionInclude = {
+  item: { select: { id: true, name: true } },
+  category: { select: { id: true, name: true } },
+  comboItems: { include: { item: { select: { id: true, name: true, price: true } } } },
+} as const;
+
+// GET /api/pos/promotions?companyId= - List a company's promotions
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const promotions = await prisma.promotion.findMany({
+      where: { companyId },
+      include: promotionInclude,
+      orderBy: [{ active: "desc" }, { createdAt: "desc" }],
+    });
+
+    return NextResponse.json(promotions);
+  } catch (error) {
+    console.error("[GET_PROMOTIONS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/pos/promotions - Create a discount, promo code or combo deal
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...promotionData } = body;
+    const validatedData = promotionSchema.parse(promotionData);
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage promotions" },
+        { status: 403 }
+      );
+    }
+
+    if (validatedData.code) {
+      const existing = await prisma.promotion.findFirst({
+        where: { companyId, code: validatedData.code },
+      });
+
+      if (existing) {
+        return NextResponse.json(
+          { error: `Promo code ${validatedData.code} is already in use` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Everything the promotion refers to must belong to the company
+    const itemIds = [
+      ...(validatedData.itemId ? [validatedData.itemId] : []),
+      ...validatedData.comboItems.map((comboItem) => comboItem.itemId),
+    ];
+    const itemCount = await prisma.inventoryItem.count({
+      where: { id: { in: itemIds }, companyId },
+    });
+
+    if (itemCount !== new Set(itemIds).size) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (validatedData.categoryId) {
+      const category = await prisma.inventoryCategory.findUnique({
+        where: { id: validatedData.categoryId, companyId },
+      });
+
+      if (!category) {
+        return NextResponse.json(
+          { error: "Category not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const { comboItems, ...data } = validatedData;
+    const isCombo = data.type === "COMBO";
+
+    const promotion = await prisma.promotion.create({
+      data: {
+        ...data,
+        companyId,
+        code: data.code || null,
+        startsAt: data.startsAt ? new Date(data.startsAt) : null,
+        endsAt: data.endsAt ? new Date(data.endsAt) : null,
+        // Only buy X get Y deals count what is bought, and only combos include table time
+        buyQuantity: data.type === "BUY_X_GET_Y" ? data.buyQuantity : null,
+        getQuantity: data.type === "BUY_X_GET_Y" ? data.getQuantity : null,
+        tableMinutes: isCombo ? data.tableMinutes : 0,
+        itemId: isCombo ? null : data.itemId,
+        categoryId: isCombo ? null : data.categoryId,
+        comboItems: isCombo ? { create: comboItems } : undefined,
+      },
+      include: promotionInclude,
+    });
+
+    return NextResponse.json(promotion, { status: 201 });
+  } catch (error) {
+    console.error("[CREATE_PROMOTION_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
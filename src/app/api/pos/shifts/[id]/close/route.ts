@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { CashShiftStatus, UserRole } from "@prisma/client";
+import { closeShiftSchema } from "@/lib/validations/shift";
+import { buildShiftReport, getShiftWithActivity } from "@/lib/shiftUtils";
+import { sumPayments } from "@/lib/paymentUtils";
+
+// POST /api/pos/shifts/[id]/close - Count the drawer and close the shift
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = closeShiftSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const shift = await getShiftWithActivity(id, tx);
+
+      if (!shift || shift.companyId !== validatedData.companyId) {
+        return { error: "Shift not found", httpStatus: 404 };
+      }
+
+      if (shift.status !== CashShiftStatus.OPEN) {
+        return { error: "Shift is already closed", httpStatus: 400 };
+      }
+
+      // Over is positive, short is negative
+      const expectedCash = buildShiftReport(shift).cash.expected;
+      const variance = sumPayments([
+        { amount: validatedData.countedCash },
+        { amount: -expectedCash },
+      ]);
+
+      await tx.cashShift.update({
+        where: { id: shift.id },
+        data: {
+          status: CashShiftStatus.CLOSED,
+          closedById: profile.id,
+          closedAt: new Date(),
+          expectedCash,
+          countedCash: validatedData.countedCash,
+          variance,
+          note: validatedData.note || shift.note,
+        },
+      });
+
+      const closed = await getShiftWithActivity(shift.id, tx);
+      return { report: buildShiftReport(closed!) };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result.report);
+  } catch (error) {
+    console.error("[CLOSE_SHIFT_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { CashShiftStatus, FinanceCategoryType, UserRole } from "@prisma/client";
+import { cashPayoutSchema } from "@/lib/validations/shift";
+import { buildShiftReport, getShiftWithActivity } from "@/lib/shiftUtils";
+import { CASH_PAYOUTS_CATEGORY_NAME, getOrCreateFinanceCategory } from "@/lib/financeUtils";
+
+// POST /api/pos/shifts/[id]/payouts - Take cash out of the drawer
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = cashPayoutSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const shift = await getShiftWithActivity(id, tx);
+
+      if (!shift || shift.companyId !== validatedData.companyId) {
+        return { error: "Shift not found", httpStatus: 404 };
+      }
+
+      if (shift.status !== CashShiftStatus.OPEN) {
+        return { error: "Payouts can only be made from an open shift", httpStatus: 400 };
+      }
+
+      const cashInDrawer = buildShiftReport(shift).cash.expected;
+      if (validatedData.amount > cashInDrawer) {
+        return {
+          error: `Payout exceeds the ${cashInDrawer.toFixed(2)} expected in the drawer`,
+          httpStatus: 400,
+        };
+      }
+
+      const category = await getOrCreateFinanceCategory(
+        shift.companyId,
+        CASH_PAYOUTS_CATEGORY_NAME,
+        FinanceCategoryType.EXPENSE,
+        tx
+      );
+
+      const financeTransaction = await tx.financeTransaction.create({
+        data: {
+          companyId: shift.companyId,
+          categoryId: category.id,
+          amount: validatedData.amount,
+          transactionDate: new Date(),
+          description: `Cash payout: ${validatedData.reason}`,
+          staffId: profile.id,
+        },
+      });
+
+      const payout = await tx.cashPayout.create({
+        data: {
+          companyId: shift.companyId,
+          shiftId: shift.id,
+          staffId: profile.id,
+          amount: validatedData.amount,
+          reason: validatedData.reason,
+          financeTransactionId: financeTransaction.id,
+        },
+      });
+
+      return { payout };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result.payout, { status: 201 });
+  } catch (error) {
+    console.error("[CASH_PAYOUT_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { buildShiftReport, getShiftWithActivity } from "@/lib/shiftUtils";
+
+// GET /api/pos/shifts/[id]/report - Z-report for a shift
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const shift = await getShiftWithActivity(id);
+
+    if (!shift || shift.companyId !== companyId) {
+      return NextResponse.json(
+        { error: "Shift not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(buildShiftReport(shift));
+  } catch (error) {
+    console.error("[GET_SHIFT_REPORT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { buildShiftReport, getOpenShift, getShiftWithActivity } from "@/lib/shiftUtils";
+
+// GET /api/pos/shifts/current - The open shift with its running totals
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const openShift = await getOpenShift(companyId);
+    const shift = openShift ? await getShiftWithActivity(openShift.id) : null;
+
+    return NextResponse.json({
+      shift: openShift,
+      report: shift ? buildShiftReport(shift) : null,
+    });
+  } catch (error) {
+    console.error("[GET_CURRENT_SHIFT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
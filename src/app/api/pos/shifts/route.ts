@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { Prisma, UserRole } from "@prisma/client";
+import { openShiftSchema } from "@/lib/validations/shift";
+import { getOpenShift } from "@/lib/shiftUtils";
+
+// GET /api/pos/shifts - Recent drawer shifts for a company
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const shifts = await prisma.cashShift.findMany({
+      where: { companyId },
+      include: {
+        openedBy: { select: { firstName: true, lastName: true } },
+        closedBy: { select: { firstName: true, lastName: true } },
+      },
+      orderBy: { openedAt: "desc" },
+      take: 30,
+    });
+
+    return NextResponse.json(shifts);
+  } catch (error) {
+    console.error("[GET_SHIFTS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/pos/shifts - Open a drawer shift with a counted float
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = openShiftSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    // There is a single cash drawer per company
+    const openShift = await getOpenShift(validatedData.companyId);
+    if (openShift) {
+      return NextResponse.json(
+        { error: "A shift is already open, close it before opening a new one" },
+        { status: 400 }
+      );
+    }
+
+    const shift = await prisma.cashShift.create({
+      data: {
+        companyId: validatedData.companyId,
+        openedById: profile.id,
+        openingFloat: validatedData.openingFloat,
+        note: validatedData.note || null,
+      },
+    });
+
+    return NextResponse.json(shift, { status: 201 });
+  } catch (error) {
+    console.error("[OPEN_SHIFT_ERROR]", error);
+
+    // Another shift was opened at the same time and took the drawer
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json(
+        { error: "A shift is already open" },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  BookingSlotTakenError,
+  bookingSettingsSelect,
+  createOnlineBooking,
+  getAvailableSlots,
+  getBookingDurations,
+  getBookingToday,
+  isBookableDate,
+} from "@/lib/bookingUtils";
+import { getClientIp, rateLimit } from "@/lib/rateLimit";
+import { availabilityQuerySchema, publicBookingSchema } from "@/lib/validations/booking";
+
+// These routes are open to anyone, so each caller gets a budget of requests
+const AVAILABILITY_LIMIT = { limit: 60, windowMs: 60 * 1000 };
+const BOOKING_LIMIT = { limit: 5, windowMs: 10 * 60 * 1000 };
+
+function tooManyRequests(retryAfter: number) {
+  return NextResponse.json(
+    { error: "Too many requests, please try again later" },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } }
+  );
+}
+
+async function getBookableCompany(companyId: string) {
+  // Anything that isn't a UUID can't be a company, and would make Postgres throw
+  if (!z.string().uuid().safeParse(companyId).success) return null;
+
+  const company = await db.company.findUnique({
+    where: { id: companyId },
+    select: { id: true, name: true, address: true, phone: true, ...bookingSettingsSelect },
+  });
+
+  return company?.onlineBookingEnabled ? company : null;
+}
+
+// GET /api/public/booking/[companyId] - Venue details, and free start times when a date and length are given
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { companyId: string } }
+) {
+  try {
+    const { allowed, retryAfter } = await rateLimit(
+      `booking-availability:${getClientIp(req)}`,
+      AVAILABILITY_LIMIT.limit,
+      AVAILABILITY_LIMIT.windowMs
+    );
+    if (!allowed) return tooManyRequests(retryAfter);
+
+    const company = await getBookableCompany(params.companyId);
+
+    if (!company) {
+      return NextResponse.json(
+        { error: "Online booking isn't available for this venue" },
+        { status: 404 }
+      );
+    }
+
+    const openingHours = await db.openingHours.findMany({
+      where: { companyId: company.id },
+      select: { weekday: true, opensAt: true, closesAt: true },
+      orderBy: { weekday: "asc" },
+    });
+
+    const venue = {
+      name: company.name,
+      address: company.address,
+      phone: company.phone,
+      timeZone: company.timeZone,
+      today: getBookingToday(company.timeZone),
+      daysAhead: company.bookingDaysAhead,
+      durations: getBookingDurations(company),
+      openingHours,
+    };
+
+    const searchParams = req.nextUrl.searchParams;
+    if (!searchParams.has("date")) {
+      return NextResponse.json({ venue });
+    }
+
+    const query = availabilityQuerySchema.parse({
+      date: searchParams.get("date"),
+      duration: searchParams.get("duration"),
+    });
+
+    if (!isBookableDate(query.date, company)) {
+      return NextResponse.json({ venue, slots: [] });
+    }
+
+    // Which tables are free is kept to the venue; customers only see times
+    const slots = await getAvailableSlots(company.id, company, query.date, query.duration);
+
+    return NextResponse.json({
+      venue,
+      slots: slots.map(({ start, end }) => ({ start, end })),
+    });
+  } catch (error) {
+    console.error("Error fetching booking availability:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to fetch availability" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/public/booking/[companyId] - Request a table, to be confirmed by staff
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { companyId: string } }
+) {
+  try {
+    const { allowed, retryAfter } = await rateLimit(
+      `booking-request:${getClientIp(req)}`,
+      BOOKING_LIMIT.limit,
+      BOOKING_LIMIT.windowMs
+    );
+    if (!allowed) return tooManyRequests(retryAfter);
+
+    const company = await getBookableCompany(params.companyId);
+
+    if (!company) {
+      return NextResponse.json(
+        { error: "Online booking isn't available for this venue" },
+        { status: 404 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = publicBookingSchema.parse(body);
+
+    const result = await createOnlineBooking(company.id, company, validatedData);
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    const { reservation } = result;
+
+    return NextResponse.json(
+      {
+        reservation: {
+          id: reservation.id,
+          reservedFrom: reservation.reservedFrom,
+          reservedTo: reservation.reservedTo,
+          status: reservation.status,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating online booking:", error);
+
+    if (error instanceof BookingSlotTakenError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create booking" },
+      { status: 500 }
+    );
+  }
+}
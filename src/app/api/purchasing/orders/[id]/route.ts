@@ -0,0 +1,217 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { PurchaseOrderStatus, UserRole } from "@prisma/client";
+import { purchaseOrderUpdateSchema } from "@/lib/validations/purchasing";
+import { purchaseOrderInclude } from "@/lib/purchasingUtils";
+
+// GET /api/purchasing/orders/[id]?companyId= - A purchase order with its lines and deliveries
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!companyId || !profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const order = await prisma.purchaseOrder.findUnique({
+      where: { id, companyId },
+      include: purchaseOrderInclude,
+    });
+
+    if (!order) {
+      return NextResponse.json(
+        { error: "Purchase order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(order);
+  } catch (error) {
+    console.error("[GET_PURCHASE_ORDER_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/purchasing/orders/[id] - Edit a draft, send it to the supplier, or cancel it.
+// Orders with deliveries booked against them can't be cancelled.
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...updateData } = body;
+    const validatedData = purchaseOrderUpdateSchema.parse(updateData);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage purchase orders" },
+        { status: 403 }
+      );
+    }
+
+    const { items, status, notes, expectedAt } = validatedData;
+
+    if (items) {
+      const itemCount = await prisma.inventoryItem.count({
+        where: { id: { in: items.map((item) => item.itemId) }, companyId },
+      });
+
+      if (itemCount !== items.length) {
+        return NextResponse.json(
+          { error: "Item not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const order = await tx.purchaseOrder.findUnique({
+        where: { id, companyId },
+      });
+
+      if (!order) {
+        return { error: "Purchase order not found", httpStatus: 404 };
+      }
+
+      if (order.status === PurchaseOrderStatus.CANCELLED) {
+        return { error: "Purchase order has been cancelled", httpStatus: 400 };
+      }
+
+      const isDraft = order.status === PurchaseOrderStatus.DRAFT;
+
+      if (items && !isDraft) {
+        return { error: "Only draft purchase orders can be edited", httpStatus: 400 };
+      }
+
+      if (status === PurchaseOrderStatus.SENT && !isDraft) {
+        return { error: "Only draft purchase orders can be sent", httpStatus: 400 };
+      }
+
+      if (status === PurchaseOrderStatus.CANCELLED && !isDraft && order.status !== PurchaseOrderStatus.SENT) {
+        return {
+          error: "Purchase orders can't be cancelled once stock has been received against them",
+          httpStatus: 400,
+        };
+      }
+
+      // Guard the status change so two people can't send and cancel at once
+      const { count } = await tx.purchaseOrder.updateMany({
+        where: { id: order.id, status: order.status },
+        data: {
+          ...(notes !== undefined ? { notes: notes || null } : {}),
+          ...(expectedAt !== undefined ? { expectedAt: expectedAt ? new Date(expectedAt) : null } : {}),
+          ...(status ? { status } : {}),
+          ...(status === PurchaseOrderStatus.SENT ? { sentAt: new Date() } : {}),
+        },
+      });
+
+      if (count === 0) {
+        return { error: "Purchase order was changed by someone else", httpStatus: 409 };
+      }
+
+      if (items) {
+        await tx.purchaseOrderItem.deleteMany({
+          where: { purchaseOrderId: order.id },
+        });
+        await tx.purchaseOrderItem.createMany({
+          data: items.map((item) => ({ ...item, purchaseOrderId: order.id })),
+        });
+      }
+
+      const updatedOrder = await tx.purchaseOrder.findUniqueOrThrow({
+        where: { id: order.id },
+        include: purchaseOrderInclude,
+      });
+
+      return { order: updatedOrder };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    return NextResponse.json(result.order);
+  } catch (error) {
+    console.error("[UPDATE_PURCHASE_ORDER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
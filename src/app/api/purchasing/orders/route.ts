@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { PurchaseOrderStatus, UserRole } from "@prisma/client";
+import { purchaseOrderSchema } from "@/lib/validations/purchasing";
+import { generatePurchaseOrderNumber, purchaseOrderInclude } from "@/lib/purchasingUtils";
+
+// GET /api/purchasing/orders?companyId=&status= - List a company's purchase orders
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+    const status = req.nextUrl.searchParams.get("status");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (status && !Object.values(PurchaseOrderStatus).includes(status as PurchaseOrderStatus)) {
+      return NextResponse.json(
+        { error: "Invalid status" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const orders = await prisma.purchaseOrder.findMany({
+      where: {
+        companyId,
+        ...(status ? { status: status as PurchaseOrderStatus } : {}),
+      },
+      include: purchaseOrderInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(orders);
+  } catch (error) {
+    console.error("[GET_PURCHASE_ORDERS_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/purchasing/orders - Draft a purchase order to a supplier
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...orderData } = body;
+    const validatedData = purchaseOrderSchema.parse(orderData);
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage purchase orders" },
+        { status: 403 }
+      );
+    }
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: validatedData.supplierId, companyId },
+    });
+
+    if (!supplier) {
+      return NextResponse.json(
+        { error: "Supplier not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!supplier.active) {
+      return NextResponse.json(
+        { error: `${supplier.name} is inactive` },
+        { status: 400 }
+      );
+    }
+
+    const itemCount = await prisma.inventoryItem.count({
+      where: { id: { in: validatedData.items.map((item) => item.itemId) }, companyId },
+    });
+
+    if (itemCount !== validatedData.items.length) {
+      return NextResponse.json(
+        { error: "Item not found" },
+        { status: 404 }
+      );
+    }
+
+    const order = await prisma.purchaseOrder.create({
+      data: {
+        companyId,
+        supplierId: supplier.id,
+        orderNumber: generatePurchaseOrderNumber(),
+        notes: validatedData.notes || null,
+        expectedAt: validatedData.expectedAt ? new Date(validatedData.expectedAt) : null,
+        createdById: profile.id,
+        items: { create: validatedData.items },
+      },
+      include: purchaseOrderInclude,
+    });
+
+    return NextResponse.json(order, { status: 201 });
+  } catch (error) {
+    console.error("[CREATE_PURCHASE_ORDER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { supplierUpdateSchema } from "@/lib/validations/purchasing";
+
+// PATCH /api/purchasing/suppliers/[id] - Update a supplier's details, or switch it off
+// Suppliers are retired by deactivating them, since purchase orders refer to them
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...updateData } = body;
+    const validatedData = supplierUpdateSchema.parse(updateData);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage suppliers" },
+        { status: 403 }
+      );
+    }
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!supplier) {
+      return NextResponse.json(
+        { error: "Supplier not found" },
+        { status: 404 }
+      );
+    }
+
+    const updatedSupplier = await prisma.supplier.update({
+      where: { id },
+      data: {
+        ...validatedData,
+        ...(validatedData.email !== undefined ? { email: validatedData.email || null } : {}),
+      },
+    });
+
+    return NextResponse.json(updatedSupplier);
+  } catch (error) {
+    console.error("[UPDATE_SUPPLIER_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { StocktakeStatus, UserRole } from "@prisma/client";
+import { stocktakeCountsSchema, stocktakeScanSchema } from "@/lib/validations/stocktake";
+import { addStocktakeScan, recordStocktakeCounts, StocktakeClosedError } from "@/lib/stocktakeUtils";
+
+// PUT /api/stocktakes/[id]/counts - Enter counted quantities for some of a stocktake's items.
+// Any staff member can count, and several can count different shelves at once.
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = stocktakeCountsSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const stocktake = await prisma.stocktake.findUnique({
+      where: { id, companyId: validatedData.companyId },
+      include: { items: { select: { itemId: true } } },
+    });
+
+    if (!stocktake) {
+      return NextResponse.json(
+        { error: "Stocktake not found" },
+        { status: 404 }
+      );
+    }
+
+    if (stocktake.status !== StocktakeStatus.IN_PROGRESS) {
+      return NextResponse.json(
+        { error: `Stocktake ${stocktake.reference} is no longer being counted` },
+        { status: 409 }
+      );
+    }
+
+    const itemIds = new Set(stocktake.items.map((item) => item.itemId));
+    if (validatedData.counts.some((count) => !itemIds.has(count.itemId))) {
+      return NextResponse.json(
+        { error: "Item is not part of this stocktake" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction((tx) =>
+      recordStocktakeCounts(stocktake, validatedData, profile.id, tx)
+    );
+
+    const counts = await prisma.stocktakeItem.findMany({
+      where: {
+        stocktakeId: stocktake.id,
+        itemId: { in: validatedData.counts.map((count) => count.itemId) },
+      },
+      include: { countedBy: { select: { id: true, firstName: true, lastName: true } } },
+    });
+
+    return NextResponse.json(counts);
+  } catch (error) {
+    console.error("[RECORD_STOCKTAKE_COUNTS_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof StocktakeClosedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/stocktakes/[id]/counts - Add scanned units to one item's count.
+// Unlike PUT this adds to the count, so scans from several devices don't overwrite each other.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const id = params.id;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = stocktakeScanSchema.parse(body);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === validatedData.companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const stocktake = await prisma.stocktake.findUnique({
+      where: { id, companyId: validatedData.companyId },
+      include: { items: { where: { itemId: validatedData.itemId }, select: { id: true } } },
+    });
+
+    if (!stocktake) {
+      return NextResponse.json(
+        { error: "Stocktake not found" },
+        { status: 404 }
+      );
+    }
+
+    if (stocktake.status !== StocktakeStatus.IN_PROGRESS) {
+      return NextResponse.json(
+        { error: `Stocktake ${stocktake.reference} is no longer being counted` },
+        { status: 409 }
+      );
+    }
+
+    if (stocktake.items.length === 0) {
+      return NextResponse.json(
+        { error: "Item is not part of this stocktake" },
+        { status: 400 }
+      );
+    }
+
+    await prisma.$transaction((tx) =>
+      addStocktakeScan(stocktake, validatedData, profile.id, tx)
+    );
+
+    const count = await prisma.stocktakeItem.findUnique({
+      where: { id: stocktake.items[0].id },
+      include: { countedBy: { select: { id: true, firstName: true, lastName: true } } },
+    });
+
+    return NextResponse.json(count);
+  } catch (error) {
+    console.error("[ADD_STOCKTAKE_SCAN_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof StocktakeClosedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { z } from "zod";
+import prisma from "@/lib/prisma";
+import { StocktakeStatus, UserRole } from "@prisma/client";
+import { stocktakeUpdateSchema } from "@/lib/validations/stocktake";
+import { stocktakeInclude } from "@/lib/stocktakeUtils";
+
+// GET /api/stocktakes/[id]?companyId= - A stocktake with what was expected and counted of each item
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!companyId || !profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    const stocktake = await prisma.stocktake.findUnique({
+      where: { id, companyId },
+      include: stocktakeInclude,
+    });
+
+    if (!stocktake) {
+      return NextResponse.json(
+        { error: "Stocktake not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(stocktake);
+  } catch (error) {
+    console.error("[GET_STOCKTAKE_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/stocktakes/[id] - Change a stocktake's notes, or cancel it while it is being counted
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId, ...updateData } = body;
+    const validatedData = stocktakeUpdateSchema.parse(updateData);
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can manage stocktakes" },
+        { status: 403 }
+      );
+    }
+
+    const { notes, status } = validatedData;
+
+    const stocktake = await prisma.stocktake.findUnique({
+      where: { id, companyId },
+    });
+
+    if (!stocktake) {
+      return NextResponse.json(
+        { error: "Stocktake not found" },
+        { status: 404 }
+      );
+    }
+
+    // Guard the status change so a stocktake can't be cancelled as it is posted
+    const { count } = await prisma.stocktake.updateMany({
+      where: {
+        id: stocktake.id,
+        ...(status ? { status: StocktakeStatus.IN_PROGRESS } : {}),
+      },
+      data: {
+        ...(notes !== undefined ? { notes: notes || null } : {}),
+        ...(status ? { status, cancelledAt: new Date() } : {}),
+      },
+    });
+
+    if (count === 0) {
+      return NextResponse.json(
+        { error: "Only a stocktake being counted can be cancelled" },
+        { status: 409 }
+      );
+    }
+
+    const updatedStocktake = await prisma.stocktake.findUniqueOrThrow({
+      where: { id: stocktake.id },
+      include: stocktakeInclude,
+    });
+
+    return NextResponse.json(updatedStocktake);
+  } catch (error) {
+    console.error("[UPDATE_STOCKTAKE_ERROR]", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
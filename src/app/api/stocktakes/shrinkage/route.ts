@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseRouteHandlerClient } from "@/lib/supabase/server-utils";
+import { endOfDay, endOfYear, isValid, parseISO, startOfDay, startOfYear } from "date-fns";
+import prisma from "@/lib/prisma";
+import { UserRole } from "@prisma/client";
+import { getShrinkageReport } from "@/lib/stocktakeUtils";
+
+// GET /api/stocktakes/shrinkage?companyId=&from=yyyy-MM-dd&to=yyyy-MM-dd - Stock found
+// short by the stocktakes posted in a period, by item and by count, this year by default
+export async function GET(req: NextRequest) {
+  try {
+    const supabase = createSupabaseRouteHandlerClient(req);
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const companyId = req.nextUrl.searchParams.get("companyId");
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "Company ID is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get user profile to check role and company access
+    const profile = await prisma.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    // Verify the user has access to this company
+    const isSuperadmin = profile?.role === UserRole.SUPERADMIN;
+    const isAssignedToCompany = profile?.companyId === companyId;
+
+    if (!profile || (!isSuperadmin && !isAssignedToCompany)) {
+      return NextResponse.json(
+        { error: "Unauthorized to access this company" },
+        { status: 403 }
+      );
+    }
+
+    // Only admins see costs
+    if (profile.role !== UserRole.ADMIN && !isSuperadmin) {
+      return NextResponse.json(
+        { error: "Only admins can view shrinkage" },
+        { status: 403 }
+      );
+    }
+
+    const now = new Date();
+    const fromParam = req.nextUrl.searchParams.get("from");
+    const toParam = req.nextUrl.searchParams.get("to");
+    const from = fromParam ? startOfDay(parseISO(fromParam)) : startOfYear(now);
+    const to = toParam ? endOfDay(parseISO(toParam)) : endOfYear(now);
+
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return NextResponse.json(
+        { error: "Provide a valid period" },
+        { status: 400 }
+      );
+    }
+
+    const report = await getShrinkageReport(companyId, from, to);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("[GET_SHRINKAGE_REPORT_ERROR]", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -202,6 +202,7 @@ export async function PUT(
       },
       data: {
         name: data.name,
+        type: data.type,
         status: data.status,
         hourlyRate: data.hourlyRate
       },
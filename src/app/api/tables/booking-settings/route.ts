@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { bookingSettingsSelect } from "@/lib/bookingUtils";
+import { bookingSettingsSchema } from "@/lib/validations/booking";
+
+const openingHoursSelect = { weekday: true, opensAt: true, closesAt: true } as const;
+
+// GET /api/tables/booking-settings - Get the online booking settings and opening hours
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const requestCompanyId = req.nextUrl.searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const [company, openingHours] = await Promise.all([
+      db.company.findUnique({
+        where: { id: companyId },
+        select: bookingSettingsSelect,
+      }),
+      db.openingHours.findMany({
+        where: { companyId },
+        select: openingHoursSelect,
+        orderBy: { weekday: "asc" },
+      }),
+    ]);
+
+    if (!company) {
+      return NextResponse.json(
+        { error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ settings: { ...company, openingHours } });
+  } catch (error) {
+    console.error("Error fetching booking settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch booking settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/tables/booking-settings - Update the online booking settings and replace the opening hours
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage online booking" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...settingsData } = body;
+    const { openingHours, ...validatedData } = bookingSettingsSchema.parse(settingsData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await db.$transaction(async (tx) => {
+      const company = await tx.company.update({
+        where: { id: companyId },
+        data: validatedData,
+        select: bookingSettingsSelect,
+      });
+
+      await tx.openingHours.deleteMany({ where: { companyId } });
+      await tx.openingHours.createMany({
+        data: openingHours.map((day) => ({ ...day, companyId })),
+      });
+
+      return { ...company, openingHours };
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "BOOKING_SETTINGS",
+        metadata: { ...validatedData, openDays: openingHours.map((day) => day.weekday) },
+      },
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error updating booking settings:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update booking settings" },
+      { status: 500 }
+    );
+  }
+}
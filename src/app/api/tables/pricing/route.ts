@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+
+const pricingSettingsSchema = z.object({
+  minimumCharge: z.number().min(0).nullable(),
+  billingIncrementMin: z.number().int().min(1).max(60),
+});
+
+// GET /api/tables/pricing - Get pricing rules and settings for the current company
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const requestCompanyId = req.nextUrl.searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const [rules, company] = await Promise.all([
+      db.pricingRule.findMany({
+        where: { companyId },
+        orderBy: [{ priority: "desc" }, { name: "asc" }],
+      }),
+      db.company.findUnique({
+        where: { id: companyId },
+        select: { minimumCharge: true, billingIncrementMin: true },
+      }),
+    ]);
+
+    if (!company) {
+      return NextResponse.json(
+        { error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ rules, settings: company });
+  } catch (error) {
+    console.error("Error fetching pricing rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch pricing rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/tables/pricing - Update minimum charge and billing increment
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage pricing" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...settingsData } = body;
+    const validatedData = pricingSettingsSchema.parse(settingsData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const settings = await db.company.update({
+      where: { id: companyId },
+      data: validatedData,
+      select: { minimumCharge: true, billingIncrementMin: true },
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "PRICING_SETTINGS",
+        metadata: validatedData,
+      },
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error updating pricing settings:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update pricing settings" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { pricingRuleSchema } from "@/lib/validations/pricing";
+
+// PATCH /api/tables/pricing/rules/[id] - Update a pricing rule
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const ruleId = params.id;
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage pricing" },
+        { status: 403 }
+      );
+    }
+
+    const existingRule = await db.pricingRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: "Pricing rule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.companyId !== existingRule.companyId &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Unauthorized to update this pricing rule" },
+        { status: 403 }
+      );
+    }
+
+    // Validate the merged rule so partial updates can't leave it inconsistent
+    const body = await req.json();
+    const validatedData = pricingRuleSchema.parse({
+      name: existingRule.name,
+      tableType: existingRule.tableType,
+      daysOfWeek: existingRule.daysOfWeek,
+      startTime: existingRule.startTime,
+      endTime: existingRule.endTime,
+      hourlyRate: Number(existingRule.hourlyRate),
+      priority: existingRule.priority,
+      active: existingRule.active,
+      ...body,
+    });
+
+    const rule = await db.pricingRule.update({
+      where: { id: ruleId },
+      data: validatedData,
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId: existingRule.companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "PRICING_RULE",
+        entityId: ruleId,
+        metadata: { name: rule.name, changes: Object.keys(body) },
+      },
+    });
+
+    return NextResponse.json({ rule });
+  } catch (error) {
+    console.error("Error updating pricing rule:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update pricing rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/tables/pricing/rules/[id] - Delete a pricing rule
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const ruleId = params.id;
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage pricing" },
+        { status: 403 }
+      );
+    }
+
+    const existingRule = await db.pricingRule.findUnique({
+      where: { id: ruleId },
+    });
+
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: "Pricing rule not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.companyId !== existingRule.companyId &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Unauthorized to delete this pricing rule" },
+        { status: 403 }
+      );
+    }
+
+    await db.pricingRule.delete({
+      where: { id: ruleId },
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId: existingRule.companyId,
+        userId: profile.id,
+        action: "DELETE",
+        entityType: "PRICING_RULE",
+        entityId: ruleId,
+        metadata: { name: existingRule.name },
+      },
+    });
+
+    return NextResponse.json(
+      { message: "Pricing rule deleted successfully" },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error("Error deleting pricing rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete pricing rule" },
+      { status: 500 }
+    );
+  }
+}
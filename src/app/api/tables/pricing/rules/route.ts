@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { pricingRuleSchema } from "@/lib/validations/pricing";
+
+// POST /api/tables/pricing/rules - Create a pricing rule
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage pricing" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...ruleData } = body;
+    const validatedData = pricingRuleSchema.parse(ruleData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const rule = await db.pricingRule.create({
+      data: {
+        ...validatedData,
+        companyId,
+      },
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "CREATE",
+        entityType: "PRICING_RULE",
+        entityId: rule.id,
+        metadata: { name: rule.name, hourlyRate: validatedData.hourlyRate },
+      },
+    });
+
+    return NextResponse.json(
+      { rule },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating pricing rule:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create pricing rule" },
+      { status: 500 }
+    );
+  }
+}
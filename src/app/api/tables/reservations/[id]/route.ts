@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { UserRole } from "@prisma/client";
+import {
+  OccurrenceClash,
+  findConflictingReservations,
+  findOccurrenceClashes,
+  getReservationsInScope,
+  lockTableReservations,
+} from "@/lib/reservationUtils";
+import { moveByWallTime } from "@/lib/recurrenceUtils";
+import { reservationEditScopeSchema, timeZoneSchema } from "@/lib/validations/reservation";
 
 // GET /api/tables/reservations/[id] - Get a specific reservation
 export async function GET(
@@ -83,12 +93,18 @@ export async function PATCH(
     const reservationId = params.id;
     const body = await req.json();
     const { 
+      tableId,
       customerName, 
       customerPhone, 
+      customerId,
       reservedFrom, 
       reservedTo, 
-      status 
+      status,
+      // "future" also changes the later bookings in the reservation's series
+      scope,
+      timeZone
     } = body;
+    const editScope = reservationEditScopeSchema.parse(scope);
 
     // Get the current user
     const session = await auth();
@@ -134,67 +150,222 @@ export async function PATCH(
       );
     }
 
-    // Check for conflicting reservations if times are changing
-    let conflictCheck = false;
-    if (
-      (reservedFrom && new Date(reservedFrom).toString() !== existingReservation.reservedFrom.toString()) ||
-      (reservedTo && new Date(reservedTo).toString() !== existingReservation.reservedTo.toString())
-    ) {
-      // Only check for conflicts if we're not cancelling the reservation
-      if (status !== "CANCELLED") {
-        const newFrom = reservedFrom ? new Date(reservedFrom) : existingReservation.reservedFrom;
-        const newTo = reservedTo ? new Date(reservedTo) : existingReservation.reservedTo;
-        
-        const conflictingReservations = await db.tableReservation.findMany({
-          where: {
-            tableId: existingReservation.tableId,
-            id: { not: reservationId }, // Exclude current reservation
-            status: { not: "CANCELLED" },
-            OR: [
-              // New reservation starts during an existing reservation
-              {
-                reservedFrom: { lte: newFrom },
-                reservedTo: { gt: newFrom }
-              },
-              // New reservation ends during an existing reservation
-              {
-                reservedFrom: { lt: newTo },
-                reservedTo: { gte: newTo }
-              },
-              // New reservation completely contains an existing reservation
-              {
-                reservedFrom: { gte: newFrom },
-                reservedTo: { lte: newTo }
-              }
-            ]
+    // Verify the customer belongs to the same company
+    if (customerId) {
+      const customer = await db.customer.findUnique({
+        where: { id: customerId, companyId: existingReservation.companyId },
+      });
+
+      if (!customer) {
+        return NextResponse.json(
+          { error: "Customer not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Moving to another table keeps the reservation within the company
+    if (tableId && tableId !== existingReservation.tableId) {
+      const table = await db.table.findUnique({
+        where: { id: tableId, companyId: existingReservation.companyId },
+      });
+
+      if (!table) {
+        return NextResponse.json(
+          { error: "Table not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (editScope === "future" && existingReservation.seriesId) {
+      const zone = timeZone ? timeZoneSchema.parse(timeZone) : undefined;
+      const newFrom = reservedFrom ? new Date(reservedFrom) : existingReservation.reservedFrom;
+      const newTo = reservedTo ? new Date(reservedTo) : existingReservation.reservedTo;
+      const tableChanged = Boolean(tableId) && tableId !== existingReservation.tableId;
+      const timesChanged =
+        newFrom.getTime() !== existingReservation.reservedFrom.getTime() ||
+        newTo.getTime() !== existingReservation.reservedTo.getTime();
+
+      if (newTo <= newFrom) {
+        return NextResponse.json(
+          { error: "A reservation must end after it starts" },
+          { status: 400 }
+        );
+      }
+
+      // Lock the tables the series is on and the one it moves to, then read
+      // the bookings again, so nothing can be booked between the check and the save
+      const seriesTableIds = (await getReservationsInScope(existingReservation, "future")).map(
+        (target) => target.tableId
+      );
+      const result = await db.$transaction(async (tx) => {
+        await lockTableReservations(tx, [...seriesTableIds, ...(tableChanged ? [tableId] : [])]);
+
+        // Later bookings start and end as much earlier or later as this one
+        // does, so any that were changed on their own keep their differences
+        const targets = await getReservationsInScope(existingReservation, "future", tx);
+        const updates = targets.map((target) => ({
+          id: target.id,
+          tableId: tableChanged ? tableId : target.tableId,
+          status: status || target.status,
+          reservedFrom: timesChanged
+            ? moveByWallTime(target.reservedFrom, existingReservation.reservedFrom, newFrom, zone)
+            : target.reservedFrom,
+          reservedTo: timesChanged
+            ? moveByWallTime(target.reservedTo, existingReservation.reservedTo, newTo, zone)
+            : target.reservedTo,
+        }));
+
+        if (updates.some((update) => update.reservedTo <= update.reservedFrom)) {
+          return { error: "Some bookings in the series would end before they start", httpStatus: 400 };
+        }
+
+        // Check every booking that stays active before saving any of them,
+        // including cancelled ones being made active again
+        if (tableChanged || timesChanged || status) {
+          const byTable = new Map<string, typeof updates>();
+          for (const update of updates) {
+            if (update.status === "CANCELLED") continue;
+            byTable.set(update.tableId, [...(byTable.get(update.tableId) ?? []), update]);
           }
-        });
 
-        if (conflictingReservations.length > 0) {
-          return NextResponse.json(
-            { 
-              error: "This table is already reserved during this time period",
-              conflicts: conflictingReservations
-            },
-            { status: 409 }
-          );
+          const targetIds = targets.map((target) => target.id);
+          const clashes: OccurrenceClash[] = [];
+          for (const [clashTableId, tableUpdates] of byTable) {
+            clashes.push(...(await findOccurrenceClashes(clashTableId, tableUpdates, targetIds, tx)));
+          }
+
+          if (clashes.length > 0) {
+            return {
+              error: `${clashes.length} of the ${updates.length} bookings clash with other reservations`,
+              httpStatus: 409,
+              clashes,
+            };
+          }
         }
+
+        const updatedReservations = await Promise.all(
+          updates.map((update) =>
+            tx.tableReservation.update({
+              where: { id: update.id },
+              data: {
+                tableId: update.tableId,
+                status: update.status,
+                reservedFrom: update.reservedFrom,
+                reservedTo: update.reservedTo,
+                ...(customerName !== undefined ? { customerName } : {}),
+                ...(customerPhone !== undefined ? { customerPhone } : {}),
+                ...(customerId !== undefined ? { customerId: customerId || null } : {}),
+              },
+            })
+          )
+        );
+
+        return { updatedReservations };
+      });
+
+      const { updatedReservations } = result;
+      if (!updatedReservations) {
+        return NextResponse.json(
+          { error: result.error, ...(result.clashes ? { clashes: result.clashes } : {}) },
+          { status: result.httpStatus }
+        );
       }
+
+      // Create an activity log entry
+      await db.tableActivityLog.create({
+        data: {
+          companyId: existingReservation.companyId,
+          userId: profile.id,
+          action: "UPDATE",
+          entityType: "RESERVATION_SERIES",
+          entityId: existingReservation.seriesId,
+          metadata: {
+            reservationId,
+            tableId: tableId || existingReservation.tableId,
+            previousTableId: existingReservation.tableId,
+            customerName: customerName ?? existingReservation.customerName,
+            newStatus: status ?? null,
+            occurrences: updatedReservations.length,
+            fromReservedFrom: existingReservation.reservedFrom.toISOString(),
+          },
+        },
+      });
+
+      return NextResponse.json({
+        reservation: updatedReservations.find((reservation) => reservation.id === reservationId),
+        reservations: updatedReservations,
+      });
     }
 
+    const newFrom = reservedFrom ? new Date(reservedFrom) : existingReservation.reservedFrom;
+    const newTo = reservedTo ? new Date(reservedTo) : existingReservation.reservedTo;
+    const newTableId = tableId || existingReservation.tableId;
+    const newStatus = status || existingReservation.status;
+
+    if (newTo <= newFrom) {
+      return NextResponse.json(
+        { error: "A reservation must end after it starts" },
+        { status: 400 }
+      );
+    }
+
+    // Check for conflicts if the table or times change, or a cancelled
+    // reservation is made active again, unless it ends up cancelled
+    const needsConflictCheck =
+      newStatus !== "CANCELLED" &&
+      (newTableId !== existingReservation.tableId ||
+        newFrom.getTime() !== existingReservation.reservedFrom.getTime() ||
+        newTo.getTime() !== existingReservation.reservedTo.getTime() ||
+        existingReservation.status === "CANCELLED");
+
     // Update the reservation
     const updateData: any = {};
+    if (tableId) updateData.tableId = tableId;
     if (customerName !== undefined) updateData.customerName = customerName;
     if (customerPhone !== undefined) updateData.customerPhone = customerPhone;
+    if (customerId !== undefined) updateData.customerId = customerId || null;
     if (reservedFrom) updateData.reservedFrom = new Date(reservedFrom);
     if (reservedTo) updateData.reservedTo = new Date(reservedTo);
     if (status) updateData.status = status;
 
-    const updatedReservation = await db.tableReservation.update({
-      where: { id: reservationId },
-      data: updateData,
+    const result = await db.$transaction(async (tx) => {
+      if (needsConflictCheck) {
+        await lockTableReservations(tx, [newTableId]);
+
+        const conflicts = await findConflictingReservations(
+          newTableId,
+          newFrom,
+          newTo,
+          reservationId,
+          tx
+        );
+
+        if (conflicts.length > 0) {
+          return { conflicts };
+        }
+      }
+
+      const reservation = await tx.tableReservation.update({
+        where: { id: reservationId },
+        data: updateData,
+      });
+
+      return { reservation };
     });
 
+    const { reservation: updatedReservation } = result;
+    if (!updatedReservation) {
+      return NextResponse.json(
+        { 
+          error: "This table is already reserved during this time period",
+          conflicts: result.conflicts
+        },
+        { status: 409 }
+      );
+    }
+
     // Create an activity log entry
     await db.tableActivityLog.create({
       data: {
@@ -204,7 +375,8 @@ export async function PATCH(
         entityType: "RESERVATION",
         entityId: reservationId,
         metadata: { 
-          tableId: existingReservation.tableId,
+          tableId: updatedReservation.tableId,
+          previousTableId: existingReservation.tableId,
           customerName: updatedReservation.customerName,
           previousStatus: existingReservation.status,
           newStatus: updatedReservation.status,
@@ -216,6 +388,14 @@ export async function PATCH(
     return NextResponse.json({ reservation: updatedReservation });
   } catch (error) {
     console.error("Error updating reservation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to update reservation" },
       { status: 500 }
@@ -230,6 +410,10 @@ export async function DELETE(
 ) {
   try {
     const reservationId = params.id;
+    // "future" also deletes the later bookings in the reservation's series
+    const scope = reservationEditScopeSchema.parse(
+      req.nextUrl.searchParams.get("scope") ?? undefined
+    );
 
     // Get the current user
     const session = await auth();
@@ -275,6 +459,53 @@ export async function DELETE(
       );
     }
 
+    if (scope === "future" && existingReservation.seriesId) {
+      const seriesId = existingReservation.seriesId;
+      const seriesTableIds = (await getReservationsInScope(existingReservation, scope)).map(
+        (target) => target.tableId
+      );
+
+      // The bookings are read again under the tables' locks, so one moved
+      // into the series' future meanwhile is deleted along with the rest
+      const targets = await db.$transaction(async (tx) => {
+        await lockTableReservations(tx, seriesTableIds);
+        const lockedTargets = await getReservationsInScope(existingReservation, scope, tx);
+
+        await tx.tableReservation.deleteMany({
+          where: { id: { in: lockedTargets.map((target) => target.id) } },
+        });
+        // Nothing is left of a series deleted from its first booking
+        await tx.reservationSeries.deleteMany({
+          where: { id: seriesId, reservations: { none: {} } },
+        });
+
+        return lockedTargets;
+      });
+
+      // Create an activity log entry
+      await db.tableActivityLog.create({
+        data: {
+          companyId: existingReservation.companyId,
+          userId: profile.id,
+          action: "DELETE",
+          entityType: "RESERVATION_SERIES",
+          entityId: seriesId,
+          metadata: {
+            reservationId,
+            tableId: existingReservation.tableId,
+            customerName: existingReservation.customerName,
+            occurrences: targets.length,
+            fromReservedFrom: existingReservation.reservedFrom.toISOString(),
+          },
+        },
+      });
+
+      return NextResponse.json(
+        { message: `${targets.length} reservations deleted successfully` },
+        { status: 200 }
+      );
+    }
+
     // Delete the reservation
     await db.tableReservation.delete({
       where: { id: reservationId },
@@ -303,6 +534,14 @@ export async function DELETE(
     );
   } catch (error) {
     console.error("Error deleting reservation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to delete reservation" },
       { status: 500 }
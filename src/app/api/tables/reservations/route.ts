@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { UserRole } from "@prisma/client";
+import {
+  findConflictingReservations,
+  findOccurrenceClashes,
+  lockTableReservations,
+} from "@/lib/reservationUtils";
+import { MAX_SERIES_OCCURRENCES, getOccurrences } from "@/lib/recurrenceUtils";
+import { reservationRecurrenceSchema, timeZoneSchema } from "@/lib/validations/reservation";
 
 // GET /api/tables/reservations - Get all reservations for the current company
 export async function GET(req: NextRequest) {
@@ -32,6 +40,7 @@ export async function GET(req: NextRequest) {
     const requestCompanyId = searchParams.get("companyId");
     const tableId = searchParams.get("tableId");
     const status = searchParams.get("status");
+    const source = searchParams.get("source");
     const date = searchParams.get("date");
     
     // For superadmins, use the companyId from the request
@@ -71,6 +80,10 @@ export async function GET(req: NextRequest) {
     if (status) {
       where.status = status;
     }
+
+    if (source) {
+      where.source = source;
+    }
     
     if (date) {
       const selectedDate = new Date(date);
@@ -113,6 +126,20 @@ export async function GET(req: NextRequest) {
             status: true,
           },
         },
+        customer: {
+          select: {
+            id: true,
+            name: true,
+            phone: true,
+          },
+        },
+        series: {
+          select: {
+            id: true,
+            frequency: true,
+            timeZone: true,
+          },
+        },
       },
       orderBy: { reservedFrom: "asc" },
     });
@@ -135,10 +162,14 @@ export async function POST(req: NextRequest) {
       tableId, 
       customerName, 
       customerPhone, 
+      customerId,
       reservedFrom, 
       reservedTo, 
       status = "PENDING",
-      companyId 
+      companyId,
+      // Set to book the table again on a schedule, see reservationRecurrenceSchema
+      recurrence,
+      timeZone
     } = body;
 
     if (!companyId) {
@@ -209,53 +240,182 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Check for conflicting reservations
-    const conflictingReservations = await db.tableReservation.findMany({
-      where: {
-        tableId,
-        status: { not: "CANCELLED" },
-        OR: [
-          // New reservation starts during an existing reservation
-          {
-            reservedFrom: { lte: new Date(reservedFrom) },
-            reservedTo: { gt: new Date(reservedFrom) }
+    // Verify the customer belongs to the same company
+    if (customerId) {
+      const customer = await db.customer.findUnique({
+        where: { id: customerId, companyId },
+      });
+
+      if (!customer) {
+        return NextResponse.json(
+          { error: "Customer not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (new Date(reservedTo) <= new Date(reservedFrom)) {
+      return NextResponse.json(
+        { error: "A reservation must end after it starts" },
+        { status: 400 }
+      );
+    }
+
+    // A repeating booking is saved as one reservation per occurrence
+    if (recurrence) {
+      const rule = reservationRecurrenceSchema.parse(recurrence);
+      const zone = timeZone ? timeZoneSchema.parse(timeZone) : undefined;
+      const occurrences = getOccurrences(
+        { reservedFrom: new Date(reservedFrom), reservedTo: new Date(reservedTo) },
+        rule,
+        zone
+      );
+
+      if (occurrences.length > MAX_SERIES_OCCURRENCES) {
+        return NextResponse.json(
+          { error: `A series can't have more than ${MAX_SERIES_OCCURRENCES} bookings` },
+          { status: 400 }
+        );
+      }
+
+      if (occurrences.length < 2) {
+        return NextResponse.json(
+          { error: "The series ends before its second booking" },
+          { status: 400 }
+        );
+      }
+
+      // A booking longer than the gap between repeats would run into the next one
+      if (occurrences.some((occurrence, index) => index > 0 && occurrences[index - 1].reservedTo > occurrence.reservedFrom)) {
+        return NextResponse.json(
+          { error: "Each booking in the series has to end before the next one starts" },
+          { status: 400 }
+        );
+      }
+
+      const result = await db.$transaction(async (tx) => {
+        await lockTableReservations(tx, [tableId]);
+
+        // Every clash is reported at once, so they can all be sorted out
+        // before anything is saved
+        const clashes = await findOccurrenceClashes(tableId, occurrences, [], tx);
+        if (clashes.length > 0) {
+          return { clashes };
+        }
+
+        const series = await tx.reservationSeries.create({
+          data: {
+            companyId,
+            frequency: rule.frequency,
+            until: rule.until ?? null,
+            occurrenceCount: rule.count ?? null,
+            timeZone: zone ?? null,
           },
-          // New reservation ends during an existing reservation
+        });
+
+        const reservations = await tx.tableReservation.createManyAndReturn({
+          data: occurrences.map((occurrence) => ({
+            tableId,
+            companyId,
+            seriesId: series.id,
+            customerName,
+            customerPhone,
+            customerId: customerId || null,
+            reservedFrom: occurrence.reservedFrom,
+            reservedTo: occurrence.reservedTo,
+            status,
+          })),
+        });
+
+        return {
+          series,
+          reservations: reservations.sort(
+            (a, b) => a.reservedFrom.getTime() - b.reservedFrom.getTime()
+          ),
+        };
+      });
+
+      if (result.clashes) {
+        return NextResponse.json(
           {
-            reservedFrom: { lt: new Date(reservedTo) },
-            reservedTo: { gte: new Date(reservedTo) }
+            error: `${result.clashes.length} of the ${occurrences.length} bookings clash with other reservations`,
+            clashes: result.clashes
           },
-          // New reservation completely contains an existing reservation
-          {
-            reservedFrom: { gte: new Date(reservedFrom) },
-            reservedTo: { lte: new Date(reservedTo) }
-          }
-        ]
+          { status: 409 }
+        );
+      }
+
+      const { series, reservations } = result;
+
+      // Create an activity log entry
+      await db.tableActivityLog.create({
+        data: {
+          companyId,
+          userId: profile.id,
+          action: "CREATE",
+          entityType: "RESERVATION_SERIES",
+          entityId: series.id,
+          metadata: {
+            tableId,
+            customerName,
+            frequency: series.frequency,
+            occurrences: reservations.length,
+            reservedFrom: occurrences[0].reservedFrom.toISOString(),
+            lastReservedFrom: occurrences[occurrences.length - 1].reservedFrom.toISOString(),
+          },
+        },
+      });
+
+      return NextResponse.json(
+        { reservation: reservations[0], reservations, series },
+        { status: 201 }
+      );
+    }
+
+    const result = await db.$transaction(async (tx) => {
+      await lockTableReservations(tx, [tableId]);
+
+      // Check for conflicting reservations
+      const conflicts = await findConflictingReservations(
+        tableId,
+        new Date(reservedFrom),
+        new Date(reservedTo),
+        undefined,
+        tx
+      );
+
+      if (conflicts.length > 0) {
+        return { conflicts };
       }
+
+      // Create the reservation
+      const reservation = await tx.tableReservation.create({
+        data: {
+          tableId,
+          companyId,
+          customerName,
+          customerPhone,
+          customerId: customerId || null,
+          reservedFrom: new Date(reservedFrom),
+          reservedTo: new Date(reservedTo),
+          status,
+        },
+      });
+
+      return { reservation };
     });
 
-    if (conflictingReservations.length > 0) {
+    if (result.conflicts) {
       return NextResponse.json(
         { 
           error: "This table is already reserved during this time period",
-          conflicts: conflictingReservations
+          conflicts: result.conflicts
         },
         { status: 409 }
       );
     }
 
-    // Create the reservation
-    const reservation = await db.tableReservation.create({
-      data: {
-        tableId,
-        companyId,
-        customerName,
-        customerPhone,
-        reservedFrom: new Date(reservedFrom),
-        reservedTo: new Date(reservedTo),
-        status,
-      },
-    });
+    const { reservation } = result;
 
     // Create an activity log entry
     await db.tableActivityLog.create({
@@ -280,6 +440,14 @@ export async function POST(req: NextRequest) {
     );
   } catch (error) {
     console.error("Error creating reservation:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to create reservation" },
       { status: 500 }
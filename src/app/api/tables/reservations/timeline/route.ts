@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { getReservationTimeline } from "@/lib/reservationUtils";
+
+// The longest period the timeline shows at once is a week
+const MAX_RANGE_DAYS = 14;
+
+// GET /api/tables/reservations/timeline?companyId=&from=&to= - Reservations,
+// active sessions and maintenance for every table between two times
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = req.nextUrl.searchParams;
+    const requestCompanyId = searchParams.get("companyId");
+    const from = new Date(searchParams.get("from") ?? "");
+    const to = new Date(searchParams.get("to") ?? "");
+
+    // Superadmins pick the company, everyone else sees their own
+    const companyId = profile.role === UserRole.SUPERADMIN ? requestCompanyId : profile.companyId;
+
+    if (profile.role !== UserRole.SUPERADMIN && requestCompanyId && requestCompanyId !== companyId) {
+      return NextResponse.json(
+        { error: "Unauthorized access to company data" },
+        { status: 403 }
+      );
+    }
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to <= from) {
+      return NextResponse.json(
+        { error: "A valid from and to are required" },
+        { status: 400 }
+      );
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `The timeline covers at most ${MAX_RANGE_DAYS} days` },
+        { status: 400 }
+      );
+    }
+
+    const timeline = await getReservationTimeline(companyId, from, to);
+
+    return NextResponse.json(timeline);
+  } catch (error) {
+    console.error("Error fetching reservation timeline:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch reservation timeline" },
+      { status: 500 }
+    );
+  }
+}
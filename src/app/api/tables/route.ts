@@ -19,6 +19,7 @@ export const GET = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
           },
           sessions: {
             where: { endedAt: null },
+            include: { pauses: true },
           },
         },
         orderBy: { name: "asc" },
@@ -47,6 +48,7 @@ export const GET = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
         },
         sessions: {
           where: { endedAt: null },
+          include: { pauses: true },
         },
       },
       orderBy: { name: "asc" },
@@ -66,7 +68,7 @@ export const GET = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
 export const POST = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId }) => {
   try {
     const body = await req.json();
-    const { name, hourlyRate, status, companyId: requestedCompanyId } = body;
+    const { name, type, hourlyRate, status, companyId: requestedCompanyId } = body;
 
     // For regular users, we use their effectiveCompanyId
     // For superadmins, they can specify a company
@@ -119,6 +121,7 @@ export const POST = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyI
     const newTable = await db.table.create({
       data: {
         name,
+        type: type || null,
         hourlyRate,
         status: status || "AVAILABLE",
         companyId: targetCompanyId,
@@ -133,7 +136,7 @@ export const POST = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyI
         action: "CREATE",
         entityType: "TABLE",
         entityId: newTable.id,
-        metadata: { name, hourlyRate, status },
+        metadata: { name, type, hourlyRate, status },
       },
     });
 
@@ -154,7 +157,7 @@ export const POST = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyI
 export const PUT = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId }) => {
   try {
     const body = await req.json();
-    const { id, name, hourlyRate, status } = body;
+    const { id, name, type, hourlyRate, status } = body;
     
     if (!id) {
       return NextResponse.json(
@@ -204,6 +207,7 @@ export const PUT = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
       where: { id },
       data: {
         name: name !== undefined ? name : undefined,
+        type: type !== undefined ? type : undefined,
         hourlyRate: hourlyRate !== undefined ? hourlyRate : undefined,
         status: status !== undefined ? status : undefined,
       },
@@ -219,6 +223,7 @@ export const PUT = withAuth(async (req, { user, isSuperAdmin, effectiveCompanyId
         entityId: table.id,
         metadata: { 
           name: name !== undefined ? name : undefined,
+          type: type !== undefined ? type : undefined,
           hourlyRate: hourlyRate !== undefined ? hourlyRate : undefined,
           status: status !== undefined ? status : undefined
         },
@@ -0,0 +1,590 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { FinanceCategoryType, Prisma, ReversalStatus } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { calculateSessionDuration, getSessionEndTime } from "@/lib/tableUtils";
+import {
+  calculateSessionCostBreakdown,
+  closeRunningSession,
+  getEarlierTabTime,
+  getPricingContext,
+  getTransferredSessions,
+  SessionAlreadyEndedError,
+  SessionCostBreakdown,
+} from "@/lib/pricingUtils";
+import {
+  BillOrder,
+  BillTransfer,
+  calculateBillTotals,
+  calculateNetSales,
+  calculateTimeTaxes,
+  getOrderOutstanding,
+} from "@/lib/checkoutUtils";
+import { getOrCreateFinanceCategory, SALES_CATEGORY_NAME } from "@/lib/financeUtils";
+import { calculateChange, sumPayments } from "@/lib/paymentUtils";
+import { getOpenShift } from "@/lib/shiftUtils";
+import { TabChargeError, validateTabCharge } from "@/lib/customerUtils";
+import {
+  AppliedMemberBenefits,
+  MemberBenefitsUsedError,
+  priceSessionForCustomer,
+  recordMemberBenefits,
+} from "@/lib/membershipUtils";
+import { getAddedTax, getTaxSettings, getTotalTax } from "@/lib/taxUtils";
+import {
+  applyComboTableTime,
+  ComboTimeCredit,
+  recordComboTableTime,
+} from "@/lib/promotionUtils";
+import { checkoutSchema, DiscountValues } from "@/lib/validations/checkout";
+import { TAB_PAYMENT_METHOD } from "@/lib/validations/payment";
+
+/**
+ * Find the session to check out: the table's running session,
+ * or an ended session on this table that hasn't been paid yet
+ */
+async function findCheckoutSession(tableId: string, sessionId?: string | null) {
+  return db.tableSession.findFirst({
+    where: sessionId ? { id: sessionId, tableId } : { tableId, endedAt: null },
+    include: {
+      table: true,
+      pauses: true,
+      checkout: true,
+      customer: true,
+      memberBenefit: true,
+      comboTimeUsages: true,
+    },
+  });
+}
+
+type CheckoutSession = NonNullable<Awaited<ReturnType<typeof findCheckoutSession>>>;
+
+/**
+ * Aggregate table time (including tables the session was moved from)
+ * and all unpaid orders on the tab into one bill
+ */
+async function buildBill(
+  session: CheckoutSession,
+  endTime: Date,
+  adjustments: { discount?: DiscountValues | null; tipAmount?: number } = {}
+) {
+  const pauses = session.pauses.map((pause) => ({
+    pausedAt: pause.pausedAt,
+    resumedAt: pause.resumedAt ?? endTime,
+  }));
+
+  // Only running sessions need their time priced, ended ones already have a cost
+  let costBreakdown: SessionCostBreakdown | null = null;
+  let durationMin = session.durationMin ?? 0;
+  let sessionCost = Number(session.totalCost ?? 0);
+  let comboTime: ComboTimeCredit | null = null;
+  let memberBenefits: AppliedMemberBenefits | null = null;
+  let membershipId: string | null = null;
+
+  const previousSessions = await getTransferredSessions(session.id);
+
+  if (!session.endedAt) {
+    const { rules, settings } = await getPricingContext(session.companyId);
+    costBreakdown = calculateSessionCostBreakdown(
+      { startedAt: session.startedAt, endedAt: endTime, pauses },
+      session.table,
+      rules,
+      settings,
+      getEarlierTabTime(previousSessions)
+    );
+    durationMin = calculateSessionDuration({ ...session, endedAt: endTime, pauses });
+
+    // Time bought with combo deals is already paid for. Members pay less
+    // for the rest, or nothing if their hours cover it.
+    comboTime = await applyComboTableTime(
+      session.id,
+      costBreakdown.billedMinutes,
+      costBreakdown.total,
+      db
+    );
+    const { benefits, applied } = await priceSessionForCustomer(
+      session.customerId,
+      comboTime.billedMinutes,
+      comboTime.grossCost,
+      endTime,
+      db
+    );
+    memberBenefits = applied;
+    membershipId = benefits?.membership?.id ?? null;
+    sessionCost = applied ? applied.netCost : comboTime.grossCost;
+  } else if (session.memberBenefit) {
+    memberBenefits = {
+      grossCost: Number(session.memberBenefit.grossCost),
+      freeMinutes: session.memberBenefit.freeMinutes,
+      prepaidMinutes: session.memberBenefit.prepaidMinutes,
+      prepaidUsages: [],
+      coveredAmount: Number(session.memberBenefit.coveredAmount),
+      discountAmount: Number(session.memberBenefit.discountAmount),
+      netCost: sessionCost,
+    };
+  }
+
+  // Ended sessions show the combo time that was already taken off
+  if (session.endedAt && session.comboTimeUsages.length > 0) {
+    comboTime = {
+      minutes: session.comboTimeUsages.reduce((sum, usage) => sum + usage.minutes, 0),
+      credit: sumPayments(session.comboTimeUsages.map((usage) => ({ amount: Number(usage.credit) }))),
+      usages: [],
+      billedMinutes: 0,
+      grossCost: 0,
+    };
+  }
+
+  const transfers: BillTransfer[] = previousSessions.map((previous) => ({
+    sessionId: previous.id,
+    tableName: previous.table.name,
+    durationMin: previous.durationMin ?? 0,
+    cost: Number(previous.totalCost ?? 0),
+  }));
+
+  // Voided orders aren't charged, and refunds approved before payment are
+  // taken off what's owed
+  const posOrders = await db.posOrder.findMany({
+    where: {
+      tableSessionId: { in: [session.id, ...transfers.map((transfer) => transfer.sessionId)] },
+      voidedAt: null,
+    },
+    include: { reversals: { where: { status: ReversalStatus.APPROVED }, select: { amount: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const orders: BillOrder[] = posOrders.map((order) => {
+    const totalAmount = Number(order.totalAmount ?? 0);
+    const paidAmount = Number(order.paidAmount ?? 0);
+    const refundedAmount = sumPayments(order.reversals.map((reversal) => ({ amount: Number(reversal.amount) })));
+    return {
+      id: order.id,
+      orderNumber: order.orderNumber,
+      totalAmount,
+      paidAmount,
+      refundedAmount,
+      outstanding: getOrderOutstanding(totalAmount, paidAmount, refundedAmount),
+    };
+  });
+
+  // Orders carry their own tax, only table time is taxed here
+  const timeCost = transfers.reduce((sum, transfer) => sum + transfer.cost, sessionCost);
+  const ordersTotal = orders.reduce((sum, order) => sum + order.outstanding, 0);
+  const { pricesIncludeTax, tableTimeTaxRate } = await getTaxSettings(session.companyId, db);
+  const taxes = calculateTimeTaxes({
+    timeCost,
+    ordersTotal,
+    discount: adjustments.discount,
+    taxRate: tableTimeTaxRate,
+    inclusive: pricesIncludeTax,
+  });
+
+  // The tax in what's still owed on the orders
+  const ordersTaxAmount = posOrders.reduce((sum, order, index) => {
+    const totalAmount = Number(order.totalAmount ?? 0);
+    return totalAmount > 0
+      ? sum + (Number(order.taxAmount) * orders[index].outstanding) / totalAmount
+      : sum;
+  }, 0);
+
+  const totals = calculateBillTotals({
+    timeCost,
+    ordersTotal,
+    taxAmount: getAddedTax(taxes),
+    discount: adjustments.discount,
+    tipAmount: adjustments.tipAmount,
+  });
+
+  return {
+    sessionId: session.id,
+    tableName: session.table.name,
+    customer: session.customer ? { id: session.customer.id, name: session.customer.name } : null,
+    startedAt: session.startedAt,
+    endedAt: endTime,
+    durationMin,
+    sessionCost,
+    costBreakdown,
+    comboTime,
+    memberBenefits,
+    membershipId,
+    transfers,
+    orders,
+    ordersTaxAmount,
+    timeTaxRate: tableTimeTaxRate,
+    pricesIncludeTax,
+    taxes,
+    ...totals,
+  };
+}
+
+// GET /api/tables/sessions/[tableId]/checkout - Preview the bill for a session
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+    const sessionId = req.nextUrl.searchParams.get("sessionId");
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const tableSession = await findCheckoutSession(tableId, sessionId);
+
+    if (!tableSession) {
+      return NextResponse.json(
+        { error: "No session found to check out" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (tableSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    const bill = await buildBill(tableSession, tableSession.endedAt ?? new Date());
+
+    return NextResponse.json({ bill, checkout: tableSession.checkout });
+  } catch (error) {
+    console.error("Error building bill:", error);
+    return NextResponse.json(
+      { error: "Failed to build bill" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/tables/sessions/[tableId]/checkout - End the session and settle the whole tab
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+    const body = await req.json();
+    const validatedData = checkoutSchema.parse(body);
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const tableSession = await findCheckoutSession(tableId, validatedData.sessionId);
+
+    if (!tableSession) {
+      return NextResponse.json(
+        { error: "No session found to check out" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (tableSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    if (tableSession.checkout) {
+      return NextResponse.json(
+        { error: "Session has already been checked out" },
+        { status: 409 }
+      );
+    }
+
+    if (tableSession.status === "TRANSFERRED") {
+      return NextResponse.json(
+        { error: "Session was moved to another table, check out the new table instead" },
+        { status: 400 }
+      );
+    }
+
+    const isRunning = !tableSession.endedAt;
+    const endTime = tableSession.endedAt ?? getSessionEndTime(validatedData.endedAt);
+
+    const bill = await buildBill(tableSession, endTime, {
+      discount: validatedData.discount,
+      tipAmount: validatedData.tipAmount,
+    });
+
+    // Split payments have to cover the bill exactly
+    const paymentTotal = sumPayments(validatedData.payments);
+    if (Math.round(paymentTotal * 100) !== Math.round(bill.total * 100)) {
+      return NextResponse.json(
+        { error: `Payments (${paymentTotal.toFixed(2)}) must add up to the bill total (${bill.total.toFixed(2)})` },
+        { status: 400 }
+      );
+    }
+
+    // Cash goes into the drawer of the open shift
+    const shift = await getOpenShift(tableSession.companyId, db);
+    if (!shift && validatedData.payments.some((payment) => payment.method === "CASH")) {
+      return NextResponse.json(
+        { error: "Open a cash drawer shift before taking cash payments" },
+        { status: 400 }
+      );
+    }
+
+    // Tab charges go to the customer on the session
+    const tabTotal = sumPayments(
+      validatedData.payments.filter((payment) => payment.method === TAB_PAYMENT_METHOD)
+    );
+    if (tabTotal > 0 && !tableSession.customer) {
+      return NextResponse.json(
+        { error: "Attach a customer to the session to charge it to a tab" },
+        { status: 400 }
+      );
+    }
+
+    const checkout = await db.$transaction(async (tx) => {
+      // The credit limit is checked under the customer's lock, so another
+      // charge to the same tab can't use the same credit
+      if (tabTotal > 0 && tableSession.customer) {
+        const tabError = await validateTabCharge(tableSession.customer, tabTotal, tx);
+        if (tabError) throw new TabChargeError(tabError);
+      }
+
+      // End the session first if it is still running, unless someone else just did
+      if (isRunning) {
+        await closeRunningSession(tx, tableSession.id, {
+          endedAt: endTime,
+          durationMin: bill.durationMin,
+          totalCost: bill.sessionCost,
+          status: "CLOSED",
+        });
+
+        await tx.tableSessionPause.updateMany({
+          where: { sessionId: tableSession.id, resumedAt: null },
+          data: { resumedAt: endTime },
+        });
+
+        if (bill.comboTime) {
+          await recordComboTableTime(tx, tableSession.id, bill.comboTime.usages);
+        }
+
+        if (bill.memberBenefits && tableSession.customerId) {
+          await recordMemberBenefits(
+            tx,
+            tableSession.id,
+            tableSession.customerId,
+            bill.membershipId,
+            bill.memberBenefits
+          );
+        }
+
+        await tx.table.update({
+          where: { id: tableId },
+          data: { status: "AVAILABLE" },
+        });
+      }
+
+      // Settle every order on the tab
+      await Promise.all(
+        bill.orders
+          .filter((order) => order.outstanding > 0)
+          .map((order) =>
+            tx.posOrder.update({
+              where: { id: order.id },
+              data: { paidAmount: order.totalAmount },
+            })
+          )
+      );
+
+      // Post the income; tips go to staff and tax is owed, both are kept out of sales
+      const salesAmount = calculateNetSales({
+        subtotal: bill.subtotal,
+        ordersTotal: bill.ordersTotal,
+        ordersTaxAmount: bill.ordersTaxAmount,
+        discountAmount: bill.discountAmount,
+        timeTaxes: bill.taxes,
+      });
+      let financeTransactionId: string | null = null;
+
+      if (salesAmount > 0) {
+        const category = await getOrCreateFinanceCategory(
+          tableSession.companyId,
+          SALES_CATEGORY_NAME,
+          FinanceCategoryType.INCOME,
+          tx
+        );
+
+        const financeTransaction = await tx.financeTransaction.create({
+          data: {
+            companyId: tableSession.companyId,
+            categoryId: category.id,
+            amount: salesAmount,
+            transactionDate: endTime,
+            description: `Checkout ${tableSession.table.name} (${bill.orders.length} orders)`,
+            staffId: profile.id,
+          },
+        });
+        financeTransactionId = financeTransaction.id;
+      }
+
+      // A session is checked out once; a second checkout at the same time
+      // fails on the unique session here
+      const sessionCheckout = await tx.sessionCheckout
+        .create({
+          data: {
+            companyId: tableSession.companyId,
+            sessionId: tableSession.id,
+            staffId: profile.id,
+            timeCost: bill.timeCost,
+            ordersTotal: bill.ordersTotal,
+            subtotal: bill.subtotal,
+            discountAmount: bill.discountAmount,
+            discountReason: validatedData.discount?.reason || null,
+            tipAmount: bill.tipAmount,
+            taxAmount: getTotalTax(bill.taxes),
+            total: bill.total,
+            financeTransactionId,
+            shiftId: shift?.id ?? null,
+          },
+        })
+        .catch((error) => {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+            throw new SessionAlreadyEndedError();
+          }
+          throw error;
+        });
+
+      if (bill.taxes.length > 0) {
+        await tx.taxLine.createMany({
+          data: bill.taxes.map((line) => ({
+            ...line,
+            companyId: tableSession.companyId,
+            checkoutId: sessionCheckout.id,
+          })),
+        });
+      }
+
+      await tx.payment.createMany({
+        data: validatedData.payments.map((payment) => ({
+          companyId: tableSession.companyId,
+          checkoutId: sessionCheckout.id,
+          staffId: profile.id,
+          method: payment.method,
+          amount: payment.amount,
+          tenderedAmount: payment.tenderedAmount ?? null,
+          changeAmount: calculateChange(payment.amount, payment.tenderedAmount),
+          payerName: payment.payerName || null,
+          shiftId: shift?.id ?? null,
+          customerId: payment.method === TAB_PAYMENT_METHOD ? tableSession.customerId : null,
+        })),
+      });
+
+      return tx.sessionCheckout.findUniqueOrThrow({
+        where: { id: sessionCheckout.id },
+        include: { payments: true },
+      });
+    });
+
+    // Create an activity log entry
+    await db.tableActivityLog.create({
+      data: {
+        companyId: tableSession.companyId,
+        userId: profile.id,
+        action: "CHECKOUT",
+        entityType: "TABLE_SESSION",
+        entityId: tableSession.id,
+        metadata: {
+          tableId,
+          tableName: tableSession.table.name,
+          endedSession: isRunning,
+          duration: bill.durationMin,
+          timeCost: bill.timeCost,
+          ordersTotal: bill.ordersTotal,
+          discount: bill.discountAmount,
+          tax: bill.taxAmount,
+          tip: bill.tipAmount,
+          total: bill.total,
+          payments: validatedData.payments.map((payment) => ({
+            method: payment.method,
+            amount: payment.amount,
+          })),
+        },
+      },
+    });
+
+    return NextResponse.json(
+      { checkout, bill },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error checking out session:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Another checkout of the same session got there first
+    if (error instanceof SessionAlreadyEndedError) {
+      return NextResponse.json(
+        { error: "Session has already been checked out" },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof TabChargeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof MemberBenefitsUsedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to check out session" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,161 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
-import { calculateSessionDuration, calculateSessionCost } from "@/lib/tableUtils";
+import { calculateSessionDuration, getSessionEndTime } from "@/lib/tableUtils";
+import {
+  calculateSessionCostBreakdown,
+  closeRunningSession,
+  getEarlierTabTime,
+  getPricingContext,
+  getTransferredSessions,
+  SessionAlreadyEndedError,
+} from "@/lib/pricingUtils";
+import {
+  MemberBenefitsUsedError,
+  priceSessionForCustomer,
+  recordMemberBenefits,
+} from "@/lib/membershipUtils";
+import { applyComboTableTime, recordComboTableTime } from "@/lib/promotionUtils";
+
+/**
+ * Find the running session on a table along with what is needed to price it
+ */
+async function findActiveSession(tableId: string) {
+  return db.tableSession.findFirst({
+    where: {
+      tableId,
+      endedAt: null,
+    },
+    include: {
+      table: true,
+      pauses: true,
+      customer: { select: { id: true, name: true } },
+    },
+  });
+}
+
+type ActiveSession = NonNullable<Awaited<ReturnType<typeof findActiveSession>>>;
+
+/**
+ * Price a session as if it ended now, putting table time bought with combo
+ * deals and then the customer's membership and prepaid hours towards the cost
+ */
+async function priceEndingSession(
+  activeSession: ActiveSession,
+  endTime: Date,
+  client: Prisma.TransactionClient = db
+) {
+  const pauses = activeSession.pauses.map((pause) => ({
+    pausedAt: pause.pausedAt,
+    resumedAt: pause.resumedAt ?? endTime,
+  }));
+
+  // Calculate the session duration in minutes, excluding paused time
+  const durationMin = calculateSessionDuration({
+    ...activeSession,
+    endedAt: endTime,
+    pauses,
+  });
+
+  // Calculate the session cost using the company's pricing rules
+  const { rules, settings } = await getPricingContext(activeSession.companyId);
+  const costBreakdown = calculateSessionCostBreakdown(
+    { startedAt: activeSession.startedAt, endedAt: endTime, pauses },
+    activeSession.table,
+    rules,
+    settings,
+    getEarlierTabTime(await getTransferredSessions(activeSession.id))
+  );
+
+  const comboTime = await applyComboTableTime(
+    activeSession.id,
+    costBreakdown.billedMinutes,
+    costBreakdown.total,
+    client
+  );
+
+  const { benefits, applied } = await priceSessionForCustomer(
+    activeSession.customerId,
+    comboTime.billedMinutes,
+    comboTime.grossCost,
+    endTime,
+    client
+  );
+
+  return {
+    durationMin,
+    costBreakdown,
+    comboTime,
+    memberBenefits: benefits,
+    appliedBenefits: applied,
+    totalCost: applied ? applied.netCost : comboTime.grossCost,
+  };
+}
+
+// GET /api/tables/sessions/[tableId]/end - Preview the cost and member balances before ending
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    const activeSession = await findActiveSession(tableId);
+
+    if (!activeSession) {
+      return NextResponse.json(
+        { error: "No active session found for this table" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (activeSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    const pricing = await priceEndingSession(activeSession, new Date());
+
+    return NextResponse.json({
+      sessionId: activeSession.id,
+      tableName: activeSession.table.name,
+      customer: activeSession.customer,
+      startedAt: activeSession.startedAt,
+      ...pricing,
+    });
+  } catch (error) {
+    console.error("Error previewing session end:", error);
+    return NextResponse.json(
+      { error: "Failed to preview session end" },
+      { status: 500 }
+    );
+  }
+}
 
 // PATCH /api/tables/sessions/[tableId]/end - End an active session
 export async function PATCH(
@@ -35,15 +189,7 @@ export async function PATCH(
     }
 
     // Find the active session for this table
-    const activeSession = await db.tableSession.findFirst({
-      where: {
-        tableId,
-        endedAt: null,
-      },
-      include: {
-        table: true,
-      },
-    });
+    const activeSession = await findActiveSession(tableId);
 
     if (!activeSession) {
       return NextResponse.json(
@@ -60,30 +206,58 @@ export async function PATCH(
       );
     }
 
-    // Calculate the session duration in minutes
-    const endTime = new Date(endedAt);
-    const durationMin = calculateSessionDuration({
-      ...activeSession,
-      endedAt: endTime,
-    });
+    const endTime = getSessionEndTime(endedAt);
 
-    // Calculate the session cost
-    const totalCost = calculateSessionCost({
-      ...activeSession,
-      endedAt: endTime,
-    }, activeSession.table);
+    // End the session, using up the member's free and prepaid hours. The
+    // session is closed first so a second request to end it stops here.
+    const {
+      updatedSession,
+      durationMin,
+      costBreakdown,
+      comboTime,
+      appliedBenefits,
+      totalCost,
+    } = await db.$transaction(async (tx) => {
+      await closeRunningSession(tx, activeSession.id, { endedAt: endTime, status: "CLOSED" });
 
-    // End the session
-    const updatedSession = await db.tableSession.update({
-      where: { id: activeSession.id },
-      data: {
-        endedAt: endTime,
-        durationMin,
-        totalCost,
-        status: "CLOSED",
-      },
+      const pricing = await priceEndingSession(activeSession, endTime, tx);
+
+      // Close a pause that is still open when the session ends
+      await tx.tableSessionPause.updateMany({
+        where: { sessionId: activeSession.id, resumedAt: null },
+        data: { resumedAt: endTime },
+      });
+
+      await recordComboTableTime(tx, activeSession.id, pricing.comboTime.usages);
+
+      if (pricing.appliedBenefits && activeSession.customerId) {
+        await recordMemberBenefits(
+          tx,
+          activeSession.id,
+          activeSession.customerId,
+          pricing.memberBenefits?.membership?.id ?? null,
+          pricing.appliedBenefits
+        );
+      }
+
+      const updatedSession = await tx.tableSession.update({
+        where: { id: activeSession.id },
+        data: {
+          durationMin: pricing.durationMin,
+          totalCost: pricing.totalCost,
+        },
+      });
+
+      return { ...pricing, updatedSession };
     });
 
+    // Time already billed on tables this session was moved from
+    const transfers = await getTransferredSessions(activeSession.id);
+    const tabTimeCost = transfers.reduce(
+      (sum, transfer) => sum + Number(transfer.totalCost ?? 0),
+      totalCost
+    );
+
     // Update the table status back to AVAILABLE
     await db.table.update({
       where: { id: tableId },
@@ -103,13 +277,54 @@ export async function PATCH(
           tableName: activeSession.table.name,
           duration: durationMin,
           cost: totalCost,
+          grossCost: costBreakdown.total,
+          comboTime: comboTime.minutes > 0
+            ? { minutes: comboTime.minutes, credit: comboTime.credit }
+            : null,
+          memberBenefits: appliedBenefits
+            ? {
+                freeMinutes: appliedBenefits.freeMinutes,
+                prepaidMinutes: appliedBenefits.prepaidMinutes,
+                covered: appliedBenefits.coveredAmount,
+                discount: appliedBenefits.discountAmount,
+              }
+            : null,
+          tabTimeCost,
+          transferredFrom: transfers.map((transfer) => transfer.id),
+          segments: costBreakdown.segments.map((segment) => ({
+            label: segment.label,
+            minutes: segment.minutes,
+            hourlyRate: segment.hourlyRate,
+            cost: segment.cost,
+          })),
         },
       },
     });
 
-    return NextResponse.json({ session: updatedSession });
+    return NextResponse.json({
+      session: updatedSession,
+      costBreakdown,
+      appliedBenefits,
+      transfers,
+      tabTimeCost,
+    });
   } catch (error) {
     console.error("Error ending session:", error);
+
+    if (error instanceof MemberBenefitsUsedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof SessionAlreadyEndedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json(
       { error: "Failed to end session" },
       { status: 500 }
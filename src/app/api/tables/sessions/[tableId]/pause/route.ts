@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { clampSessionTime, getLastResumeTime, isSessionPaused } from "@/lib/tableUtils";
+import { pauseSessionSchema } from "@/lib/validations/tableSession";
+
+// PATCH /api/tables/sessions/[tableId]/pause - Pause the active session
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+    const body = await req.json();
+    const { pausedAt, reason } = pauseSessionSchema.parse(body);
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the active session for this table
+    const activeSession = await db.tableSession.findFirst({
+      where: {
+        tableId,
+        endedAt: null,
+      },
+      include: {
+        table: true,
+        pauses: true,
+      },
+    });
+
+    if (!activeSession) {
+      return NextResponse.json(
+        { error: "No active session found for this table" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (activeSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    // Pausing twice at once would open two pauses, so the check and the
+    // new pause happen under the session's lock
+    const result = await db.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM table_sessions WHERE id = ${activeSession.id}::uuid FOR UPDATE`;
+
+      const current = await tx.tableSession.findUniqueOrThrow({
+        where: { id: activeSession.id },
+        include: { pauses: true },
+      });
+
+      if (current.endedAt) {
+        return { error: "Session has already been ended", httpStatus: 409 };
+      }
+
+      if (isSessionPaused(current)) {
+        return { error: "Session is already paused", httpStatus: 409 };
+      }
+
+      // A pause can't start before the session was last running, or in the future
+      const pause = await tx.tableSessionPause.create({
+        data: {
+          sessionId: activeSession.id,
+          pausedAt: clampSessionTime(pausedAt, getLastResumeTime(current)),
+          reason: reason || null,
+        },
+      });
+
+      const updatedSession = await tx.tableSession.update({
+        where: { id: activeSession.id },
+        data: { status: "PAUSED" },
+        include: { pauses: true },
+      });
+
+      return { pause, updatedSession };
+    });
+
+    const { pause, updatedSession } = result;
+    if (!pause || !updatedSession) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    // Create an activity log entry
+    await db.tableActivityLog.create({
+      data: {
+        companyId: activeSession.companyId,
+        userId: profile.id,
+        action: "PAUSE_SESSION",
+        entityType: "TABLE_SESSION",
+        entityId: activeSession.id,
+        metadata: {
+          tableId,
+          tableName: activeSession.table.name,
+          pauseId: pause.id,
+          reason: pause.reason,
+        },
+      },
+    });
+
+    return NextResponse.json({ session: updatedSession });
+  } catch (error) {
+    console.error("Error pausing session:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to pause session" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { clampSessionTime } from "@/lib/tableUtils";
+import { resumeSessionSchema } from "@/lib/validations/tableSession";
+
+// PATCH /api/tables/sessions/[tableId]/resume - Resume a paused session
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+    const body = await req.json();
+    const { resumedAt } = resumeSessionSchema.parse(body);
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the active session for this table
+    const activeSession = await db.tableSession.findFirst({
+      where: {
+        tableId,
+        endedAt: null,
+      },
+      include: {
+        table: true,
+      },
+    });
+
+    if (!activeSession) {
+      return NextResponse.json(
+        { error: "No active session found for this table" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (activeSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    // The pause is closed under the session's lock, so two resumes at once
+    // can't both close it
+    const result = await db.$transaction(async (tx) => {
+      await tx.$queryRaw`SELECT id FROM table_sessions WHERE id = ${activeSession.id}::uuid FOR UPDATE`;
+
+      const openPause = await tx.tableSessionPause.findFirst({
+        where: { sessionId: activeSession.id, resumedAt: null },
+      });
+
+      if (!openPause) {
+        return { error: "Session is not paused", httpStatus: 400 };
+      }
+
+      // Close the pause no earlier than it started and no later than now
+      const resumeTime = clampSessionTime(resumedAt, openPause.pausedAt);
+
+      await tx.tableSessionPause.update({
+        where: { id: openPause.id },
+        data: { resumedAt: resumeTime },
+      });
+
+      // Flag the session as active again
+      const updatedSession = await tx.tableSession.update({
+        where: { id: activeSession.id },
+        data: { status: "ACTIVE" },
+        include: { pauses: true },
+      });
+
+      return { openPause, resumeTime, updatedSession };
+    });
+
+    const { openPause, resumeTime, updatedSession } = result;
+    if (!openPause || !resumeTime || !updatedSession) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.httpStatus }
+      );
+    }
+
+    const pausedMinutes = Math.floor(
+      (resumeTime.getTime() - openPause.pausedAt.getTime()) / (1000 * 60)
+    );
+
+    // Create an activity log entry
+    await db.tableActivityLog.create({
+      data: {
+        companyId: activeSession.companyId,
+        userId: profile.id,
+        action: "RESUME_SESSION",
+        entityType: "TABLE_SESSION",
+        entityId: activeSession.id,
+        metadata: {
+          tableId,
+          tableName: activeSession.table.name,
+          pauseId: openPause.id,
+          pausedMinutes,
+        },
+      },
+    });
+
+    return NextResponse.json({ session: updatedSession });
+  } catch (error) {
+    console.error("Error resuming session:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to resume session" },
+      { status: 500 }
+    );
+  }
+}
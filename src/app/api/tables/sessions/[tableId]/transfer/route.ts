@@ -0,0 +1,265 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { calculateSessionDuration, getSessionEndTime } from "@/lib/tableUtils";
+import {
+  calculateSessionCostBreakdown,
+  closeRunningSession,
+  getPricingContext,
+  SessionAlreadyEndedError,
+  TableOccupiedError,
+} from "@/lib/pricingUtils";
+import {
+  MemberBenefitsUsedError,
+  priceSessionForCustomer,
+  recordMemberBenefits,
+} from "@/lib/membershipUtils";
+import { applyComboTableTime, recordComboTableTime } from "@/lib/promotionUtils";
+
+// PATCH /api/tables/sessions/[tableId]/transfer - Move the active session to another table
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { tableId: string } }
+) {
+  try {
+    const { tableId } = params;
+    const body = await req.json();
+    const { targetTableId, transferredAt } = body;
+
+    if (!targetTableId || targetTableId === tableId) {
+      return NextResponse.json(
+        { error: "A different target table is required" },
+        { status: 400 }
+      );
+    }
+
+    // Get the current user's session
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    // Get the user profile
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Find the active session for this table
+    const activeSession = await db.tableSession.findFirst({
+      where: {
+        tableId,
+        endedAt: null,
+      },
+      include: {
+        table: true,
+        pauses: true,
+      },
+    });
+
+    if (!activeSession) {
+      return NextResponse.json(
+        { error: "No active session found for this table" },
+        { status: 404 }
+      );
+    }
+
+    // Verify the session belongs to the user's company
+    if (activeSession.companyId !== profile.companyId) {
+      return NextResponse.json(
+        { error: "Session does not belong to your company" },
+        { status: 403 }
+      );
+    }
+
+    // The target table must be free and belong to the same company
+    const targetTable = await db.table.findUnique({
+      where: { id: targetTableId },
+    });
+
+    if (!targetTable || targetTable.companyId !== activeSession.companyId) {
+      return NextResponse.json(
+        { error: "Target table not found" },
+        { status: 404 }
+      );
+    }
+
+    if (targetTable.status === "MAINTENANCE") {
+      return NextResponse.json(
+        { error: "Target table is under maintenance" },
+        { status: 400 }
+      );
+    }
+
+    // Close the time on the old table at its own rate. Rounding and the
+    // minimum charge are left to the table the tab ends on.
+    const transferTime = getSessionEndTime(transferredAt);
+    const pauses = activeSession.pauses.map((pause) => ({
+      pausedAt: pause.pausedAt,
+      resumedAt: pause.resumedAt ?? transferTime,
+    }));
+
+    const durationMin = calculateSessionDuration({
+      ...activeSession,
+      endedAt: transferTime,
+      pauses,
+    });
+
+    const { rules, settings } = await getPricingContext(activeSession.companyId);
+    const costBreakdown = calculateSessionCostBreakdown(
+      { startedAt: activeSession.startedAt, endedAt: transferTime, pauses },
+      activeSession.table,
+      rules,
+      settings,
+      { endsInTransfer: true }
+    );
+
+    // Combo time and member benefits go towards each table's time as it is
+    // closed. Unused combo minutes follow the orders to the new table.
+    const comboTime = await applyComboTableTime(
+      activeSession.id,
+      costBreakdown.billedMinutes,
+      costBreakdown.total,
+      db
+    );
+    const { benefits, applied } = await priceSessionForCustomer(
+      activeSession.customerId,
+      comboTime.billedMinutes,
+      comboTime.grossCost,
+      transferTime,
+      db
+    );
+    const totalCost = applied ? applied.netCost : comboTime.grossCost;
+
+    const newSession = await db.$transaction(async (tx) => {
+      // The target table must still be free once it's locked, so two moves
+      // onto it at once can't both go through
+      await tx.$queryRaw`SELECT id FROM tables WHERE id = ${targetTableId}::uuid FOR UPDATE`;
+      const targetSession = await tx.tableSession.findFirst({
+        where: {
+          tableId: targetTableId,
+          endedAt: null,
+        },
+      });
+
+      if (targetSession) {
+        throw new TableOccupiedError();
+      }
+
+      // Closed first so a session ended or moved meanwhile isn't moved again
+      await closeRunningSession(tx, activeSession.id, {
+        endedAt: transferTime,
+        durationMin,
+        totalCost,
+        status: "TRANSFERRED",
+      });
+
+      await tx.tableSessionPause.updateMany({
+        where: { sessionId: activeSession.id, resumedAt: null },
+        data: { resumedAt: transferTime },
+      });
+
+      await recordComboTableTime(tx, activeSession.id, comboTime.usages);
+
+      if (applied && activeSession.customerId) {
+        await recordMemberBenefits(
+          tx,
+          activeSession.id,
+          activeSession.customerId,
+          benefits?.membership?.id ?? null,
+          applied
+        );
+      }
+
+      // Continue on the new table, linked to the session it came from
+      const continuedSession = await tx.tableSession.create({
+        data: {
+          companyId: activeSession.companyId,
+          tableId: targetTableId,
+          staffId: activeSession.staffId ?? profile.id,
+          startedAt: transferTime,
+          status: "ACTIVE",
+          transferredFromId: activeSession.id,
+          customerId: activeSession.customerId,
+        },
+      });
+
+      // Keep the tab together by moving open orders onto the continued session
+      await tx.posOrder.updateMany({
+        where: { tableSessionId: activeSession.id },
+        data: { tableSessionId: continuedSession.id },
+      });
+
+      await tx.table.update({
+        where: { id: tableId },
+        data: { status: "AVAILABLE" },
+      });
+
+      await tx.table.update({
+        where: { id: targetTableId },
+        data: { status: "BUSY" },
+      });
+
+      return continuedSession;
+    });
+
+    // Create an activity log entry
+    await db.tableActivityLog.create({
+      data: {
+        companyId: activeSession.companyId,
+        userId: profile.id,
+        action: "TRANSFER_SESSION",
+        entityType: "TABLE_SESSION",
+        entityId: newSession.id,
+        metadata: {
+          fromSessionId: activeSession.id,
+          fromTableId: tableId,
+          fromTableName: activeSession.table.name,
+          toTableId: targetTableId,
+          toTableName: targetTable.name,
+          duration: durationMin,
+          cost: totalCost,
+        },
+      },
+    });
+
+    return NextResponse.json({ session: newSession, costBreakdown });
+  } catch (error) {
+    console.error("Error transferring session:", error);
+
+    if (error instanceof MemberBenefitsUsedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof TableOccupiedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof SessionAlreadyEndedError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to transfer session" },
+      { status: 500 }
+    );
+  }
+}
@@ -49,7 +49,7 @@ export async function GET(req: NextRequest) {
     const activeSessions = await prisma.tableSession.findMany({
       where: {
         companyId,
-        status: "ACTIVE",
+        status: { in: ["ACTIVE", "PAUSED"] },
         endedAt: null,
       },
       include: {
@@ -59,6 +59,7 @@ export async function GET(req: NextRequest) {
             name: true,
           },
         },
+        pauses: true,
       },
       orderBy: {
         startedAt: "desc",
@@ -6,7 +6,7 @@ import { db } from "@/lib/db";
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json();
-    const { tableId, startedAt } = body;
+    const { tableId, startedAt, customerId } = body;
 
     // Get the current user's session
     const session = await auth();
@@ -64,6 +64,20 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    // Verify the customer belongs to the same company
+    if (customerId) {
+      const customer = await db.customer.findUnique({
+        where: { id: customerId, companyId: table.companyId },
+      });
+
+      if (!customer) {
+        return NextResponse.json(
+          { error: "Customer not found" },
+          { status: 404 }
+        );
+      }
+    }
+
     // Start a new session
     const newSession = await db.tableSession.create({
       data: {
@@ -71,6 +85,8 @@ export async function POST(req: NextRequest) {
         tableId,
         staffId: profile.id,
         startedAt: new Date(startedAt),
+        status: "ACTIVE",
+        customerId: customerId || null,
       },
     });
 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endOfDay, endOfMonth, isValid, parseISO, startOfDay, startOfMonth } from "date-fns";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { getTaxLiability } from "@/lib/taxUtils";
+
+// GET /api/taxes/liability?from=yyyy-MM-dd&to=yyyy-MM-dd - Tax owed per rate for a period, this month by default
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can view the tax report" },
+        { status: 403 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const searchParams = req.nextUrl.searchParams;
+    const requestCompanyId = searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const now = new Date();
+    const fromParam = searchParams.get("from");
+    const toParam = searchParams.get("to");
+    const from = fromParam ? startOfDay(parseISO(fromParam)) : startOfMonth(now);
+    const to = toParam ? endOfDay(parseISO(toParam)) : endOfMonth(now);
+
+    if (!isValid(from) || !isValid(to) || from > to) {
+      return NextResponse.json(
+        { error: "Provide a valid period" },
+        { status: 400 }
+      );
+    }
+
+    const report = await getTaxLiability(companyId, from, to, db);
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error building tax liability report:", error);
+    return NextResponse.json(
+      { error: "Failed to build tax liability report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { taxRateUpdateSchema } from "@/lib/validations/tax";
+
+// PATCH /api/taxes/rates/[id] - Update a tax rate
+// Rates are retired by deactivating them, since past sales keep their tax lines
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const rateId = params.id;
+
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage taxes" },
+        { status: 403 }
+      );
+    }
+
+    const existingRate = await db.taxRate.findUnique({
+      where: { id: rateId },
+    });
+
+    if (!existingRate) {
+      return NextResponse.json(
+        { error: "Tax rate not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.companyId !== existingRate.companyId &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Unauthorized to update this tax rate" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const validatedData = taxRateUpdateSchema.parse(body);
+
+    const rate = await db.taxRate.update({
+      where: { id: rateId },
+      data: validatedData,
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId: existingRate.companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "TAX_RATE",
+        entityId: rateId,
+        metadata: { name: rate.name, changes: Object.keys(validatedData) },
+      },
+    });
+
+    return NextResponse.json({ rate });
+  } catch (error) {
+    console.error("Error updating tax rate:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update tax rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { taxRateSchema } from "@/lib/validations/tax";
+
+// POST /api/taxes/rates - Create a tax rate
+export async function POST(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage taxes" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...rateData } = body;
+    const validatedData = taxRateSchema.parse(rateData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const rate = await db.taxRate.create({
+      data: {
+        ...validatedData,
+        companyId,
+      },
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "CREATE",
+        entityType: "TAX_RATE",
+        entityId: rate.id,
+        metadata: { name: rate.name, rate: validatedData.rate },
+      },
+    });
+
+    return NextResponse.json(
+      { rate },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating tax rate:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to create tax rate" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { UserRole } from "@prisma/client";
+import { taxSettingsSchema } from "@/lib/validations/tax";
+
+const settingsSelect = { pricesIncludeTax: true, tableTimeTaxRateId: true } as const;
+
+// GET /api/taxes - Get tax rates and tax settings for the current company
+export async function GET(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    // Superadmins may request any company, everyone else is scoped to their own
+    const requestCompanyId = req.nextUrl.searchParams.get("companyId");
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    const [rates, company] = await Promise.all([
+      db.taxRate.findMany({
+        where: { companyId },
+        orderBy: [{ active: "desc" }, { name: "asc" }],
+      }),
+      db.company.findUnique({
+        where: { id: companyId },
+        select: settingsSelect,
+      }),
+    ]);
+
+    if (!company) {
+      return NextResponse.json(
+        { error: "Company not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ rates, settings: company });
+  } catch (error) {
+    console.error("Error fetching tax rates:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tax rates" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/taxes - Update tax-inclusive pricing and the tax class for table time
+export async function PUT(req: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const profile = await db.profile.findUnique({
+      where: { userId: session.user.id },
+    });
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: "Profile not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      profile.role !== UserRole.ADMIN &&
+      profile.role !== UserRole.SUPERADMIN
+    ) {
+      return NextResponse.json(
+        { error: "Only admins can manage taxes" },
+        { status: 403 }
+      );
+    }
+
+    const body = await req.json();
+    const { companyId: requestCompanyId, ...settingsData } = body;
+    const validatedData = taxSettingsSchema.parse(settingsData);
+
+    const companyId = profile.role === UserRole.SUPERADMIN
+      ? requestCompanyId || profile.companyId
+      : profile.companyId;
+
+    if (!companyId) {
+      return NextResponse.json(
+        { error: "No company context available" },
+        { status: 400 }
+      );
+    }
+
+    if (validatedData.tableTimeTaxRateId) {
+      const taxRate = await db.taxRate.findFirst({
+        where: { id: validatedData.tableTimeTaxRateId, companyId },
+      });
+
+      if (!taxRate) {
+        return NextResponse.json(
+          { error: "Tax rate not found" },
+          { status: 404 }
+        );
+      }
+    }
+
+    const settings = await db.company.update({
+      where: { id: companyId },
+      data: validatedData,
+      select: settingsSelect,
+    });
+
+    await db.tableActivityLog.create({
+      data: {
+        companyId,
+        userId: profile.id,
+        action: "UPDATE",
+        entityType: "TAX_SETTINGS",
+        metadata: validatedData,
+      },
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error updating tax settings:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Invalid request data", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to update tax settings" },
+      { status: 500 }
+    );
+  }
+}
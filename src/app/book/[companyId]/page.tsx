@@ -0,0 +1,16 @@
+import { PublicBookingForm } from "@/components/views/tables/PublicBookingForm";
+
+interface BookingPageProps {
+  params: {
+    companyId: string;
+  };
+}
+
+// Public: customers request a table here without an account
+export default function BookingPage({ params }: BookingPageProps) {
+  return (
+    <div className="container max-w-3xl mx-auto py-8 px-4">
+      <PublicBookingForm companyId={params.companyId} />
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { hasAdminPermission } from "@/lib/rbac";
 import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import { TransactionList } from "@/components/views/finance/TransactionList";
+import { TaxLiabilityReport } from "@/components/views/finance/TaxLiabilityReport";
+import { PromotionReport } from "@/components/views/finance/PromotionReport";
 import { NewTransactionModal } from "@/components/modals/NewTransactionModal";
 import type { Profile as RbacProfile } from "@/types/profile";
 
@@ -36,6 +38,13 @@ export default function FinanceTransactionsPage() {
         <TransactionList profile={profile} />
       )}
 
+      {!isLoading && (profile?.role === "ADMIN" || profile?.role === "SUPERADMIN") && profile.companyId && (
+        <>
+          <TaxLiabilityReport companyId={profile.companyId} />
+          <PromotionReport companyId={profile.companyId} />
+        </>
+      )}
+
       <NewTransactionModal 
         isOpen={isModalOpen} 
         onClose={() => setIsModalOpen(false)} 
@@ -1,10 +1,15 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { hasAdminPermission } from "@/lib/rbac";
 import InventoryForm from "@/components/views/inventory/InventoryForm";
+import { ProductOptionsManager } from "@/components/views/inventory/ProductOptionsManager";
+import { RecipeManager } from "@/components/views/inventory/RecipeManager";
+import { InventoryHistory } from "@/components/views/inventory/InventoryHistory";
+import { InventoryLots } from "@/components/views/inventory/InventoryLots";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Loader2 } from "lucide-react";
 import type { Profile as RbacProfile } from "@/types/profile";
 
@@ -18,6 +23,8 @@ export default function EditInventoryItemPage({ params }: EditInventoryItemPageP
   const router = useRouter();
   const { profile, isLoading } = useCurrentUser();
   const itemId = params.id;
+  // Bumped when stock is written off, so the form reloads the quantity left
+  const [stockVersion, setStockVersion] = useState(0);
 
   // Check if user has admin permissions
   useEffect(() => {
@@ -48,7 +55,26 @@ export default function EditInventoryItemPage({ params }: EditInventoryItemPageP
         </p>
       </div>
 
-      <InventoryForm companyId={profile.companyId} itemId={itemId} />
+      <Tabs defaultValue="details">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="details" className="space-y-6">
+          <InventoryForm key={stockVersion} companyId={profile.companyId} itemId={itemId} />
+
+          <InventoryLots itemId={itemId} onWrittenOff={() => setStockVersion((version) => version + 1)} />
+
+          <RecipeManager companyId={profile.companyId} itemId={itemId} />
+
+          <ProductOptionsManager companyId={profile.companyId} itemId={itemId} />
+        </TabsContent>
+
+        <TabsContent value="history">
+          <InventoryHistory companyId={profile.companyId} itemId={itemId} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 } 
\ No newline at end of file
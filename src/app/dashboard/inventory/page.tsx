@@ -3,10 +3,14 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { InventoryList } from "@/components/views/inventory/InventoryList";
+import { IngredientUsageReport } from "@/components/views/inventory/IngredientUsageReport";
+import { GrossMarginReport } from "@/components/views/inventory/GrossMarginReport";
+import { StockValuationReport } from "@/components/views/inventory/StockValuationReport";
+import { InventoryImportExport } from "@/components/views/inventory/InventoryImportExport";
 import { hasAdminPermission } from "@/lib/rbac";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { ClipboardCheck, Plus, Truck } from "lucide-react";
 import { useViewMode } from "@/context/view-mode-context";
 import { UserRole } from "@prisma/client";
 import { getLocalStorage } from "@/lib/client-utils";
@@ -16,6 +20,8 @@ export default function InventoryPage() {
   const { viewMode } = useViewMode();
   const isAdmin = hasAdminPermission(profile, viewMode);
   const [effectiveCompanyId, setEffectiveCompanyId] = useState<string | null>(null);
+  // Bumped after an import so the list fetches the new items
+  const [listVersion, setListVersion] = useState(0);
 
   // Determine the effective company ID (from profile or localStorage for superadmins)
   useEffect(() => {
@@ -43,19 +49,48 @@ export default function InventoryPage() {
             Manage your inventory items, categories, and stock levels
           </p>
         </div>
-        {isAdmin && (
-          <Link href="/dashboard/inventory/new" passHref>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              Add New Item
+        <div className="flex gap-2">
+          <Link href="/dashboard/inventory/purchasing" passHref>
+            <Button variant="outline">
+              <Truck className="mr-2 h-4 w-4" />
+              Purchasing
             </Button>
           </Link>
-        )}
+          <Link href="/dashboard/inventory/stocktakes" passHref>
+            <Button variant="outline">
+              <ClipboardCheck className="mr-2 h-4 w-4" />
+              Stocktakes
+            </Button>
+          </Link>
+          {(profile?.role === "ADMIN" || profile?.role === "SUPERADMIN") && effectiveCompanyId && (
+            <InventoryImportExport
+              companyId={effectiveCompanyId}
+              onImported={() => setListVersion((version) => version + 1)}
+            />
+          )}
+          {isAdmin && (
+            <Link href="/dashboard/inventory/new" passHref>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                Add New Item
+              </Button>
+            </Link>
+          )}
+        </div>
       </div>
 
       {!isLoading && (
         // Pass the effectiveCompanyId only if it's not null
-        <InventoryList adminView={isAdmin} companyId={effectiveCompanyId || ""} />
+        <InventoryList key={listVersion} adminView={isAdmin} companyId={effectiveCompanyId || ""} />
+      )}
+
+      {/* Costs are for admins only */}
+      {!isLoading && (profile?.role === "ADMIN" || profile?.role === "SUPERADMIN") && effectiveCompanyId && (
+        <>
+          <StockValuationReport companyId={effectiveCompanyId} />
+          <GrossMarginReport companyId={effectiveCompanyId} />
+          <IngredientUsageReport companyId={effectiveCompanyId} />
+        </>
       )}
     </div>
   );
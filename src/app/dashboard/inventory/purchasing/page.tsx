@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { UserRole } from "@prisma/client";
+import { getLocalStorage } from "@/lib/client-utils";
+import { PurchaseOrdersManager } from "@/components/views/inventory/PurchaseOrdersManager";
+import { ReorderSuggestions } from "@/components/views/inventory/ReorderSuggestions";
+import { SuppliersManager } from "@/components/views/inventory/SuppliersManager";
+
+export default function PurchasingPage() {
+  const { profile, isLoading } = useCurrentUser();
+  const [effectiveCompanyId, setEffectiveCompanyId] = useState<string | null>(null);
+  // Bumped when one section changes what another shows
+  const [ordersKey, setOrdersKey] = useState(0);
+  const [suggestionsKey, setSuggestionsKey] = useState(0);
+  const isAdmin = profile?.role === "ADMIN" || profile?.role === "SUPERADMIN";
+
+  // Determine the effective company ID (from profile or localStorage for superadmins)
+  useEffect(() => {
+    if (!profile) return;
+
+    let companyId = profile.companyId;
+
+    // For superadmins, check localStorage safely
+    if (profile.role === UserRole.SUPERADMIN) {
+      const selectedCompanyId = getLocalStorage('selectedCompanyId');
+      if (selectedCompanyId) {
+        companyId = selectedCompanyId;
+      }
+    }
+
+    setEffectiveCompanyId(companyId ?? null);
+  }, [profile]);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Purchasing</h1>
+          <p className="text-muted-foreground">
+            Order stock from suppliers and receive deliveries
+          </p>
+        </div>
+        <Link href="/dashboard/inventory" passHref>
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Inventory
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading || !effectiveCompanyId ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <ReorderSuggestions
+            companyId={effectiveCompanyId}
+            isAdmin={isAdmin}
+            refreshKey={suggestionsKey}
+            onOrdersCreated={() => setOrdersKey((key) => key + 1)}
+          />
+          <PurchaseOrdersManager
+            companyId={effectiveCompanyId}
+            isAdmin={isAdmin}
+            refreshKey={ordersKey}
+            onChange={() => setSuggestionsKey((key) => key + 1)}
+          />
+          <SuppliersManager
+            companyId={effectiveCompanyId}
+            isAdmin={isAdmin}
+            onChange={() => setOrdersKey((key) => key + 1)}
+          />
+        </>
+      )}
+    </div>
+  );
+}
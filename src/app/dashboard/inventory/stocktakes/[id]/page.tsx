@@ -0,0 +1,66 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { UserRole } from "@prisma/client";
+import { getLocalStorage } from "@/lib/client-utils";
+import { StocktakeCount } from "@/components/views/inventory/StocktakeCount";
+
+interface StocktakePageProps {
+  params: {
+    id: string;
+  };
+}
+
+export default function StocktakePage({ params }: StocktakePageProps) {
+  const { profile, isLoading } = useCurrentUser();
+  const [effectiveCompanyId, setEffectiveCompanyId] = useState<string | null>(null);
+  const isAdmin = profile?.role === "ADMIN" || profile?.role === "SUPERADMIN";
+
+  // Determine the effective company ID (from profile or localStorage for superadmins)
+  useEffect(() => {
+    if (!profile) return;
+
+    let companyId = profile.companyId;
+
+    // For superadmins, check localStorage safely
+    if (profile.role === UserRole.SUPERADMIN) {
+      const selectedCompanyId = getLocalStorage('selectedCompanyId');
+      if (selectedCompanyId) {
+        companyId = selectedCompanyId;
+      }
+    }
+
+    setEffectiveCompanyId(companyId ?? null);
+  }, [profile]);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Stocktake</h1>
+          <p className="text-muted-foreground">
+            Enter what is on the shelves, then review the differences and post them
+          </p>
+        </div>
+        <Link href="/dashboard/inventory/stocktakes" passHref>
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Stocktakes
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading || !effectiveCompanyId ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <StocktakeCount companyId={effectiveCompanyId} stocktakeId={params.id} isAdmin={isAdmin} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { UserRole } from "@prisma/client";
+import { getLocalStorage } from "@/lib/client-utils";
+import { ShrinkageReport } from "@/components/views/inventory/ShrinkageReport";
+import { StocktakesList } from "@/components/views/inventory/StocktakesList";
+
+export default function StocktakesPage() {
+  const { profile, isLoading } = useCurrentUser();
+  const [effectiveCompanyId, setEffectiveCompanyId] = useState<string | null>(null);
+  const isAdmin = profile?.role === "ADMIN" || profile?.role === "SUPERADMIN";
+
+  // Determine the effective company ID (from profile or localStorage for superadmins)
+  useEffect(() => {
+    if (!profile) return;
+
+    let companyId = profile.companyId;
+
+    // For superadmins, check localStorage safely
+    if (profile.role === UserRole.SUPERADMIN) {
+      const selectedCompanyId = getLocalStorage('selectedCompanyId');
+      if (selectedCompanyId) {
+        companyId = selectedCompanyId;
+      }
+    }
+
+    setEffectiveCompanyId(companyId ?? null);
+  }, [profile]);
+
+  return (
+    <div className="container mx-auto py-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Stocktakes</h1>
+          <p className="text-muted-foreground">
+            Count stock on hand and find out what went missing
+          </p>
+        </div>
+        <Link href="/dashboard/inventory" passHref>
+          <Button variant="outline">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Inventory
+          </Button>
+        </Link>
+      </div>
+
+      {isLoading || !effectiveCompanyId ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <StocktakesList companyId={effectiveCompanyId} isAdmin={isAdmin} />
+          {/* Costs are for admins only */}
+          {isAdmin && <ShrinkageReport companyId={effectiveCompanyId} />}
+        </>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,11 @@ import { Loader2 } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 import { useRouter } from "next/navigation";
 import type { Profile as RbacProfile } from "@/types/profile";
+import { PricingRulesManager } from "@/components/views/tables/PricingRulesManager";
+import { MembershipPlansManager } from "@/components/views/customers/MembershipPlansManager";
+import { TaxRatesManager } from "@/components/views/finance/TaxRatesManager";
+import { PromotionsManager } from "@/components/views/pos/PromotionsManager";
+import { OnlineBookingManager } from "@/components/views/tables/OnlineBookingManager";
 
 // Schema for company creation
 const companySchema = z.object({
@@ -226,17 +231,27 @@ export default function SettingsPage() {
         
         {isAdmin && (
           <TabsContent value="company" className="mt-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>Company Settings</CardTitle>
-                <CardDescription>Manage company-wide settings</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <p className="text-center text-muted-foreground">
-                  Company settings coming soon
-                </p>
-              </CardContent>
-            </Card>
+            {profile?.companyId ? (
+              <div className="space-y-6">
+                <PricingRulesManager companyId={profile.companyId} />
+                <OnlineBookingManager companyId={profile.companyId} />
+                <MembershipPlansManager companyId={profile.companyId} />
+                <TaxRatesManager companyId={profile.companyId} />
+                <PromotionsManager companyId={profile.companyId} />
+              </div>
+            ) : (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Company Settings</CardTitle>
+                  <CardDescription>Manage company-wide settings</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-center text-muted-foreground">
+                    Select a company to manage its settings
+                  </p>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
         )}
       </Tabs>
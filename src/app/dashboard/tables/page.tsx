@@ -4,7 +4,7 @@ import { useState } from "react";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
 import { PermissionButton } from "@/components/ui/permission-button";
-import { Plus, RefreshCw, BarChart3, BookmarkIcon } from "lucide-react";
+import { Plus, RefreshCw, BarChart3, BookmarkIcon, CalendarRange, List } from "lucide-react";
 import { TableList } from "@/components/views/tables/TableList";
 import { useCurrentUser } from "@/hooks/use-current-user";
 import { Profile } from "@/hooks/use-auth";
@@ -12,6 +12,7 @@ import { TableSearch } from "@/components/ui/table-search";
 import { TableStatusFilter } from "@/components/ui/table-status-filter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ReservationList } from "@/components/views/tables/ReservationList";
+import { ReservationTimeline } from "@/components/views/tables/ReservationTimeline";
 import { useViewMode } from "@/context/view-mode-context";
 import { Profile as PrismaProfile } from "@prisma/client";
 
@@ -21,6 +22,7 @@ export default function TablesPage() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [refreshKey, setRefreshKey] = useState(0);
+  const [reservationView, setReservationView] = useState<"timeline" | "list">("timeline");
   
   // Cast the profile to the appropriate types for each component
   const authProfile = profile as unknown as Profile | null;
@@ -94,17 +96,42 @@ export default function TablesPage() {
         <TabsContent value="reservations" className="mt-6">
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-semibold">Table Reservations</h2>
-            <Button onClick={handleRefresh} variant="outline" size="sm">
-              <RefreshCw className="mr-2 h-4 w-4" />
-              Refresh
-            </Button>
+            <div className="flex space-x-2">
+              <Button
+                onClick={() => setReservationView("timeline")}
+                variant={reservationView === "timeline" ? "default" : "outline"}
+                size="sm"
+              >
+                <CalendarRange className="mr-2 h-4 w-4" />
+                Timeline
+              </Button>
+              <Button
+                onClick={() => setReservationView("list")}
+                variant={reservationView === "list" ? "default" : "outline"}
+                size="sm"
+              >
+                <List className="mr-2 h-4 w-4" />
+                List
+              </Button>
+              <Button onClick={handleRefresh} variant="outline" size="sm">
+                <RefreshCw className="mr-2 h-4 w-4" />
+                Refresh
+              </Button>
+            </div>
           </div>
           
           {!isLoading && profile?.companyId && (
-            <ReservationList 
-              profile={prismaProfile}
-              refreshKey={refreshKey}
-            />
+            reservationView === "timeline" ? (
+              <ReservationTimeline
+                companyId={profile.companyId}
+                refreshKey={refreshKey}
+              />
+            ) : (
+              <ReservationList 
+                profile={prismaProfile}
+                refreshKey={refreshKey}
+              />
+            )
           )}
         </TabsContent>
       </Tabs>
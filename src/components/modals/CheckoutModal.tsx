@@ -0,0 +1,369 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/components/ui/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+import { Table } from "@prisma/client";
+import { BillOrder, BillTransfer, calculateBillTotals, calculateTimeTaxes } from "@/lib/checkoutUtils";
+import type { AppliedMemberBenefits } from "@/lib/membershipUtils";
+import type { ComboTimeCredit } from "@/lib/promotionUtils";
+import { formatTaxLabel, getAddedTax, TaxRateInfo } from "@/lib/taxUtils";
+import { formatDuration, formatPrice } from "@/lib/tableUtils";
+import { PaymentValues } from "@/lib/validations/payment";
+import { SplitPaymentForm } from "@/components/views/pos/SplitPaymentForm";
+import { openReceipt } from "@/components/views/pos/ReceiptActions";
+
+type BillPreview = {
+  sessionId: string;
+  tableName: string;
+  customer: { id: string; name: string } | null;
+  durationMin: number;
+  sessionCost: number;
+  comboTime: ComboTimeCredit | null;
+  memberBenefits: AppliedMemberBenefits | null;
+  transfers: BillTransfer[];
+  orders: BillOrder[];
+  timeTaxRate: TaxRateInfo | null;
+  pricesIncludeTax: boolean;
+};
+
+interface CheckoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess: () => void;
+  table: Table | null;
+}
+
+export function CheckoutModal({
+  isOpen,
+  onClose,
+  onSuccess,
+  table,
+}: CheckoutModalProps) {
+  const { toast } = useToast();
+  const [bill, setBill] = useState<BillPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [discountType, setDiscountType] = useState<"AMOUNT" | "PERCENT">("AMOUNT");
+  const [discountValue, setDiscountValue] = useState("");
+  const [discountReason, setDiscountReason] = useState("");
+  const [tipAmount, setTipAmount] = useState("");
+  const [payments, setPayments] = useState<PaymentValues[]>([]);
+
+  // Load the bill preview when the modal opens
+  useEffect(() => {
+    if (!isOpen || !table) return;
+
+    const fetchBill = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/tables/sessions/${table.id}/checkout`);
+        if (!response.ok) throw new Error("Failed to load bill");
+        const data = await response.json();
+        setBill(data.bill);
+      } catch (error) {
+        console.error("Error loading bill:", error);
+        setBill(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    setDiscountType("AMOUNT");
+    setDiscountValue("");
+    setDiscountReason("");
+    setTipAmount("");
+    fetchBill();
+  }, [isOpen, table]);
+
+  // Each table's time and each order can be given to a different payer
+  const splitItems = useMemo(
+    () =>
+      bill
+        ? [
+            ...bill.transfers.map((transfer) => ({
+              id: transfer.sessionId,
+              name: `${transfer.tableName} time`,
+              lineTotal: transfer.cost,
+            })),
+            { id: bill.sessionId, name: `${bill.tableName} time`, lineTotal: bill.sessionCost },
+            ...bill.orders.map((order) => ({
+              id: order.id,
+              name: `Order ${order.orderNumber}`,
+              lineTotal: order.outstanding,
+            })),
+          ]
+        : [],
+    [bill]
+  );
+
+  if (!table) return null;
+
+  const discount = discountValue
+    ? { type: discountType, value: Number(discountValue), reason: discountReason || null }
+    : null;
+
+  const timeCost = bill
+    ? bill.transfers.reduce((sum, transfer) => sum + transfer.cost, bill.sessionCost)
+    : 0;
+  const ordersTotal = bill ? bill.orders.reduce((sum, order) => sum + order.outstanding, 0) : 0;
+
+  // Time tax follows the discount, the same way the server works it out
+  const taxes = bill
+    ? calculateTimeTaxes({
+        timeCost,
+        ordersTotal,
+        discount,
+        taxRate: bill.timeTaxRate,
+        inclusive: bill.pricesIncludeTax,
+      })
+    : [];
+
+  const totals = bill
+    ? calculateBillTotals({
+        timeCost,
+        ordersTotal,
+        taxAmount: getAddedTax(taxes),
+        discount,
+        tipAmount: Number(tipAmount) || 0,
+      })
+    : null;
+
+  const handleCheckout = async () => {
+    if (!bill) return;
+
+    try {
+      setSubmitting(true);
+      const response = await fetch(`/api/tables/sessions/${table.id}/checkout`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          endedAt: new Date().toISOString(),
+          discount,
+          tipAmount: Number(tipAmount) || 0,
+          payments,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to check out");
+      }
+
+      const { checkout } = await response.json();
+      toast({
+        title: "Success",
+        description: `${table.name} has been checked out`,
+        action: (
+          <ToastAction
+            altText="Print receipt"
+            onClick={() => openReceipt(`/api/pos/checkouts/${checkout.id}/receipt?companyId=${table.companyId}`)}
+          >
+            Receipt
+          </ToastAction>
+        ),
+      });
+
+      onSuccess();
+    } catch (error) {
+      console.error("Error checking out:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to check out",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Checkout {table.name}</DialogTitle>
+          <DialogDescription>
+            Ends the session and settles table time and all orders on this tab.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading bill...</p>
+        ) : !bill || !totals ? (
+          <p className="text-sm text-muted-foreground">Unable to load the bill for this table.</p>
+        ) : (
+          <div className="space-y-4">
+            {bill.customer && (
+              <p className="text-sm">
+                Customer: <span className="font-medium">{bill.customer.name}</span>
+              </p>
+            )}
+
+            <div className="space-y-1 text-sm">
+              {bill.transfers.map((transfer) => (
+                <div key={transfer.sessionId} className="flex justify-between">
+                  <span>{transfer.tableName} ({formatDuration(transfer.durationMin)})</span>
+                  <span>{formatPrice(transfer.cost)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span>{bill.tableName} ({formatDuration(bill.durationMin)})</span>
+                <span>
+                  {formatPrice((bill.memberBenefits?.grossCost ?? bill.sessionCost) + (bill.comboTime?.credit ?? 0))}
+                </span>
+              </div>
+              {bill.comboTime && bill.comboTime.minutes > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Combo table time ({formatDuration(bill.comboTime.minutes)})</span>
+                  <span>-{formatPrice(bill.comboTime.credit)}</span>
+                </div>
+              )}
+              {bill.memberBenefits && bill.memberBenefits.coveredAmount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>
+                    Member hours (
+                    {formatDuration(bill.memberBenefits.freeMinutes + bill.memberBenefits.prepaidMinutes)})
+                  </span>
+                  <span>-{formatPrice(bill.memberBenefits.coveredAmount)}</span>
+                </div>
+              )}
+              {bill.memberBenefits && bill.memberBenefits.discountAmount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Member discount</span>
+                  <span>-{formatPrice(bill.memberBenefits.discountAmount)}</span>
+                </div>
+              )}
+              {bill.orders.map((order) => (
+                <div key={order.id} className="flex justify-between">
+                  <span>Order {order.orderNumber}</span>
+                  <span>{formatPrice(order.outstanding)}</span>
+                </div>
+              ))}
+            </div>
+
+            <Separator />
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Discount</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={discountType}
+                    onValueChange={(value) => setDiscountType(value as "AMOUNT" | "PERCENT")}
+                  >
+                    <SelectTrigger className="w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="AMOUNT">$</SelectItem>
+                      <SelectItem value="PERCENT">%</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="0"
+                    value={discountValue}
+                    onChange={(e) => setDiscountValue(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Tip</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={tipAmount}
+                  onChange={(e) => setTipAmount(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {discount && (
+              <div className="space-y-2">
+                <Label>Discount Reason</Label>
+                <Input
+                  placeholder="Optional"
+                  value={discountReason}
+                  onChange={(e) => setDiscountReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span>Subtotal</span>
+                <span>{formatPrice(totals.subtotal)}</span>
+              </div>
+              {taxes.map((tax) => (
+                <div
+                  key={tax.taxRateId}
+                  className={`flex justify-between ${tax.inclusive ? "text-muted-foreground" : ""}`}
+                >
+                  <span>{formatTaxLabel(tax)}</span>
+                  <span>{formatPrice(tax.taxAmount)}</span>
+                </div>
+              ))}
+              {totals.discountAmount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Discount</span>
+                  <span>-{formatPrice(totals.discountAmount)}</span>
+                </div>
+              )}
+              {totals.tipAmount > 0 && (
+                <div className="flex justify-between">
+                  <span>Tip</span>
+                  <span>{formatPrice(totals.tipAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-base font-semibold">
+                <span>Total</span>
+                <span>{formatPrice(totals.total)}</span>
+              </div>
+            </div>
+
+            <Separator />
+
+            <SplitPaymentForm
+              amountDue={totals.total}
+              items={splitItems}
+              allowTab={!!bill.customer}
+              onChange={setPayments}
+            />
+          </div>
+        )}
+
+        <DialogFooter className="flex space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleCheckout} disabled={!totals || submitting || (payments.length === 0 && totals.total > 0)}>
+            {submitting ? "Processing..." : "Complete Checkout"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
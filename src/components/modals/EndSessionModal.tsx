@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Separator } from "@/components/ui/separator";
+import { Table } from "@prisma/client";
+import type { AppliedMemberBenefits, MemberBenefits } from "@/lib/membershipUtils";
+import type { ComboTimeCredit } from "@/lib/promotionUtils";
+import { formatDuration, formatPrice } from "@/lib/tableUtils";
+
+type EndPreview = {
+  customer: { id: string; name: string } | null;
+  durationMin: number;
+  costBreakdown: { total: number };
+  comboTime: ComboTimeCredit;
+  memberBenefits: MemberBenefits | null;
+  appliedBenefits: AppliedMemberBenefits | null;
+  totalCost: number;
+};
+
+interface EndSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  table: Table | null;
+}
+
+export function EndSessionModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  table,
+}: EndSessionModalProps) {
+  const [preview, setPreview] = useState<EndPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  // Price the session as of now when the modal opens
+  useEffect(() => {
+    if (!isOpen || !table) return;
+
+    const fetchPreview = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/tables/sessions/${table.id}/end`);
+        if (!response.ok) throw new Error("Failed to load session");
+        setPreview(await response.json());
+      } catch (error) {
+        console.error("Error loading session:", error);
+        setPreview(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPreview();
+  }, [isOpen, table]);
+
+  if (!table) return null;
+
+  const membership = preview?.memberBenefits?.membership;
+  const applied = preview?.appliedBenefits;
+  const prepaidAfter = (preview?.memberBenefits?.prepaidMinutes ?? 0) - (applied?.prepaidMinutes ?? 0);
+  const freeAfter = (membership?.freeMinutesRemaining ?? 0) - (applied?.freeMinutes ?? 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>End Session on {table.name}</DialogTitle>
+          <DialogDescription>
+            The timer stops and the table is marked as AVAILABLE. Member hours are
+            used up automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading session...</p>
+        ) : !preview ? (
+          <p className="text-sm text-muted-foreground">Unable to load this session.</p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <div className="space-y-1">
+              {preview.customer && (
+                <p>
+                  Customer: <span className="font-medium">{preview.customer.name}</span>
+                </p>
+              )}
+              <div className="flex justify-between">
+                <span>Time played ({formatDuration(preview.durationMin)})</span>
+                <span>{formatPrice(preview.costBreakdown.total)}</span>
+              </div>
+              {preview.comboTime.minutes > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Combo table time ({formatDuration(preview.comboTime.minutes)})</span>
+                  <span>-{formatPrice(preview.comboTime.credit)}</span>
+                </div>
+              )}
+              {applied && applied.coveredAmount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Member hours ({formatDuration(applied.freeMinutes + applied.prepaidMinutes)})</span>
+                  <span>-{formatPrice(applied.coveredAmount)}</span>
+                </div>
+              )}
+              {applied && applied.discountAmount > 0 && (
+                <div className="flex justify-between text-green-600">
+                  <span>Member discount ({membership?.discountPercent}%)</span>
+                  <span>-{formatPrice(applied.discountAmount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-base font-semibold">
+                <span>Table time</span>
+                <span>{formatPrice(preview.totalCost)}</span>
+              </div>
+            </div>
+
+            {preview.memberBenefits && (
+              <>
+                <Separator />
+                <div className="space-y-1">
+                  <p className="font-medium">Member balances after this session</p>
+                  {membership ? (
+                    <div className="flex justify-between">
+                      <span>
+                        {membership.planName} (expires {format(new Date(membership.expiresAt), "MMM d, yyyy")})
+                      </span>
+                      <span>{formatDuration(freeAfter)} free this month</span>
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground">No active membership</p>
+                  )}
+                  <div className="flex justify-between">
+                    <span>Prepaid hours</span>
+                    <span>{formatDuration(prepaidAfter)}</span>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={onConfirm} disabled={loading}>
+            End Session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -9,12 +10,14 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
 import { Table } from "@prisma/client";
+import { CustomerLookup, CustomerSummary } from "@/components/views/customers/CustomerLookup";
 
 interface StartSessionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: () => void;
+  onConfirm: (customerId: string | null) => void;
   table: Table | null;
 }
 
@@ -24,6 +27,13 @@ export function StartSessionModal({
   onConfirm,
   table,
 }: StartSessionModalProps) {
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+
+  // Start each session without a customer
+  useEffect(() => {
+    if (isOpen) setCustomer(null);
+  }, [isOpen]);
+
   if (!table) return null;
 
   return (
@@ -37,11 +47,16 @@ export function StartSessionModal({
           </DialogDescription>
         </DialogHeader>
 
+        <div className="space-y-2">
+          <Label>Customer (optional)</Label>
+          <CustomerLookup companyId={table.companyId} value={customer} onChange={setCustomer} />
+        </div>
+
         <DialogFooter className="flex space-x-2 pt-4">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={onConfirm}>
+          <Button onClick={() => onConfirm(customer?.id ?? null)}>
             Start Session
           </Button>
         </DialogFooter>
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table } from "@prisma/client";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface TransferSessionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (targetTableId: string) => void;
+  table: Table | null;
+  availableTables: Table[];
+}
+
+export function TransferSessionModal({
+  isOpen,
+  onClose,
+  onConfirm,
+  table,
+  availableTables,
+}: TransferSessionModalProps) {
+  const [targetTableId, setTargetTableId] = useState<string>("");
+
+  useEffect(() => {
+    if (isOpen) setTargetTableId("");
+  }, [isOpen]);
+
+  if (!table) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Move Session from {table.name}</DialogTitle>
+          <DialogDescription>
+            Time played so far is charged at this table&apos;s rate. The timer
+            continues on the new table and any orders stay on the same tab.
+          </DialogDescription>
+        </DialogHeader>
+
+        {availableTables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            There are no free tables to move this session to.
+          </p>
+        ) : (
+          <Select value={targetTableId} onValueChange={setTargetTableId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a table" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTables.map((availableTable) => (
+                <SelectItem key={availableTable.id} value={availableTable.id}>
+                  {availableTable.name} ({formatPrice(Number(availableTable.hourlyRate ?? 0))}/hr)
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <DialogFooter className="flex space-x-2 pt-4">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onConfirm(targetTableId)}
+            disabled={!targetTableId}
+          >
+            Move Session
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,6 +7,7 @@ import {
   Monitor,
   Bug,
   CheckSquare,
+  ClipboardCheck,
   Command,
   GalleryVerticalEnd,
   HelpCircle,
@@ -27,6 +28,7 @@ import {
   Package,
   ShoppingCart,
   Table,
+  Truck,
   Wallet,
 } from "lucide-react";
 import type { SidebarData } from "../types";
@@ -74,6 +76,16 @@ export const sidebarData: SidebarData = {
           url: "/dashboard/inventory",
           icon: Package,
         },
+        {
+          title: "Purchasing",
+          url: "/dashboard/inventory/purchasing",
+          icon: Truck,
+        },
+        {
+          title: "Stocktakes",
+          url: "/dashboard/inventory/stocktakes",
+          icon: ClipboardCheck,
+        },
         {
           title: "POS",
           url: "/dashboard/pos",
@@ -0,0 +1,475 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { PaymentValues } from "@/lib/validations/payment";
+import { formatPrice } from "@/lib/tableUtils";
+import { SplitPaymentForm } from "@/components/views/pos/SplitPaymentForm";
+import { CustomerSummary } from "./CustomerLookup";
+import { CustomerMemberships } from "./CustomerMemberships";
+
+interface StatementEntry {
+  id: string;
+  date: string;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+interface Statement {
+  openingBalance: number;
+  closingBalance: number;
+  totalCharges: number;
+  totalPayments: number;
+  entries: StatementEntry[];
+}
+
+interface CustomerAccountsProps {
+  companyId: string;
+  canManageCredit?: boolean;
+}
+
+const emptyForm = { name: "", phone: "", email: "", creditLimit: "" };
+
+export function CustomerAccounts({ companyId, canManageCredit = false }: CustomerAccountsProps) {
+  const { toast } = useToast();
+  const [customers, setCustomers] = useState<CustomerSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<CustomerSummary | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [statementCustomer, setStatementCustomer] = useState<CustomerSummary | null>(null);
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [statementFrom, setStatementFrom] = useState(format(subDays(new Date(), 7), "yyyy-MM-dd"));
+  const [statementTo, setStatementTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [settlementPayments, setSettlementPayments] = useState<PaymentValues[]>([]);
+  const [settling, setSettling] = useState(false);
+  const [membershipCustomer, setMembershipCustomer] = useState<CustomerSummary | null>(null);
+
+  // Fetch customers with their tab balances
+  useEffect(() => {
+    const fetchCustomers = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/customers?companyId=${companyId}&includeInactive=true`);
+        if (!response.ok) throw new Error("Failed to fetch customers");
+        setCustomers(await response.json());
+      } catch (error) {
+        console.error("Error fetching customers:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load customers",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId) {
+      fetchCustomers();
+    }
+  }, [companyId, refreshKey, toast]);
+
+  // Load the statement for the selected customer and period
+  useEffect(() => {
+    if (!statementCustomer) return;
+
+    const fetchStatement = async () => {
+      try {
+        const response = await fetch(
+          `/api/customers/${statementCustomer.id}/statement?companyId=${companyId}&from=${statementFrom}&to=${statementTo}`
+        );
+        if (!response.ok) throw new Error("Failed to fetch statement");
+        setStatement(await response.json());
+      } catch (error) {
+        console.error("Error fetching statement:", error);
+        setStatement(null);
+      }
+    };
+
+    fetchStatement();
+  }, [statementCustomer, statementFrom, statementTo, companyId, refreshKey]);
+
+  const filteredCustomers = customers.filter((customer) => {
+    const term = search.trim().toLowerCase();
+    return !term
+      || customer.name.toLowerCase().includes(term)
+      || customer.phone?.includes(term)
+      || customer.email?.toLowerCase().includes(term);
+  });
+
+  const openForm = (customer?: CustomerSummary) => {
+    setEditingCustomer(customer ?? null);
+    setForm(customer
+      ? {
+          name: customer.name,
+          phone: customer.phone ?? "",
+          email: customer.email ?? "",
+          creditLimit: String(Number(customer.creditLimit)),
+        }
+      : emptyForm);
+    setFormOpen(true);
+  };
+
+  const saveCustomer = async () => {
+    try {
+      setSaving(true);
+      const response = await fetch(
+        editingCustomer ? `/api/customers/${editingCustomer.id}` : "/api/customers",
+        {
+          method: editingCustomer ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            companyId,
+            name: form.name,
+            phone: form.phone || null,
+            email: form.email || null,
+            ...(canManageCredit && { creditLimit: Number(form.creditLimit) || 0 }),
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to save customer");
+      }
+
+      toast({
+        title: "Success",
+        description: editingCustomer ? "Customer updated" : "Customer added",
+      });
+
+      setFormOpen(false);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error saving customer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save customer",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (customer: CustomerSummary) => {
+    try {
+      const response = await fetch(`/api/customers/${customer.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, active: !customer.active }),
+      });
+
+      if (!response.ok) throw new Error("Failed to update customer");
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error updating customer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update customer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const settleTab = async () => {
+    if (!statementCustomer) return;
+
+    try {
+      setSettling(true);
+      const response = await fetch(`/api/customers/${statementCustomer.id}/settlements`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, payments: settlementPayments }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to record payment");
+      }
+
+      const result = await response.json();
+      toast({
+        title: "Success",
+        description: `Payment recorded, ${formatPrice(result.tabBalance)} left on the tab`,
+      });
+
+      setStatementCustomer({
+        ...statementCustomer,
+        tabBalance: result.tabBalance,
+        availableCredit: result.availableCredit,
+      });
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error settling tab:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between gap-4">
+        <div className="relative w-full sm:w-64">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search customers..."
+            className="pl-8"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+          />
+        </div>
+        <Button onClick={() => openForm()}>Add Customer</Button>
+      </div>
+
+      {filteredCustomers.length === 0 ? (
+        <div className="text-center p-8 text-muted-foreground">No customers found</div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Customer</TableHead>
+              <TableHead>Credit Limit</TableHead>
+              <TableHead>Tab</TableHead>
+              <TableHead>Available</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {filteredCustomers.map((customer) => (
+              <TableRow key={customer.id} className={customer.active ? "" : "opacity-60"}>
+                <TableCell>
+                  <div className="font-medium">{customer.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {[customer.phone, customer.email].filter(Boolean).join(" · ")}
+                    {!customer.active && " (closed)"}
+                  </div>
+                </TableCell>
+                <TableCell>{formatPrice(Number(customer.creditLimit))}</TableCell>
+                <TableCell className={customer.tabBalance > 0 ? "font-medium" : ""}>
+                  {formatPrice(customer.tabBalance)}
+                </TableCell>
+                <TableCell>{formatPrice(customer.availableCredit)}</TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setStatement(null);
+                      setStatementCustomer(customer);
+                    }}
+                  >
+                    Statement
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!customer.active}
+                    onClick={() => setMembershipCustomer(customer)}
+                  >
+                    Membership
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => openForm(customer)}>
+                    Edit
+                  </Button>
+                  {canManageCredit && (
+                    <Button variant="ghost" size="sm" onClick={() => toggleActive(customer)}>
+                      {customer.active ? "Close" : "Reopen"}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Add / edit customer */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingCustomer ? "Edit Customer" : "Add Customer"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Phone</Label>
+                <Input value={form.phone} onChange={(e) => setForm({ ...form, phone: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+            </div>
+            {canManageCredit && (
+              <div className="space-y-2">
+                <Label>Credit Limit</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={form.creditLimit}
+                  onChange={(e) => setForm({ ...form, creditLimit: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Leave at zero to keep this customer off house tabs.
+                </p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveCustomer} disabled={saving || !form.name.trim()}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Statement and settlement */}
+      <Dialog open={!!statementCustomer} onOpenChange={(open) => !open && setStatementCustomer(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Statement - {statementCustomer?.name}</DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[70vh] pr-4">
+            <div className="space-y-4">
+              <div className="flex items-end gap-4">
+                <div className="space-y-2">
+                  <Label>From</Label>
+                  <Input type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>To</Label>
+                  <Input type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} />
+                </div>
+              </div>
+
+              {!statement ? (
+                <p className="text-sm text-muted-foreground">Loading statement...</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Charges</TableHead>
+                      <TableHead className="text-right">Payments</TableHead>
+                      <TableHead className="text-right">Balance</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-muted-foreground">Opening balance</TableCell>
+                      <TableCell className="text-right">{formatPrice(statement.openingBalance)}</TableCell>
+                    </TableRow>
+                    {statement.entries.map((entry) => (
+                      <TableRow key={entry.id}>
+                        <TableCell>{format(new Date(entry.date), "MMM d, h:mm a")}</TableCell>
+                        <TableCell>{entry.description}</TableCell>
+                        <TableCell className="text-right">
+                          {entry.charge > 0 ? formatPrice(entry.charge) : ""}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {entry.payment > 0 ? formatPrice(entry.payment) : ""}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(entry.balance)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-medium">
+                      <TableCell colSpan={2}>Closing balance</TableCell>
+                      <TableCell className="text-right">{formatPrice(statement.totalCharges)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(statement.totalPayments)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(statement.closingBalance)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+
+              {statementCustomer && statementCustomer.tabBalance > 0 && (
+                <>
+                  <Separator />
+                  <div className="space-y-4">
+                    <h4 className="font-medium">
+                      Settle tab ({formatPrice(statementCustomer.tabBalance)} owed)
+                    </h4>
+                    <SplitPaymentForm
+                      amountDue={statementCustomer.tabBalance}
+                      allowPartial
+                      onChange={setSettlementPayments}
+                    />
+                    <div className="flex justify-end">
+                      <Button onClick={settleTab} disabled={settling || settlementPayments.length === 0}>
+                        {settling ? "Processing..." : "Record Payment"}
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+
+      {/* Memberships and prepaid hours */}
+      <CustomerMemberships
+        companyId={companyId}
+        customer={membershipCustomer}
+        onClose={() => setMembershipCustomer(null)}
+        onSale={() => setRefreshKey((key) => key + 1)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Search, UserPlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { formatPrice } from "@/lib/tableUtils";
+
+export interface CustomerSummary {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+  notes: string | null;
+  creditLimit: number | string;
+  active: boolean;
+  tabBalance: number;
+  availableCredit: number;
+}
+
+interface CustomerLookupProps {
+  companyId: string;
+  value: CustomerSummary | null;
+  onChange: (customer: CustomerSummary | null) => void;
+  placeholder?: string;
+}
+
+export function CustomerLookup({
+  companyId,
+  value,
+  onChange,
+  placeholder = "Search customers...",
+}: CustomerLookupProps) {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<CustomerSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  // Search as the user types, waiting for a pause in typing
+  useEffect(() => {
+    const term = search.trim();
+    if (!term) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        setSearching(true);
+        const response = await fetch(
+          `/api/customers?companyId=${companyId}&search=${encodeURIComponent(term)}`
+        );
+        if (!response.ok) throw new Error("Failed to search customers");
+        setResults(await response.json());
+      } catch (error) {
+        console.error("Error searching customers:", error);
+        setResults([]);
+      } finally {
+        setSearching(false);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [search, companyId]);
+
+  const selectCustomer = (customer: CustomerSummary) => {
+    onChange(customer);
+    setSearch("");
+    setResults([]);
+  };
+
+  // Quick-add a customer with just a name
+  const createCustomer = async () => {
+    try {
+      const response = await fetch("/api/customers", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, name: search.trim() }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to create customer");
+      }
+
+      selectCustomer(await response.json());
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create customer",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+        <div>
+          <div className="font-medium">{value.name}</div>
+          <div className="text-xs text-muted-foreground">
+            Tab {formatPrice(Number(value.tabBalance))}
+            {Number(value.creditLimit) > 0 && ` · ${formatPrice(Number(value.availableCredit))} available`}
+          </div>
+        </div>
+        <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        className="pl-8"
+        placeholder={placeholder}
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+      {search.trim() && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md">
+          {results.map((customer) => (
+            <button
+              key={customer.id}
+              type="button"
+              className="flex w-full items-center justify-between px-3 py-2 text-left text-sm hover:bg-accent"
+              onClick={() => selectCustomer(customer)}
+            >
+              <span>
+                {customer.name}
+                {customer.phone && (
+                  <span className="ml-2 text-xs text-muted-foreground">{customer.phone}</span>
+                )}
+              </span>
+              {customer.tabBalance > 0 && (
+                <span className="text-xs text-muted-foreground">
+                  Tab {formatPrice(customer.tabBalance)}
+                </span>
+              )}
+            </button>
+          ))}
+          {!searching && results.length === 0 && (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No customers found</p>
+          )}
+          <button
+            type="button"
+            className="flex w-full items-center border-t px-3 py-2 text-left text-sm hover:bg-accent"
+            onClick={createCustomer}
+          >
+            <UserPlus className="mr-2 h-4 w-4" />
+            Add &quot;{search.trim()}&quot; as a new customer
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
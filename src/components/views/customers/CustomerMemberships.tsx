@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/components/ui/use-toast";
+import type { MemberBenefits } from "@/lib/membershipUtils";
+import { PaymentValues } from "@/lib/validations/payment";
+import { formatDuration, formatPrice } from "@/lib/tableUtils";
+import { SplitPaymentForm } from "@/components/views/pos/SplitPaymentForm";
+import { CustomerSummary } from "./CustomerLookup";
+import { MembershipPlan } from "./MembershipPlansManager";
+
+interface MembershipRecord {
+  id: string;
+  startsAt: string;
+  expiresAt: string;
+  cancelledAt: string | null;
+  plan: { id: string; name: string };
+}
+
+interface PrepaidCardRecord {
+  id: string;
+  hoursPurchased: string;
+  minutesRemaining: number;
+  price: string;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+interface MembershipAccount {
+  benefits: MemberBenefits;
+  memberships: MembershipRecord[];
+  prepaidCards: PrepaidCardRecord[];
+}
+
+type SaleType = "membership" | "prepaid";
+
+interface CustomerMembershipsProps {
+  companyId: string;
+  customer: CustomerSummary | null;
+  onClose: () => void;
+  onSale: () => void;
+}
+
+export function CustomerMemberships({
+  companyId,
+  customer,
+  onClose,
+  onSale,
+}: CustomerMembershipsProps) {
+  const { toast } = useToast();
+  const [account, setAccount] = useState<MembershipAccount | null>(null);
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [saleType, setSaleType] = useState<SaleType>("membership");
+  const [planId, setPlanId] = useState("");
+  const [hours, setHours] = useState("");
+  const [price, setPrice] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [payments, setPayments] = useState<PaymentValues[]>([]);
+  const [selling, setSelling] = useState(false);
+
+  // Load the customer's memberships and prepaid hours
+  useEffect(() => {
+    if (!customer) return;
+
+    const fetchAccount = async () => {
+      try {
+        const response = await fetch(`/api/customers/${customer.id}/memberships?companyId=${companyId}`);
+        if (!response.ok) throw new Error("Failed to fetch memberships");
+        setAccount(await response.json());
+      } catch (error) {
+        console.error("Error fetching memberships:", error);
+        setAccount(null);
+      }
+    };
+
+    fetchAccount();
+  }, [customer, companyId, refreshKey]);
+
+  // Load the plans that can be sold
+  useEffect(() => {
+    if (!customer) return;
+
+    const fetchPlans = async () => {
+      try {
+        const response = await fetch(`/api/memberships/plans?companyId=${companyId}`);
+        if (!response.ok) throw new Error("Failed to fetch membership plans");
+        const data = await response.json();
+        setPlans(data.plans);
+      } catch (error) {
+        console.error("Error fetching membership plans:", error);
+        setPlans([]);
+      }
+    };
+
+    setAccount(null);
+    setPlanId("");
+    setHours("");
+    setPrice("");
+    setExpiresAt("");
+    fetchPlans();
+  }, [customer, companyId]);
+
+  const selectedPlan = plans.find((plan) => plan.id === planId);
+  const amountDue = saleType === "membership"
+    ? Number(selectedPlan?.price ?? 0)
+    : Number(price) || 0;
+  const canSell = saleType === "membership" ? !!selectedPlan : Number(hours) > 0 && price !== "";
+
+  const sell = async () => {
+    if (!customer) return;
+
+    // Free plans and giveaways are recorded without a payment
+    const salePayments = amountDue > 0 ? payments : [];
+
+    try {
+      setSelling(true);
+      const response = await fetch(
+        saleType === "membership"
+          ? `/api/customers/${customer.id}/memberships`
+          : `/api/customers/${customer.id}/prepaid-cards`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(
+            saleType === "membership"
+              ? { companyId, planId, payments: salePayments }
+              : {
+                  companyId,
+                  hours: Number(hours),
+                  price: Number(price),
+                  expiresAt: expiresAt ? new Date(`${expiresAt}T23:59:59`).toISOString() : null,
+                  payments: salePayments,
+                }
+          ),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to complete the sale");
+      }
+
+      toast({
+        title: "Success",
+        description: saleType === "membership"
+          ? `${selectedPlan?.name} membership sold to ${customer.name}`
+          : `${hours} prepaid hours sold to ${customer.name}`,
+      });
+
+      setPlanId("");
+      setHours("");
+      setPrice("");
+      setExpiresAt("");
+      setRefreshKey((key) => key + 1);
+      onSale();
+    } catch (error) {
+      console.error("Error selling membership:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to complete the sale",
+        variant: "destructive",
+      });
+    } finally {
+      setSelling(false);
+    }
+  };
+
+  const now = new Date();
+  const membership = account?.benefits.membership;
+
+  return (
+    <Dialog open={!!customer} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Membership - {customer?.name}</DialogTitle>
+        </DialogHeader>
+        <ScrollArea className="max-h-[70vh] pr-4">
+          {!account ? (
+            <p className="text-sm text-muted-foreground">Loading memberships...</p>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="rounded-md border p-3">
+                  <div className="text-xs text-muted-foreground">Membership</div>
+                  {membership ? (
+                    <>
+                      <div className="font-medium">{membership.planName}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {membership.discountPercent > 0 && `${membership.discountPercent}% off · `}
+                        {formatDuration(membership.freeMinutesRemaining)} of{" "}
+                        {formatDuration(membership.freeMinutesPerMonth)} free left this month
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Expires {format(new Date(membership.expiresAt), "MMM d, yyyy")}
+                      </div>
+                    </>
+                  ) : (
+                    <div className="font-medium">None</div>
+                  )}
+                </div>
+                <div className="rounded-md border p-3">
+                  <div className="text-xs text-muted-foreground">Prepaid hours</div>
+                  <div className="font-medium">{formatDuration(account.benefits.prepaidMinutes)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Used automatically when the customer&apos;s table sessions end
+                  </div>
+                </div>
+              </div>
+
+              {(account.memberships.length > 0 || account.prepaidCards.length > 0) && (
+                <div className="space-y-1">
+                  <h4 className="font-medium">History</h4>
+                  {account.memberships.map((record) => {
+                    const expired = new Date(record.expiresAt) <= now;
+                    const upcoming = new Date(record.startsAt) > now;
+                    return (
+                      <div key={record.id} className="flex justify-between">
+                        <span>
+                          {record.plan.name} membership
+                          {upcoming && <Badge variant="outline" className="ml-2">Renewal</Badge>}
+                          {record.cancelledAt && <Badge variant="outline" className="ml-2">Cancelled</Badge>}
+                          {expired && !record.cancelledAt && <Badge variant="outline" className="ml-2">Expired</Badge>}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {format(new Date(record.startsAt), "MMM d, yyyy")} - {format(new Date(record.expiresAt), "MMM d, yyyy")}
+                        </span>
+                      </div>
+                    );
+                  })}
+                  {account.prepaidCards.map((card) => (
+                    <div key={card.id} className="flex justify-between">
+                      <span>
+                        {Number(card.hoursPurchased)} prepaid hours ({formatDuration(card.minutesRemaining)} left)
+                        {card.expiresAt && new Date(card.expiresAt) <= now && (
+                          <Badge variant="outline" className="ml-2">Expired</Badge>
+                        )}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {format(new Date(card.createdAt), "MMM d, yyyy")}
+                        {card.expiresAt && ` - ${format(new Date(card.expiresAt), "MMM d, yyyy")}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Sell</Label>
+                    <Select value={saleType} onValueChange={(value) => setSaleType(value as SaleType)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="membership">{membership ? "Renew membership" : "Membership"}</SelectItem>
+                        <SelectItem value="prepaid">Prepaid hours</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {saleType === "membership" ? (
+                    <div className="space-y-2">
+                      <Label>Plan</Label>
+                      <Select value={planId} onValueChange={setPlanId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a plan" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {plans.map((plan) => (
+                            <SelectItem key={plan.id} value={plan.id}>
+                              {plan.name} ({formatPrice(Number(plan.price))} / {plan.durationDays} days)
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <Label>Hours</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={hours}
+                        onChange={(e) => setHours(e.target.value)}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                {saleType === "prepaid" && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Price</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        placeholder="0.00"
+                        value={price}
+                        onChange={(e) => setPrice(e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Expires</Label>
+                      <Input type="date" value={expiresAt} onChange={(e) => setExpiresAt(e.target.value)} />
+                    </div>
+                  </div>
+                )}
+
+                {canSell && amountDue > 0 && (
+                  <SplitPaymentForm
+                    amountDue={amountDue}
+                    allowTab={Number(customer?.creditLimit ?? 0) > 0}
+                    onChange={setPayments}
+                  />
+                )}
+
+                <div className="flex justify-end">
+                  <Button onClick={sell} disabled={selling || !canSell}>
+                    {selling ? "Processing..." : `Sell for ${formatPrice(amountDue)}`}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
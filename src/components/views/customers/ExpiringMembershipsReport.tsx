@@ -0,0 +1,159 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { differenceInCalendarDays, format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDuration } from "@/lib/tableUtils";
+
+interface ExpiringCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+interface ExpiringReport {
+  days: number;
+  memberships: {
+    id: string;
+    expiresAt: string;
+    renewed: boolean;
+    plan: { id: string; name: string };
+    customer: ExpiringCustomer;
+  }[];
+  prepaidCards: {
+    id: string;
+    expiresAt: string;
+    minutesRemaining: number;
+    customer: ExpiringCustomer;
+  }[];
+}
+
+interface ExpiringMembershipsReportProps {
+  companyId: string;
+}
+
+const contactDetails = (customer: ExpiringCustomer) =>
+  [customer.phone, customer.email].filter(Boolean).join(" · ");
+
+export function ExpiringMembershipsReport({ companyId }: ExpiringMembershipsReportProps) {
+  const [days, setDays] = useState("30");
+  const [report, setReport] = useState<ExpiringReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/memberships/expiring?companyId=${companyId}&days=${days}`);
+        if (!response.ok) throw new Error("Failed to fetch expiring memberships");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching expiring memberships:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId) {
+      fetchReport();
+    }
+  }, [companyId, days]);
+
+  const now = new Date();
+  const isEmpty = !report || (report.memberships.length === 0 && report.prepaidCards.length === 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Expiring Memberships</CardTitle>
+          <CardDescription>Members and prepaid hours to follow up on before they run out</CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Next 7 days</SelectItem>
+            <SelectItem value="14">Next 14 days</SelectItem>
+            <SelectItem value="30">Next 30 days</SelectItem>
+            <SelectItem value="60">Next 60 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : isEmpty ? (
+          <p className="text-center py-8 text-muted-foreground">Nothing expires in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Expiring</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Days Left</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.memberships.map((membership) => (
+                <TableRow key={membership.id}>
+                  <TableCell>
+                    <div className="font-medium">{membership.customer.name}</div>
+                    <div className="text-xs text-muted-foreground">{contactDetails(membership.customer)}</div>
+                  </TableCell>
+                  <TableCell>
+                    {membership.plan.name} membership
+                    {membership.renewed && <Badge variant="outline" className="ml-2">Renewed</Badge>}
+                  </TableCell>
+                  <TableCell>{format(new Date(membership.expiresAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right">
+                    {differenceInCalendarDays(new Date(membership.expiresAt), now)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {report.prepaidCards.map((card) => (
+                <TableRow key={card.id}>
+                  <TableCell>
+                    <div className="font-medium">{card.customer.name}</div>
+                    <div className="text-xs text-muted-foreground">{contactDetails(card.customer)}</div>
+                  </TableCell>
+                  <TableCell>{formatDuration(card.minutesRemaining)} prepaid hours</TableCell>
+                  <TableCell>{format(new Date(card.expiresAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right">
+                    {differenceInCalendarDays(new Date(card.expiresAt), now)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
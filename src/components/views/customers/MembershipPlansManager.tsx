@@ -0,0 +1,362 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PencilIcon, Plus } from "lucide-react";
+import { formatPrice } from "@/lib/tableUtils";
+
+export type MembershipPlan = {
+  id: string;
+  name: string;
+  discountPercent: string;
+  freeHoursPerMonth: string;
+  durationDays: number;
+  price: string;
+  active: boolean;
+};
+
+interface MembershipPlansManagerProps {
+  companyId: string;
+}
+
+const isNonNegative = (val: string) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0;
+
+// Form schema - numeric fields are kept as strings while editing
+const planFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  discountPercent: z.string().refine((val) => isNonNegative(val) && parseFloat(val) <= 100, {
+    message: "Discount must be between 0 and 100",
+  }),
+  freeHoursPerMonth: z.string().refine(isNonNegative, {
+    message: "Free hours must be a positive number",
+  }),
+  durationDays: z.string().refine((val) => Number.isInteger(Number(val)) && Number(val) >= 1, {
+    message: "Duration must be at least one day",
+  }),
+  price: z.string().refine(isNonNegative, {
+    message: "Price must be a positive number",
+  }),
+  active: z.boolean(),
+});
+
+type PlanFormValues = z.infer<typeof planFormSchema>;
+
+const emptyPlan: PlanFormValues = {
+  name: "",
+  discountPercent: "0",
+  freeHoursPerMonth: "0",
+  durationDays: "30",
+  price: "",
+  active: true,
+};
+
+export function MembershipPlansManager({ companyId }: MembershipPlansManagerProps) {
+  const { toast } = useToast();
+  const [plans, setPlans] = useState<MembershipPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPlan, setEditingPlan] = useState<MembershipPlan | null>(null);
+
+  const form = useForm<PlanFormValues>({
+    resolver: zodResolver(planFormSchema),
+    defaultValues: emptyPlan,
+  });
+
+  const fetchPlans = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/memberships/plans?companyId=${companyId}&includeInactive=true`);
+      if (!response.ok) throw new Error("Failed to fetch membership plans");
+      const data = await response.json();
+      setPlans(data.plans);
+    } catch (error) {
+      console.error("Error fetching membership plans:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load membership plans. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchPlans();
+    }
+  }, [companyId, fetchPlans]);
+
+  // Open create/edit dialog
+  function openPlanDialog(plan?: MembershipPlan) {
+    setEditingPlan(plan ?? null);
+    form.reset(
+      plan
+        ? {
+            name: plan.name,
+            discountPercent: String(plan.discountPercent),
+            freeHoursPerMonth: String(plan.freeHoursPerMonth),
+            durationDays: String(plan.durationDays),
+            price: String(plan.price),
+            active: plan.active,
+          }
+        : emptyPlan
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: PlanFormValues) {
+    const payload = {
+      companyId,
+      name: values.name,
+      discountPercent: parseFloat(values.discountPercent),
+      freeHoursPerMonth: parseFloat(values.freeHoursPerMonth),
+      durationDays: parseInt(values.durationDays, 10),
+      price: parseFloat(values.price),
+      active: values.active,
+    };
+
+    try {
+      const response = await fetch(
+        editingPlan ? `/api/memberships/plans/${editingPlan.id}` : "/api/memberships/plans",
+        {
+          method: editingPlan ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingPlan ? "Membership plan updated" : "Membership plan created",
+      });
+      setDialogOpen(false);
+      setEditingPlan(null);
+      fetchPlans();
+    } catch (error) {
+      console.error("Error saving membership plan:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save membership plan: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  function describeBenefits(plan: MembershipPlan) {
+    const benefits = [];
+    if (Number(plan.discountPercent) > 0) benefits.push(`${Number(plan.discountPercent)}% off table time`);
+    if (Number(plan.freeHoursPerMonth) > 0) benefits.push(`${Number(plan.freeHoursPerMonth)} free hours/month`);
+    return benefits.length > 0 ? benefits.join(" · ") : "No table benefits";
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Membership Plans</CardTitle>
+          <CardDescription>
+            Members get discounted table time and free hours every calendar month until their membership expires
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openPlanDialog()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Plan
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : plans.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No membership plans yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Benefits</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {plans.map((plan) => (
+                <TableRow key={plan.id}>
+                  <TableCell className="font-medium">
+                    {plan.name}
+                    {!plan.active && (
+                      <Badge variant="outline" className="ml-2">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{describeBenefits(plan)}</TableCell>
+                  <TableCell className="text-right">{plan.durationDays} days</TableCell>
+                  <TableCell className="text-right">{formatPrice(Number(plan.price))}</TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="icon" title="Edit" onClick={() => openPlanDialog(plan)}>
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Plan Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingPlan ? "Edit Membership Plan" : "New Membership Plan"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Gold" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="discountPercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Table Discount (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" max="100" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="freeHoursPerMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Free Hours per Month</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.5" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="durationDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Price</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Available for sale</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingPlan ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
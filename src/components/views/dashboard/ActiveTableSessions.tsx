@@ -2,10 +2,18 @@
 
 import { useEffect, useState } from "react";
 import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@/components/ui/table";
-import { calculateSessionDuration, calculateSessionCost, formatDuration, formatPrice } from "@/lib/tableUtils";
-import { TableSession, Table as BilliardTable } from "@prisma/client";
+import { Badge } from "@/components/ui/badge";
+import {
+  calculateSessionDuration,
+  calculateSessionCost,
+  formatDuration,
+  formatPrice,
+  isSessionPaused,
+  SessionWithPauses
+} from "@/lib/tableUtils";
+import { Table as BilliardTable } from "@prisma/client";
 
-type TableSessionWithTable = TableSession & {
+type TableSessionWithTable = SessionWithPauses & {
   table: BilliardTable;
 };
 
@@ -90,7 +98,12 @@ export default function ActiveTableSessions({ companyId, fullView = false }: Act
           
           return (
             <TableRow key={session.id}>
-              <TableCell className="font-medium">{session.table.name}</TableCell>
+              <TableCell className="font-medium">
+                {session.table.name}
+                {isSessionPaused(session) && (
+                  <Badge variant="secondary" className="ml-2">Paused</Badge>
+                )}
+              </TableCell>
               <TableCell>{formatDuration(durationMinutes)}</TableCell>
               <TableCell>{formatPrice(currentCost)}</TableCell>
             </TableRow>
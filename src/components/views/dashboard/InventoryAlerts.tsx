@@ -5,7 +5,9 @@ import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from "@
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ExclamationTriangleIcon } from "@radix-ui/react-icons";
-import { InventoryItem } from "@prisma/client";
+import { format } from "date-fns";
+import type { ReorderSuggestion } from "@/lib/purchasingUtils";
+import type { StockLot } from "@/lib/inventoryUtils";
 
 type InventoryAlertsProps = {
   companyId: string;
@@ -13,17 +15,22 @@ type InventoryAlertsProps = {
 };
 
 export default function InventoryAlerts({ companyId, fullView = false }: InventoryAlertsProps) {
-  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [items, setItems] = useState<ReorderSuggestion[]>([]);
+  const [expiringLots, setExpiringLots] = useState<StockLot[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const fetchInventoryAlerts = async () => {
       try {
         setLoading(true);
-        const response = await fetch(`/api/analytics/inventory-alerts?companyId=${companyId}`);
-        if (!response.ok) throw new Error('Failed to fetch inventory alerts');
-        const data = await response.json();
-        setItems(data);
+        const [alertsResponse, expiringResponse] = await Promise.all([
+          fetch(`/api/analytics/inventory-alerts?companyId=${companyId}`),
+          fetch(`/api/analytics/expiring-stock?companyId=${companyId}`),
+        ]);
+        if (!alertsResponse.ok) throw new Error('Failed to fetch inventory alerts');
+        if (!expiringResponse.ok) throw new Error('Failed to fetch expiring stock');
+        setItems(await alertsResponse.json());
+        setExpiringLots(await expiringResponse.json());
       } catch (error) {
         console.error('Error fetching inventory alerts:', error);
       } finally {
@@ -40,27 +47,56 @@ export default function InventoryAlerts({ companyId, fullView = false }: Invento
     return <div>Loading inventory alerts...</div>;
   }
 
-  if (items.length === 0) {
+  if (items.length === 0 && expiringLots.length === 0) {
     return (
       <div className="text-muted-foreground text-sm">
-        No inventory items below threshold
+        No inventory items below threshold or expiring soon
       </div>
     );
   }
 
-  // For summary view, just show the number of items below threshold
+  const expiredCount = expiringLots.filter((lot) => (lot.daysUntilExpiry ?? 0) < 0).length;
+
+  // For summary view, just show the number of items below threshold and lots expiring
   if (!fullView) {
     return (
-      <Alert variant="destructive">
-        <ExclamationTriangleIcon className="h-4 w-4" />
-        <AlertTitle>Inventory Alert</AlertTitle>
-        <AlertDescription>
-          {items.length} item{items.length !== 1 ? 's' : ''} below critical threshold
-        </AlertDescription>
-      </Alert>
+      <div className="space-y-2">
+        {items.length > 0 && (
+          <Alert variant="destructive">
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            <AlertTitle>Inventory Alert</AlertTitle>
+            <AlertDescription>
+              {items.length} item{items.length !== 1 ? 's' : ''} below critical threshold
+            </AlertDescription>
+          </Alert>
+        )}
+        {expiringLots.length > 0 && (
+          <Alert variant={expiredCount > 0 ? "destructive" : "default"}>
+            <ExclamationTriangleIcon className="h-4 w-4" />
+            <AlertTitle>Expiring Stock</AlertTitle>
+            <AlertDescription>
+              {expiringLots.length} lot{expiringLots.length !== 1 ? 's' : ''}{' '}
+              {expiredCount > 0 ? 'expired or expiring soon' : 'expiring soon'}
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
     );
   }
 
+  return (
+    <div className="space-y-6">
+      {items.length > 0 && (
+        <LowStockTable items={items} />
+      )}
+      {expiringLots.length > 0 && (
+        <ExpiringStockTable lots={expiringLots} />
+      )}
+    </div>
+  );
+}
+
+function LowStockTable({ items }: { items: ReorderSuggestion[] }) {
   return (
     <Table>
       <TableHeader>
@@ -68,6 +104,8 @@ export default function InventoryAlerts({ companyId, fullView = false }: Invento
           <TableHead>Product</TableHead>
           <TableHead>Current Qty</TableHead>
           <TableHead>Threshold</TableHead>
+          <TableHead>On Order</TableHead>
+          <TableHead>Reorder</TableHead>
           <TableHead>Status</TableHead>
         </TableRow>
       </TableHeader>
@@ -89,6 +127,13 @@ export default function InventoryAlerts({ companyId, fullView = false }: Invento
               <TableCell className="font-medium">{item.name}</TableCell>
               <TableCell>{item.quantity}</TableCell>
               <TableCell>{item.criticalThreshold}</TableCell>
+              <TableCell>{item.onOrder}</TableCell>
+              <TableCell>
+                {item.suggestedQuantity > 0 ? item.suggestedQuantity : "—"}
+                {item.supplier && item.suggestedQuantity > 0 && (
+                  <span className="text-muted-foreground"> from {item.supplier.name}</span>
+                )}
+              </TableCell>
               <TableCell>
                 <Badge 
                   variant={status === "critical" ? "destructive" : "outline"}
@@ -103,4 +148,46 @@ export default function InventoryAlerts({ companyId, fullView = false }: Invento
       </TableBody>
     </Table>
   );
-} 
\ No newline at end of file
+} 
+
+function ExpiringStockTable({ lots }: { lots: StockLot[] }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Product</TableHead>
+          <TableHead>Lot</TableHead>
+          <TableHead>Expires</TableHead>
+          <TableHead>Qty</TableHead>
+          <TableHead>Status</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lots.map((lot) => {
+          const daysUntilExpiry = lot.daysUntilExpiry ?? 0;
+
+          return (
+            <TableRow key={lot.id}>
+              <TableCell className="font-medium">{lot.item.name}</TableCell>
+              <TableCell>{lot.lotNumber || "—"}</TableCell>
+              <TableCell>{lot.expiresAt ? format(new Date(lot.expiresAt), "MMM d, yyyy") : "—"}</TableCell>
+              <TableCell>{lot.quantityRemaining}</TableCell>
+              <TableCell>
+                <Badge
+                  variant={daysUntilExpiry < 0 ? "destructive" : "outline"}
+                  className={daysUntilExpiry >= 0 && daysUntilExpiry <= 2 ? "bg-amber-200 text-amber-800" : ""}
+                >
+                  {daysUntilExpiry < 0
+                    ? "Expired"
+                    : daysUntilExpiry === 0
+                      ? "Expires today"
+                      : `${daysUntilExpiry} day${daysUntilExpiry !== 1 ? 's' : ''} left`}
+                </Badge>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -10,6 +10,9 @@ type ProductData = {
   item: InventoryItem | null;
   quantitySold: number;
   revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
 };
 
 type ProductPerformanceProps = {
@@ -93,6 +96,8 @@ export default function ProductPerformance({ companyId, fullView = false }: Prod
             <TableHead>Product</TableHead>
             <TableHead>Qty Sold</TableHead>
             <TableHead>Revenue</TableHead>
+            <TableHead>Cost</TableHead>
+            <TableHead>Margin</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
@@ -101,6 +106,13 @@ export default function ProductPerformance({ companyId, fullView = false }: Prod
               <TableCell className="font-medium">{product.item?.name || 'Unknown'}</TableCell>
               <TableCell>{product.quantitySold}</TableCell>
               <TableCell>{formatPrice(product.revenue)}</TableCell>
+              <TableCell>{formatPrice(product.cost)}</TableCell>
+              <TableCell>
+                {formatPrice(product.margin)}
+                {product.marginPercent !== null && (
+                  <span className="text-muted-foreground"> ({product.marginPercent}%)</span>
+                )}
+              </TableCell>
             </TableRow>
           ))}
         </TableBody>
@@ -0,0 +1,123 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { PromotionReport as PromotionReportData } from "@/lib/promotionUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface PromotionReportProps {
+  companyId: string;
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function PromotionReport({ companyId }: PromotionReportProps) {
+  const [from, setFrom] = useState(toDateInput(startOfMonth(new Date())));
+  const [to, setTo] = useState(toDateInput(endOfMonth(new Date())));
+  const [report, setReport] = useState<PromotionReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/pos/promotions/report?companyId=${companyId}&from=${from}&to=${to}`);
+        if (!response.ok) throw new Error("Failed to fetch promotions report");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching promotions report:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId && from && to) {
+      fetchReport();
+    }
+  }, [companyId, from, to]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Promotions</CardTitle>
+          <CardDescription>Discount given per promotion on orders and table time</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="promotionsFrom" className="text-xs">From</Label>
+            <Input id="promotionsFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="promotionsTo" className="text-xs">To</Label>
+            <Input id="promotionsTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the promotions report for this period</p>
+        ) : report.rows.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No promotions used in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Promotion</TableHead>
+                <TableHead className="text-right">Uses</TableHead>
+                <TableHead className="text-right">Order Discount</TableHead>
+                <TableHead className="text-right">Table Time</TableHead>
+                <TableHead className="text-right">Total Discount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={row.promotionId}>
+                  <TableCell className="font-medium">
+                    {row.name}
+                    {row.code && <Badge variant="secondary" className="ml-2">{row.code}</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{row.redemptions}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.orderDiscount)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.tableCredit)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatPrice(row.totalDiscount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">{report.totals.redemptions}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.orderDiscount)}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.tableCredit)}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.totalDiscount)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
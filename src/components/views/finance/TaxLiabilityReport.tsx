@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfMonth, format, startOfMonth, subMonths } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { TaxLiabilityReport as TaxLiabilityReportData } from "@/lib/taxUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface TaxLiabilityReportProps {
+  companyId: string;
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function TaxLiabilityReport({ companyId }: TaxLiabilityReportProps) {
+  // Default to last month, the period usually being filed
+  const lastMonth = subMonths(new Date(), 1);
+  const [from, setFrom] = useState(toDateInput(startOfMonth(lastMonth)));
+  const [to, setTo] = useState(toDateInput(endOfMonth(lastMonth)));
+  const [report, setReport] = useState<TaxLiabilityReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/taxes/liability?companyId=${companyId}&from=${from}&to=${to}`);
+        if (!response.ok) throw new Error("Failed to fetch tax report");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching tax report:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId && from && to) {
+      fetchReport();
+    }
+  }, [companyId, from, to]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Tax Liability</CardTitle>
+          <CardDescription>Tax collected per rate, less tax given back on refunds</CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="taxFrom" className="text-xs">From</Label>
+            <Input id="taxFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="taxTo" className="text-xs">To</Label>
+            <Input id="taxTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the tax report for this period</p>
+        ) : report.rows.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No taxed sales in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tax</TableHead>
+                <TableHead className="text-right">Taxable Sales</TableHead>
+                <TableHead className="text-right">Tax Collected</TableHead>
+                <TableHead className="text-right">Refunded</TableHead>
+                <TableHead className="text-right">Tax Owed</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.rows.map((row) => (
+                <TableRow key={`${row.taxRateId ?? row.name}-${row.rate}`}>
+                  <TableCell className="font-medium">{row.name} {row.rate}%</TableCell>
+                  <TableCell className="text-right">
+                    {formatPrice(row.taxableAmount - row.refundedTaxableAmount)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPrice(row.taxAmount)}</TableCell>
+                  <TableCell className="text-right">-{formatPrice(row.refundedTaxAmount)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatPrice(row.netTaxAmount)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">
+                  {formatPrice(report.totals.taxableAmount - report.totals.refundedTaxableAmount)}
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.taxAmount)}</TableCell>
+                <TableCell className="text-right">-{formatPrice(report.totals.refundedTaxAmount)}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.netTaxAmount)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,432 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PencilIcon, Plus } from "lucide-react";
+
+export type TaxRate = {
+  id: string;
+  name: string;
+  rate: string;
+  active: boolean;
+};
+
+type TaxCategory = {
+  id: string;
+  name: string;
+  taxRateId: string | null;
+};
+
+interface TaxRatesManagerProps {
+  companyId: string;
+}
+
+// Radix selects can't hold an empty value
+const NO_TAX = "none";
+
+// Form schema - the rate is kept as a string while editing
+const rateFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  rate: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
+    message: "Rate must be between 0 and 100",
+  }),
+  active: z.boolean(),
+});
+
+type RateFormValues = z.infer<typeof rateFormSchema>;
+
+const emptyRate: RateFormValues = {
+  name: "",
+  rate: "",
+  active: true,
+};
+
+export function TaxRatesManager({ companyId }: TaxRatesManagerProps) {
+  const { toast } = useToast();
+  const [rates, setRates] = useState<TaxRate[]>([]);
+  const [categories, setCategories] = useState<TaxCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<TaxRate | null>(null);
+  const [pricesIncludeTax, setPricesIncludeTax] = useState(false);
+  const [tableTimeTaxRateId, setTableTimeTaxRateId] = useState(NO_TAX);
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const form = useForm<RateFormValues>({
+    resolver: zodResolver(rateFormSchema),
+    defaultValues: emptyRate,
+  });
+
+  const fetchTaxes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [taxesResponse, categoriesResponse] = await Promise.all([
+        fetch(`/api/taxes?companyId=${companyId}`),
+        fetch(`/api/inventory/categories?companyId=${companyId}`),
+      ]);
+      if (!taxesResponse.ok || !categoriesResponse.ok) throw new Error("Failed to fetch tax rates");
+      const data = await taxesResponse.json();
+      setRates(data.rates);
+      setPricesIncludeTax(data.settings.pricesIncludeTax);
+      setTableTimeTaxRateId(data.settings.tableTimeTaxRateId ?? NO_TAX);
+      setCategories(await categoriesResponse.json());
+    } catch (error) {
+      console.error("Error fetching tax rates:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load tax rates. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchTaxes();
+    }
+  }, [companyId, fetchTaxes]);
+
+  // Open create/edit dialog
+  function openRateDialog(rate?: TaxRate) {
+    setEditingRate(rate ?? null);
+    form.reset(
+      rate
+        ? { name: rate.name, rate: String(Number(rate.rate)), active: rate.active }
+        : emptyRate
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: RateFormValues) {
+    const payload = {
+      companyId,
+      name: values.name,
+      rate: parseFloat(values.rate),
+      active: values.active,
+    };
+
+    try {
+      const response = await fetch(
+        editingRate ? `/api/taxes/rates/${editingRate.id}` : "/api/taxes/rates",
+        {
+          method: editingRate ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingRate ? "Tax rate updated" : "Tax rate created",
+      });
+      setDialogOpen(false);
+      setEditingRate(null);
+      fetchTaxes();
+    } catch (error) {
+      console.error("Error saving tax rate:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save tax rate: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function saveSettings() {
+    try {
+      setSavingSettings(true);
+      const response = await fetch("/api/taxes", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          companyId,
+          pricesIncludeTax,
+          tableTimeTaxRateId: tableTimeTaxRateId === NO_TAX ? null : tableTimeTaxRateId,
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to save tax settings");
+
+      toast({ title: "Success", description: "Tax settings saved" });
+    } catch (error) {
+      console.error("Error saving tax settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save tax settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  }
+
+  async function assignCategoryTax(category: TaxCategory, value: string) {
+    const taxRateId = value === NO_TAX ? null : value;
+
+    try {
+      const response = await fetch(`/api/inventory/categories/${category.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ taxRateId }),
+      });
+      if (!response.ok) throw new Error("Failed to update category");
+
+      setCategories((current) =>
+        current.map((item) => (item.id === category.id ? { ...item, taxRateId } : item))
+      );
+    } catch (error) {
+      console.error("Error assigning tax class:", error);
+      toast({
+        title: "Error",
+        description: `Failed to update the tax class of ${category.name}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  const activeRates = rates.filter((rate) => rate.active);
+
+  const rateOptions = (
+    <SelectContent>
+      <SelectItem value={NO_TAX}>No tax</SelectItem>
+      {activeRates.map((rate) => (
+        <SelectItem key={rate.id} value={rate.id}>
+          {rate.name} ({Number(rate.rate)}%)
+        </SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Settings</CardTitle>
+          <CardDescription>
+            Choose whether your prices already include tax and how table time is taxed
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div className="flex items-center space-x-2 pb-2">
+              <Checkbox
+                id="pricesIncludeTax"
+                checked={pricesIncludeTax}
+                onCheckedChange={(checked) => setPricesIncludeTax(checked === true)}
+              />
+              <Label htmlFor="pricesIncludeTax">Prices include tax</Label>
+            </div>
+            <div className="space-y-2">
+              <Label>Table time tax class</Label>
+              <Select value={tableTimeTaxRateId} onValueChange={setTableTimeTaxRateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                {rateOptions}
+              </Select>
+            </div>
+            <Button onClick={saveSettings} disabled={savingSettings || loading}>
+              {savingSettings && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Tax Rates</CardTitle>
+            <CardDescription>
+              Each rate is a tax class you can assign to product categories and table time
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openRateDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rate
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : rates.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No tax rates yet. Sales are untaxed until you add one.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map((rate) => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">
+                      {rate.name}
+                      {!rate.active && (
+                        <Badge variant="outline" className="ml-2">Inactive</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(rate.rate)}%</TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="icon" title="Edit" onClick={() => openRateDialog(rate)}>
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {!loading && categories.length > 0 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-medium">Product categories</h4>
+              <Table>
+                <TableBody>
+                  {categories.map((category) => (
+                    <TableRow key={category.id}>
+                      <TableCell>{category.name}</TableCell>
+                      <TableCell className="w-56">
+                        <Select
+                          value={category.taxRateId ?? NO_TAX}
+                          onValueChange={(value) => assignCategoryTax(category, value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          {rateOptions}
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rate Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>{editingRate ? "Edit Tax Rate" : "New Tax Rate"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="VAT" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rate (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" max="100" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Applies to new sales</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingRate ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { GrossMarginReport as GrossMarginReportData } from "@/lib/costingUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface GrossMarginReportProps {
+  companyId: string;
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+const formatPercent = (percent: number | null) => (percent === null ? "—" : `${percent}%`);
+
+export function GrossMarginReport({ companyId }: GrossMarginReportProps) {
+  const [from, setFrom] = useState(toDateInput(startOfMonth(new Date())));
+  const [to, setTo] = useState(toDateInput(endOfMonth(new Date())));
+  const [report, setReport] = useState<GrossMarginReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/inventory/margins?companyId=${companyId}&from=${from}&to=${to}`);
+        if (!response.ok) throw new Error("Failed to fetch margin report");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching margin report:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId && from && to) {
+      fetchReport();
+    }
+  }, [companyId, from, to]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Gross Margin</CardTitle>
+          <CardDescription>
+            What each product sold for against what its stock cost, less refunds
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="marginFrom" className="text-xs">From</Label>
+            <Input id="marginFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="marginTo" className="text-xs">To</Label>
+            <Input id="marginTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the margin report for this period</p>
+        ) : report.items.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No sales in this period</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+                <TableHead className="text-right">Cost of Goods</TableHead>
+                <TableHead className="text-right">Margin</TableHead>
+                <TableHead className="text-right">Margin %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.items.map((row) => (
+                <TableRow key={row.itemId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.quantity}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.revenue)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.cost)}</TableCell>
+                  <TableCell className={`text-right ${row.margin < 0 ? "text-destructive" : ""}`}>
+                    {formatPrice(row.margin)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(row.marginPercent)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.revenue)}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.cost)}</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.margin)}</TableCell>
+                <TableCell className="text-right">{formatPercent(report.totals.marginPercent)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
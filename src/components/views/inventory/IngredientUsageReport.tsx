@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfMonth, format, startOfMonth } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { IngredientUsageReport as IngredientUsageReportData } from "@/lib/recipeUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface IngredientUsageReportProps {
+  companyId: string;
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+export function IngredientUsageReport({ companyId }: IngredientUsageReportProps) {
+  const [from, setFrom] = useState(toDateInput(startOfMonth(new Date())));
+  const [to, setTo] = useState(toDateInput(endOfMonth(new Date())));
+  const [report, setReport] = useState<IngredientUsageReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/inventory/usage?companyId=${companyId}&from=${from}&to=${to}`);
+        if (!response.ok) throw new Error("Failed to fetch usage report");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching usage report:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId && from && to) {
+      fetchReport();
+    }
+  }, [companyId, from, to]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Ingredient Usage</CardTitle>
+          <CardDescription>
+            Ingredients used by sales against what actually left the shelf
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="usageFrom" className="text-xs">From</Label>
+            <Input id="usageFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="usageTo" className="text-xs">To</Label>
+            <Input id="usageTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the usage report for this period</p>
+        ) : report.ingredients.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No recipes use any ingredients yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="text-right">Theoretical</TableHead>
+                <TableHead className="text-right">Actual</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">Variance Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.ingredients.map((row) => (
+                <TableRow key={row.itemId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.theoreticalUsage}</TableCell>
+                  <TableCell className="text-right">{row.actualUsage}</TableCell>
+                  <TableCell className={`text-right ${row.variance > 0 ? "text-destructive" : ""}`}>
+                    {row.variance > 0 ? `+${row.variance}` : row.variance}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {row.unitCost === null ? "—" : formatPrice(row.varianceCost)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={4}>Total</TableCell>
+                <TableCell className="text-right">{formatPrice(report.totals.varianceCost)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -40,6 +40,15 @@ interface InventoryCategory {
   name: string;
 }
 
+interface Supplier {
+  id: string;
+  name: string;
+  active: boolean;
+}
+
+// Radix selects can't hold an empty value, so "no supplier" needs one of its own
+const NO_SUPPLIER = "none";
+
 interface InventoryFormProps {
   companyId: string;
   itemId?: string;
@@ -50,9 +59,13 @@ const formSchema = z.object({
   name: z.string().min(1, "Name is required"),
   categoryId: z.string().optional(),
   sku: z.string().optional(),
+  barcode: z.string().optional(),
   quantity: z.coerce.number().min(0, "Quantity can't be negative"),
   criticalThreshold: z.coerce.number().min(0, "Threshold can't be negative"),
   price: z.coerce.number().min(0, "Price can't be negative").optional(),
+  unitCost: z.coerce.number().min(0, "Cost can't be negative").optional(),
+  supplierId: z.string().optional(),
+  reorderQuantity: z.coerce.number().int("Whole units only").min(0, "Reorder quantity can't be negative").optional(),
 });
 
 export default function InventoryForm({ companyId, itemId }: InventoryFormProps) {
@@ -60,6 +73,7 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [categories, setCategories] = useState<InventoryCategory[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [newCategoryName, setNewCategoryName] = useState("");
   const [openCategoryDialog, setOpenCategoryDialog] = useState(false);
 
@@ -70,9 +84,13 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
       name: "",
       categoryId: undefined,
       sku: "",
+      barcode: "",
       quantity: 0,
       criticalThreshold: 5,
       price: undefined,
+      unitCost: undefined,
+      supplierId: NO_SUPPLIER,
+      reorderQuantity: undefined,
     },
   });
 
@@ -87,6 +105,11 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
         const categoriesData = await categoriesRes.json();
         setCategories(categoriesData);
 
+        const suppliersRes = await fetch(`/api/purchasing/suppliers?companyId=${companyId}`);
+        if (suppliersRes.ok) {
+          setSuppliers(await suppliersRes.json());
+        }
+
         // If editing existing item, fetch its data
         if (itemId) {
           const itemRes = await fetch(`/api/inventory/${itemId}`);
@@ -98,9 +121,13 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
             name: itemData.name,
             categoryId: itemData.categoryId || undefined,
             sku: itemData.sku || "",
+            barcode: itemData.barcode || "",
             quantity: itemData.quantity,
             criticalThreshold: itemData.criticalThreshold,
             price: itemData.price || undefined,
+            unitCost: itemData.unitCost ?? undefined,
+            supplierId: itemData.supplierId || NO_SUPPLIER,
+            reorderQuantity: itemData.reorderQuantity ?? undefined,
           });
         }
       } catch (error) {
@@ -131,6 +158,9 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
       // Create the payload, only including companyId if it's a valid value
       const payload = {
         ...values,
+        supplierId: values.supplierId === NO_SUPPLIER ? null : values.supplierId,
+        reorderQuantity: values.reorderQuantity || null,
+        barcode: values.barcode?.trim() || null,
         ...(companyId ? { companyId } : {})
       };
       
@@ -334,6 +364,24 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
               )}
             />
 
+            {/* Barcode */}
+            <FormField
+              control={form.control}
+              name="barcode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcode (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Scan or enter the product barcode" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    The barcode printed on the product, e.g. its EAN-13
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {/* Quantity */}
             <FormField
               control={form.control}
@@ -403,6 +451,86 @@ export default function InventoryForm({ companyId, itemId }: InventoryFormProps)
                 </FormItem>
               )}
             />
+
+            {/* Unit Cost */}
+            <FormField
+              control={form.control}
+              name="unitCost"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Unit Cost (Optional)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      step="0.0001"
+                      placeholder="0.00" 
+                      {...field} 
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    What one unit of stock costs to buy, used for cost of goods
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Supplier */}
+            <FormField
+              control={form.control}
+              name="supplierId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Supplier (Optional)</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a supplier" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                      {suppliers
+                        .filter((supplier) => supplier.active || supplier.id === field.value)
+                        .map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Who suggested reorders are placed with
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {/* Reorder Quantity */}
+            <FormField
+              control={form.control}
+              name="reorderQuantity"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reorder Quantity (Optional)</FormLabel>
+                  <FormControl>
+                    <Input 
+                      type="number" 
+                      min="0" 
+                      step="1"
+                      placeholder="Automatic" 
+                      {...field} 
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    How many to order when stock runs low. Leave empty to top up to twice the threshold
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
           </div>
 
           {/* Submit button */}
@@ -0,0 +1,269 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { InventoryTransactionType } from "@prisma/client";
+import type { InventoryLedger, InventoryLedgerEntry } from "@/lib/inventoryUtils";
+import { formatPrice } from "@/lib/tableUtils";
+import { getStaffName } from "./StocktakesList";
+
+type StaffOption = { id: string; firstName: string | null; lastName: string | null };
+
+interface InventoryHistoryProps {
+  companyId: string;
+  itemId: string;
+}
+
+const PAGE_SIZE = 50;
+
+// Select values can't be empty, so "all" stands in for no filter
+const ALL = "all";
+
+export const TRANSACTION_TYPE_LABELS: Record<InventoryTransactionType, string> = {
+  INCOMING: "Incoming",
+  OUTGOING: "Outgoing",
+  ADJUSTMENT: "Adjustment",
+  WRITE_OFF: "Write-off",
+};
+
+const formatChange = (quantity: number) => (quantity > 0 ? `+${quantity}` : `${quantity}`);
+
+// What caused the movement: a POS order, a purchase order receipt or a stocktake
+const getReference = (entry: InventoryLedgerEntry) => {
+  if (entry.posOrderItem) return `Order ${entry.posOrderItem.order.orderNumber}`;
+  if (entry.purchaseReceipt) return `PO ${entry.purchaseReceipt.purchaseOrder.orderNumber}`;
+  if (entry.stocktake) return `Stocktake ${entry.stocktake.reference}`;
+  return "—";
+};
+
+export function InventoryHistory({ companyId, itemId }: InventoryHistoryProps) {
+  const [type, setType] = useState(ALL);
+  const [staffId, setStaffId] = useState(ALL);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [orderNumber, setOrderNumber] = useState("");
+  const [page, setPage] = useState(1);
+  const [staff, setStaff] = useState<StaffOption[]>([]);
+  const [ledger, setLedger] = useState<InventoryLedger | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStaff = async () => {
+      try {
+        const response = await fetch(`/api/staff?companyId=${companyId}`);
+        if (!response.ok) throw new Error("Failed to fetch staff");
+        setStaff(await response.json());
+      } catch (error) {
+        console.error("Error fetching staff:", error);
+      }
+    };
+
+    if (companyId) {
+      fetchStaff();
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    const fetchLedger = async () => {
+      try {
+        setLoading(true);
+        const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+        if (type !== ALL) params.set("type", type);
+        if (staffId !== ALL) params.set("staffId", staffId);
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+        if (orderNumber.trim()) params.set("orderNumber", orderNumber.trim());
+
+        const response = await fetch(`/api/inventory/${itemId}/transactions?${params.toString()}`);
+        if (!response.ok) throw new Error("Failed to fetch inventory history");
+        setLedger(await response.json());
+      } catch (error) {
+        console.error("Error fetching inventory history:", error);
+        setLedger(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (itemId) {
+      fetchLedger();
+    }
+  }, [itemId, type, staffId, from, to, orderNumber, page]);
+
+  // Any change to the filters starts again from the first page
+  const filterBy = (setFilter: (value: string) => void) => (value: string) => {
+    setFilter(value);
+    setPage(1);
+  };
+
+  const pageCount = ledger ? Math.max(1, Math.ceil(ledger.total / ledger.pageSize)) : 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock History</CardTitle>
+        <CardDescription>
+          Every movement of this item, with the stock on hand after each one
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {ledger && ledger.discrepancy !== 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Quantity doesn&apos;t match history</AlertTitle>
+            <AlertDescription>
+              This item shows {ledger.quantity} in stock, but its movements add up to {ledger.ledgerQuantity}{" "}
+              ({formatChange(ledger.discrepancy)} unexplained). A stocktake will bring the quantity back in line.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-2 md:grid-cols-5">
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={type} onValueChange={filterBy(setType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All types</SelectItem>
+                {Object.values(InventoryTransactionType).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {TRANSACTION_TYPE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Staff</Label>
+            <Select value={staffId} onValueChange={filterBy(setStaffId)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All staff</SelectItem>
+                {staff.map((member) => (
+                  <SelectItem key={member.id} value={member.id}>
+                    {getStaffName(member)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="historyFrom" className="text-xs">From</Label>
+            <Input id="historyFrom" type="date" value={from} onChange={(e) => filterBy(setFrom)(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="historyTo" className="text-xs">To</Label>
+            <Input id="historyTo" type="date" value={to} onChange={(e) => filterBy(setTo)(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="historyOrder" className="text-xs">POS Order</Label>
+            <Input
+              id="historyOrder"
+              placeholder="Order number..."
+              value={orderNumber}
+              onChange={(e) => filterBy(setOrderNumber)(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !ledger ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load this item&apos;s history</p>
+        ) : ledger.entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No stock movements found</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Staff</TableHead>
+                  <TableHead>Note</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ledger.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(new Date(entry.createdAt), "MMM d, yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{TRANSACTION_TYPE_LABELS[entry.transactionType]}</Badge>
+                    </TableCell>
+                    <TableCell className={`text-right ${entry.quantityDelta < 0 ? "text-destructive" : ""}`}>
+                      {formatChange(entry.quantityDelta)}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{entry.balance}</TableCell>
+                    <TableCell className="text-right">
+                      {entry.costAmount === null ? "—" : formatPrice(Number(entry.costAmount))}
+                    </TableCell>
+                    <TableCell>{getReference(entry)}</TableCell>
+                    <TableCell>{getStaffName(entry.staff)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{entry.note || "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {ledger.total} movement{ledger.total === 1 ? "" : "s"}
+              </p>
+              <div className="flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  Previous
+                </Button>
+                <span className="text-sm">
+                  Page {page} of {pageCount}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+                  Next
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
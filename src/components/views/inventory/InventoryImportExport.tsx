@@ -0,0 +1,353 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Download, Loader2, Upload } from "lucide-react";
+import type { ImportResult, ImportRowResult } from "@/lib/inventoryImportUtils";
+import type { SpreadsheetFormat } from "@/lib/spreadsheetUtils";
+import {
+  CATEGORY_IMPORT_FIELDS,
+  ColumnMapping,
+  ITEM_IMPORT_FIELDS,
+  ImportField,
+} from "@/lib/validations/inventoryImport";
+
+type ImportKind = "items" | "categories";
+
+interface InventoryImportExportProps {
+  companyId: string;
+  // Called once an import has saved, so the list can be reloaded
+  onImported?: () => void;
+}
+
+const IMPORT_KINDS: Record<ImportKind, { label: string; endpoint: string; fields: readonly ImportField[] }> = {
+  items: { label: "Items", endpoint: "/api/inventory", fields: ITEM_IMPORT_FIELDS },
+  categories: { label: "Categories", endpoint: "/api/inventory/categories", fields: CATEGORY_IMPORT_FIELDS },
+};
+
+// Select values can't be empty, so this stands in for a field that isn't imported
+const NOT_IMPORTED = "none";
+
+const ACTION_BADGES: Record<ImportRowResult["action"], ReactNode> = {
+  create: <Badge variant="outline">New</Badge>,
+  update: <Badge variant="secondary">Update</Badge>,
+  error: <Badge variant="destructive">Skipped</Badge>,
+};
+
+export function InventoryImportExport({ companyId, onImported }: InventoryImportExportProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ImportKind>("items");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  const { label, endpoint, fields } = IMPORT_KINDS[kind];
+
+  const exportFile = (exportKind: ImportKind, spreadsheetFormat: SpreadsheetFormat) => {
+    const params = new URLSearchParams({ companyId, format: spreadsheetFormat });
+    window.open(`${IMPORT_KINDS[exportKind].endpoint}/export?${params.toString()}`, "_blank", "noopener,noreferrer");
+  };
+
+  const reset = (nextKind: ImportKind = kind) => {
+    setKind(nextKind);
+    setFile(null);
+    setPreview(null);
+  };
+
+  // Without a mapping the server guesses one from the file's headers
+  async function runImport(importFile: File, dryRun: boolean, mapping?: ColumnMapping): Promise<ImportResult> {
+    const formData = new FormData();
+    formData.append("companyId", companyId);
+    formData.append("file", importFile);
+    formData.append("dryRun", String(dryRun));
+    if (mapping) formData.append("mapping", JSON.stringify(mapping));
+
+    const response = await fetch(`${endpoint}/import`, {
+      method: "POST",
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || "Something went wrong");
+    }
+
+    return response.json();
+  }
+
+  async function checkFile(importFile: File, mapping?: ColumnMapping) {
+    try {
+      setChecking(true);
+      setPreview(await runImport(importFile, true, mapping));
+    } catch (error) {
+      console.error("Error checking import:", error);
+      toast({
+        title: "Error",
+        description: `Failed to read the file: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setChecking(false);
+    }
+  }
+
+  async function confirmImport() {
+    if (!file || !preview) return;
+
+    try {
+      setImporting(true);
+      const result = await runImport(file, false, preview.mapping);
+      toast({
+        title: "Success",
+        description: `${result.created} added, ${result.updated} updated${
+          result.failed > 0 ? `, ${result.failed} skipped` : ""
+        }`,
+      });
+      setOpen(false);
+      reset();
+      onImported?.();
+    } catch (error) {
+      console.error("Error importing:", error);
+      toast({
+        title: "Error",
+        description: `Failed to import: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  const mapField = (key: string, header: string) => {
+    if (!file || !preview) return;
+    checkFile(file, { ...preview.mapping, [key]: header === NOT_IMPORTED ? null : header });
+  };
+
+  // A few values from the mapped column, to show it's the right one
+  const sampleValues = (header: string | null) => {
+    if (!preview || !header) return "";
+    const index = preview.headers.indexOf(header);
+    return preview.sample
+      .map((row) => row[index]?.trim())
+      .filter(Boolean)
+      .slice(0, 3)
+      .join(", ");
+  };
+
+  const toImport = preview ? preview.created + preview.updated : 0;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {(Object.keys(IMPORT_KINDS) as ImportKind[]).map((exportKind, index) => (
+            <div key={exportKind}>
+              {index > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuLabel>{IMPORT_KINDS[exportKind].label}</DropdownMenuLabel>
+              <DropdownMenuItem onClick={() => exportFile(exportKind, "csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportFile(exportKind, "xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+            </div>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="outline" onClick={() => setOpen(true)}>
+        <Upload className="mr-2 h-4 w-4" />
+        Import
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(isOpen) => {
+          setOpen(isOpen);
+          if (!isOpen) reset();
+        }}
+      >
+        <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Import {label}</DialogTitle>
+            <DialogDescription>
+              {kind === "items"
+                ? "Upload a .csv or .xlsx file with a header row. Rows with a SKU that's already in use update that item; the rest are added as new items. Categories that don't exist yet are created."
+                : "Upload a .csv or .xlsx file with a header row. Categories are matched by name, and any that don't exist yet are added."}{" "}
+              Nothing is saved until you confirm the import.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Import</Label>
+              <Select value={kind} onValueChange={(value) => reset(value as ImportKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(IMPORT_KINDS) as ImportKind[]).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {IMPORT_KINDS[value].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="importFile" className="text-xs">File</Label>
+              <Input
+                key={kind}
+                id="importFile"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => {
+                  const selected = e.target.files?.[0] ?? null;
+                  setFile(selected);
+                  setPreview(null);
+                  if (selected) checkFile(selected);
+                }}
+              />
+            </div>
+          </div>
+
+          {checking && !preview && (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              <div>
+                <h4 className="text-sm font-medium mb-2">Columns</h4>
+                <div className="grid gap-3 sm:grid-cols-3">
+                  {fields.map((field) => (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">
+                        {field.label}
+                        {field.required ? " *" : ""}
+                      </Label>
+                      <Select
+                        value={preview.mapping[field.key] ?? NOT_IMPORTED}
+                        onValueChange={(value) => mapField(field.key, value)}
+                        disabled={checking}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NOT_IMPORTED}>Don&apos;t import</SelectItem>
+                          {preview.headers.filter(Boolean).map((header) => (
+                            <SelectItem key={header} value={header}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {sampleValues(preview.mapping[field.key]) || "\u00a0"}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{preview.created} new</Badge>
+                <Badge variant="secondary">{preview.updated} to update</Badge>
+                {preview.failed > 0 && <Badge variant="destructive">{preview.failed} with errors</Badge>}
+                {preview.newCategories.length > 0 && (
+                  <span className="text-muted-foreground">
+                    New categories: {preview.newCategories.join(", ")}
+                  </span>
+                )}
+                {checking && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+
+              <div className="border rounded-md max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead className="w-24">Action</TableHead>
+                      <TableHead>Problems</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                          The file has no rows under its header
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      preview.rows.map((row) => (
+                        <TableRow key={row.row}>
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                          <TableCell>{ACTION_BADGES[row.action]}</TableCell>
+                          <TableCell className="text-sm text-destructive">{row.errors.join("; ")}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="items-center sm:justify-between">
+            <span className="text-sm text-muted-foreground">
+              {preview && preview.failed > 0 ? "Rows with errors will be skipped" : ""}
+            </span>
+            <Button onClick={confirmImport} disabled={!preview || checking || importing || toImport === 0}>
+              {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {toImport} {toImport === 1 ? "row" : "rows"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
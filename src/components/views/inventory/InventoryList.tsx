@@ -19,12 +19,14 @@ import {
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Edit, Trash2, MoreHorizontal } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Edit, Trash2, MoreHorizontal, Tag } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -41,11 +43,14 @@ import { useToast } from "@/components/ui/use-toast";
 import Link from "next/link";
 import prisma from "@/lib/prisma";
 import { useRouter } from "next/navigation";
+import { getItemCode } from "@/lib/barcodeUtils";
+import type { LabelFormat } from "@/lib/labelRenderers";
 
 interface InventoryItem {
   id: string;
   name: string;
   sku: string | null;
+  barcode: string | null;
   quantity: number;
   criticalThreshold: number;
   price: number | null;
@@ -74,6 +79,7 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>("all");
   const [openDeleteDialog, setOpenDeleteDialog] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
   
   const router = useRouter();
   const { toast } = useToast();
@@ -152,11 +158,22 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
     }
   };
 
+  // Open the labels in a new tab, where they can be printed or saved
+  const printLabels = (ids: string[], labelFormat: LabelFormat) => {
+    const params = new URLSearchParams({ companyId, ids: ids.join(","), format: labelFormat });
+    window.open(`/api/inventory/labels?${params.toString()}`, "_blank", "noopener,noreferrer");
+  };
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(ids => checked ? [...ids, id] : ids.filter(selectedId => selectedId !== id));
+  };
+
   // Filter items based on search term and selected category
   const filteredItems = inventoryItems.filter(item => {
     const matchesSearch = 
       item.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
-      (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase()));
+      (item.sku && item.sku.toLowerCase().includes(searchTerm.toLowerCase())) ||
+      (item.barcode && item.barcode.toLowerCase().includes(searchTerm.toLowerCase()));
       
     const matchesCategory = 
       selectedCategory === "all" || 
@@ -170,33 +187,59 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
     return item.quantity <= item.criticalThreshold;
   };
 
+  // Only items with a barcode or SKU can have a label printed
+  const labelItems = filteredItems.filter(item => getItemCode(item));
+  const allLabelItemsSelected =
+    labelItems.length > 0 && labelItems.every(item => selectedIds.includes(item.id));
+
   return (
     <div className="space-y-4">
       {/* Search and filters */}
       <div className="flex flex-col sm:flex-row gap-4 justify-between pb-4">
         <Input
-          placeholder="Search by name or SKU..."
+          placeholder="Search by name, SKU or barcode..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="max-w-sm"
         />
         
-        <Select
-          value={selectedCategory}
-          onValueChange={setSelectedCategory}
-        >
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Filter by category" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Categories</SelectItem>
-            {categories.map((category) => (
-              <SelectItem key={category.id} value={category.id}>
-                {category.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+        <div className="flex gap-2">
+          {adminView && selectedIds.length > 0 && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Tag className="mr-2 h-4 w-4" />
+                  Print Labels ({selectedIds.length})
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => printLabels(selectedIds, "pdf")}>
+                  PDF, one label per page
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => printLabels(selectedIds, "svg")}>
+                  SVG sheet
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
+          <Select
+            value={selectedCategory}
+            onValueChange={setSelectedCategory}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Filter by category" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Categories</SelectItem>
+              {categories.map((category) => (
+                <SelectItem key={category.id} value={category.id}>
+                  {category.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
 
       {/* Inventory table */}
@@ -204,6 +247,18 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
         <Table>
           <TableHeader>
             <TableRow>
+              {adminView && (
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allLabelItemsSelected}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(checked ? labelItems.map(item => item.id) : [])
+                    }
+                    disabled={labelItems.length === 0}
+                    aria-label="Select all for labels"
+                  />
+                </TableHead>
+              )}
               <TableHead>Product Name</TableHead>
               <TableHead>Category</TableHead>
               <TableHead>SKU</TableHead>
@@ -216,19 +271,29 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
           <TableBody>
             {loading ? (
               <TableRow>
-                <TableCell colSpan={adminView ? 7 : 6} className="text-center py-10">
+                <TableCell colSpan={adminView ? 8 : 6} className="text-center py-10">
                   Loading inventory data...
                 </TableCell>
               </TableRow>
             ) : filteredItems.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={adminView ? 7 : 6} className="text-center py-10">
+                <TableCell colSpan={adminView ? 8 : 6} className="text-center py-10">
                   No inventory items found. {adminView && "Add new items to get started."}
                 </TableCell>
               </TableRow>
             ) : (
               filteredItems.map((item) => (
                 <TableRow key={item.id}>
+                  {adminView && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(item.id)}
+                        onCheckedChange={(checked) => toggleSelected(item.id, checked === true)}
+                        disabled={!getItemCode(item)}
+                        aria-label={`Select ${item.name} for labels`}
+                      />
+                    </TableCell>
+                  )}
                   <TableCell className="font-medium">{item.name}</TableCell>
                   <TableCell>{item.category?.name || "Uncategorized"}</TableCell>
                   <TableCell>{item.sku || "-"}</TableCell>
@@ -265,6 +330,13 @@ export function InventoryList({ adminView, companyId }: InventoryListProps) {
                               Edit
                             </DropdownMenuItem>
                           </Link>
+                          {getItemCode(item) && (
+                            <DropdownMenuItem onClick={() => printLabels([item.id], "pdf")}>
+                              <Tag className="mr-2 h-4 w-4" />
+                              Print Label
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuSeparator />
                           <DropdownMenuItem 
                             onClick={() => {
                               setItemToDelete(item.id);
@@ -0,0 +1,187 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, Trash2 } from "lucide-react";
+import type { StockLot } from "@/lib/inventoryUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface InventoryLotsProps {
+  itemId: string;
+  // Called once stock has been written off, so the item can be reloaded
+  onWrittenOff?: () => void;
+}
+
+const expiryBadge = (daysUntilExpiry: number | null) => {
+  if (daysUntilExpiry === null) return null;
+  if (daysUntilExpiry < 0) return <Badge variant="destructive">Expired</Badge>;
+  if (daysUntilExpiry === 0) return <Badge className="bg-amber-200 text-amber-800">Expires today</Badge>;
+  if (daysUntilExpiry <= 7) {
+    return (
+      <Badge variant="outline">
+        {daysUntilExpiry} day{daysUntilExpiry !== 1 ? "s" : ""} left
+      </Badge>
+    );
+  }
+  return null;
+};
+
+export function InventoryLots({ itemId, onWrittenOff }: InventoryLotsProps) {
+  const { toast } = useToast();
+  const [lots, setLots] = useState<StockLot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [writingOff, setWritingOff] = useState<StockLot | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchLots = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/inventory/${itemId}/lots`);
+      if (!response.ok) throw new Error("Failed to fetch lots");
+      setLots(await response.json());
+    } catch (error) {
+      console.error("Error fetching lots:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load stock lots. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [itemId, toast]);
+
+  useEffect(() => {
+    if (itemId) {
+      fetchLots();
+    }
+  }, [itemId, fetchLots]);
+
+  async function writeOff(lot: StockLot) {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/inventory/${itemId}/lots/${lot.id}/write-off`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: `${lot.quantityRemaining} of ${lot.item.name} written off`,
+      });
+      fetchLots();
+      onWrittenOff?.();
+    } catch (error) {
+      console.error("Error writing off stock:", error);
+      toast({
+        title: "Error",
+        description: `Failed to write off stock: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Stock Lots</CardTitle>
+        <CardDescription>
+          Stock on hand by the delivery it came in. Sales use up the lots expiring soonest first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : lots.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No stock on hand in lots.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map((lot) => (
+                <TableRow key={lot.id}>
+                  <TableCell className="font-medium">{lot.lotNumber || "—"}</TableCell>
+                  <TableCell>{format(new Date(lot.receivedAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      {lot.expiresAt ? format(new Date(lot.expiresAt), "MMM d, yyyy") : "—"}
+                      {expiryBadge(lot.daysUntilExpiry)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {lot.quantityRemaining} / {lot.quantityReceived}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPrice(Number(lot.unitCost))}</TableCell>
+                  <TableCell>
+                    {lot.daysUntilExpiry !== null && lot.daysUntilExpiry < 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setWritingOff(lot)}
+                        disabled={saving}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Write Off
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={writingOff !== null}
+        onOpenChange={(open) => !open && setWritingOff(null)}
+        onConfirm={() => {
+          if (writingOff) writeOff(writingOff);
+          setWritingOff(null);
+        }}
+        title="Write off expired stock?"
+        description={`The ${writingOff?.quantityRemaining ?? 0} left in this lot will be taken out of stock and recorded as a write-off. This can't be undone.`}
+      />
+    </Card>
+  );
+}
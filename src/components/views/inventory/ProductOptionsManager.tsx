@@ -0,0 +1,437 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { formatPrice } from "@/lib/tableUtils";
+import { Loader2, PencilIcon, Plus } from "lucide-react";
+
+type StockItem = {
+  id: string;
+  name: string;
+};
+
+type ProductOption = {
+  id: string;
+  name: string;
+  stockItemId: string | null;
+  stockQuantity: number;
+  active: boolean;
+  stockItem: StockItem | null;
+};
+
+type ProductVariant = ProductOption & { price: string };
+type ProductModifier = ProductOption & { priceDelta: string };
+
+type OptionKind = "variant" | "modifier";
+
+interface ProductOptionsManagerProps {
+  companyId: string;
+  itemId: string;
+}
+
+// Radix selects can't hold an empty value
+const OWN_STOCK = "none";
+
+// Form schema - numbers are kept as strings while editing
+const optionFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  price: z.string().refine((val) => val === "" || !isNaN(parseFloat(val)), {
+    message: "Enter a valid amount",
+  }),
+  stockItemId: z.string(),
+  stockQuantity: z.string().refine((val) => Number.isInteger(Number(val)) && Number(val) >= 1, {
+    message: "Stock used must be at least 1",
+  }),
+  active: z.boolean(),
+});
+
+type OptionFormValues = z.infer<typeof optionFormSchema>;
+
+const emptyOption: OptionFormValues = {
+  name: "",
+  price: "",
+  stockItemId: OWN_STOCK,
+  stockQuantity: "1",
+  active: true,
+};
+
+export function ProductOptionsManager({ companyId, itemId }: ProductOptionsManagerProps) {
+  const { toast } = useToast();
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [modifiers, setModifiers] = useState<ProductModifier[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<{ kind: OptionKind; option: ProductOption | null }>({
+    kind: "variant",
+    option: null,
+  });
+
+  const form = useForm<OptionFormValues>({
+    resolver: zodResolver(optionFormSchema),
+    defaultValues: emptyOption,
+  });
+
+  const fetchOptions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [itemResponse, stockResponse] = await Promise.all([
+        fetch(`/api/inventory/${itemId}`),
+        fetch(`/api/inventory?companyId=${companyId}`),
+      ]);
+      if (!itemResponse.ok || !stockResponse.ok) throw new Error("Failed to fetch item options");
+      const item = await itemResponse.json();
+      setVariants(item.variants ?? []);
+      setModifiers(item.modifiers ?? []);
+      const items: StockItem[] = await stockResponse.json();
+      setStockItems(items.map(({ id, name }) => ({ id, name })));
+    } catch (error) {
+      console.error("Error fetching item options:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sizes and add-ons. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, itemId, toast]);
+
+  useEffect(() => {
+    if (companyId && itemId) {
+      fetchOptions();
+    }
+  }, [companyId, itemId, fetchOptions]);
+
+  // Open create/edit dialog
+  function openOptionDialog(kind: OptionKind, option?: ProductVariant | ProductModifier) {
+    setEditing({ kind, option: option ?? null });
+    form.reset(
+      option
+        ? {
+            name: option.name,
+            price: String(Number("price" in option ? option.price : option.priceDelta)),
+            stockItemId: option.stockItemId ?? OWN_STOCK,
+            stockQuantity: String(option.stockQuantity),
+            active: option.active,
+          }
+        : emptyOption
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: OptionFormValues) {
+    const { kind, option } = editing;
+    const amount = parseFloat(values.price) || 0;
+    const payload = {
+      name: values.name,
+      ...(kind === "variant" ? { price: amount } : { priceDelta: amount }),
+      stockItemId: values.stockItemId === OWN_STOCK ? null : values.stockItemId,
+      stockQuantity: parseInt(values.stockQuantity, 10),
+      active: values.active,
+    };
+    const label = kind === "variant" ? "Variant" : "Add-on";
+
+    try {
+      const response = await fetch(
+        option
+          ? `/api/inventory/${itemId}/${kind}s/${option.id}`
+          : `/api/inventory/${itemId}/${kind}s`,
+        {
+          method: option ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: option ? `${label} updated` : `${label} created`,
+      });
+      setDialogOpen(false);
+      fetchOptions();
+    } catch (error) {
+      console.error(`Error saving ${kind}:`, error);
+      toast({
+        title: "Error",
+        description: `Failed to save ${label.toLowerCase()}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  // Stock taken per sale, e.g. "2 × Lime" or "1 × this item"
+  const describeStock = (option: ProductOption, kind: OptionKind) =>
+    option.stockItem
+      ? `${option.stockQuantity} × ${option.stockItem.name}`
+      : kind === "variant"
+        ? `${option.stockQuantity} × this item`
+        : "—";
+
+  const renderTable = (kind: OptionKind, options: (ProductVariant | ProductModifier)[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">{kind === "variant" ? "Price" : "Price Change"}</TableHead>
+          <TableHead>Stock Used</TableHead>
+          <TableHead>Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {options.map((option) => {
+          const amount = Number("price" in option ? option.price : option.priceDelta);
+          return (
+            <TableRow key={option.id}>
+              <TableCell className="font-medium">
+                {option.name}
+                {!option.active && (
+                  <Badge variant="outline" className="ml-2">Inactive</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {kind === "modifier" && amount >= 0 ? "+" : ""}
+                {amount < 0 ? `-${formatPrice(-amount)}` : formatPrice(amount)}
+              </TableCell>
+              <TableCell>{describeStock(option, kind)}</TableCell>
+              <TableCell>
+                <Button variant="outline" size="icon" title="Edit" onClick={() => openOptionDialog(kind, option)}>
+                  <PencilIcon className="h-4 w-4" />
+                </Button>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+
+  const otherStockItems = stockItems.filter((stockItem) => stockItem.id !== itemId);
+
+  return (
+    <div className="space-y-6 max-w-2xl">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Variants</CardTitle>
+            <CardDescription>
+              Sizes or flavors sold at their own price. Once an item has variants, one must be chosen at the register.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openOptionDialog("variant")}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Variant
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : variants.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No variants. The item is sold at its own price.
+            </p>
+          ) : (
+            renderTable("variant", variants)
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Add-ons</CardTitle>
+            <CardDescription>
+              Optional extras like &quot;extra ice&quot; or &quot;+shot&quot; that change the price
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openOptionDialog("modifier")}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Add-on
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : modifiers.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No add-ons for this item</p>
+          ) : (
+            renderTable("modifier", modifiers)
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Option Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editing.option ? "Edit" : "New"} {editing.kind === "variant" ? "Variant" : "Add-on"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder={editing.kind === "variant" ? "Pint" : "Extra shot"} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{editing.kind === "variant" ? "Price" : "Price change"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={editing.kind === "variant" ? "0" : undefined}
+                        placeholder="0.00"
+                        {...field}
+                      />
+                    </FormControl>
+                    {editing.kind === "modifier" && (
+                      <FormDescription>Added to the item&apos;s price. Use a negative amount for a reduction.</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="stockItemId"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Takes stock from</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={OWN_STOCK}>
+                            {editing.kind === "variant" ? "This item" : "No stock used"}
+                          </SelectItem>
+                          {otherStockItems.map((stockItem) => (
+                            <SelectItem key={stockItem.id} value={stockItem.id}>
+                              {stockItem.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="stockQuantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Units</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Available at the register</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editing.option ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
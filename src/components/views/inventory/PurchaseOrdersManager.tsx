@@ -0,0 +1,786 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import * as z from "zod";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { Ban, Loader2, PackageCheck, PencilIcon, Plus, Send, Trash2 } from "lucide-react";
+import { PurchaseOrderStatus } from "@prisma/client";
+import { formatPrice } from "@/lib/tableUtils";
+
+export type PurchaseOrder = {
+  id: string;
+  orderNumber: string;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  expectedAt: string | null;
+  sentAt: string | null;
+  receivedAt: string | null;
+  createdAt: string;
+  supplierId: string;
+  supplier: { id: string; name: string; email: string | null; phone: string | null };
+  items: {
+    id: string;
+    itemId: string;
+    quantityOrdered: number;
+    quantityReceived: number;
+    unitCost: string;
+    item: { id: string; name: string; sku: string | null; quantity: number };
+  }[];
+  receipts: {
+    id: string;
+    totalCost: string;
+    createdAt: string;
+    receivedBy: { id: string; firstName: string | null; lastName: string | null } | null;
+  }[];
+};
+
+type StockItem = {
+  id: string;
+  name: string;
+  unitCost: string | null;
+  supplierId: string | null;
+};
+
+type SupplierOption = {
+  id: string;
+  name: string;
+  active: boolean;
+};
+
+type ReceiveRow = {
+  purchaseOrderItemId: string;
+  name: string;
+  outstanding: number;
+  // Kept as strings while editing
+  quantity: string;
+  unitCost: string;
+  // Only filled in for perishable stock
+  lotNumber: string;
+  expiresAt: string;
+};
+
+interface PurchaseOrdersManagerProps {
+  companyId: string;
+  isAdmin: boolean;
+  // Bumped by the page when orders are created elsewhere, e.g. from reorder suggestions
+  refreshKey?: number;
+  // Called after stock is received or an order changes, so suggestions can be refreshed
+  onChange?: () => void;
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  DRAFT: "Draft",
+  SENT: "Sent",
+  PARTIALLY_RECEIVED: "Partially received",
+  RECEIVED: "Received",
+  CANCELLED: "Cancelled",
+};
+
+const isNumber = (val: string) => val === "" || !isNaN(parseFloat(val));
+
+// Form schema - numbers are kept as strings while editing and checked again by the API
+const purchaseOrderFormSchema = z.object({
+  supplierId: z.string().min(1, "Choose a supplier"),
+  items: z
+    .array(
+      z.object({
+        itemId: z.string().min(1, "Choose an item"),
+        quantityOrdered: z.string().refine((val) => parseInt(val) >= 1, { message: "At least 1" }),
+        unitCost: z.string().refine((val) => isNumber(val) && !(parseFloat(val) < 0), {
+          message: "Enter a cost",
+        }),
+      })
+    )
+    .min(1, "Add at least one item"),
+  expectedAt: z.string(),
+  notes: z.string(),
+});
+
+type PurchaseOrderFormValues = z.infer<typeof purchaseOrderFormSchema>;
+
+const emptyPurchaseOrder: PurchaseOrderFormValues = {
+  supplierId: "",
+  items: [{ itemId: "", quantityOrdered: "1", unitCost: "" }],
+  expectedAt: "",
+  notes: "",
+};
+
+const getOrderTotal = (order: PurchaseOrder) =>
+  order.items.reduce((sum, line) => sum + line.quantityOrdered * Number(line.unitCost), 0);
+
+const statusBadgeVariant = (status: PurchaseOrderStatus) => {
+  switch (status) {
+    case PurchaseOrderStatus.RECEIVED:
+      return "default" as const;
+    case PurchaseOrderStatus.CANCELLED:
+      return "outline" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+export function PurchaseOrdersManager({ companyId, isAdmin, refreshKey, onChange }: PurchaseOrdersManagerProps) {
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [suppliers, setSuppliers] = useState<SupplierOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receiveRows, setReceiveRows] = useState<ReceiveRow[]>([]);
+  const [cancellingOrder, setCancellingOrder] = useState<PurchaseOrder | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderFormSchema),
+    defaultValues: emptyPurchaseOrder,
+  });
+  const lines = useFieldArray({ control: form.control, name: "items" });
+  const formLines = form.watch("items");
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [ordersResponse, itemsResponse, suppliersResponse] = await Promise.all([
+        fetch(`/api/purchasing/orders?companyId=${companyId}`),
+        fetch(`/api/inventory?companyId=${companyId}`),
+        fetch(`/api/purchasing/suppliers?companyId=${companyId}`),
+      ]);
+      if (!ordersResponse.ok || !itemsResponse.ok || !suppliersResponse.ok) {
+        throw new Error("Failed to fetch purchase orders");
+      }
+      setOrders(await ordersResponse.json());
+      setStockItems(await itemsResponse.json());
+      setSuppliers(await suppliersResponse.json());
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load purchase orders. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchOrders();
+    }
+  }, [companyId, fetchOrders, refreshKey]);
+
+  // Open create/edit dialog
+  function openOrderDialog(order?: PurchaseOrder) {
+    setEditingOrder(order ?? null);
+    form.reset(
+      order
+        ? {
+            supplierId: order.supplierId,
+            items: order.items.map((line) => ({
+              itemId: line.itemId,
+              quantityOrdered: String(line.quantityOrdered),
+              unitCost: String(Number(line.unitCost)),
+            })),
+            expectedAt: order.expectedAt ? order.expectedAt.slice(0, 10) : "",
+            notes: order.notes ?? "",
+          }
+        : emptyPurchaseOrder
+    );
+    setDialogOpen(true);
+  }
+
+  // Default a new line's cost to what the item last cost
+  function selectLineItem(index: number, itemId: string) {
+    form.setValue(`items.${index}.itemId`, itemId, { shouldValidate: true });
+    const unitCost = stockItems.find((stockItem) => stockItem.id === itemId)?.unitCost;
+    if (unitCost !== null && unitCost !== undefined && !form.getValues(`items.${index}.unitCost`)) {
+      form.setValue(`items.${index}.unitCost`, String(Number(unitCost)));
+    }
+  }
+
+  async function onSubmit(values: PurchaseOrderFormValues) {
+    const payload = {
+      companyId,
+      ...(editingOrder ? {} : { supplierId: values.supplierId }),
+      items: values.items.map((line) => ({
+        itemId: line.itemId,
+        quantityOrdered: parseInt(line.quantityOrdered),
+        unitCost: parseFloat(line.unitCost) || 0,
+      })),
+      expectedAt: values.expectedAt || null,
+      notes: values.notes.trim() || null,
+    };
+
+    try {
+      const response = await fetch(
+        editingOrder ? `/api/purchasing/orders/${editingOrder.id}` : "/api/purchasing/orders",
+        {
+          method: editingOrder ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingOrder ? "Purchase order updated" : "Purchase order drafted",
+      });
+      setDialogOpen(false);
+      setEditingOrder(null);
+      fetchOrders();
+      onChange?.();
+    } catch (error) {
+      console.error("Error saving purchase order:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save purchase order: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function updateStatus(order: PurchaseOrder, status: "SENT" | "CANCELLED") {
+    try {
+      const response = await fetch(`/api/purchasing/orders/${order.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, status }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: `${order.orderNumber} ${status === "SENT" ? "marked as sent" : "cancelled"}`,
+      });
+      fetchOrders();
+      onChange?.();
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      toast({
+        title: "Error",
+        description: `Failed to update purchase order: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  // Default each line to everything still outstanding at the ordered cost
+  function openReceiveDialog(order: PurchaseOrder) {
+    setReceivingOrder(order);
+    setReceiveRows(
+      order.items
+        .filter((line) => line.quantityReceived < line.quantityOrdered)
+        .map((line) => ({
+          purchaseOrderItemId: line.id,
+          name: line.item.name,
+          outstanding: line.quantityOrdered - line.quantityReceived,
+          quantity: String(line.quantityOrdered - line.quantityReceived),
+          unitCost: String(Number(line.unitCost)),
+          lotNumber: "",
+          expiresAt: "",
+        }))
+    );
+  }
+
+  const updateReceiveRow = (index: number, changes: Partial<ReceiveRow>) => {
+    setReceiveRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  async function receiveStock() {
+    if (!receivingOrder) return;
+
+    const items = receiveRows.map((row) => ({
+      purchaseOrderItemId: row.purchaseOrderItemId,
+      quantity: parseInt(row.quantity) || 0,
+      unitCost: parseFloat(row.unitCost) || 0,
+      lotNumber: row.lotNumber.trim() || null,
+      expiresAt: row.expiresAt || null,
+    }));
+
+    const overReceived = receiveRows.find((row, index) => items[index].quantity > row.outstanding);
+    if (overReceived) {
+      toast({
+        title: "Error",
+        description: `Only ${overReceived.outstanding} of ${overReceived.name} still to be received`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/purchasing/orders/${receivingOrder.id}/receive`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, items }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({ title: "Success", description: "Stock received" });
+      setReceivingOrder(null);
+      fetchOrders();
+      onChange?.();
+    } catch (error) {
+      console.error("Error receiving stock:", error);
+      toast({
+        title: "Error",
+        description: `Failed to receive stock: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const receiveTotal = receiveRows.reduce(
+    (sum, row) => sum + (parseInt(row.quantity) || 0) * (parseFloat(row.unitCost) || 0),
+    0
+  );
+  const formTotal = formLines.reduce(
+    (sum, line) => sum + (parseInt(line.quantityOrdered) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Purchase Orders</CardTitle>
+          <CardDescription>
+            Stock ordered from suppliers. Receiving a delivery adds it to stock and posts its cost as an expense.
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" onClick={() => openOrderDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Order
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : orders.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No purchase orders yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {orders.map((order) => {
+                const isOpen =
+                  order.status === PurchaseOrderStatus.SENT ||
+                  order.status === PurchaseOrderStatus.PARTIALLY_RECEIVED;
+
+                return (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-medium">
+                      {order.orderNumber}
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(order.createdAt), "MMM d, yyyy")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{order.supplier.name}</TableCell>
+                    <TableCell>
+                      <Badge variant={statusBadgeVariant(order.status)}>
+                        {PURCHASE_ORDER_STATUS_LABELS[order.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {order.items.map((line) => (
+                        <div key={line.id}>
+                          {line.item.name}{" "}
+                          <span className="text-muted-foreground">
+                            {order.status === PurchaseOrderStatus.DRAFT
+                              ? `× ${line.quantityOrdered}`
+                              : `${line.quantityReceived} / ${line.quantityOrdered}`}
+                          </span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatPrice(getOrderTotal(order))}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {order.expectedAt ? format(new Date(order.expectedAt), "MMM d, yyyy") : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {isAdmin && order.status === PurchaseOrderStatus.DRAFT && (
+                          <>
+                            <Button variant="outline" size="icon" title="Edit" onClick={() => openOrderDialog(order)}>
+                              <PencilIcon className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              title="Mark as sent"
+                              onClick={() => updateStatus(order, "SENT")}
+                            >
+                              <Send className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {isOpen && (
+                          <Button
+                            variant="outline"
+                            size="icon"
+                            title="Receive stock"
+                            onClick={() => openReceiveDialog(order)}
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {isAdmin &&
+                          (order.status === PurchaseOrderStatus.DRAFT || order.status === PurchaseOrderStatus.SENT) && (
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              title="Cancel order"
+                              onClick={() => setCancellingOrder(order)}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Purchase Order Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingOrder ? `Edit ${editingOrder.orderNumber}` : "New Purchase Order"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="supplierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange} disabled={editingOrder !== null}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a supplier" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {suppliers
+                          .filter((supplier) => supplier.active || supplier.id === field.value)
+                          .map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>
+                              {supplier.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="space-y-2">
+                <FormLabel>Items</FormLabel>
+                <div className="grid grid-cols-[1fr_5rem_7rem_2.5rem] gap-2 text-xs text-muted-foreground">
+                  <span>Item</span>
+                  <span>Quantity</span>
+                  <span>Unit cost</span>
+                  <span />
+                </div>
+                {lines.fields.map((line, index) => (
+                  <div key={line.id} className="grid grid-cols-[1fr_5rem_7rem_2.5rem] gap-2">
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.itemId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select value={field.value} onValueChange={(value) => selectLineItem(index, value)}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Choose an item" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {stockItems
+                                .filter(
+                                  (stockItem) =>
+                                    stockItem.id === field.value ||
+                                    !formLines.some((other) => other.itemId === stockItem.id)
+                                )
+                                .map((stockItem) => (
+                                  <SelectItem key={stockItem.id} value={stockItem.id}>
+                                    {stockItem.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.quantityOrdered`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" min="1" step="1" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.unitCost`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input type="number" min="0" step="0.0001" placeholder="0.00" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title="Remove"
+                      disabled={lines.fields.length === 1}
+                      onClick={() => lines.remove(index)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => lines.append({ itemId: "", quantityOrdered: "1", unitCost: "" })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Item
+                  </Button>
+                  <span className="text-sm font-medium">Total {formatPrice(formTotal)}</span>
+                </div>
+              </div>
+
+              <FormField
+                control={form.control}
+                name="expectedAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expected delivery</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingOrder ? "Update" : "Save Draft"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Receive Stock Dialog */}
+      <Dialog open={receivingOrder !== null} onOpenChange={(open) => !open && setReceivingOrder(null)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>Receive {receivingOrder?.orderNumber}</DialogTitle>
+            <DialogDescription>
+              Enter what arrived from {receivingOrder?.supplier.name}. Anything not delivered stays on order.
+              Add a lot number and expiry date for anything perishable.
+            </DialogDescription>
+          </DialogHeader>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Outstanding</TableHead>
+                <TableHead className="w-24">Received</TableHead>
+                <TableHead className="w-28">Unit cost</TableHead>
+                <TableHead className="w-28">Lot</TableHead>
+                <TableHead className="w-40">Expires</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receiveRows.map((row, index) => (
+                <TableRow key={row.purchaseOrderItemId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell className="text-right">{row.outstanding}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={row.outstanding}
+                      step="1"
+                      value={row.quantity}
+                      onChange={(e) => updateReceiveRow(index, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.0001"
+                      value={row.unitCost}
+                      onChange={(e) => updateReceiveRow(index, { unitCost: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      value={row.lotNumber}
+                      onChange={(e) => updateReceiveRow(index, { lotNumber: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      value={row.expiresAt}
+                      onChange={(e) => updateReceiveRow(index, { expiresAt: e.target.value })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <DialogFooter className="items-center sm:justify-between">
+            <span className="text-sm font-medium">Cost {formatPrice(receiveTotal)}</span>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" onClick={() => setReceivingOrder(null)}>
+                Cancel
+              </Button>
+              <Button onClick={receiveStock} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Receive Stock
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={cancellingOrder !== null}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        onConfirm={() => {
+          if (cancellingOrder) updateStatus(cancellingOrder, "CANCELLED");
+          setCancellingOrder(null);
+        }}
+        title={`Cancel ${cancellingOrder?.orderNumber ?? "purchase order"}?`}
+        description="The order will no longer count as stock on order. This can't be undone."
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { formatPrice } from "@/lib/tableUtils";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+type StockItem = {
+  id: string;
+  name: string;
+  unitCost: string | null;
+  price: string | null;
+  recipe?: { ingredientId: string }[];
+};
+
+type IngredientRow = {
+  ingredientId: string;
+  // Kept as a string while editing
+  quantity: string;
+};
+
+interface RecipeManagerProps {
+  companyId: string;
+  itemId: string;
+}
+
+export function RecipeManager({ companyId, itemId }: RecipeManagerProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<IngredientRow[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
+  const [usedAsIngredient, setUsedAsIngredient] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRecipe = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [recipeResponse, stockResponse] = await Promise.all([
+        fetch(`/api/inventory/${itemId}/recipe`),
+        fetch(`/api/inventory?companyId=${companyId}`),
+      ]);
+      if (!recipeResponse.ok || !stockResponse.ok) throw new Error("Failed to fetch recipe");
+      const recipe = await recipeResponse.json();
+      setRows(
+        recipe.ingredients.map((ingredient: { ingredientId: string; quantity: number }) => ({
+          ingredientId: ingredient.ingredientId,
+          quantity: String(ingredient.quantity),
+        }))
+      );
+      setUsedAsIngredient(recipe.usedAsIngredient);
+      setStockItems(await stockResponse.json());
+    } catch (error) {
+      console.error("Error fetching recipe:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the recipe. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, itemId, toast]);
+
+  useEffect(() => {
+    if (companyId && itemId) {
+      fetchRecipe();
+    }
+  }, [companyId, itemId, fetchRecipe]);
+
+  // Recipes are one level deep, so items made to a recipe can't be ingredients
+  const ingredientOptions = stockItems.filter(
+    (stockItem) => stockItem.id !== itemId && !stockItem.recipe?.length
+  );
+  const item = stockItems.find((stockItem) => stockItem.id === itemId);
+
+  const getUnitCost = (ingredientId: string) =>
+    Number(stockItems.find((stockItem) => stockItem.id === ingredientId)?.unitCost ?? 0);
+
+  const lineCost = (row: IngredientRow) => (parseInt(row.quantity, 10) || 0) * getUnitCost(row.ingredientId);
+  const recipeCost = rows.reduce((sum, row) => sum + lineCost(row), 0);
+  const price = Number(item?.price ?? 0);
+
+  const updateRow = (index: number, changes: Partial<IngredientRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  async function saveRecipe() {
+    const ingredients = rows
+      .filter((row) => row.ingredientId)
+      .map((row) => ({ ingredientId: row.ingredientId, quantity: parseInt(row.quantity, 10) }));
+
+    if (ingredients.some((ingredient) => !ingredient.quantity || ingredient.quantity < 1)) {
+      toast({
+        title: "Error",
+        description: "Each ingredient needs a quantity of at least 1",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/inventory/${itemId}/recipe`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ingredients }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({ title: "Success", description: "Recipe saved" });
+      fetchRecipe();
+    } catch (error) {
+      console.error("Error saving recipe:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save recipe: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Recipe</CardTitle>
+          <CardDescription>
+            Ingredients used each time this item is sold, in each ingredient&apos;s own stock unit.
+            Items with a recipe take their ingredients out of stock instead of themselves.
+          </CardDescription>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={loading || usedAsIngredient}
+          onClick={() => setRows((current) => [...current, { ingredientId: "", quantity: "1" }])}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Ingredient
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : usedAsIngredient ? (
+          <p className="text-center py-8 text-muted-foreground">
+            This item is an ingredient in other recipes, so it can&apos;t have a recipe of its own.
+          </p>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No recipe. Selling this item takes it out of stock directly.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ingredient</TableHead>
+                <TableHead className="w-28">Quantity</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => (
+                <TableRow key={index}>
+                  <TableCell>
+                    <Select value={row.ingredientId} onValueChange={(value) => updateRow(index, { ingredientId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose an ingredient" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ingredientOptions
+                          .filter(
+                            (option) =>
+                              option.id === row.ingredientId ||
+                              !rows.some((other) => other.ingredientId === option.id)
+                          )
+                          .map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={row.quantity}
+                      onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{formatPrice(lineCost(row))}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Remove"
+                      onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>
+                  Cost per unit
+                  {price > 0 && (
+                    <span className="ml-2 text-muted-foreground font-normal">
+                      ({Math.round(((price - recipeCost) / price) * 100)}% margin at {formatPrice(price)})
+                    </span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">{formatPrice(recipeCost)}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+
+        {!loading && !usedAsIngredient && (
+          <div className="flex justify-end mt-4">
+            <Button onClick={saveRecipe} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Recipe
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
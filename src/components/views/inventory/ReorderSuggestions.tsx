@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import type { ReorderSuggestion } from "@/lib/purchasingUtils";
+import { ClipboardList, Loader2 } from "lucide-react";
+
+interface ReorderSuggestionsProps {
+  companyId: string;
+  isAdmin: boolean;
+  refreshKey?: number;
+  // Called after draft orders are created, so the order list can be refreshed
+  onOrdersCreated?: () => void;
+}
+
+export function ReorderSuggestions({ companyId, isAdmin, refreshKey, onOrdersCreated }: ReorderSuggestionsProps) {
+  const { toast } = useToast();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const fetchSuggestions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/purchasing/reorders?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch reorder suggestions");
+      setSuggestions(await response.json());
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      setSuggestions([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchSuggestions();
+    }
+  }, [companyId, fetchSuggestions, refreshKey]);
+
+  const toReorder = suggestions.filter((suggestion) => suggestion.suggestedQuantity > 0);
+  const orderable = toReorder.filter((suggestion) => suggestion.supplier !== null);
+
+  async function createDrafts() {
+    try {
+      setCreating(true);
+      const response = await fetch("/api/purchasing/reorders", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      const orders = await response.json();
+      toast({
+        title: "Success",
+        description: `${orders.length} draft purchase order${orders.length !== 1 ? "s" : ""} created`,
+      });
+      fetchSuggestions();
+      onOrdersCreated?.();
+    } catch (error) {
+      console.error("Error creating reorders:", error);
+      toast({
+        title: "Error",
+        description: `Failed to create purchase orders: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Suggested Reorders</CardTitle>
+          <CardDescription>
+            Items below their low stock threshold, less what is already on order
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" onClick={createDrafts} disabled={creating || orderable.length === 0}>
+            {creating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ClipboardList className="h-4 w-4 mr-2" />}
+            Draft Orders
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : toReorder.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            Nothing needs reordering.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">In Stock</TableHead>
+                <TableHead className="text-right">Threshold</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Reorder</TableHead>
+                <TableHead>Supplier</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {toReorder.map((suggestion) => (
+                <TableRow key={suggestion.id}>
+                  <TableCell className="font-medium">{suggestion.name}</TableCell>
+                  <TableCell className="text-right">{suggestion.quantity}</TableCell>
+                  <TableCell className="text-right">{suggestion.criticalThreshold}</TableCell>
+                  <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                  <TableCell className="text-right font-medium">{suggestion.suggestedQuantity}</TableCell>
+                  <TableCell>
+                    {suggestion.supplier?.name ?? (
+                      <span className="text-muted-foreground">No supplier set</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { endOfYear, format, startOfYear } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import type { ShrinkageReport as ShrinkageReportData } from "@/lib/stocktakeUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface ShrinkageReportProps {
+  companyId: string;
+}
+
+const toDateInput = (date: Date) => format(date, "yyyy-MM-dd");
+
+const formatVariance = (quantity: number) => (quantity > 0 ? `+${quantity}` : `${quantity}`);
+
+export function ShrinkageReport({ companyId }: ShrinkageReportProps) {
+  const [from, setFrom] = useState(toDateInput(startOfYear(new Date())));
+  const [to, setTo] = useState(toDateInput(endOfYear(new Date())));
+  const [report, setReport] = useState<ShrinkageReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/stocktakes/shrinkage?companyId=${companyId}&from=${from}&to=${to}`);
+        if (!response.ok) throw new Error("Failed to fetch shrinkage report");
+        setReport(await response.json());
+      } catch (error) {
+        console.error("Error fetching shrinkage report:", error);
+        setReport(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId && from && to) {
+      fetchReport();
+    }
+  }, [companyId, from, to]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Shrinkage</CardTitle>
+          <CardDescription>
+            Stock found short by posted stocktakes, and the net variance once stock found over is taken off
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="shrinkageFrom" className="text-xs">From</Label>
+            <Input id="shrinkageFrom" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="shrinkageTo" className="text-xs">To</Label>
+            <Input id="shrinkageTo" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the shrinkage report for this period</p>
+        ) : report.byCount.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No stocktakes posted in this period</p>
+        ) : (
+          <Tabs defaultValue="items">
+            <TabsList>
+              <TabsTrigger value="items">By Item</TabsTrigger>
+              <TabsTrigger value="counts">By Count</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="items">
+              {report.byItem.length === 0 ? (
+                <p className="text-center py-8 text-muted-foreground">Every count matched what was expected</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Item</TableHead>
+                      <TableHead className="text-right">Times Short</TableHead>
+                      <TableHead className="text-right">Shrinkage</TableHead>
+                      <TableHead className="text-right">Shrinkage Cost</TableHead>
+                      <TableHead className="text-right">Net Variance</TableHead>
+                      <TableHead className="text-right">Net Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.byItem.map((row) => (
+                      <TableRow key={row.itemId}>
+                        <TableCell className="font-medium">{row.name}</TableCell>
+                        <TableCell className="text-right">{row.counts}</TableCell>
+                        <TableCell className="text-right">{row.shrinkageQuantity}</TableCell>
+                        <TableCell className="text-right">{formatPrice(row.shrinkageCost)}</TableCell>
+                        <TableCell className="text-right">{formatVariance(row.varianceQuantity)}</TableCell>
+                        <TableCell className="text-right">{formatPrice(row.varianceCost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                  <TableFooter>
+                    <TableRow>
+                      <TableCell colSpan={2}>Total</TableCell>
+                      <TableCell className="text-right">{report.totals.shrinkageQuantity}</TableCell>
+                      <TableCell className="text-right">{formatPrice(report.totals.shrinkageCost)}</TableCell>
+                      <TableCell className="text-right">{formatVariance(report.totals.varianceQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(report.totals.varianceCost)}</TableCell>
+                    </TableRow>
+                  </TableFooter>
+                </Table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="counts">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stocktake</TableHead>
+                    <TableHead>Posted</TableHead>
+                    <TableHead className="text-right">Items Counted</TableHead>
+                    <TableHead className="text-right">Shrinkage</TableHead>
+                    <TableHead className="text-right">Shrinkage Cost</TableHead>
+                    <TableHead className="text-right">Net Variance</TableHead>
+                    <TableHead className="text-right">Net Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.byCount.map((row) => (
+                    <TableRow key={row.stocktakeId}>
+                      <TableCell className="font-medium">{row.reference}</TableCell>
+                      <TableCell>{format(new Date(row.postedAt), "MMM d, yyyy")}</TableCell>
+                      <TableCell className="text-right">{row.itemsCounted}</TableCell>
+                      <TableCell className="text-right">{row.shrinkageQuantity}</TableCell>
+                      <TableCell className="text-right">{formatPrice(row.shrinkageCost)}</TableCell>
+                      <TableCell className="text-right">{formatVariance(row.varianceQuantity)}</TableCell>
+                      <TableCell className="text-right">{formatPrice(row.varianceCost)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right">{report.totals.shrinkageQuantity}</TableCell>
+                    <TableCell className="text-right">{formatPrice(report.totals.shrinkageCost)}</TableCell>
+                    <TableCell className="text-right">{formatVariance(report.totals.varianceQuantity)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(report.totals.varianceCost)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { CostingMethod } from "@prisma/client";
+import type { StockValuationReport as StockValuationReportData } from "@/lib/costingUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface StockValuationReportProps {
+  companyId: string;
+}
+
+const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+  WEIGHTED_AVERAGE: "Weighted average",
+  FIFO: "FIFO",
+};
+
+export function StockValuationReport({ companyId }: StockValuationReportProps) {
+  const { toast } = useToast();
+  const [report, setReport] = useState<StockValuationReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/inventory/valuation?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch stock valuation");
+      setReport(await response.json());
+    } catch (error) {
+      console.error("Error fetching stock valuation:", error);
+      setReport(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchReport();
+    }
+  }, [companyId, fetchReport]);
+
+  async function changeCostingMethod(costingMethod: CostingMethod) {
+    try {
+      setSaving(true);
+      const response = await fetch("/api/inventory/valuation", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, costingMethod }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: `Stock is now costed by ${COSTING_METHOD_LABELS[costingMethod].toLowerCase()}`,
+      });
+      fetchReport();
+    } catch (error) {
+      console.error("Error updating costing method:", error);
+      toast({
+        title: "Error",
+        description: `Failed to change costing method: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Stock Valuation</CardTitle>
+          <CardDescription>
+            What the stock on hand cost. Changing the method applies to stock taken out from now on.
+          </CardDescription>
+        </div>
+        {report && (
+          <div className="space-y-1 w-48">
+            <Label className="text-xs">Costing method</Label>
+            <Select
+              value={report.costingMethod}
+              onValueChange={(value) => changeCostingMethod(value as CostingMethod)}
+              disabled={saving}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COSTING_METHOD_LABELS).map(([method, label]) => (
+                  <SelectItem key={method} value={method}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading report...</p>
+        ) : !report ? (
+          <p className="text-center py-8 text-muted-foreground">Unable to load the stock valuation</p>
+        ) : report.items.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">Nothing in stock</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">In Stock</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.items.map((row) => (
+                <TableRow key={row.itemId}>
+                  <TableCell className="font-medium">{row.name}</TableCell>
+                  <TableCell>{row.category ?? "—"}</TableCell>
+                  <TableCell className="text-right">{row.quantity}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.unitCost)}</TableCell>
+                  <TableCell className="text-right">{formatPrice(row.value)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-right">{report.totals.quantity}</TableCell>
+                <TableCell />
+                <TableCell className="text-right">{formatPrice(report.totals.value)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
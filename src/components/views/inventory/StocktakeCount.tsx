@@ -0,0 +1,540 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { Ban, CheckCircle, Loader2, RefreshCw, Save } from "lucide-react";
+import { StocktakeStatus } from "@prisma/client";
+import { formatPrice } from "@/lib/tableUtils";
+import { getStaffName, STOCKTAKE_STATUS_LABELS, statusBadgeVariant } from "./StocktakesList";
+
+type StaffMember = { id: string; firstName: string | null; lastName: string | null } | null;
+
+type StocktakeLine = {
+  id: string;
+  itemId: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  countedAt: string | null;
+  varianceCost: string | null;
+  countedBy: StaffMember;
+  item: {
+    id: string;
+    name: string;
+    sku: string | null;
+    barcode: string | null;
+    unitCost: string | null;
+    category: { id: string; name: string } | null;
+  };
+};
+
+type Stocktake = {
+  id: string;
+  reference: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  createdAt: string;
+  postedAt: string | null;
+  createdBy: StaffMember;
+  postedBy: StaffMember;
+  items: StocktakeLine[];
+};
+
+interface StocktakeCountProps {
+  companyId: string;
+  stocktakeId: string;
+  isAdmin: boolean;
+}
+
+const ALL_CATEGORIES = "all";
+const UNCATEGORIZED = "none";
+
+const getVariance = (line: StocktakeLine) =>
+  line.countedQuantity === null ? null : line.countedQuantity - line.expectedQuantity;
+
+// What a variance is worth: as posted, or at today's cost while still counting
+const getVarianceCost = (line: StocktakeLine) => {
+  if (line.varianceCost !== null) return Number(line.varianceCost);
+  const variance = getVariance(line);
+  return variance === null ? 0 : variance * Number(line.item.unitCost ?? 0);
+};
+
+export function StocktakeCount({ companyId, stocktakeId, isAdmin }: StocktakeCountProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [categoryFilter, setCategoryFilter] = useState(ALL_CATEGORIES);
+  const [search, setSearch] = useState("");
+  const [variancesOnly, setVariancesOnly] = useState(false);
+  // Counts typed in but not saved yet, by item, kept as strings while editing
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [confirming, setConfirming] = useState<"post" | "cancel" | null>(null);
+
+  const fetchStocktake = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/stocktakes/${stocktakeId}?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch stocktake");
+      setStocktake(await response.json());
+    } catch (error) {
+      console.error("Error fetching stocktake:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the stocktake. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, stocktakeId, toast]);
+
+  useEffect(() => {
+    if (companyId && stocktakeId) {
+      fetchStocktake();
+    }
+  }, [companyId, stocktakeId, fetchStocktake]);
+
+  const isCounting = stocktake?.status === StocktakeStatus.IN_PROGRESS;
+  // Counters don't see what is expected, so it doesn't sway their count
+  const showExpected = isAdmin || !isCounting;
+
+  const categories = useMemo(() => {
+    const byId = new Map<string, string>();
+    stocktake?.items.forEach((line) => {
+      if (line.item.category) byId.set(line.item.category.id, line.item.category.name);
+    });
+    return Array.from(byId.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [stocktake]);
+
+  const visibleLines = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (stocktake?.items ?? []).filter((line) => {
+      if (categoryFilter === UNCATEGORIZED && line.item.category) return false;
+      if (
+        categoryFilter !== ALL_CATEGORIES &&
+        categoryFilter !== UNCATEGORIZED &&
+        line.item.category?.id !== categoryFilter
+      ) {
+        return false;
+      }
+      if (
+        term &&
+        !`${line.item.name} ${line.item.sku ?? ""} ${line.item.barcode ?? ""}`.toLowerCase().includes(term)
+      ) {
+        return false;
+      }
+      if (variancesOnly && !getVariance(line)) return false;
+      return true;
+    });
+  }, [stocktake, categoryFilter, search, variancesOnly]);
+
+  // Each scan counts one more of the item. It is added on the server straight
+  // away, so scans from other devices counting the same item add up too.
+  useBarcodeScanner(async (code) => {
+    const line =
+      stocktake?.items.find((entry) => entry.item.barcode === code) ??
+      stocktake?.items.find((entry) => entry.item.sku === code);
+
+    if (!line) {
+      toast({
+        title: "Not found",
+        description: `No item on this count with barcode or SKU ${code}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/stocktakes/${stocktakeId}/counts`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, itemId: line.itemId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      const updated: Pick<StocktakeLine, "countedQuantity" | "countedAt" | "countedBy"> = await response.json();
+      setStocktake((current) =>
+        current && {
+          ...current,
+          items: current.items.map((entry) =>
+            entry.itemId === line.itemId
+              ? {
+                  ...entry,
+                  countedQuantity: updated.countedQuantity,
+                  countedAt: updated.countedAt,
+                  countedBy: updated.countedBy,
+                }
+              : entry
+          ),
+        }
+      );
+      // The scanned count is saved, so an unsaved number typed for the item would only overwrite it
+      setDrafts((current) => {
+        const next = { ...current };
+        delete next[line.itemId];
+        return next;
+      });
+      toast({ title: line.item.name, description: `Counted ${updated.countedQuantity}` });
+    } catch (error) {
+      console.error("Error adding scan:", error);
+      toast({
+        title: "Error",
+        description: `Failed to count ${line.item.name}: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }, isCounting);
+
+  const counted = stocktake?.items.filter((line) => line.countedQuantity !== null) ?? [];
+  const varianceQuantity = counted.reduce((sum, line) => sum + (getVariance(line) ?? 0), 0);
+  const varianceCost = counted.reduce((sum, line) => sum + getVarianceCost(line), 0);
+
+  const changedCounts = Object.entries(drafts).flatMap(([itemId, value]) => {
+    const line = stocktake?.items.find((entry) => entry.itemId === itemId);
+    const countedQuantity = value.trim() === "" ? null : parseInt(value, 10);
+    if (!line || (countedQuantity !== null && (isNaN(countedQuantity) || countedQuantity < 0))) return [];
+    return countedQuantity === line.countedQuantity ? [] : [{ itemId, countedQuantity }];
+  });
+
+  async function saveCounts() {
+    if (changedCounts.length === 0) return;
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/stocktakes/${stocktakeId}/counts`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, counts: changedCounts }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: `${changedCounts.length} count${changedCounts.length !== 1 ? "s" : ""} saved`,
+      });
+      setDrafts({});
+      // Pick up counts entered on other devices too
+      fetchStocktake();
+    } catch (error) {
+      console.error("Error saving counts:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save counts: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function postStocktake() {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/stocktakes/${stocktakeId}/post`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: "Stocktake posted and stock adjusted",
+      });
+      setStocktake(await response.json());
+    } catch (error) {
+      console.error("Error posting stocktake:", error);
+      toast({
+        title: "Error",
+        description: `Failed to post stocktake: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function cancelStocktake() {
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/stocktakes/${stocktakeId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, status: StocktakeStatus.CANCELLED }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: "Stocktake cancelled",
+      });
+      router.push("/dashboard/inventory/stocktakes");
+    } catch (error) {
+      console.error("Error cancelling stocktake:", error);
+      toast({
+        title: "Error",
+        description: `Failed to cancel stocktake: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading && !stocktake) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return <p className="text-center py-8 text-muted-foreground">Stocktake not found</p>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            {stocktake.reference}
+            <Badge variant={statusBadgeVariant(stocktake.status)}>
+              {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Started {format(new Date(stocktake.createdAt), "MMM d, yyyy HH:mm")} by {getStaffName(stocktake.createdBy)}
+            {stocktake.postedAt &&
+              ` · Posted ${format(new Date(stocktake.postedAt), "MMM d, yyyy HH:mm")} by ${getStaffName(stocktake.postedBy)}`}
+            {stocktake.notes && <span className="block">{stocktake.notes}</span>}
+          </CardDescription>
+        </div>
+        {isCounting && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={fetchStocktake} disabled={loading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button size="sm" onClick={saveCounts} disabled={saving || changedCounts.length === 0}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Counts{changedCounts.length > 0 && ` (${changedCounts.length})`}
+            </Button>
+            {isAdmin && (
+              <>
+                <Button
+                  size="sm"
+                  onClick={() => setConfirming("post")}
+                  disabled={saving || counted.length === 0 || changedCounts.length > 0}
+                  title={changedCounts.length > 0 ? "Save your counts first" : undefined}
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Post
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setConfirming("cancel")} disabled={saving}>
+                  <Ban className="h-4 w-4 mr-2" />
+                  Cancel
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-6 text-sm">
+          <div>
+            <div className="text-muted-foreground">Counted</div>
+            <div className="text-lg font-semibold">
+              {counted.length} / {stocktake.items.length}
+            </div>
+          </div>
+          {showExpected && (
+            <>
+              <div>
+                <div className="text-muted-foreground">Variance</div>
+                <div className={`text-lg font-semibold ${varianceQuantity < 0 ? "text-destructive" : ""}`}>
+                  {varianceQuantity > 0 ? `+${varianceQuantity}` : varianceQuantity}
+                </div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">{isCounting ? "Estimated value" : "Value"}</div>
+                <div className={`text-lg font-semibold ${varianceCost < 0 ? "text-destructive" : ""}`}>
+                  {formatPrice(varianceCost)}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1 w-56">
+            <Label className="text-xs">Category</Label>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {categories.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>
+                    {name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={UNCATEGORIZED}>Uncategorized</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 w-64">
+            <Label htmlFor="stocktakeSearch" className="text-xs">Search</Label>
+            <Input
+              id="stocktakeSearch"
+              placeholder="Name, SKU or barcode"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          {showExpected && (
+            <div className="flex items-center space-x-2 pb-2">
+              <Checkbox
+                id="variancesOnly"
+                checked={variancesOnly}
+                onCheckedChange={(checked) => setVariancesOnly(checked === true)}
+              />
+              <Label htmlFor="variancesOnly">Only show variances</Label>
+            </div>
+          )}
+        </div>
+
+        {visibleLines.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No items match</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Category</TableHead>
+                {showExpected && <TableHead className="text-right">Expected</TableHead>}
+                <TableHead className="text-right">Counted</TableHead>
+                {showExpected && <TableHead className="text-right">Variance</TableHead>}
+                {showExpected && <TableHead className="text-right">Value</TableHead>}
+                <TableHead>Counted By</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLines.map((line) => {
+                const variance = getVariance(line);
+                return (
+                  <TableRow key={line.id}>
+                    <TableCell className="font-medium">
+                      {line.item.name}
+                      {line.item.sku && <div className="text-xs text-muted-foreground">{line.item.sku}</div>}
+                    </TableCell>
+                    <TableCell>{line.item.category?.name ?? "—"}</TableCell>
+                    {showExpected && <TableCell className="text-right">{line.expectedQuantity}</TableCell>}
+                    <TableCell className="text-right">
+                      {isCounting ? (
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          className="w-24 ml-auto text-right"
+                          value={drafts[line.itemId] ?? line.countedQuantity?.toString() ?? ""}
+                          onChange={(e) => setDrafts((current) => ({ ...current, [line.itemId]: e.target.value }))}
+                        />
+                      ) : (
+                        line.countedQuantity ?? "—"
+                      )}
+                    </TableCell>
+                    {showExpected && (
+                      <TableCell className={`text-right ${variance !== null && variance < 0 ? "text-destructive" : ""}`}>
+                        {variance === null ? "—" : variance > 0 ? `+${variance}` : variance}
+                      </TableCell>
+                    )}
+                    {showExpected && (
+                      <TableCell className="text-right">
+                        {variance ? formatPrice(getVarianceCost(line)) : "—"}
+                      </TableCell>
+                    )}
+                    <TableCell className="text-sm text-muted-foreground">
+                      {line.countedAt ? getStaffName(line.countedBy) : "—"}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ConfirmDialog
+        open={confirming === "post"}
+        onOpenChange={(open) => !open && setConfirming(null)}
+        onConfirm={() => {
+          postStocktake();
+          setConfirming(null);
+        }}
+        title={`Post ${stocktake.reference}?`}
+        description={`Stock of the ${counted.length} counted item${counted.length !== 1 ? "s" : ""} will be adjusted to match the count. Items not counted are left as they are. This can't be undone.`}
+      />
+
+      <ConfirmDialog
+        open={confirming === "cancel"}
+        onOpenChange={(open) => !open && setConfirming(null)}
+        onConfirm={() => {
+          cancelStocktake();
+          setConfirming(null);
+        }}
+        title={`Cancel ${stocktake.reference}?`}
+        description="The counts entered so far will be discarded and stock left as it is."
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,270 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { ClipboardCheck, Loader2 } from "lucide-react";
+import { StocktakeStatus } from "@prisma/client";
+import type { StocktakeSummary } from "@/lib/stocktakeUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+type StaffMember = { id: string; firstName: string | null; lastName: string | null } | null;
+
+type StocktakeListEntry = {
+  id: string;
+  reference: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  createdAt: string;
+  postedAt: string | null;
+  createdBy: StaffMember;
+  postedBy: StaffMember;
+  summary: StocktakeSummary;
+};
+
+interface StocktakesListProps {
+  companyId: string;
+  isAdmin: boolean;
+}
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  IN_PROGRESS: "Counting",
+  POSTED: "Posted",
+  CANCELLED: "Cancelled",
+};
+
+export const statusBadgeVariant = (status: StocktakeStatus) => {
+  switch (status) {
+    case StocktakeStatus.POSTED:
+      return "default" as const;
+    case StocktakeStatus.CANCELLED:
+      return "outline" as const;
+    default:
+      return "secondary" as const;
+  }
+};
+
+export const getStaffName = (staff: StaffMember) =>
+  staff ? [staff.firstName, staff.lastName].filter(Boolean).join(" ") || "Unknown" : "—";
+
+export function StocktakesList({ companyId, isAdmin }: StocktakesListProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [stocktakes, setStocktakes] = useState<StocktakeListEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [starting, setStarting] = useState(false);
+
+  const fetchStocktakes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/stocktakes?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch stocktakes");
+      setStocktakes(await response.json());
+    } catch (error) {
+      console.error("Error fetching stocktakes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load stocktakes. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchStocktakes();
+    }
+  }, [companyId, fetchStocktakes]);
+
+  const counting = stocktakes.find((stocktake) => stocktake.status === StocktakeStatus.IN_PROGRESS);
+
+  async function startStocktake() {
+    try {
+      setStarting(true);
+      const response = await fetch("/api/stocktakes", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, notes: notes.trim() || null }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      const stocktake = await response.json();
+      toast({
+        title: "Success",
+        description: `Stocktake ${stocktake.reference} started`,
+      });
+      setDialogOpen(false);
+      router.push(`/dashboard/inventory/stocktakes/${stocktake.id}`);
+    } catch (error) {
+      console.error("Error starting stocktake:", error);
+      toast({
+        title: "Error",
+        description: `Failed to start stocktake: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Stocktakes</CardTitle>
+          <CardDescription>
+            Count what is on the shelves and correct stock to match
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button
+            size="sm"
+            onClick={() => {
+              setNotes("");
+              setDialogOpen(true);
+            }}
+            disabled={counting !== undefined}
+            title={counting ? `${counting.reference} is still being counted` : undefined}
+          >
+            <ClipboardCheck className="h-4 w-4 mr-2" />
+            Start Stocktake
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : stocktakes.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No stocktakes yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Stocktake</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Counted</TableHead>
+                <TableHead className="text-right">Variance</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+                <TableHead>Posted</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stocktakes.map((stocktake) => (
+                <TableRow key={stocktake.id}>
+                  <TableCell className="font-medium">
+                    {stocktake.reference}
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(stocktake.createdAt), "MMM d, yyyy")} by {getStaffName(stocktake.createdBy)}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusBadgeVariant(stocktake.status)}>
+                      {STOCKTAKE_STATUS_LABELS[stocktake.status]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {stocktake.summary.countedCount} / {stocktake.summary.itemCount}
+                  </TableCell>
+                  <TableCell className={`text-right ${stocktake.summary.varianceQuantity < 0 ? "text-destructive" : ""}`}>
+                    {stocktake.summary.varianceQuantity > 0
+                      ? `+${stocktake.summary.varianceQuantity}`
+                      : stocktake.summary.varianceQuantity}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {stocktake.summary.varianceCost === null ? "—" : formatPrice(stocktake.summary.varianceCost)}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {stocktake.postedAt
+                      ? `${format(new Date(stocktake.postedAt), "MMM d, yyyy")} by ${getStaffName(stocktake.postedBy)}`
+                      : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Link href={`/dashboard/inventory/stocktakes/${stocktake.id}`} passHref>
+                      <Button variant="outline" size="sm">
+                        {stocktake.status === StocktakeStatus.IN_PROGRESS ? "Count" : "View"}
+                      </Button>
+                    </Link>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Start Stocktake Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Start Stocktake</DialogTitle>
+            <DialogDescription>
+              Stock levels are recorded as they are now. Sales made while counting are kept when the count is posted.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="stocktakeNotes">Notes</Label>
+            <Textarea
+              id="stocktakeNotes"
+              placeholder="Month-end count..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={startStocktake} disabled={starting}>
+              {starting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,357 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PencilIcon, Plus } from "lucide-react";
+
+export type Supplier = {
+  id: string;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  notes: string | null;
+  active: boolean;
+  _count: { items: number; purchaseOrders: number };
+};
+
+interface SuppliersManagerProps {
+  companyId: string;
+  isAdmin: boolean;
+  // Called after a supplier is added or changed, so order forms can pick it up
+  onChange?: () => void;
+}
+
+const supplierFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  contactName: z.string(),
+  email: z.string().email("Enter a valid email").or(z.literal("")),
+  phone: z.string(),
+  notes: z.string(),
+  active: z.boolean(),
+});
+
+type SupplierFormValues = z.infer<typeof supplierFormSchema>;
+
+const emptySupplier: SupplierFormValues = {
+  name: "",
+  contactName: "",
+  email: "",
+  phone: "",
+  notes: "",
+  active: true,
+};
+
+export function SuppliersManager({ companyId, isAdmin, onChange }: SuppliersManagerProps) {
+  const { toast } = useToast();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+
+  const form = useForm<SupplierFormValues>({
+    resolver: zodResolver(supplierFormSchema),
+    defaultValues: emptySupplier,
+  });
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/purchasing/suppliers?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch suppliers");
+      setSuppliers(await response.json());
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load suppliers. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchSuppliers();
+    }
+  }, [companyId, fetchSuppliers]);
+
+  // Open create/edit dialog
+  function openSupplierDialog(supplier?: Supplier) {
+    setEditingSupplier(supplier ?? null);
+    form.reset(
+      supplier
+        ? {
+            name: supplier.name,
+            contactName: supplier.contactName ?? "",
+            email: supplier.email ?? "",
+            phone: supplier.phone ?? "",
+            notes: supplier.notes ?? "",
+            active: supplier.active,
+          }
+        : emptySupplier
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: SupplierFormValues) {
+    const payload = {
+      companyId,
+      name: values.name,
+      contactName: values.contactName.trim() || null,
+      email: values.email.trim() || null,
+      phone: values.phone.trim() || null,
+      notes: values.notes.trim() || null,
+      active: values.active,
+    };
+
+    try {
+      const response = await fetch(
+        editingSupplier ? `/api/purchasing/suppliers/${editingSupplier.id}` : "/api/purchasing/suppliers",
+        {
+          method: editingSupplier ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingSupplier ? "Supplier updated" : "Supplier added",
+      });
+      setDialogOpen(false);
+      setEditingSupplier(null);
+      fetchSuppliers();
+      onChange?.();
+    } catch (error) {
+      console.error("Error saving supplier:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save supplier: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Suppliers</CardTitle>
+          <CardDescription>
+            Who stock is bought from. Set an item&apos;s supplier to have its reorders placed with them.
+          </CardDescription>
+        </div>
+        {isAdmin && (
+          <Button size="sm" onClick={() => openSupplierDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Supplier
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : suppliers.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No suppliers yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead className="text-right">Items</TableHead>
+                <TableHead className="text-right">Orders</TableHead>
+                {isAdmin && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppliers.map((supplier) => (
+                <TableRow key={supplier.id}>
+                  <TableCell className="font-medium">
+                    {supplier.name}
+                    {!supplier.active && (
+                      <Badge variant="outline" className="ml-2">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {supplier.contactName && <div>{supplier.contactName}</div>}
+                    <div className="text-muted-foreground">
+                      {[supplier.email, supplier.phone].filter(Boolean).join(" · ") || "—"}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{supplier._count.items}</TableCell>
+                  <TableCell className="text-right">{supplier._count.purchaseOrders}</TableCell>
+                  {isAdmin && (
+                    <TableCell>
+                      <Button variant="outline" size="icon" title="Edit" onClick={() => openSupplierDialog(supplier)}>
+                        <PencilIcon className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Supplier Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? "Edit Supplier" : "New Supplier"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="City Beverages" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="contactName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Contact name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Delivery days, account number..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingSupplier ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
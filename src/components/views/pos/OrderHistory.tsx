@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { 
   Table, 
   TableBody, 
@@ -29,14 +29,27 @@ import {
   Dialog, 
   DialogContent, 
   DialogDescription, 
+  DialogFooter,
   DialogHeader, 
   DialogTitle 
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Search, FileText, Calendar } from "lucide-react";
+import { ReceiptActions } from "./ReceiptActions";
+import { formatTaxLabel } from "@/lib/taxUtils";
+import { formatItemName } from "@/lib/productOptionUtils";
 import { format } from "date-fns";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/components/ui/use-toast";
+import { SplitPaymentForm } from "@/components/views/pos/SplitPaymentForm";
+import {
+  getOutstandingBalance,
+  getPaymentStatus,
+  PAYMENT_METHOD_LABELS,
+  PaymentStatus,
+} from "@/lib/paymentUtils";
+import { PaymentValues } from "@/lib/validations/payment";
 
 interface OrderItem {
   id: string;
@@ -44,26 +57,107 @@ interface OrderItem {
   quantity: number;
   unitPrice: number;
   lineTotal: number;
+  item?: {
+    name: string;
+  };
+  variant?: {
+    name: string;
+  } | null;
+  modifiers?: {
+    name: string;
+  }[];
+}
+
+// Name a line with the size and add-ons it was sold with
+const getItemName = (item: OrderItem) =>
+  formatItemName(
+    item.item?.name ?? item.name,
+    item.variant?.name,
+    item.modifiers?.map((modifier) => modifier.name)
+  );
+
+interface OrderPayment {
+  id: string;
+  method: PaymentValues["method"];
+  amount: number;
+  changeAmount: number;
+  payerName: string | null;
+  createdAt: string;
+}
+
+interface StaffName {
+  firstName: string | null;
+  lastName: string | null;
+}
+
+interface OrderReversal {
+  id: string;
+  type: "VOID" | "REFUND";
+  status: "PENDING" | "APPROVED" | "REJECTED";
+  amount: number;
+  reason: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+  requestedBy: StaffName | null;
+  approvedBy: StaffName | null;
+  items: {
+    orderItemId: string;
+    quantity: number;
+  }[];
 }
 
 interface Order {
   id: string;
   orderNumber: string;
   totalAmount: number;
+  paidAmount: number | null;
+  voidedAt: string | null;
+  shiftId: string | null;
   createdAt: string;
   orderItems: OrderItem[];
+  payments: OrderPayment[];
+  reversals: OrderReversal[];
+  taxLines: {
+    id: string;
+    name: string;
+    rate: string;
+    inclusive: boolean;
+    taxAmount: string;
+  }[];
+  redemptions: {
+    id: string;
+    discountAmount: string;
+    promotion: {
+      name: string;
+      code: string | null;
+    };
+  }[];
+  customer?: {
+    id: string;
+    name: string;
+  } | null;
   tableSession?: {
     table: {
       name: string;
     };
+    customer?: {
+      id: string;
+      name: string;
+    } | null;
   } | null;
 }
 
 interface OrderHistoryProps {
   companyId: string;
+  canApproveRefunds?: boolean;
+  currentShiftId?: string | null;
 }
 
-export default function OrderHistory({ companyId }: OrderHistoryProps) {
+export default function OrderHistory({
+  companyId,
+  canApproveRefunds = false,
+  currentShiftId = null,
+}: OrderHistoryProps) {
   const { toast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -71,6 +165,14 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
   const [timeFilter, setTimeFilter] = useState("all");
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [isPaymentDialogOpen, setIsPaymentDialogOpen] = useState(false);
+  const [payments, setPayments] = useState<PaymentValues[]>([]);
+  const [submittingPayment, setSubmittingPayment] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [reversalMode, setReversalMode] = useState<"VOID" | "REFUND" | null>(null);
+  const [reversalReason, setReversalReason] = useState("");
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [submittingReversal, setSubmittingReversal] = useState(false);
   
   // Fetch orders
   useEffect(() => {
@@ -81,8 +183,12 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
         const response = await fetch(`/api/pos/orders?companyId=${companyId}`);
         if (!response.ok) throw new Error("Failed to fetch orders");
         
-        const data = await response.json();
+        const data: Order[] = await response.json();
         setOrders(data);
+        // Keep the open dialog in sync with the refreshed order
+        setSelectedOrder((current) =>
+          current ? data.find((order) => order.id === current.id) ?? null : null
+        );
       } catch (error) {
         console.error("Error fetching orders:", error);
         toast({
@@ -98,14 +204,28 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
     if (companyId) {
       fetchOrders();
     }
-  }, [companyId, toast]);
+  }, [companyId, toast, refreshKey]);
+
+  // Items can only be split between payers while nothing has been paid
+  const splitItems = useMemo(
+    () =>
+      selectedOrder && Number(selectedOrder.paidAmount ?? 0) === 0
+        ? selectedOrder.orderItems.map((item) => ({
+            id: item.id,
+            name: `${item.quantity}x ${getItemName(item)}`,
+            lineTotal: Number(item.lineTotal ?? 0),
+          }))
+        : [],
+    [selectedOrder]
+  );
   
   // Filter orders based on search term and time filter
   const filteredOrders = orders.filter(order => {
     // Search filter
     const matchesSearch = 
       order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (order.tableSession?.table.name.toLowerCase().includes(searchTerm.toLowerCase()));
+      (order.tableSession?.table.name.toLowerCase().includes(searchTerm.toLowerCase())) ||
+      (order.customer?.name.toLowerCase().includes(searchTerm.toLowerCase()));
     
     // Time filter
     if (timeFilter === "all") return matchesSearch;
@@ -142,6 +262,192 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
     setIsDialogOpen(true);
   };
   
+  // Amounts come back from the API as decimal strings
+  const getOrderTotal = (order: Order) => Number(order.totalAmount ?? 0);
+  const getOrderPaid = (order: Order) => Number(order.paidAmount ?? 0);
+  const getOrderStatus = (order: Order): PaymentStatus =>
+    getPaymentStatus(getOrderTotal(order), getOrderPaid(order));
+  
+  // Quantity per item that is refunded or waiting for approval
+  const getReversedQuantities = (order: Order) => {
+    const quantities: Record<string, number> = {};
+    order.reversals
+      ?.filter((reversal) => reversal.status !== "REJECTED")
+      .forEach((reversal) =>
+        reversal.items.forEach((item) => {
+          quantities[item.orderItemId] = (quantities[item.orderItemId] ?? 0) + item.quantity;
+        })
+      );
+    return quantities;
+  };
+  
+  const canVoid = (order: Order) =>
+    !order.voidedAt &&
+    !!currentShiftId &&
+    order.shiftId === currentShiftId &&
+    !order.reversals?.some((reversal) => reversal.status !== "REJECTED");
+  
+  const formatStaffName = (staff: StaffName | null) =>
+    staff ? [staff.firstName, staff.lastName].filter(Boolean).join(" ") || "Staff" : "-";
+  
+  const renderReversalStatus = (order: Order) => {
+    if (order.voidedAt) {
+      return <Badge variant="destructive">Voided</Badge>;
+    }
+    if (order.reversals?.some((reversal) => reversal.status === "PENDING")) {
+      return <Badge variant="outline">Refund pending</Badge>;
+    }
+    if (order.reversals?.some((reversal) => reversal.status === "APPROVED")) {
+      return <Badge variant="outline">Refunded</Badge>;
+    }
+    return null;
+  };
+  
+  const renderPaymentStatus = (status: PaymentStatus) => {
+    switch (status) {
+      case "PAID":
+        return <Badge className="bg-green-600 hover:bg-green-600">Paid</Badge>;
+      case "PARTIAL":
+        return <Badge variant="secondary">Partially paid</Badge>;
+      default:
+        return <Badge variant="destructive">Unpaid</Badge>;
+    }
+  };
+  
+  // Open the payment dialog for an order
+  const openPaymentDialog = (order: Order) => {
+    setSelectedOrder(order);
+    setPayments([]);
+    setIsPaymentDialogOpen(true);
+  };
+  
+  // Record payments against the selected order
+  const submitPayments = async () => {
+    if (!selectedOrder) return;
+    
+    try {
+      setSubmittingPayment(true);
+      const response = await fetch(`/api/pos/orders/${selectedOrder.id}/payments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, payments }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to record payment");
+      }
+      
+      toast({
+        title: "Success",
+        description: `Payment recorded for ${selectedOrder.orderNumber}`,
+      });
+      
+      setIsPaymentDialogOpen(false);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingPayment(false);
+    }
+  };
+  
+  // Open the void or refund form for the selected order
+  const openReversalForm = (mode: "VOID" | "REFUND") => {
+    setReversalMode(mode);
+    setReversalReason("");
+    setRefundQuantities({});
+  };
+  
+  // Void or refund the selected order
+  const submitReversal = async () => {
+    if (!selectedOrder || !reversalMode) return;
+    
+    const items = Object.entries(refundQuantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+    
+    try {
+      setSubmittingReversal(true);
+      const response = await fetch(
+        reversalMode === "VOID"
+          ? `/api/pos/orders/${selectedOrder.id}/void`
+          : `/api/pos/orders/${selectedOrder.id}/refunds`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            companyId,
+            reason: reversalReason,
+            ...(reversalMode === "REFUND" && { items }),
+          }),
+        }
+      );
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to reverse order");
+      }
+      
+      const reversal = await response.json();
+      toast({
+        title: "Success",
+        description: reversal.status === "PENDING"
+          ? "Refund requested, an admin needs to approve it"
+          : `Order ${reversalMode === "VOID" ? "voided" : "refunded"} and items restocked`,
+      });
+      
+      setReversalMode(null);
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error reversing order:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reverse order",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmittingReversal(false);
+    }
+  };
+  
+  // Approve or reject a pending refund
+  const reviewRefund = async (refundId: string, action: "APPROVE" | "REJECT") => {
+    if (!selectedOrder) return;
+    
+    try {
+      const response = await fetch(`/api/pos/orders/${selectedOrder.id}/refunds/${refundId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, action }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to review refund");
+      }
+      
+      toast({
+        title: "Success",
+        description: action === "APPROVE" ? "Refund approved" : "Refund rejected",
+      });
+      
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error reviewing refund:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to review refund",
+        variant: "destructive",
+      });
+    }
+  };
+  
   if (loading) {
     return (
       <div className="flex justify-center py-8">
@@ -212,13 +518,14 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
                 <TableHead>Date</TableHead>
                 <TableHead>Table</TableHead>
                 <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Payment</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {filteredOrders.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} className="text-center h-24">
+                  <TableCell colSpan={6} className="text-center h-24">
                     <p className="text-muted-foreground">No orders found</p>
                   </TableCell>
                 </TableRow>
@@ -240,13 +547,29 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
                       )}
                     </TableCell>
                     <TableCell className="text-right font-semibold">
-                      ${typeof order.totalAmount === 'number' ? order.totalAmount.toFixed(2) : '0.00'}
+                      ${getOrderTotal(order).toFixed(2)}
                     </TableCell>
-                    <TableCell className="text-right">
+                    <TableCell className="space-x-1">
+                      {renderPaymentStatus(getOrderStatus(order))}
+                      {renderReversalStatus(order)}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {!order.voidedAt && getOrderStatus(order) !== "PAID" && (
+                        <Button 
+                          variant="default" 
+                          size="sm" 
+                          onClick={() => openPaymentDialog(order)}
+                        >
+                          Pay
+                        </Button>
+                      )}
                       <Button 
                         variant="outline" 
                         size="sm" 
-                        onClick={() => viewOrderDetails(order)}
+                        onClick={() => {
+                          setReversalMode(null);
+                          viewOrderDetails(order);
+                        }}
                       >
                         View
                       </Button>
@@ -271,6 +594,11 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
                   • Table: {selectedOrder.tableSession.table.name}
                 </span>
               )}
+              {selectedOrder?.customer && (
+                <span className="ml-2">
+                  • Customer: {selectedOrder.customer.name}
+                </span>
+              )}
             </DialogDescription>
           </DialogHeader>
           
@@ -288,10 +616,10 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
                 <TableBody>
                   {selectedOrder?.orderItems.map((item) => (
                     <TableRow key={item.id}>
-                      <TableCell>{item.name}</TableCell>
+                      <TableCell>{getItemName(item)}</TableCell>
                       <TableCell className="text-right">{item.quantity}</TableCell>
-                      <TableCell className="text-right">${typeof item.unitPrice === 'number' ? item.unitPrice.toFixed(2) : '0.00'}</TableCell>
-                      <TableCell className="text-right">${typeof item.lineTotal === 'number' ? item.lineTotal.toFixed(2) : '0.00'}</TableCell>
+                      <TableCell className="text-right">${Number(item.unitPrice ?? 0).toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${Number(item.lineTotal ?? 0).toFixed(2)}</TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -299,16 +627,239 @@ export default function OrderHistory({ companyId }: OrderHistoryProps) {
               
               <div className="flex justify-end">
                 <div className="w-64 space-y-2">
+                  {selectedOrder?.redemptions
+                    ?.filter((redemption) => Number(redemption.discountAmount) !== 0)
+                    .map((redemption) => (
+                      <div key={redemption.id} className="flex justify-between text-sm text-green-600">
+                        <span>
+                          {redemption.promotion.name}
+                          {redemption.promotion.code && ` (${redemption.promotion.code})`}:
+                        </span>
+                        <span>
+                          {Number(redemption.discountAmount) > 0 ? "-" : "+"}$
+                          {Math.abs(Number(redemption.discountAmount)).toFixed(2)}
+                        </span>
+                      </div>
+                    ))}
+                  {selectedOrder?.taxLines?.map((line) => (
+                    <div key={line.id} className="flex justify-between text-sm text-muted-foreground">
+                      <span>{formatTaxLabel({ ...line, rate: Number(line.rate) })}:</span>
+                      <span>${Number(line.taxAmount).toFixed(2)}</span>
+                    </div>
+                  ))}
                   <div className="flex justify-between font-medium">
                     <span>Total:</span>
-                    <span>${selectedOrder?.totalAmount && typeof selectedOrder.totalAmount === 'number' ? selectedOrder.totalAmount.toFixed(2) : '0.00'}</span>
+                    <span>${selectedOrder ? getOrderTotal(selectedOrder).toFixed(2) : '0.00'}</span>
                   </div>
+                  {selectedOrder && (
+                    <>
+                      <div className="flex justify-between text-sm">
+                        <span>Paid:</span>
+                        <span>${getOrderPaid(selectedOrder).toFixed(2)}</span>
+                      </div>
+                      <div className="flex justify-between text-sm">
+                        <span>Outstanding:</span>
+                        <span>${getOutstandingBalance(getOrderTotal(selectedOrder), getOrderPaid(selectedOrder)).toFixed(2)}</span>
+                      </div>
+                    </>
+                  )}
                 </div>
               </div>
+              
+              {selectedOrder && (
+                <ReceiptActions
+                  receiptUrl={`/api/pos/orders/${selectedOrder.id}/receipt?companyId=${companyId}`}
+                />
+              )}
+              
+              {selectedOrder && selectedOrder.payments?.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Payment</TableHead>
+                      <TableHead>Payer</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedOrder.payments.map((payment) => (
+                      <TableRow key={payment.id}>
+                        <TableCell>{PAYMENT_METHOD_LABELS[payment.method]}</TableCell>
+                        <TableCell>{payment.payerName || "-"}</TableCell>
+                        <TableCell>{formatDate(payment.createdAt)}</TableCell>
+                        <TableCell className="text-right">${Number(payment.amount).toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              
+              {selectedOrder && selectedOrder.reversals?.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Voids &amp; Refunds</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Reviewed</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedOrder.reversals.map((reversal) => (
+                        <TableRow key={reversal.id}>
+                          <TableCell className="space-x-1">
+                            <span>{reversal.type === "VOID" ? "Void" : "Refund"}</span>
+                            <Badge variant={reversal.status === "REJECTED" ? "destructive" : "outline"}>
+                              {reversal.status.toLowerCase()}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{reversal.reason || "-"}</TableCell>
+                          <TableCell>
+                            {formatStaffName(reversal.requestedBy)}
+                            <div className="text-xs text-muted-foreground">{formatDate(reversal.createdAt)}</div>
+                          </TableCell>
+                          <TableCell>
+                            {reversal.status === "PENDING" ? (
+                              canApproveRefunds ? (
+                                <div className="space-x-1">
+                                  <Button size="sm" onClick={() => reviewRefund(reversal.id, "APPROVE")}>
+                                    Approve
+                                  </Button>
+                                  <Button size="sm" variant="outline" onClick={() => reviewRefund(reversal.id, "REJECT")}>
+                                    Reject
+                                  </Button>
+                                </div>
+                              ) : (
+                                <span className="text-muted-foreground">Awaiting approval</span>
+                              )
+                            ) : (
+                              <>
+                                {formatStaffName(reversal.approvedBy)}
+                                {reversal.approvedAt && (
+                                  <div className="text-xs text-muted-foreground">{formatDate(reversal.approvedAt)}</div>
+                                )}
+                              </>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">-${Number(reversal.amount).toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              
+              {selectedOrder && !selectedOrder.voidedAt && (
+                reversalMode ? (
+                  <div className="space-y-4 rounded-md border p-4">
+                    <h4 className="font-medium">
+                      {reversalMode === "VOID" ? "Void order" : "Refund items"}
+                    </h4>
+                    {reversalMode === "REFUND" && (
+                      <div className="space-y-2">
+                        {selectedOrder.orderItems.map((item) => {
+                          const remaining = item.quantity - (getReversedQuantities(selectedOrder)[item.id] ?? 0);
+                          return (
+                            <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                              <span className="flex-1">{getItemName(item)}</span>
+                              <span className="text-muted-foreground">{remaining} refundable</span>
+                              <Input
+                                type="number"
+                                className="w-20"
+                                min="0"
+                                max={remaining}
+                                disabled={remaining === 0}
+                                value={refundQuantities[item.id] ?? 0}
+                                onChange={(e) =>
+                                  setRefundQuantities((current) => ({
+                                    ...current,
+                                    [item.id]: Math.min(remaining, Math.max(0, Number(e.target.value) || 0)),
+                                  }))
+                                }
+                              />
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                    <Textarea
+                      placeholder="Reason"
+                      value={reversalReason}
+                      onChange={(e) => setReversalReason(e.target.value)}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button variant="outline" onClick={() => setReversalMode(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        variant="destructive"
+                        onClick={submitReversal}
+                        disabled={
+                          submittingReversal ||
+                          !reversalReason.trim() ||
+                          (reversalMode === "REFUND" && !Object.values(refundQuantities).some((quantity) => quantity > 0))
+                        }
+                      >
+                        {submittingReversal
+                          ? "Processing..."
+                          : reversalMode === "VOID" ? "Void Order" : "Refund Items"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2">
+                    {canVoid(selectedOrder) && (
+                      <Button variant="outline" onClick={() => openReversalForm("VOID")}>
+                        Void
+                      </Button>
+                    )}
+                    <Button variant="outline" onClick={() => openReversalForm("REFUND")}>
+                      Refund
+                    </Button>
+                  </div>
+                )
+              )}
             </div>
           </ScrollArea>
         </DialogContent>
       </Dialog>
+      
+      {/* Payment dialog */}
+      <Dialog open={isPaymentDialogOpen} onOpenChange={setIsPaymentDialogOpen}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Take Payment - {selectedOrder?.orderNumber}</DialogTitle>
+            <DialogDescription>
+              {selectedOrder && (
+                <>Outstanding balance: ${getOutstandingBalance(getOrderTotal(selectedOrder), getOrderPaid(selectedOrder)).toFixed(2)}</>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          
+          {selectedOrder && (
+            <SplitPaymentForm
+              amountDue={getOutstandingBalance(getOrderTotal(selectedOrder), getOrderPaid(selectedOrder))}
+              items={splitItems}
+              allowPartial
+              allowTab={!!(selectedOrder.customer ?? selectedOrder.tableSession?.customer)}
+              onChange={setPayments}
+            />
+          )}
+          
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPaymentDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={submitPayments} disabled={submittingPayment || payments.length === 0}>
+              {submittingPayment ? "Processing..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 } 
\ No newline at end of file
@@ -14,6 +14,8 @@ interface InventoryItem {
 
 interface CartItem {
   id: string;
+  itemId: string;
+  tracksStock: boolean;
   name: string;
   price: number;
   quantity: number;
@@ -49,7 +51,8 @@ export function PosCart({ items, onRemove, onUpdateQuantity, inventoryItems }: P
       <div className="space-y-4">
         {items.map((item) => {
           const lineTotal = item.price * item.quantity;
-          const availableStock = getAvailableStock(item.id);
+          // Lines taking stock from other items are checked when the order is placed
+          const availableStock = item.tracksStock ? getAvailableStock(item.itemId) : Infinity;
           
           return (
             <div key={item.id} className="pb-4 last:pb-0">
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { 
   Tabs, 
   TabsContent, 
@@ -18,16 +18,29 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { useToast } from "@/components/ui/use-toast";
-import { PlusCircle, Trash2, Search, ShoppingCart, CreditCard } from "lucide-react";
+import { ToastAction } from "@/components/ui/toast";
+import { Badge } from "@/components/ui/badge";
+import { formatTaxLabel } from "@/lib/taxUtils";
+import type { PricedOrder } from "@/lib/promotionUtils";
+import { formatItemName } from "@/lib/productOptionUtils";
+import { PlusCircle, Trash2, Search, ShoppingCart, CreditCard, Tag, X } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { useRouter } from "next/navigation";
 import OrderHistory from "./OrderHistory";
 import { PosCart } from "./PosCart";
 import { ProductGrid } from "./ProductGrid";
+import type { ChosenOptions, ProductModifierOption, ProductVariantOption } from "./ProductOptionsPicker";
+import { ShiftManager } from "./ShiftManager";
+import { openReceipt } from "./ReceiptActions";
+import { CustomerAccounts } from "@/components/views/customers/CustomerAccounts";
+import { ExpiringMembershipsReport } from "@/components/views/customers/ExpiringMembershipsReport";
+import { CustomerLookup, CustomerSummary } from "@/components/views/customers/CustomerLookup";
 
 interface InventoryItem {
   id: string;
   name: string;
+  sku?: string | null;
+  barcode?: string | null;
   price: number | null;
   quantity: number;
   categoryId: string | null;
@@ -35,6 +48,9 @@ interface InventoryItem {
     id: string;
     name: string;
   } | null;
+  variants?: ProductVariantOption[];
+  modifiers?: ProductModifierOption[];
+  recipe?: { ingredientId: string }[];
 }
 
 interface InventoryCategory {
@@ -42,8 +58,14 @@ interface InventoryCategory {
   name: string;
 }
 
+// One line per item and choice of options, so a pint and a half of the same beer are separate lines
 interface CartItem {
   id: string;
+  itemId: string;
+  variantId: string | null;
+  modifierIds: string[];
+  // False when the line takes stock from other items, which is checked when the order is placed
+  tracksStock: boolean;
   name: string;
   price: number;
   quantity: number;
@@ -54,6 +76,11 @@ interface PosSystemProps {
   profile: any;
 }
 
+// Items with variants are priced and stocked through them, and items made to a recipe through their ingredients
+const isAvailable = (item: InventoryItem) =>
+  !!item.variants?.some(variant => variant.active) ||
+  (item.price !== null && (item.quantity > 0 || !!item.recipe?.length));
+
 export function PosSystem({ companyId, profile }: PosSystemProps) {
   const { toast } = useToast();
   const router = useRouter();
@@ -67,6 +94,16 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
   const [cartItems, setCartItems] = useState<CartItem[]>([]);
   const [activeTableSession, setActiveTableSession] = useState<string | null>(null);
   const [tableSessions, setTableSessions] = useState<any[]>([]);
+  const [currentShiftId, setCurrentShiftId] = useState<string | null>(null);
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [promoCodes, setPromoCodes] = useState<string[]>([]);
+  const [promoCodeInput, setPromoCodeInput] = useState("");
+  const [quote, setQuote] = useState<PricedOrder | null>(null);
+
+  const handleShiftChange = useCallback(
+    (shift: { id: string } | null) => setCurrentShiftId(shift?.id ?? null),
+    []
+  );
   
   // Fetch inventory items, categories, and active table sessions
   useEffect(() => {
@@ -80,9 +117,7 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
         const itemsData = await itemsResponse.json();
         
         // Filter out items with no price or zero quantity
-        const availableItems = itemsData.filter((item: InventoryItem) => 
-          item.price !== null && item.quantity > 0
-        );
+        const availableItems = itemsData.filter(isAvailable);
         
         setInventoryItems(availableItems);
         setFilteredItems(availableItems);
@@ -99,6 +134,13 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
           const tablesData = await tablesResponse.json();
           setTableSessions(tablesData);
         }
+        
+        // Fetch the open cash drawer shift
+        const shiftResponse = await fetch(`/api/pos/shifts/current?companyId=${companyId}`);
+        if (shiftResponse.ok) {
+          const shiftData = await shiftResponse.json();
+          setCurrentShiftId(shiftData.shift?.id ?? null);
+        }
       } catch (error) {
         console.error("Error fetching POS data:", error);
         toast({
@@ -133,26 +175,38 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
     setFilteredItems(filtered);
   }, [searchTerm, selectedCategory, inventoryItems]);
   
+  // Units of an item's own stock already in the cart, other than on the given line
+  const stockInCart = (itemId: string, exceptLineId?: string) =>
+    cartItems
+      .filter(cartItem => cartItem.itemId === itemId && cartItem.tracksStock && cartItem.id !== exceptLineId)
+      .reduce((total, cartItem) => total + cartItem.quantity, 0);
+
   // Add item to cart
-  const addToCart = (item: InventoryItem) => {
-    if (!item.price) return;
-    
-    const existingItem = cartItems.find(cartItem => cartItem.id === item.id);
-    
+  const addToCart = (item: InventoryItem, { variant, modifiers }: ChosenOptions) => {
+    const basePrice = variant ? Number(variant.price) : item.price;
+    if (basePrice === null) return;
+
+    const modifierIds = modifiers.map(modifier => modifier.id).sort();
+    const lineId = [item.id, variant?.id ?? "", ...modifierIds].join(":");
+    const existingItem = cartItems.find(cartItem => cartItem.id === lineId);
+    const tracksStock = !variant && !item.recipe?.length;
+
+    // Don't exceed available quantity
+    if (tracksStock && stockInCart(item.id) >= item.quantity) {
+      toast({
+        title: "Cannot add more",
+        description: `Only ${item.quantity} available in stock`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const name = formatItemName(item.name, variant?.name, modifiers.map(modifier => modifier.name));
+
     if (existingItem) {
-      // Don't exceed available quantity
-      if (existingItem.quantity >= item.quantity) {
-        toast({
-          title: "Cannot add more",
-          description: `Only ${item.quantity} available in stock`,
-          variant: "destructive",
-        });
-        return;
-      }
-      
       setCartItems(prevItems => 
         prevItems.map(cartItem => 
-          cartItem.id === item.id 
+          cartItem.id === lineId 
             ? { ...cartItem, quantity: cartItem.quantity + 1 } 
             : cartItem
         )
@@ -161,9 +215,13 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
       setCartItems(prevItems => [
         ...prevItems, 
         { 
-          id: item.id, 
-          name: item.name, 
-          price: item.price as number,
+          id: lineId, 
+          itemId: item.id,
+          variantId: variant?.id ?? null,
+          modifierIds,
+          tracksStock,
+          name, 
+          price: modifiers.reduce((sum, modifier) => sum + Number(modifier.priceDelta), Number(basePrice)),
           quantity: 1 
         }
       ]);
@@ -171,21 +229,43 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
     
     toast({
       title: "Added to cart",
-      description: `${item.name} added to cart`,
+      description: `${name} added to cart`,
     });
   };
   
+  // Items that aren't on sale aren't loaded, so look up a scan we don't know to say why
+  const handleUnknownBarcode = async (code: string) => {
+    try {
+      const response = await fetch(`/api/inventory/lookup?companyId=${companyId}&code=${encodeURIComponent(code)}`);
+      const data = await response.json();
+      toast({
+        title: "Cannot add",
+        description: response.ok
+          ? `${data.name} is out of stock or has no price`
+          : data.error || `No product with barcode or SKU ${code}`,
+        variant: "destructive",
+      });
+    } catch (error) {
+      console.error("Error looking up barcode:", error);
+    }
+  };
+  
   // Remove item from cart
-  const removeFromCart = (itemId: string) => {
-    setCartItems(prevItems => prevItems.filter(item => item.id !== itemId));
+  const removeFromCart = (lineId: string) => {
+    setCartItems(prevItems => prevItems.filter(item => item.id !== lineId));
   };
   
   // Update item quantity in cart
-  const updateCartItemQuantity = (itemId: string, newQuantity: number) => {
+  const updateCartItemQuantity = (lineId: string, newQuantity: number) => {
+    const line = cartItems.find(item => item.id === lineId);
     // Find the inventory item to check stock
-    const inventoryItem = inventoryItems.find(item => item.id === itemId);
+    const inventoryItem = inventoryItems.find(item => item.id === line?.itemId);
     
-    if (inventoryItem && newQuantity > inventoryItem.quantity) {
+    if (
+      line?.tracksStock &&
+      inventoryItem &&
+      newQuantity + stockInCart(inventoryItem.id, lineId) > inventoryItem.quantity
+    ) {
       toast({
         title: "Cannot add more",
         description: `Only ${inventoryItem.quantity} available in stock`,
@@ -195,13 +275,13 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
     }
     
     if (newQuantity <= 0) {
-      removeFromCart(itemId);
+      removeFromCart(lineId);
       return;
     }
     
     setCartItems(prevItems => 
       prevItems.map(item => 
-        item.id === itemId 
+        item.id === lineId 
           ? { ...item, quantity: newQuantity } 
           : item
       )
@@ -209,11 +289,87 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
   };
   
   // Calculate total
-  const cartTotal = cartItems.reduce(
+  const cartSubtotal = cartItems.reduce(
     (total, item) => total + item.price * item.quantity,
     0
   );
   
+  // Price the cart on the server, so promotions and tax match what the order will charge
+  const fetchQuote = useCallback(async (codes: string[]): Promise<PricedOrder> => {
+    const response = await fetch("/api/pos/orders/quote", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        companyId,
+        tableSessionId: activeTableSession,
+        items: cartItems.map((item) => ({
+          inventoryItemId: item.itemId,
+          variantId: item.variantId,
+          modifierIds: item.modifierIds,
+          quantity: item.quantity,
+        })),
+        promoCodes: codes,
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to price the cart");
+    }
+    return data;
+  }, [companyId, activeTableSession, cartItems]);
+
+  useEffect(() => {
+    if (cartItems.length === 0) {
+      setQuote(null);
+      return;
+    }
+
+    // Ignore the answer if the cart changed while it was being priced
+    let cancelled = false;
+    fetchQuote(promoCodes)
+      .then((data) => {
+        if (!cancelled) setQuote(data);
+      })
+      .catch((error) => {
+        console.error("Error pricing cart:", error);
+        if (!cancelled) setQuote(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cartItems, promoCodes, fetchQuote]);
+
+  const applyPromoCode = async () => {
+    const code = promoCodeInput.trim().toUpperCase();
+    if (!code || promoCodes.includes(code)) {
+      setPromoCodeInput("");
+      return;
+    }
+
+    try {
+      // Check the code before adding it, so a bad code doesn't stop the cart being priced
+      await fetchQuote([...promoCodes, code]);
+      setPromoCodes((codes) => [...codes, code]);
+      setPromoCodeInput("");
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to apply promo code",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removePromoCode = (code: string) => {
+    setPromoCodes((codes) => codes.filter((existing) => existing !== code));
+  };
+
+  const cartTotal = quote?.totalAmount ?? cartSubtotal;
+  
   // Process order
   const processOrder = async () => {
     if (cartItems.length === 0) {
@@ -234,19 +390,21 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
         body: JSON.stringify({
           companyId,
           tableSessionId: activeTableSession,
+          customerId: customer?.id ?? null,
           staffId: profile.id,
           items: cartItems.map(item => ({
-            inventoryItemId: item.id,
-            name: item.name,
-            price: item.price,
+            inventoryItemId: item.itemId,
+            variantId: item.variantId,
+            modifierIds: item.modifierIds,
             quantity: item.quantity,
           })),
-          total: cartTotal,
+          promoCodes,
         }),
       });
       
       if (!response.ok) {
-        throw new Error("Failed to process order");
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to process order");
       }
       
       const order = await response.json();
@@ -254,19 +412,27 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
       toast({
         title: "Order Completed",
         description: `Order #${order.orderNumber} has been processed successfully`,
+        action: (
+          <ToastAction
+            altText="Print receipt"
+            onClick={() => openReceipt(`/api/pos/orders/${order.id}/receipt?companyId=${companyId}`)}
+          >
+            Receipt
+          </ToastAction>
+        ),
       });
       
       // Clear cart
       setCartItems([]);
+      setCustomer(null);
+      setPromoCodes([]);
       
       // Refresh inventory to update stock levels
       const refreshInventory = async () => {
         const itemsResponse = await fetch(`/api/inventory?companyId=${companyId}`);
         if (itemsResponse.ok) {
           const itemsData = await itemsResponse.json();
-          const availableItems = itemsData.filter((item: InventoryItem) => 
-            item.price !== null && item.quantity > 0
-          );
+          const availableItems = itemsData.filter(isAvailable);
           setInventoryItems(availableItems);
           setFilteredItems(availableItems);
         }
@@ -281,7 +447,7 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
       console.error("Error processing order:", error);
       toast({
         title: "Error",
-        description: "Failed to process order. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to process order. Please try again.",
         variant: "destructive",
       });
     }
@@ -303,9 +469,11 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
       {/* Main POS area - Products and Checkout */}
       <div className="md:col-span-2 space-y-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid grid-cols-2 mb-4">
+          <TabsList className="grid grid-cols-4 mb-4">
             <TabsTrigger value="products">Products</TabsTrigger>
             <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="customers">Customers</TabsTrigger>
+            <TabsTrigger value="shift">Shift</TabsTrigger>
           </TabsList>
           
           {/* Products Tab */}
@@ -363,12 +531,37 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
             <ProductGrid 
               items={filteredItems} 
               onAddToCart={addToCart} 
+              catalog={inventoryItems}
+              onScanNotFound={handleUnknownBarcode}
             />
           </TabsContent>
           
           {/* Orders Tab */}
           <TabsContent value="orders">
-            <OrderHistory companyId={companyId} />
+            <OrderHistory
+              companyId={companyId}
+              canApproveRefunds={profile?.role === "ADMIN" || profile?.role === "SUPERADMIN"}
+              currentShiftId={currentShiftId}
+            />
+          </TabsContent>
+          
+          {/* Customers Tab */}
+          <TabsContent value="customers">
+            <div className="space-y-6">
+              <CustomerAccounts
+                companyId={companyId}
+                canManageCredit={profile?.role === "ADMIN" || profile?.role === "SUPERADMIN"}
+              />
+              <ExpiringMembershipsReport companyId={companyId} />
+            </div>
+          </TabsContent>
+          
+          {/* Shift Tab */}
+          <TabsContent value="shift">
+            <ShiftManager
+              companyId={companyId}
+              onShiftChange={handleShiftChange}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -382,15 +575,81 @@ export function PosSystem({ companyId, profile }: PosSystemProps) {
               Cart
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <CustomerLookup
+              companyId={companyId}
+              value={customer}
+              onChange={setCustomer}
+              placeholder="Add customer (optional)"
+            />
             <PosCart
               items={cartItems}
               onRemove={removeFromCart}
               onUpdateQuantity={updateCartItemQuantity}
               inventoryItems={inventoryItems}
             />
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Promo code"
+                  value={promoCodeInput}
+                  onChange={(e) => setPromoCodeInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") applyPromoCode();
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  disabled={!promoCodeInput.trim() || cartItems.length === 0}
+                  onClick={applyPromoCode}
+                >
+                  Apply
+                </Button>
+              </div>
+              {promoCodes.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {promoCodes.map((code) => (
+                    <Badge key={code} variant="secondary" className="gap-1">
+                      <Tag className="h-3 w-3" />
+                      {code}
+                      <button
+                        type="button"
+                        aria-label={`Remove ${code}`}
+                        onClick={() => removePromoCode(code)}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
           </CardContent>
           <CardFooter className="flex flex-col">
+            {quote && (quote.promotions.length > 0 || quote.taxLines.length > 0) && (
+              <div className="w-full mb-2 space-y-1 text-sm text-muted-foreground">
+                <div className="flex justify-between">
+                  <span>Subtotal</span>
+                  <span>${quote.subtotal.toFixed(2)}</span>
+                </div>
+                {quote.promotions
+                  .filter((promotion) => promotion.discountAmount !== 0)
+                  .map((promotion) => (
+                    <div key={promotion.promotionId} className="flex justify-between text-green-600">
+                      <span>{promotion.name}</span>
+                      <span>
+                        {promotion.discountAmount > 0 ? "-" : "+"}${Math.abs(promotion.discountAmount).toFixed(2)}
+                      </span>
+                    </div>
+                  ))}
+                {quote.taxLines.map((tax) => (
+                  <div key={tax.taxRateId} className="flex justify-between">
+                    <span>{formatTaxLabel(tax)}</span>
+                    <span>${tax.taxAmount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between items-center w-full mb-4">
               <span className="text-lg font-medium">Total:</span>
               <span className="text-lg font-bold">
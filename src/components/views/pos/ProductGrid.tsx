@@ -1,13 +1,24 @@
 "use client";
 
+import { useState } from "react";
 import { PlusCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import {
+  ChosenOptions,
+  ProductModifierOption,
+  ProductOptionsPicker,
+  ProductVariantOption,
+} from "./ProductOptionsPicker";
 
 interface InventoryItem {
   id: string;
   name: string;
+  sku?: string | null;
+  barcode?: string | null;
   price: number | null;
   quantity: number;
   categoryId: string | null;
@@ -15,59 +26,130 @@ interface InventoryItem {
     id: string;
     name: string;
   } | null;
+  variants?: ProductVariantOption[];
+  modifiers?: ProductModifierOption[];
+  recipe?: { ingredientId: string }[];
 }
 
 interface ProductGridProps {
   items: InventoryItem[];
-  onAddToCart: (item: InventoryItem) => void;
+  onAddToCart: (item: InventoryItem, options: ChosenOptions) => void;
+  // Everything on sale, for scans of items filtered out of the grid. Defaults to items.
+  catalog?: InventoryItem[];
+  // Called with scanned codes that aren't on sale, e.g. to say why
+  onScanNotFound?: (code: string) => void;
 }
 
-export function ProductGrid({ items, onAddToCart }: ProductGridProps) {
-  if (items.length === 0) {
-    return (
-      <div className="text-center py-8">
-        <p className="text-muted-foreground">No products found</p>
-      </div>
-    );
-  }
+const activeVariants = (item: InventoryItem) =>
+  item.variants?.filter((variant) => variant.active) ?? [];
+
+const hasOptions = (item: InventoryItem) =>
+  activeVariants(item).length > 0 || !!item.modifiers?.some((modifier) => modifier.active);
+
+// Variants and recipes take stock from other items, which is checked when the order is placed
+const isSellable = (item: InventoryItem) =>
+  activeVariants(item).length > 0 || (!!item.price && (item.quantity > 0 || !!item.recipe?.length));
+
+export function ProductGrid({ items, onAddToCart, catalog = items, onScanNotFound }: ProductGridProps) {
+  const { toast } = useToast();
+  // Items with sizes or add-ons are picked in a dialog before going in the cart
+  const [pickingItem, setPickingItem] = useState<InventoryItem | null>(null);
+
+  const handleAdd = (item: InventoryItem) => {
+    if (hasOptions(item)) {
+      setPickingItem(item);
+    } else {
+      onAddToCart(item, { variant: null, modifiers: [] });
+    }
+  };
+
+  // A scan adds the item straight to the cart, as if its button was clicked
+  useBarcodeScanner((code) => {
+    const item =
+      catalog.find((candidate) => candidate.barcode === code) ??
+      catalog.find((candidate) => candidate.sku === code);
+
+    if (!item) {
+      if (onScanNotFound) {
+        onScanNotFound(code);
+      } else {
+        toast({
+          title: "Not found",
+          description: `No product with barcode or SKU ${code}`,
+          variant: "destructive",
+        });
+      }
+      return;
+    }
+
+    if (!isSellable(item)) {
+      toast({
+        title: "Cannot add",
+        description: `${item.name} is not available to sell`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    handleAdd(item);
+  }, pickingItem === null);
 
   return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 lg:grid-cols-3 gap-4">
-      {items.map((item) => (
-        <Card key={item.id} className="overflow-hidden h-full flex flex-col">
-          <CardContent className="p-4 flex-grow">
-            <div className="flex flex-col h-full">
-              <div className="flex justify-between items-start mb-2">
-                <h3 className="font-medium line-clamp-2">{item.name}</h3>
-                {item.category && (
-                  <Badge variant="outline" className="ml-2 whitespace-nowrap">
-                    {item.category.name}
-                  </Badge>
-                )}
-              </div>
-              <div className="mt-auto pt-2 flex justify-between items-end">
-                <span className="text-lg font-bold">
-                  ${item.price && typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}
-                </span>
-                <span className="text-sm text-muted-foreground">
-                  Stock: {item.quantity}
-                </span>
-              </div>
-            </div>
-          </CardContent>
-          <CardFooter className="p-2 pt-0 border-t bg-muted/20">
-            <Button
-              onClick={() => onAddToCart(item)}
-              className="w-full"
-              size="sm"
-              disabled={!item.price || item.quantity <= 0}
-            >
-              <PlusCircle className="mr-2 h-4 w-4" />
-              Add to Cart
-            </Button>
-          </CardFooter>
-        </Card>
-      ))}
-    </div>
+    <>
+      {items.length === 0 ? (
+        <div className="text-center py-8">
+          <p className="text-muted-foreground">No products found</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {items.map((item) => (
+            <Card key={item.id} className="overflow-hidden h-full flex flex-col">
+              <CardContent className="p-4 flex-grow">
+                <div className="flex flex-col h-full">
+                  <div className="flex justify-between items-start mb-2">
+                    <h3 className="font-medium line-clamp-2">{item.name}</h3>
+                    {item.category && (
+                      <Badge variant="outline" className="ml-2 whitespace-nowrap">
+                        {item.category.name}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-auto pt-2 flex justify-between items-end">
+                    <span className="text-lg font-bold">
+                      {activeVariants(item).length > 0
+                        ? `from $${Math.min(...activeVariants(item).map((variant) => Number(variant.price))).toFixed(2)}`
+                        : `$${item.price && typeof item.price === 'number' ? item.price.toFixed(2) : '0.00'}`}
+                    </span>
+                    <span className="text-sm text-muted-foreground">
+                      {item.recipe?.length ? "Made to order" : `Stock: ${item.quantity}`}
+                    </span>
+                  </div>
+                </div>
+              </CardContent>
+              <CardFooter className="p-2 pt-0 border-t bg-muted/20">
+                <Button
+                  onClick={() => handleAdd(item)}
+                  className="w-full"
+                  size="sm"
+                  disabled={!isSellable(item)}
+                >
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Add to Cart
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <ProductOptionsPicker
+        item={pickingItem}
+        onClose={() => setPickingItem(null)}
+        onConfirm={(options) => {
+          if (pickingItem) onAddToCart(pickingItem, options);
+          setPickingItem(null);
+        }}
+      />
+    </>
   );
 } 
\ No newline at end of file
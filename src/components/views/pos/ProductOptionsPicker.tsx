@@ -0,0 +1,143 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { formatPrice } from "@/lib/tableUtils";
+
+export interface ProductVariantOption {
+  id: string;
+  name: string;
+  price: number | string;
+  active: boolean;
+}
+
+export interface ProductModifierOption {
+  id: string;
+  name: string;
+  priceDelta: number | string;
+  active: boolean;
+}
+
+export interface ChosenOptions {
+  variant: ProductVariantOption | null;
+  modifiers: ProductModifierOption[];
+}
+
+interface ProductOptionsPickerProps {
+  item: {
+    name: string;
+    price: number | string | null;
+    variants?: ProductVariantOption[];
+    modifiers?: ProductModifierOption[];
+  } | null;
+  onClose: () => void;
+  onConfirm: (options: ChosenOptions) => void;
+}
+
+const formatDelta = (amount: number) =>
+  amount < 0 ? `-${formatPrice(-amount)}` : `+${formatPrice(amount)}`;
+
+export function ProductOptionsPicker({ item, onClose, onConfirm }: ProductOptionsPickerProps) {
+  const variants = item?.variants?.filter((variant) => variant.active) ?? [];
+  const modifiers = item?.modifiers?.filter((modifier) => modifier.active) ?? [];
+  const [variantId, setVariantId] = useState<string | null>(null);
+  const [modifierIds, setModifierIds] = useState<string[]>([]);
+
+  // Start each pick from the first variant and no add-ons
+  useEffect(() => {
+    setVariantId(item?.variants?.find((variant) => variant.active)?.id ?? null);
+    setModifierIds([]);
+  }, [item]);
+
+  const variant = variants.find((candidate) => candidate.id === variantId) ?? null;
+  const chosenModifiers = modifiers.filter((modifier) => modifierIds.includes(modifier.id));
+  const unitPrice = chosenModifiers.reduce(
+    (sum, modifier) => sum + Number(modifier.priceDelta),
+    Number(variant ? variant.price : item?.price ?? 0)
+  );
+
+  const toggleModifier = (id: string, checked: boolean) => {
+    setModifierIds((ids) => (checked ? [...ids, id] : ids.filter((existing) => existing !== id)));
+  };
+
+  return (
+    <Dialog open={!!item} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Choose how it should be served</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <Label>Size</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {variants.map((option) => (
+                  <Button
+                    key={option.id}
+                    type="button"
+                    variant={option.id === variantId ? "default" : "outline"}
+                    className="justify-between"
+                    onClick={() => setVariantId(option.id)}
+                  >
+                    <span>{option.name}</span>
+                    <span>{formatPrice(Number(option.price))}</span>
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {modifiers.length > 0 && (
+            <div className="space-y-2">
+              <Label>Add-ons</Label>
+              {modifiers.map((modifier) => (
+                <div key={modifier.id} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`modifier-${modifier.id}`}
+                      checked={modifierIds.includes(modifier.id)}
+                      onCheckedChange={(checked) => toggleModifier(modifier.id, checked === true)}
+                    />
+                    <Label htmlFor={`modifier-${modifier.id}`} className="font-normal">
+                      {modifier.name}
+                    </Label>
+                  </div>
+                  {Number(modifier.priceDelta) !== 0 && (
+                    <span className="text-sm text-muted-foreground">
+                      {formatDelta(Number(modifier.priceDelta))}
+                    </span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            disabled={variants.length > 0 && !variant}
+            onClick={() => onConfirm({ variant, modifiers: chosenModifiers })}
+          >
+            Add {formatPrice(Math.max(0, unitPrice))}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,702 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useFieldArray, useForm } from "react-hook-form";
+import * as z from "zod";
+import { format } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PencilIcon, Plus, Trash2 } from "lucide-react";
+import { PromotionType } from "@prisma/client";
+import { formatDuration, formatPrice } from "@/lib/tableUtils";
+
+export type Promotion = {
+  id: string;
+  name: string;
+  type: PromotionType;
+  code: string | null;
+  value: string;
+  itemId: string | null;
+  categoryId: string | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  tableMinutes: number;
+  usageLimit: number | null;
+  timesUsed: number;
+  startsAt: string | null;
+  endsAt: string | null;
+  active: boolean;
+  item: { id: string; name: string } | null;
+  category: { id: string; name: string } | null;
+  comboItems: {
+    id: string;
+    itemId: string;
+    quantity: number;
+    item: { id: string; name: string; price: string | null };
+  }[];
+};
+
+type NamedOption = {
+  id: string;
+  name: string;
+};
+
+interface PromotionsManagerProps {
+  companyId: string;
+}
+
+const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  PERCENT_OFF: "Percentage off",
+  AMOUNT_OFF: "Amount off",
+  BUY_X_GET_Y: "Buy X get Y free",
+  COMBO: "Combo deal",
+};
+
+// Radix selects can't hold an empty value
+const WHOLE_ORDER = "order";
+
+const isNumber = (val: string) => val === "" || !isNaN(parseFloat(val));
+
+// Form schema - numbers are kept as strings while editing and checked again by the API
+const promotionFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  type: z.nativeEnum(PromotionType),
+  code: z.string(),
+  value: z.string().refine((val) => isNumber(val) && !(parseFloat(val) < 0), {
+    message: "Enter an amount",
+  }),
+  target: z.string(),
+  buyQuantity: z.string().refine(isNumber, { message: "Enter a number" }),
+  getQuantity: z.string().refine(isNumber, { message: "Enter a number" }),
+  tableMinutes: z.string().refine(isNumber, { message: "Enter a number" }),
+  comboItems: z.array(
+    z.object({
+      itemId: z.string().min(1, "Choose an item"),
+      quantity: z.string().refine((val) => parseInt(val) >= 1, { message: "At least 1" }),
+    })
+  ),
+  usageLimit: z.string().refine(isNumber, { message: "Enter a number" }),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  active: z.boolean(),
+});
+
+type PromotionFormValues = z.infer<typeof promotionFormSchema>;
+
+const emptyPromotion: PromotionFormValues = {
+  name: "",
+  type: PromotionType.PERCENT_OFF,
+  code: "",
+  value: "",
+  target: WHOLE_ORDER,
+  buyQuantity: "2",
+  getQuantity: "1",
+  tableMinutes: "0",
+  comboItems: [],
+  usageLimit: "",
+  startsAt: "",
+  endsAt: "",
+  active: true,
+};
+
+const toDateTimeInput = (value: string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+const fromDateTimeInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const toOptionalInt = (value: string) => (value === "" ? null : parseInt(value));
+
+/**
+ * One line summary of what a promotion gives
+ */
+const describePromotion = (promotion: Promotion) => {
+  const value = Number(promotion.value);
+  const target = promotion.item?.name ?? promotion.category?.name ?? null;
+
+  switch (promotion.type) {
+    case PromotionType.PERCENT_OFF:
+      return `${value}% off ${target ?? "the order"}`;
+    case PromotionType.AMOUNT_OFF:
+      return target ? `${formatPrice(value)} off each ${target}` : `${formatPrice(value)} off the order`;
+    case PromotionType.BUY_X_GET_Y:
+      return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free on ${target}`;
+    case PromotionType.COMBO: {
+      const parts = promotion.comboItems.map((comboItem) => `${comboItem.quantity} × ${comboItem.item.name}`);
+      if (promotion.tableMinutes > 0) parts.unshift(`${formatDuration(promotion.tableMinutes)} table time`);
+      return `${parts.join(" + ")} for ${formatPrice(value)}`;
+    }
+  }
+};
+
+export function PromotionsManager({ companyId }: PromotionsManagerProps) {
+  const { toast } = useToast();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [items, setItems] = useState<NamedOption[]>([]);
+  const [categories, setCategories] = useState<NamedOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionFormSchema),
+    defaultValues: emptyPromotion,
+  });
+  const comboItems = useFieldArray({ control: form.control, name: "comboItems" });
+  const type = form.watch("type");
+
+  const fetchPromotions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [promotionsResponse, itemsResponse, categoriesResponse] = await Promise.all([
+        fetch(`/api/pos/promotions?companyId=${companyId}`),
+        fetch(`/api/inventory?companyId=${companyId}`),
+        fetch(`/api/inventory/categories?companyId=${companyId}`),
+      ]);
+      if (!promotionsResponse.ok || !itemsResponse.ok || !categoriesResponse.ok) {
+        throw new Error("Failed to fetch promotions");
+      }
+      setPromotions(await promotionsResponse.json());
+      setItems(await itemsResponse.json());
+      setCategories(await categoriesResponse.json());
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load promotions. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchPromotions();
+    }
+  }, [companyId, fetchPromotions]);
+
+  // Open create/edit dialog
+  function openPromotionDialog(promotion?: Promotion) {
+    setEditingPromotion(promotion ?? null);
+    form.reset(
+      promotion
+        ? {
+            name: promotion.name,
+            type: promotion.type,
+            code: promotion.code ?? "",
+            value: String(Number(promotion.value)),
+            target: promotion.itemId
+              ? `item:${promotion.itemId}`
+              : promotion.categoryId
+                ? `category:${promotion.categoryId}`
+                : WHOLE_ORDER,
+            buyQuantity: String(promotion.buyQuantity ?? ""),
+            getQuantity: String(promotion.getQuantity ?? ""),
+            tableMinutes: String(promotion.tableMinutes),
+            comboItems: promotion.comboItems.map((comboItem) => ({
+              itemId: comboItem.itemId,
+              quantity: String(comboItem.quantity),
+            })),
+            usageLimit: promotion.usageLimit === null ? "" : String(promotion.usageLimit),
+            startsAt: toDateTimeInput(promotion.startsAt),
+            endsAt: toDateTimeInput(promotion.endsAt),
+            active: promotion.active,
+          }
+        : emptyPromotion
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: PromotionFormValues) {
+    // The terms can always change, what the promotion applies to only when creating it
+    const terms = {
+      companyId,
+      name: values.name,
+      code: values.code.trim() || null,
+      value: parseFloat(values.value) || 0,
+      usageLimit: toOptionalInt(values.usageLimit),
+      startsAt: fromDateTimeInput(values.startsAt),
+      endsAt: fromDateTimeInput(values.endsAt),
+      active: values.active,
+    };
+    const [targetType, targetId] = values.target.split(":");
+    const payload = editingPromotion
+      ? terms
+      : {
+          ...terms,
+          type: values.type,
+          itemId: targetType === "item" ? targetId : null,
+          categoryId: targetType === "category" ? targetId : null,
+          buyQuantity: toOptionalInt(values.buyQuantity),
+          getQuantity: toOptionalInt(values.getQuantity),
+          tableMinutes: toOptionalInt(values.tableMinutes) ?? 0,
+          comboItems: values.comboItems.map((comboItem) => ({
+            itemId: comboItem.itemId,
+            quantity: parseInt(comboItem.quantity),
+          })),
+        };
+
+    try {
+      const response = await fetch(
+        editingPromotion ? `/api/pos/promotions/${editingPromotion.id}` : "/api/pos/promotions",
+        {
+          method: editingPromotion ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingPromotion ? "Promotion updated" : "Promotion created",
+      });
+      setDialogOpen(false);
+      setEditingPromotion(null);
+      fetchPromotions();
+    } catch (error) {
+      console.error("Error saving promotion:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save promotion: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  const isEditing = editingPromotion !== null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Promotions</CardTitle>
+          <CardDescription>
+            Discounts, promo codes and combo deals applied to POS orders. Promotions without a code apply automatically.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={() => openPromotionDialog()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Promotion
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : promotions.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">
+            No promotions yet.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Deal</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead>Valid</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => (
+                <TableRow key={promotion.id}>
+                  <TableCell className="font-medium">
+                    {promotion.name}
+                    {promotion.code && (
+                      <Badge variant="secondary" className="ml-2">{promotion.code}</Badge>
+                    )}
+                    {!promotion.active && (
+                      <Badge variant="outline" className="ml-2">Inactive</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{describePromotion(promotion)}</TableCell>
+                  <TableCell className="text-right">
+                    {promotion.timesUsed}
+                    {promotion.usageLimit !== null && ` / ${promotion.usageLimit}`}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {promotion.startsAt || promotion.endsAt
+                      ? `${promotion.startsAt ? format(new Date(promotion.startsAt), "MMM d, yyyy") : "Now"} – ${
+                          promotion.endsAt ? format(new Date(promotion.endsAt), "MMM d, yyyy") : "No end"
+                        }`
+                      : "Always"}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="outline" size="icon" title="Edit" onClick={() => openPromotionDialog(promotion)}>
+                      <PencilIcon className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Promotion Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Promotion" : "New Promotion"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Happy hour" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Type</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.values(PromotionType).map((promotionType) => (
+                            <SelectItem key={promotionType} value={promotionType}>
+                              {PROMOTION_TYPE_LABELS[promotionType]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {type === PromotionType.PERCENT_OFF
+                          ? "Percent off"
+                          : type === PromotionType.COMBO
+                            ? "Combo price"
+                            : type === PromotionType.AMOUNT_OFF
+                              ? "Amount off"
+                              : "Value"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          disabled={type === PromotionType.BUY_X_GET_Y}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {type !== PromotionType.COMBO && (
+                <FormField
+                  control={form.control}
+                  name="target"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Applies to</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {type !== PromotionType.BUY_X_GET_Y && (
+                            <SelectItem value={WHOLE_ORDER}>Whole order</SelectItem>
+                          )}
+                          {categories.map((category) => (
+                            <SelectItem key={category.id} value={`category:${category.id}`}>
+                              Category: {category.name}
+                            </SelectItem>
+                          ))}
+                          {items.map((item) => (
+                            <SelectItem key={item.id} value={`item:${item.id}`}>
+                              {item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {type === PromotionType.BUY_X_GET_Y && (
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="buyQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Buy</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" disabled={isEditing} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="getQuantity"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Get free</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="1" disabled={isEditing} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              {type === PromotionType.COMBO && (
+                <div className="space-y-2">
+                  <FormLabel>Combo items</FormLabel>
+                  {comboItems.fields.map((comboItem, index) => (
+                    <div key={comboItem.id} className="flex gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`comboItems.${index}.itemId`}
+                        render={({ field }) => (
+                          <FormItem className="flex-1">
+                            <Select value={field.value} onValueChange={field.onChange} disabled={isEditing}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Choose an item" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {items.map((item) => (
+                                  <SelectItem key={item.id} value={item.id}>
+                                    {item.name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`comboItems.${index}.quantity`}
+                        render={({ field }) => (
+                          <FormItem className="w-20">
+                            <FormControl>
+                              <Input type="number" min="1" disabled={isEditing} {...field} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      {!isEditing && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          title="Remove"
+                          onClick={() => comboItems.remove(index)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                  {!isEditing && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => comboItems.append({ itemId: "", quantity: "1" })}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Item
+                    </Button>
+                  )}
+
+                  <FormField
+                    control={form.control}
+                    name="tableMinutes"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Table time included (minutes)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="0" step="15" disabled={isEditing} {...field} />
+                        </FormControl>
+                        <FormDescription>
+                          Combos with table time only apply to orders on a running table session
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Promo code</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Automatic" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="usageLimit"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Usage limit</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" placeholder="Unlimited" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Starts</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="endsAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Ends</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                    </FormControl>
+                    <FormLabel>Active</FormLabel>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isEditing ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
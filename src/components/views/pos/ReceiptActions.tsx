@@ -0,0 +1,33 @@
+"use client";
+
+import { FileDown, Printer, Receipt } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ReceiptActionsProps {
+  // Receipt endpoint including the companyId query, e.g. /api/pos/orders/{id}/receipt?companyId=...
+  receiptUrl: string;
+}
+
+export const openReceipt = (receiptUrl: string) => {
+  window.open(receiptUrl, "_blank", "noopener,noreferrer");
+};
+
+export function ReceiptActions({ receiptUrl }: ReceiptActionsProps) {
+  return (
+    <div className="flex gap-2">
+      <Button type="button" variant="outline" size="sm" onClick={() => openReceipt(receiptUrl)}>
+        <Printer className="mr-1 h-4 w-4" /> Print
+      </Button>
+      <Button type="button" variant="outline" size="sm" asChild>
+        <a href={`${receiptUrl}&format=pdf`} download>
+          <FileDown className="mr-1 h-4 w-4" /> PDF
+        </a>
+      </Button>
+      <Button type="button" variant="outline" size="sm" asChild>
+        <a href={`${receiptUrl}&format=escpos`} download>
+          <Receipt className="mr-1 h-4 w-4" /> Thermal
+        </a>
+      </Button>
+    </div>
+  );
+}
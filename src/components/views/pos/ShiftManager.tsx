@@ -0,0 +1,382 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import type { ShiftReport as ShiftReportData } from "@/lib/shiftUtils";
+import { formatPrice } from "@/lib/tableUtils";
+import { ShiftReport } from "./ShiftReport";
+
+interface StaffName {
+  firstName: string | null;
+  lastName: string | null;
+}
+
+interface Shift {
+  id: string;
+  status: "OPEN" | "CLOSED";
+  openingFloat: number;
+  countedCash: number | null;
+  variance: number | null;
+  openedAt: string;
+  closedAt: string | null;
+  openedBy?: StaffName | null;
+  closedBy?: StaffName | null;
+}
+
+interface ShiftManagerProps {
+  companyId: string;
+  // Keep this stable (useCallback): the shifts are fetched again when it changes
+  onShiftChange?: (shift: Shift | null) => void;
+}
+
+const formatStaffName = (staff?: StaffName | null) =>
+  staff ? [staff.firstName, staff.lastName].filter(Boolean).join(" ") || "Staff" : "-";
+
+export function ShiftManager({ companyId, onShiftChange }: ShiftManagerProps) {
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null);
+  const [currentReport, setCurrentReport] = useState<ShiftReportData | null>(null);
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [payoutAmount, setPayoutAmount] = useState("");
+  const [payoutReason, setPayoutReason] = useState("");
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNote, setClosingNote] = useState("");
+  const [viewedReport, setViewedReport] = useState<ShiftReportData | null>(null);
+
+  // Load the open shift and recent shift history
+  useEffect(() => {
+    const fetchShifts = async () => {
+      try {
+        setLoading(true);
+
+        const [currentResponse, historyResponse] = await Promise.all([
+          fetch(`/api/pos/shifts/current?companyId=${companyId}`),
+          fetch(`/api/pos/shifts?companyId=${companyId}`),
+        ]);
+
+        if (!currentResponse.ok || !historyResponse.ok) {
+          throw new Error("Failed to fetch shifts");
+        }
+
+        const current = await currentResponse.json();
+        setCurrentShift(current.shift);
+        setCurrentReport(current.report);
+        setShifts(await historyResponse.json());
+        onShiftChange?.(current.shift);
+      } catch (error) {
+        console.error("Error fetching shifts:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load shifts",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (companyId) {
+      fetchShifts();
+    }
+  }, [companyId, refreshKey, toast, onShiftChange]);
+
+  // Send a shift action and refresh on success
+  const submit = async (url: string, body: Record<string, unknown>, successMessage: string) => {
+    try {
+      setSubmitting(true);
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, ...body }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Request failed");
+      }
+
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+
+      setRefreshKey((key) => key + 1);
+      return await response.json();
+    } catch (error) {
+      console.error("Error updating shift:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Request failed",
+        variant: "destructive",
+      });
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const openShift = async () => {
+    const shift = await submit(
+      "/api/pos/shifts",
+      { openingFloat: Number(openingFloat) || 0 },
+      "Shift opened"
+    );
+    if (shift) setOpeningFloat("");
+  };
+
+  const recordPayout = async () => {
+    if (!currentShift) return;
+    const payout = await submit(
+      `/api/pos/shifts/${currentShift.id}/payouts`,
+      { amount: Number(payoutAmount), reason: payoutReason },
+      "Payout recorded"
+    );
+    if (payout) {
+      setPayoutAmount("");
+      setPayoutReason("");
+    }
+  };
+
+  const closeShift = async () => {
+    if (!currentShift) return;
+    const report = await submit(
+      `/api/pos/shifts/${currentShift.id}/close`,
+      { countedCash: Number(countedCash), note: closingNote || null },
+      "Shift closed"
+    );
+    if (report) {
+      setCountedCash("");
+      setClosingNote("");
+      setViewedReport(report);
+    }
+  };
+
+  const viewReport = async (shiftId: string) => {
+    try {
+      const response = await fetch(`/api/pos/shifts/${shiftId}/report?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to load report");
+      setViewedReport(await response.json());
+    } catch (error) {
+      console.error("Error loading shift report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load shift report",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {!currentShift ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Shift</CardTitle>
+            <CardDescription>Count the cash in the drawer to start a shift.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Opening float</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="0.00"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+              />
+            </div>
+            <Button onClick={openShift} disabled={submitting}>
+              Open Shift
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardContent className="pt-6">
+              {currentReport && <ShiftReport report={currentReport} />}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Cash Payout</CardTitle>
+                <CardDescription>Record cash taken out of the drawer.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Amount</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={payoutAmount}
+                      onChange={(e) => setPayoutAmount(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Reason</Label>
+                    <Input
+                      placeholder="e.g. Ice delivery"
+                      value={payoutReason}
+                      onChange={(e) => setPayoutReason(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={recordPayout}
+                  disabled={submitting || !(Number(payoutAmount) > 0) || !payoutReason.trim()}
+                >
+                  Record Payout
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Close Shift</CardTitle>
+                <CardDescription>Count the drawer to close the shift and print the Z-report.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Counted cash</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0.00"
+                      value={countedCash}
+                      onChange={(e) => setCountedCash(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Note</Label>
+                    <Input
+                      placeholder="Optional"
+                      value={closingNote}
+                      onChange={(e) => setClosingNote(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <Button
+                  variant="destructive"
+                  onClick={closeShift}
+                  disabled={submitting || countedCash === ""}
+                >
+                  Close Shift
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Shift History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No shifts yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Opened</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead>Float</TableHead>
+                  <TableHead>Over / Short</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shifts.map((shift) => (
+                  <TableRow key={shift.id}>
+                    <TableCell>
+                      {format(new Date(shift.openedAt), "MMM d, h:mm a")}
+                      <div className="text-xs text-muted-foreground">{formatStaffName(shift.openedBy)}</div>
+                    </TableCell>
+                    <TableCell>
+                      {shift.closedAt ? (
+                        <>
+                          {format(new Date(shift.closedAt), "MMM d, h:mm a")}
+                          <div className="text-xs text-muted-foreground">{formatStaffName(shift.closedBy)}</div>
+                        </>
+                      ) : (
+                        "Open"
+                      )}
+                    </TableCell>
+                    <TableCell>{formatPrice(Number(shift.openingFloat))}</TableCell>
+                    <TableCell
+                      className={
+                        Number(shift.variance) < 0
+                          ? "text-destructive"
+                          : Number(shift.variance) > 0 ? "text-green-600" : ""
+                      }
+                    >
+                      {shift.variance != null ? formatPrice(Number(shift.variance)) : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" onClick={() => viewReport(shift.id)}>
+                        Report
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewedReport} onOpenChange={(open) => !open && setViewedReport(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Shift Report</DialogTitle>
+          </DialogHeader>
+          <ScrollArea className="max-h-[70vh] pr-4">
+            {viewedReport && <ShiftReport report={viewedReport} />}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
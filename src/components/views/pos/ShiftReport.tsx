@@ -0,0 +1,116 @@
+"use client";
+
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import type { ShiftReport as ShiftReportData } from "@/lib/shiftUtils";
+import { PAYMENT_METHOD_LABELS } from "@/lib/paymentUtils";
+import { formatPrice } from "@/lib/tableUtils";
+
+interface ShiftReportProps {
+  report: ShiftReportData;
+}
+
+const Row = ({ label, value, className }: { label: string; value: string; className?: string }) => (
+  <div className={`flex justify-between ${className ?? ""}`}>
+    <span>{label}</span>
+    <span>{value}</span>
+  </div>
+);
+
+export function ShiftReport({ report }: ShiftReportProps) {
+  const variance = report.cash.variance;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <div className="flex items-start justify-between">
+        <div>
+          <p className="font-medium">
+            {report.status === "CLOSED" ? "Z-Report" : "Running totals"}
+          </p>
+          <p className="text-muted-foreground">
+            Opened {format(new Date(report.openedAt), "MMM d, yyyy h:mm a")} by {report.openedBy}
+          </p>
+          {report.closedAt && (
+            <p className="text-muted-foreground">
+              Closed {format(new Date(report.closedAt), "MMM d, yyyy h:mm a")}
+              {report.closedBy && ` by ${report.closedBy}`}
+            </p>
+          )}
+        </div>
+        <Badge variant={report.status === "OPEN" ? "default" : "outline"}>
+          {report.status === "OPEN" ? "Open" : "Closed"}
+        </Badge>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-1">
+        <p className="font-medium">Sales by category ({report.orderCount} orders)</p>
+        {report.salesByCategory.length === 0 ? (
+          <p className="text-muted-foreground">No product sales</p>
+        ) : (
+          report.salesByCategory.map((category) => (
+            <Row
+              key={category.categoryName}
+              label={`${category.categoryName} × ${category.quantity}`}
+              value={formatPrice(category.total)}
+            />
+          ))
+        )}
+        <Row label="Product sales" value={formatPrice(report.grossSales)} className="font-medium" />
+      </div>
+
+      <div className="space-y-1">
+        <p className="font-medium">Table revenue ({report.tableRevenue.checkoutCount} checkouts)</p>
+        <Row label="Table time" value={formatPrice(report.tableRevenue.timeCost)} />
+        <Row label="Discounts" value={`-${formatPrice(report.tableRevenue.discounts)}`} />
+        <Row label="Tips" value={formatPrice(report.tableRevenue.tips)} />
+      </div>
+
+      <div className="space-y-1">
+        <p className="font-medium">Payments</p>
+        {report.paymentsByMethod.length === 0 ? (
+          <p className="text-muted-foreground">No payments</p>
+        ) : (
+          report.paymentsByMethod.map((payment) => (
+            <Row
+              key={payment.method}
+              label={`${PAYMENT_METHOD_LABELS[payment.method]} (${payment.count})`}
+              value={formatPrice(payment.total)}
+            />
+          ))
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <p className="font-medium">Refunds</p>
+        <Row
+          label={`${report.refunds.voidCount} voids, ${report.refunds.refundCount} refunds`}
+          value={`-${formatPrice(report.refunds.total)}`}
+        />
+      </div>
+
+      <Separator />
+
+      <div className="space-y-1">
+        <p className="font-medium">Cash drawer</p>
+        <Row label="Opening float" value={formatPrice(report.cash.openingFloat)} />
+        <Row label="Cash payments" value={formatPrice(report.cash.cashPayments)} />
+        <Row label="Cash refunds" value={`-${formatPrice(report.cash.cashRefunds)}`} />
+        <Row label={`Payouts (${report.payouts.count})`} value={`-${formatPrice(report.cash.payouts)}`} />
+        <Row label="Expected in drawer" value={formatPrice(report.cash.expected)} className="font-medium" />
+        {report.cash.counted != null && (
+          <Row label="Counted" value={formatPrice(report.cash.counted)} />
+        )}
+        {variance != null && (
+          <Row
+            label={variance > 0 ? "Over" : variance < 0 ? "Short" : "Balanced"}
+            value={formatPrice(Math.abs(variance))}
+            className={`font-semibold ${variance < 0 ? "text-destructive" : variance > 0 ? "text-green-600" : ""}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
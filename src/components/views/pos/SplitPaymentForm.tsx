@@ -0,0 +1,260 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  calculateChange,
+  PAYMENT_METHOD_LABELS,
+  splitByItems,
+  splitEvenly,
+  sumPayments,
+} from "@/lib/paymentUtils";
+import { PAYMENT_METHODS, PaymentValues, TAB_PAYMENT_METHOD } from "@/lib/validations/payment";
+import { formatPrice } from "@/lib/tableUtils";
+
+type SplitMode = "single" | "even" | "items";
+
+interface SplitItem {
+  id: string;
+  name: string;
+  lineTotal: number;
+}
+
+interface PaymentRow {
+  amount: string;
+  method: PaymentValues["method"];
+  tendered: string;
+  payerName: string;
+}
+
+interface SplitPaymentFormProps {
+  amountDue: number;
+  // Memoize these: the shares are worked out again whenever the list changes
+  items?: SplitItem[];
+  allowPartial?: boolean;
+  allowTab?: boolean;
+  onChange: (payments: PaymentValues[]) => void;
+}
+
+const NO_ITEMS: SplitItem[] = [];
+
+const emptyRow = (amount: number): PaymentRow => ({
+  amount: amount.toFixed(2),
+  method: "CASH",
+  tendered: "",
+  payerName: "",
+});
+
+export function SplitPaymentForm({
+  amountDue,
+  items = NO_ITEMS,
+  allowPartial = false,
+  allowTab = false,
+  onChange,
+}: SplitPaymentFormProps) {
+  const [mode, setMode] = useState<SplitMode>("single");
+  const [payers, setPayers] = useState(2);
+  const [assignments, setAssignments] = useState<Record<string, number>>({});
+  const [rows, setRows] = useState<PaymentRow[]>([emptyRow(amountDue)]);
+
+  // Recalculate each payer's share when the split changes
+  useEffect(() => {
+    let shares: number[];
+    if (mode === "even") {
+      shares = splitEvenly(amountDue, payers);
+    } else if (mode === "items") {
+      // Anything not covered by the items (discounts, tips) is shared evenly
+      const itemShares = splitByItems(items, assignments, payers);
+      const difference = amountDue - sumPayments(items.map((item) => ({ amount: item.lineTotal })));
+      const adjustments = splitEvenly(Math.abs(difference), payers);
+      shares = itemShares.map((share, index) =>
+        Math.round((share + Math.sign(difference) * adjustments[index]) * 100) / 100
+      );
+    } else {
+      shares = [amountDue];
+    }
+
+    setRows((current) =>
+      shares.map((share, index) => ({
+        ...(current[index] ?? emptyRow(share)),
+        amount: share.toFixed(2),
+      }))
+    );
+  }, [mode, payers, assignments, amountDue, items]);
+
+  // Report the payments to the parent form
+  useEffect(() => {
+    onChange(
+      rows
+        .filter((row) => Number(row.amount) > 0)
+        .map((row) => ({
+          method: row.method,
+          amount: Number(row.amount),
+          tenderedAmount: row.method === "CASH" && row.tendered ? Number(row.tendered) : null,
+          payerName: row.payerName || null,
+        }))
+    );
+  }, [rows, onChange]);
+
+  const updateRow = (index: number, changes: Partial<PaymentRow>) => {
+    setRows((current) =>
+      current.map((row, rowIndex) => (rowIndex === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  // Charging a tab needs a customer on the bill
+  const methods = PAYMENT_METHODS.filter((method) => allowTab || method !== TAB_PAYMENT_METHOD);
+
+  const paymentTotal = sumPayments(rows.map((row) => ({ amount: Number(row.amount) || 0 })));
+  const remaining = Math.round((amountDue - paymentTotal) * 100) / 100;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Split</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as SplitMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="single">Single payment</SelectItem>
+              <SelectItem value="even">Split evenly</SelectItem>
+              {items.length > 0 && <SelectItem value="items">Split by item</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+        {mode !== "single" && (
+          <div className="space-y-2">
+            <Label>Payers</Label>
+            <Input
+              type="number"
+              min="2"
+              max="20"
+              value={payers}
+              onChange={(e) => setPayers(Math.min(20, Math.max(2, Number(e.target.value) || 2)))}
+            />
+          </div>
+        )}
+      </div>
+
+      {mode === "items" && (
+        <div className="space-y-2">
+          {items.map((item) => (
+            <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex-1">{item.name}</span>
+              <span className="w-20 text-right">{formatPrice(item.lineTotal)}</span>
+              <Select
+                value={assignments[item.id] !== undefined ? String(assignments[item.id]) : "shared"}
+                onValueChange={(value) =>
+                  setAssignments((current) => {
+                    const next = { ...current };
+                    if (value === "shared") {
+                      delete next[item.id];
+                    } else {
+                      next[item.id] = Number(value);
+                    }
+                    return next;
+                  })
+                }
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="shared">Shared</SelectItem>
+                  {Array.from({ length: payers }, (_, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      Payer {index + 1}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {rows.map((row, index) => {
+          const change = row.method === "CASH" && row.tendered
+            ? calculateChange(Number(row.amount), Number(row.tendered))
+            : 0;
+
+          return (
+            <div key={index} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <Input
+                  className="flex-1"
+                  placeholder={rows.length > 1 ? `Payer ${index + 1}` : "Payer name (optional)"}
+                  value={row.payerName}
+                  onChange={(e) => updateRow(index, { payerName: e.target.value })}
+                />
+                <Select
+                  value={row.method}
+                  onValueChange={(value) => updateRow(index, { method: value as PaymentValues["method"] })}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {methods.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Amount</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.amount}
+                    disabled={mode === "single" && !allowPartial}
+                    onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  />
+                </div>
+                {row.method === "CASH" && (
+                  <div className="space-y-1">
+                    <Label className="text-xs">Tendered</Label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder={row.amount}
+                      value={row.tendered}
+                      onChange={(e) => updateRow(index, { tendered: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+              {change > 0 && (
+                <p className="text-sm font-medium">Change due: {formatPrice(change)}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {remaining !== 0 && (
+        <p className={`text-sm ${remaining < 0 ? "text-destructive" : "text-muted-foreground"}`}>
+          {remaining > 0
+            ? `Remaining balance: ${formatPrice(remaining)}`
+            : `Payments exceed the amount due by ${formatPrice(-remaining)}`}
+        </p>
+      )}
+    </div>
+  );
+}
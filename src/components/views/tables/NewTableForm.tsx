@@ -29,6 +29,7 @@ import { getActiveCompanyId } from "@/lib/authUtils";
 // Form validation schema
 const tableFormSchema = z.object({
   name: z.string().min(1, "Table name is required"),
+  type: z.string().optional(),
   hourlyRate: z.string().refine(
     (val) => {
       const num = parseFloat(val);
@@ -52,6 +53,7 @@ export function NewTableForm() {
     resolver: zodResolver(tableFormSchema),
     defaultValues: {
       name: "",
+      type: "",
       hourlyRate: "",
       status: "AVAILABLE",
     },
@@ -127,6 +129,23 @@ export function NewTableForm() {
             )}
           />
           
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Table Type</FormLabel>
+                <FormControl>
+                  <Input placeholder="Pool, Snooker, Carom..." {...field} />
+                </FormControl>
+                <FormDescription>
+                  Optional. Pricing rules can target a specific table type
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          
           <FormField
             control={form.control}
             name="hourlyRate"
@@ -0,0 +1,298 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Copy, ExternalLink, Loader2 } from "lucide-react";
+import type { BookingSettingsValues } from "@/lib/validations/booking";
+
+interface OnlineBookingManagerProps {
+  companyId: string;
+}
+
+// Monday first, as most venues list their week
+const WEEKDAYS = [
+  { weekday: 1, label: "Monday" },
+  { weekday: 2, label: "Tuesday" },
+  { weekday: 3, label: "Wednesday" },
+  { weekday: 4, label: "Thursday" },
+  { weekday: 5, label: "Friday" },
+  { weekday: 6, label: "Saturday" },
+  { weekday: 0, label: "Sunday" },
+];
+
+const SLOT_OPTIONS = [15, 30, 60];
+
+type DayHours = { open: boolean; opensAt: string; closesAt: string };
+
+const defaultDay: DayHours = { open: false, opensAt: "12:00", closesAt: "23:00" };
+
+type SettingsState = Omit<BookingSettingsValues, "openingHours">;
+
+const defaultSettings: SettingsState = {
+  onlineBookingEnabled: false,
+  timeZone: "UTC",
+  bookingSlotMinutes: 30,
+  bookingMaxHours: 3,
+  bookingDaysAhead: 30,
+  bookingMaxPerPhone: 2,
+};
+
+export function OnlineBookingManager({ companyId }: OnlineBookingManagerProps) {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SettingsState>(defaultSettings);
+  const [days, setDays] = useState<Record<number, DayHours>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [bookingUrl, setBookingUrl] = useState("");
+
+  useEffect(() => {
+    setBookingUrl(`${window.location.origin}/book/${companyId}`);
+  }, [companyId]);
+
+  const fetchSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/tables/booking-settings?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch booking settings");
+      const data = await response.json();
+      const { openingHours, ...rest } = data.settings as BookingSettingsValues;
+      setSettings(rest);
+      setDays(
+        Object.fromEntries(
+          openingHours.map((day) => [day.weekday, { open: true, opensAt: day.opensAt, closesAt: day.closesAt }])
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching booking settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load online booking settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchSettings();
+    }
+  }, [companyId, fetchSettings]);
+
+  const updateSetting = <K extends keyof SettingsState>(key: K, value: SettingsState[K]) => {
+    setSettings((current) => ({ ...current, [key]: value }));
+  };
+
+  const updateDay = (weekday: number, changes: Partial<DayHours>) => {
+    setDays((current) => ({ ...current, [weekday]: { ...(current[weekday] ?? defaultDay), ...changes } }));
+  };
+
+  async function saveSettings() {
+    const openingHours = WEEKDAYS.filter(({ weekday }) => days[weekday]?.open).map(({ weekday }) => ({
+      weekday,
+      opensAt: days[weekday].opensAt,
+      closesAt: days[weekday].closesAt,
+    }));
+
+    try {
+      setSaving(true);
+      const response = await fetch("/api/tables/booking-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ companyId, ...settings, openingHours }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({ title: "Success", description: "Online booking settings saved" });
+    } catch (error) {
+      console.error("Error saving booking settings:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save online booking settings: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function copyBookingUrl() {
+    try {
+      await navigator.clipboard.writeText(bookingUrl);
+      toast({ title: "Copied", description: "Booking page link copied" });
+    } catch (error) {
+      console.error("Error copying booking link:", error);
+    }
+  }
+
+  const numberInput = (key: "bookingMaxHours" | "bookingDaysAhead" | "bookingMaxPerPhone", label: string, min: number) => (
+    <div className="space-y-2">
+      <Label htmlFor={key}>{label}</Label>
+      <Input
+        id={key}
+        type="number"
+        min={min}
+        value={settings[key]}
+        onChange={(e) => updateSetting(key, Number(e.target.value))}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Online Booking</CardTitle>
+        <CardDescription>
+          A public page where customers see free times and request a table. Requests arrive as
+          pending reservations for staff to confirm or reject.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="onlineBookingEnabled"
+                  checked={settings.onlineBookingEnabled}
+                  onCheckedChange={(checked) => updateSetting("onlineBookingEnabled", checked === true)}
+                />
+                <Label htmlFor="onlineBookingEnabled">Take bookings online</Label>
+              </div>
+              {settings.onlineBookingEnabled && bookingUrl && (
+                <div className="flex items-center gap-2 min-w-0">
+                  <code className="text-xs bg-muted rounded px-2 py-1 truncate">{bookingUrl}</code>
+                  <Button variant="outline" size="icon" title="Copy link" onClick={copyBookingUrl}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="icon" title="Open booking page" asChild>
+                    <a href={bookingUrl} target="_blank" rel="noopener noreferrer">
+                      <ExternalLink className="h-4 w-4" />
+                    </a>
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="timeZone">Time zone</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="timeZone"
+                    value={settings.timeZone}
+                    onChange={(e) => updateSetting("timeZone", e.target.value)}
+                    placeholder="e.g. Europe/London"
+                  />
+                  <Button
+                    variant="outline"
+                    type="button"
+                    title="Use this device's time zone"
+                    onClick={() => updateSetting("timeZone", Intl.DateTimeFormat().resolvedOptions().timeZone)}
+                  >
+                    Detect
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Start times every</Label>
+                <Select
+                  value={String(settings.bookingSlotMinutes)}
+                  onValueChange={(value) => updateSetting("bookingSlotMinutes", Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SLOT_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes} minutes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {numberInput("bookingMaxHours", "Longest booking (hours)", 1)}
+              {numberInput("bookingDaysAhead", "Book up to (days ahead)", 1)}
+              {numberInput("bookingMaxPerPhone", "Open requests per phone number", 1)}
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Opening hours</h4>
+              <p className="text-xs text-muted-foreground">
+                Bookings have to finish by closing. A closing time before opening means after midnight.
+              </p>
+              <div className="space-y-2">
+                {WEEKDAYS.map(({ weekday, label }) => {
+                  const day = days[weekday] ?? defaultDay;
+                  return (
+                    <div key={weekday} className="grid grid-cols-[8rem_1fr_1fr] items-center gap-3">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`open-${weekday}`}
+                          checked={day.open}
+                          onCheckedChange={(checked) => updateDay(weekday, { open: checked === true })}
+                        />
+                        <Label htmlFor={`open-${weekday}`}>{label}</Label>
+                      </div>
+                      {day.open ? (
+                        <>
+                          <Input
+                            type="time"
+                            value={day.opensAt}
+                            onChange={(e) => updateDay(weekday, { opensAt: e.target.value })}
+                          />
+                          <Input
+                            type="time"
+                            value={day.closesAt}
+                            onChange={(e) => updateDay(weekday, { closesAt: e.target.value })}
+                          />
+                        </>
+                      ) : (
+                        <span className="col-span-2 text-sm text-muted-foreground">Closed</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button onClick={saveSettings} disabled={saving}>
+                {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Settings
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
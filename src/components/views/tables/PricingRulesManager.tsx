@@ -0,0 +1,524 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { Loader2, PencilIcon, Plus, TrashIcon } from "lucide-react";
+import { formatPrice } from "@/lib/tableUtils";
+
+type PricingRule = {
+  id: string;
+  name: string;
+  tableType: string | null;
+  daysOfWeek: number[];
+  startTime: string | null;
+  endTime: string | null;
+  hourlyRate: string;
+  priority: number;
+  active: boolean;
+};
+
+interface PricingRulesManagerProps {
+  companyId: string;
+}
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Form schema - numeric fields are kept as strings while editing
+const ruleFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  tableType: z.string().optional(),
+  daysOfWeek: z.array(z.number()),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  hourlyRate: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
+    message: "Hourly rate must be a positive number",
+  }),
+  priority: z.string().refine((val) => Number.isInteger(Number(val)), {
+    message: "Priority must be a whole number",
+  }),
+  active: z.boolean(),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const emptyRule: RuleFormValues = {
+  name: "",
+  tableType: "",
+  daysOfWeek: [],
+  startTime: "",
+  endTime: "",
+  hourlyRate: "",
+  priority: "0",
+  active: true,
+};
+
+export function PricingRulesManager({ companyId }: PricingRulesManagerProps) {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+  const [minimumCharge, setMinimumCharge] = useState("");
+  const [billingIncrement, setBillingIncrement] = useState("1");
+  const [savingSettings, setSavingSettings] = useState(false);
+
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: emptyRule,
+  });
+
+  const fetchPricing = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/tables/pricing?companyId=${companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch pricing rules");
+      const data = await response.json();
+      setRules(data.rules);
+      setMinimumCharge(data.settings.minimumCharge ?? "");
+      setBillingIncrement(String(data.settings.billingIncrementMin));
+    } catch (error) {
+      console.error("Error fetching pricing rules:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load pricing rules. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchPricing();
+    }
+  }, [companyId, fetchPricing]);
+
+  // Open create/edit dialog
+  function openRuleDialog(rule?: PricingRule) {
+    setEditingRule(rule ?? null);
+    form.reset(
+      rule
+        ? {
+            name: rule.name,
+            tableType: rule.tableType ?? "",
+            daysOfWeek: rule.daysOfWeek,
+            startTime: rule.startTime ?? "",
+            endTime: rule.endTime ?? "",
+            hourlyRate: String(rule.hourlyRate),
+            priority: String(rule.priority),
+            active: rule.active,
+          }
+        : emptyRule
+    );
+    setDialogOpen(true);
+  }
+
+  async function onSubmit(values: RuleFormValues) {
+    const payload = {
+      companyId,
+      name: values.name,
+      tableType: values.tableType || null,
+      daysOfWeek: values.daysOfWeek,
+      startTime: values.startTime || null,
+      endTime: values.endTime || null,
+      hourlyRate: parseFloat(values.hourlyRate),
+      priority: parseInt(values.priority, 10),
+      active: values.active,
+    };
+
+    try {
+      const response = await fetch(
+        editingRule ? `/api/tables/pricing/rules/${editingRule.id}` : "/api/tables/pricing/rules",
+        {
+          method: editingRule ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details?.[0]?.message || errorData.error || "Something went wrong");
+      }
+
+      toast({
+        title: "Success",
+        description: editingRule ? "Pricing rule updated" : "Pricing rule created",
+      });
+      setDialogOpen(false);
+      setEditingRule(null);
+      fetchPricing();
+    } catch (error) {
+      console.error("Error saving pricing rule:", error);
+      toast({
+        title: "Error",
+        description: `Failed to save pricing rule: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function deleteRule(rule: PricingRule) {
+    if (!confirm(`Delete the pricing rule "${rule.name}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/tables/pricing/rules/${rule.id}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) throw new Error("Failed to delete pricing rule");
+
+      toast({ title: "Success", description: "Pricing rule deleted" });
+      fetchPricing();
+    } catch (error) {
+      console.error("Error deleting pricing rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete pricing rule. Please try again.",
+        variant: "destructive",
+      });
+    }
+  }
+
+  async function saveSettings() {
+    try {
+      setSavingSettings(true);
+      const response = await fetch("/api/tables/pricing", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          companyId,
+          minimumCharge: minimumCharge === "" ? null : parseFloat(minimumCharge),
+          billingIncrementMin: parseInt(billingIncrement, 10),
+        }),
+      });
+      if (!response.ok) throw new Error("Failed to save pricing settings");
+
+      toast({ title: "Success", description: "Pricing settings saved" });
+    } catch (error) {
+      console.error("Error saving pricing settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save pricing settings. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  }
+
+  function describeSchedule(rule: PricingRule) {
+    const days = rule.daysOfWeek.length === 0 || rule.daysOfWeek.length === 7
+      ? "Every day"
+      : rule.daysOfWeek.map((day) => DAY_LABELS[day]).join(", ");
+    const hours = rule.startTime && rule.endTime ? `${rule.startTime} - ${rule.endTime}` : "All day";
+    return `${days} · ${hours}`;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Billing Settings</CardTitle>
+          <CardDescription>
+            Session time is rounded up to the billing increment and never charged below the minimum
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="minimumCharge">Minimum charge</Label>
+              <Input
+                id="minimumCharge"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="None"
+                value={minimumCharge}
+                onChange={(e) => setMinimumCharge(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billingIncrement">Billing increment (minutes)</Label>
+              <Input
+                id="billingIncrement"
+                type="number"
+                min="1"
+                max="60"
+                value={billingIncrement}
+                onChange={(e) => setBillingIncrement(e.target.value)}
+              />
+            </div>
+            <Button onClick={saveSettings} disabled={savingSettings || loading}>
+              {savingSettings && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Settings
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Pricing Rules</CardTitle>
+            <CardDescription>
+              Rules override a table&apos;s hourly rate while they apply. Higher priority wins.
+              Times and days follow the venue&apos;s time zone, set under Online Booking.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openRuleDialog()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">
+              No pricing rules yet. Tables are billed at their standard hourly rate.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Table Type</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead className="text-right">Priority</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {rule.name}
+                      {!rule.active && (
+                        <Badge variant="outline" className="ml-2">Inactive</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{rule.tableType || "All tables"}</TableCell>
+                    <TableCell>{describeSchedule(rule)}</TableCell>
+                    <TableCell className="text-right">{formatPrice(Number(rule.hourlyRate))}/hr</TableCell>
+                    <TableCell className="text-right">{rule.priority}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="icon" title="Edit" onClick={() => openRuleDialog(rule)}>
+                          <PencilIcon className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="icon"
+                          title="Delete"
+                          className="text-red-500"
+                          onClick={() => deleteRule(rule)}
+                        >
+                          <TrashIcon className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rule Form Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Pricing Rule" : "New Pricing Rule"}</DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Happy hour" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="hourlyRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Hourly Rate</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tableType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Table Type</FormLabel>
+                      <FormControl>
+                        <Input placeholder="All tables" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="daysOfWeek"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Days</FormLabel>
+                    <div className="flex flex-wrap gap-3">
+                      {DAY_LABELS.map((label, day) => (
+                        <label key={label} className="flex items-center space-x-1 text-sm">
+                          <Checkbox
+                            checked={field.value.includes(day)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, day].sort((a, b) => a - b)
+                                  : field.value.filter((value) => value !== day)
+                              )
+                            }
+                          />
+                          <span>{label}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>Leave all unchecked to apply every day</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="startTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>From</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="endTime"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Until</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <FormField
+                  control={form.control}
+                  name="priority"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Priority</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center space-x-2 space-y-0 pb-2">
+                      <FormControl>
+                        <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} />
+                      </FormControl>
+                      <FormLabel>Active</FormLabel>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {editingRule ? "Update" : "Create"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useMemo, useState } from "react";
+import { addDays, format, parseISO } from "date-fns";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CheckCircle2, Clock, Loader2, MapPin, Phone } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Venue = {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  timeZone: string;
+  // Today's date where the venue is, as YYYY-MM-DD
+  today: string;
+  daysAhead: number;
+  durations: number[];
+  openingHours: { weekday: number; opensAt: string; closesAt: string }[];
+};
+
+type Slot = {
+  start: string;
+  end: string;
+};
+
+interface PublicBookingFormProps {
+  companyId: string;
+}
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+function formatDuration(minutes: number) {
+  const hours = minutes / 60;
+  return `${hours} ${hours === 1 ? "hour" : "hours"}`;
+}
+
+export function PublicBookingForm({ companyId }: PublicBookingFormProps) {
+  const [venue, setVenue] = useState<Venue | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [date, setDate] = useState<string | null>(null);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [slotsLoading, setSlotsLoading] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
+  const [customerName, setCustomerName] = useState("");
+  const [customerPhone, setCustomerPhone] = useState("");
+  // Hidden from people, so only bots fill it in
+  const [website, setWebsite] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [booked, setBooked] = useState<Slot | null>(null);
+
+  const endpoint = `/api/public/booking/${companyId}`;
+
+  useEffect(() => {
+    async function fetchVenue() {
+      try {
+        const response = await fetch(endpoint);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || "Something went wrong");
+        setVenue(data.venue);
+        setDuration(data.venue.durations[0] ?? null);
+      } catch (error) {
+        console.error("Error fetching venue:", error);
+        setLoadError(error instanceof Error ? error.message : "Something went wrong");
+      }
+    }
+
+    fetchVenue();
+  }, [endpoint]);
+
+  const fetchSlots = useCallback(async () => {
+    if (!date || !duration) return;
+
+    try {
+      setSlotsLoading(true);
+      setSelectedSlot(null);
+      const response = await fetch(`${endpoint}?date=${date}&duration=${duration}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || "Something went wrong");
+      setSlots(data.slots);
+    } catch (error) {
+      console.error("Error fetching free times:", error);
+      setSlots([]);
+      setError(error instanceof Error ? error.message : "Failed to load free times");
+    } finally {
+      setSlotsLoading(false);
+    }
+  }, [endpoint, date, duration]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  const openDays = useMemo(
+    () => new Set(venue?.openingHours.map((day) => day.weekday) ?? []),
+    [venue]
+  );
+
+  // Times are shown on the venue's clock, wherever the customer is
+  const formatVenueTime = (value: string) =>
+    new Date(value).toLocaleTimeString("en-US", {
+      timeZone: venue?.timeZone,
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const isDayDisabled = (day: Date) => {
+    if (!venue) return true;
+    const key = format(day, "yyyy-MM-dd");
+    const lastDay = format(addDays(parseISO(venue.today), venue.daysAhead), "yyyy-MM-dd");
+    return key < venue.today || key > lastDay || !openDays.has(day.getDay());
+  };
+
+  async function onSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (!date || !duration || !selectedSlot) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          date,
+          reservedFrom: selectedSlot.start,
+          durationMinutes: duration,
+          customerName,
+          customerPhone,
+          website,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        // The time was taken while the form was open, so show what's left
+        if (response.status === 409) fetchSlots();
+        throw new Error(data.details?.[0]?.message || data.error || "Something went wrong");
+      }
+
+      setBooked(selectedSlot);
+    } catch (error) {
+      console.error("Error requesting booking:", error);
+      setError(error instanceof Error ? error.message : "Something went wrong");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  if (loadError) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">{loadError}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!venue) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (booked && date) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center space-y-3">
+          <CheckCircle2 className="h-12 w-12 text-green-600 mx-auto" />
+          <h2 className="text-xl font-semibold">Request sent</h2>
+          <p className="text-muted-foreground">
+            Thanks, {customerName}. We&apos;ve asked {venue.name} for a table on{" "}
+            {format(parseISO(date), "EEEE, MMMM d")} from {formatVenueTime(booked.start)} to{" "}
+            {formatVenueTime(booked.end)}. They&apos;ll be in touch on {customerPhone} to confirm it.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-2xl">Book a table at {venue.name}</CardTitle>
+          <CardDescription className="space-y-1">
+            {venue.address && (
+              <span className="flex items-center gap-2">
+                <MapPin className="h-4 w-4" />
+                {venue.address}
+              </span>
+            )}
+            {venue.phone && (
+              <span className="flex items-center gap-2">
+                <Phone className="h-4 w-4" />
+                {venue.phone}
+              </span>
+            )}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-start gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4 mt-0.5 shrink-0" />
+            <div className="grid grid-cols-[auto_1fr] gap-x-4">
+              {[1, 2, 3, 4, 5, 6, 0].map((weekday) => {
+                const hours = venue.openingHours.find((day) => day.weekday === weekday);
+                return (
+                  <div key={weekday} className="contents">
+                    <span>{DAY_NAMES[weekday]}</span>
+                    <span>{hours ? `${hours.opensAt} – ${hours.closesAt}` : "Closed"}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          <form onSubmit={onSubmit} className="space-y-6">
+            <div className="grid gap-6 sm:grid-cols-[auto_1fr]">
+              <Calendar
+                mode="single"
+                selected={date ? parseISO(date) : undefined}
+                onSelect={(day) => {
+                  setError(null);
+                  setDate(day ? format(day, "yyyy-MM-dd") : null);
+                }}
+                disabled={isDayDisabled}
+                className="rounded-md border"
+              />
+
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label>How long?</Label>
+                  <Select
+                    value={duration ? String(duration) : undefined}
+                    onValueChange={(value) => setDuration(Number(value))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Choose a length" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {venue.durations.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {formatDuration(minutes)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Start time</Label>
+                  {!date ? (
+                    <p className="text-sm text-muted-foreground">Pick a day to see free times.</p>
+                  ) : slotsLoading ? (
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                  ) : slots.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No tables are free for that long on this day. Try another day or a shorter booking.
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-3 gap-2 max-h-56 overflow-y-auto">
+                      {slots.map((slot) => (
+                        <Button
+                          key={slot.start}
+                          type="button"
+                          size="sm"
+                          variant={selectedSlot?.start === slot.start ? "default" : "outline"}
+                          onClick={() => setSelectedSlot(slot)}
+                        >
+                          {formatVenueTime(slot.start)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="customerName">Name</Label>
+                <Input
+                  id="customerName"
+                  autoComplete="name"
+                  value={customerName}
+                  onChange={(e) => setCustomerName(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="customerPhone">Phone</Label>
+                <Input
+                  id="customerPhone"
+                  type="tel"
+                  autoComplete="tel"
+                  value={customerPhone}
+                  onChange={(e) => setCustomerPhone(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="absolute -left-[10000px]" aria-hidden="true">
+                <Label htmlFor="website">Website</Label>
+                <Input
+                  id="website"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={website}
+                  onChange={(e) => setWebsite(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="flex items-center justify-between gap-4">
+              <p className={cn("text-sm text-muted-foreground", !selectedSlot && "invisible")}>
+                {selectedSlot &&
+                  date &&
+                  `${format(parseISO(date), "EEE, MMM d")}, ${formatVenueTime(selectedSlot.start)} – ${formatVenueTime(selectedSlot.end)}`}
+              </p>
+              <Button type="submit" disabled={!selectedSlot || submitting}>
+                {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Request Booking
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
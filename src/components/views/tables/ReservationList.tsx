@@ -2,7 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { format, parseISO, isValid } from 'date-fns';
+import { format, parseISO, isValid, endOfDay } from 'date-fns';
 import { useViewMode } from '@/context/view-mode-context';
 import { useAuth } from '@/hooks/use-auth';
 import {
@@ -45,17 +45,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Calendar } from '@/components/ui/calendar';
-import { CalendarIcon, Plus, PencilIcon, TrashIcon, SearchIcon, CheckIcon, XIcon } from 'lucide-react';
+import { CalendarIcon, Plus, PencilIcon, TrashIcon, SearchIcon, CheckIcon, XIcon, Repeat, Globe } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import * as z from 'zod';
 import { cn } from '@/lib/utils';
-import { Profile, UserRole } from '@prisma/client';
+import { Profile, ReservationFrequency, ReservationSource, UserRole } from '@prisma/client';
 import { WithPermission } from '@/components/ui/permission-button';
+import { CustomerLookup, CustomerSummary } from '@/components/views/customers/CustomerLookup';
+import {
+  MAX_SERIES_OCCURRENCES,
+  RESERVATION_FREQUENCY_LABELS,
+  describeRecurrence,
+} from '@/lib/recurrenceUtils';
+import type { ReservationEditScope } from '@/lib/validations/reservation';
 
 // Define types
 type Reservation = {
@@ -63,9 +78,12 @@ type Reservation = {
   tableId: string;
   customerName: string | null;
   customerPhone: string | null;
+  customerId: string | null;
+  seriesId: string | null;
   reservedFrom: string;
   reservedTo: string;
   status: string;
+  source: ReservationSource;
   createdAt: string;
   updatedAt: string;
   table: {
@@ -73,6 +91,18 @@ type Reservation = {
     name: string;
     status: string;
   };
+  series: {
+    id: string;
+    frequency: ReservationFrequency;
+    timeZone: string | null;
+  } | null;
+};
+
+// A booking in a series that clashes with other reservations
+type Clash = {
+  reservedFrom: string;
+  reservedTo: string;
+  conflicts: { id: string; customerName: string | null; reservedFrom: string; reservedTo: string }[];
 };
 
 interface ReservationListProps {
@@ -80,6 +110,9 @@ interface ReservationListProps {
   refreshKey: number;
 }
 
+// Select values can't be empty, so this stands in for a booking that doesn't repeat
+const NO_REPEAT = "NONE";
+
 // Form schema
 const reservationFormSchema = z.object({
   tableId: z.string({
@@ -97,6 +130,23 @@ const reservationFormSchema = z.object({
     message: "End time is required",
   }),
   status: z.string().optional().default("PENDING"),
+  repeat: z.string().default(NO_REPEAT),
+  repeatEnds: z.enum(["count", "until"]).default("count"),
+  repeatCount: z.coerce
+    .number()
+    .int()
+    .min(2, "At least 2 bookings")
+    .max(MAX_SERIES_OCCURRENCES, `At most ${MAX_SERIES_OCCURRENCES} bookings`)
+    .optional(),
+  repeatUntil: z.date().optional(),
+}).superRefine((values, ctx) => {
+  if (values.repeat === NO_REPEAT) return;
+  if (values.repeatEnds === "count" && !values.repeatCount) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["repeatCount"], message: "Number of bookings is required" });
+  }
+  if (values.repeatEnds === "until" && !values.repeatUntil) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["repeatUntil"], message: "Please select an end date" });
+  }
 });
 
 export function ReservationList({ profile, refreshKey }: ReservationListProps) {
@@ -106,7 +156,11 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingReservation, setEditingReservation] = useState<Reservation | null>(null);
   const [filterDate, setFilterDate] = useState<Date | undefined>(new Date());
+  const [showOnlineRequests, setShowOnlineRequests] = useState(false);
   const [dialogTitle, setDialogTitle] = useState("New Reservation");
+  const [customer, setCustomer] = useState<CustomerSummary | null>(null);
+  const [editScope, setEditScope] = useState<ReservationEditScope>("this");
+  const [clashes, setClashes] = useState<Clash[]>([]);
   const router = useRouter();
   const { toast } = useToast();
   const { viewMode } = useViewMode();
@@ -122,9 +176,16 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
       customerName: "",
       customerPhone: "",
       status: "PENDING",
+      repeat: NO_REPEAT,
+      repeatEnds: "count",
+      repeatCount: 10,
     },
   });
 
+  const repeat = form.watch("repeat");
+  const repeatEnds = form.watch("repeatEnds");
+  const reservedDate = form.watch("reservedDate");
+
   // Fetch tables and reservations
   useEffect(() => {
     if (profile?.companyId) {
@@ -135,7 +196,7 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
         setLoading(false);
       });
     }
-  }, [profile, refreshKey, filterDate]);
+  }, [profile, refreshKey, filterDate, showOnlineRequests]);
 
   // Fetch tables
   async function fetchTables() {
@@ -158,7 +219,10 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
   async function fetchReservations() {
     try {
       let url = `/api/tables/reservations?companyId=${profile?.companyId}`;
-      if (filterDate) {
+      if (showOnlineRequests) {
+        // Requests from the public booking page waiting on staff, whatever the date
+        url += `&source=${ReservationSource.ONLINE}&status=PENDING`;
+      } else if (filterDate) {
         url += `&date=${filterDate.toISOString().split('T')[0]}`;
       }
       
@@ -204,11 +268,28 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
         tableId: values.tableId,
         customerName: values.customerName,
         customerPhone: values.customerPhone || null,
+        customerId: customer?.id ?? null,
         reservedFrom: reservedFromDate.toISOString(),
         reservedTo: reservedToDate.toISOString(),
         status: values.status,
         companyId: profile?.companyId,
+        // Series dates are worked out on this browser's clock
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        ...(editingReservation
+          ? { scope: editScope }
+          : values.repeat !== NO_REPEAT
+            ? {
+                recurrence: {
+                  frequency: values.repeat,
+                  count: values.repeatEnds === "count" ? values.repeatCount : null,
+                  until: values.repeatEnds === "until" && values.repeatUntil
+                    ? endOfDay(values.repeatUntil).toISOString()
+                    : null,
+                },
+              }
+            : {}),
       };
+      setClashes([]);
       
       let response;
       
@@ -230,7 +311,10 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
       
       if (!response.ok) {
         const errorData = await response.json();
-        if (response.status === 409) {
+        if (response.status === 409 && errorData.clashes) {
+          // Listed in the dialog so they can all be sorted out before trying again
+          setClashes(errorData.clashes);
+        } else if (response.status === 409) {
           toast({
             title: "Conflict",
             description: "This table is already reserved for this time slot.",
@@ -240,11 +324,13 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
           throw new Error(errorData.error || 'Something went wrong');
         }
       } else {
+        const data = await response.json();
+        const count = data.reservations?.length ?? 1;
         toast({
           title: "Success",
           description: editingReservation 
-            ? "Reservation updated successfully" 
-            : "New reservation created successfully",
+            ? (count > 1 ? `${count} reservations updated successfully` : "Reservation updated successfully")
+            : (count > 1 ? `${count} reservations created successfully` : "New reservation created successfully"),
         });
         
         // Close dialog and refresh data
@@ -266,21 +352,25 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
   }
 
   // Delete reservation
-  async function deleteReservation(id: string) {
-    if (!confirm("Are you sure you want to delete this reservation?")) return;
+  async function deleteReservation(id: string, scope: ReservationEditScope = "this") {
+    const question = scope === "future"
+      ? "Are you sure you want to delete this reservation and every later one in its series?"
+      : "Are you sure you want to delete this reservation?";
+    if (!confirm(question)) return;
     
     try {
       setLoading(true);
       
-      const response = await fetch(`/api/tables/reservations/${id}`, {
+      const response = await fetch(`/api/tables/reservations/${id}?scope=${scope}`, {
         method: 'DELETE',
       });
       
       if (!response.ok) throw new Error('Failed to delete reservation');
       
+      const data = await response.json();
       toast({
         title: "Success",
-        description: "Reservation deleted successfully",
+        description: data.message,
       });
       
       fetchReservations();
@@ -327,11 +417,37 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
     }
   }
 
+  // Load the linked customer when editing a reservation
+  async function fetchCustomer(customerId: string) {
+    try {
+      const response = await fetch(`/api/customers/${customerId}?companyId=${profile?.companyId}`);
+      if (!response.ok) throw new Error("Failed to fetch customer");
+      setCustomer(await response.json());
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+    }
+  }
+  
+  // Fill the contact details from the selected customer
+  function selectCustomer(selected: CustomerSummary | null) {
+    setCustomer(selected);
+    if (selected) {
+      form.setValue("customerName", selected.name, { shouldValidate: true });
+      form.setValue("customerPhone", selected.phone || "");
+    }
+  }
+
   // Open create/edit dialog
   function openReservationDialog(reservation?: Reservation) {
+    setEditScope("this");
+    setClashes([]);
     if (reservation) {
       setEditingReservation(reservation);
       setDialogTitle("Edit Reservation");
+      setCustomer(null);
+      if (reservation.customerId) {
+        fetchCustomer(reservation.customerId);
+      }
       
       // Parse date and time
       const reservedFrom = parseISO(reservation.reservedFrom);
@@ -346,10 +462,14 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
         startTime: format(reservedFrom, 'HH:mm'),
         endTime: format(reservedTo, 'HH:mm'),
         status: reservation.status,
+        repeat: NO_REPEAT,
+        repeatEnds: "count",
+        repeatCount: 10,
       });
     } else {
       setEditingReservation(null);
       setDialogTitle("New Reservation");
+      setCustomer(null);
       form.reset({
         tableId: "",
         customerName: "",
@@ -358,6 +478,9 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
         startTime: format(new Date().setHours(new Date().getHours() + 1, 0, 0, 0), 'HH:mm'),
         endTime: format(new Date().setHours(new Date().getHours() + 2, 0, 0, 0), 'HH:mm'),
         status: "PENDING",
+        repeat: NO_REPEAT,
+        repeatEnds: "count",
+        repeatCount: 10,
       });
     }
     
@@ -407,19 +530,22 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
                   variant="outline" 
                   className={cn(
                     "justify-start text-left font-normal",
-                    !filterDate && "text-muted-foreground"
+                    (!filterDate || showOnlineRequests) && "text-muted-foreground"
                   )}
                   size="sm"
                 >
                   <CalendarIcon className="mr-2 h-4 w-4" />
-                  {filterDate ? format(filterDate, 'PPP') : <span>Pick a date</span>}
+                  {filterDate && !showOnlineRequests ? format(filterDate, 'PPP') : <span>Pick a date</span>}
                 </Button>
               </PopoverTrigger>
               <PopoverContent className="w-auto p-0">
                 <Calendar
                   mode="single"
                   selected={filterDate}
-                  onSelect={setFilterDate}
+                  onSelect={(date) => {
+                    setShowOnlineRequests(false);
+                    setFilterDate(date);
+                  }}
                   initialFocus
                 />
               </PopoverContent>
@@ -427,10 +553,21 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setFilterDate(undefined)}
+              onClick={() => {
+                setShowOnlineRequests(false);
+                setFilterDate(undefined);
+              }}
             >
               Show All
             </Button>
+            <Button
+              variant={showOnlineRequests ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowOnlineRequests(!showOnlineRequests)}
+            >
+              <Globe className="h-4 w-4 mr-2" />
+              Online Requests
+            </Button>
           </div>
           
           <WithPermission sectionKey="tables" action="create">
@@ -447,7 +584,9 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
           </div>
         ) : reservations.length === 0 ? (
           <div className="text-center py-8">
-            <p className="text-gray-500">No reservations found for this date.</p>
+            <p className="text-gray-500">
+              {showOnlineRequests ? "No online requests waiting." : "No reservations found for this date."}
+            </p>
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -465,10 +604,30 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
               <TableBody>
                 {reservations.map((reservation) => (
                   <TableRow key={reservation.id}>
-                    <TableCell>{reservation.table.name}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1">
+                        {reservation.table.name}
+                        {reservation.series && (
+                          <span title={describeRecurrence(
+                            reservation.series.frequency,
+                            parseISO(reservation.reservedFrom),
+                            reservation.series.timeZone ?? undefined
+                          )}>
+                            <Repeat className="h-3.5 w-3.5 text-muted-foreground" />
+                          </span>
+                        )}
+                      </div>
+                    </TableCell>
                     <TableCell>
                       <div>
-                        <div>{reservation.customerName}</div>
+                        <div className="flex items-center gap-1">
+                          {reservation.customerName}
+                          {reservation.source === ReservationSource.ONLINE && (
+                            <span title="Requested on the online booking page">
+                              <Globe className="h-3.5 w-3.5 text-muted-foreground" />
+                            </span>
+                          )}
+                        </div>
                         {reservation.customerPhone && (
                           <div className="text-xs text-gray-500">{reservation.customerPhone}</div>
                         )}
@@ -492,6 +651,7 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
                                 variant="outline" 
                                 size="sm" 
                                 className="h-8 w-8 p-0" 
+                                title="Confirm"
                                 onClick={() => updateReservationStatus(reservation.id, 'CONFIRMED')}
                                 disabled={reservation.status === 'CONFIRMED'}
                               >
@@ -503,6 +663,7 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
                                 variant="outline" 
                                 size="sm" 
                                 className="h-8 w-8 p-0" 
+                                title={reservation.source === ReservationSource.ONLINE ? "Reject" : "Cancel"}
                                 onClick={() => updateReservationStatus(reservation.id, 'CANCELLED')}
                                 disabled={reservation.status === 'CANCELLED'}
                               >
@@ -520,14 +681,39 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
                           <PencilIcon className="h-4 w-4" />
                         </Button>
                         <WithPermission sectionKey="tables" action="delete">
-                          <Button 
-                            variant="outline" 
-                            size="sm" 
-                            className="h-8 w-8 p-0 text-red-500" 
-                            onClick={() => deleteReservation(reservation.id)}
-                          >
-                            <TrashIcon className="h-4 w-4" />
-                          </Button>
+                          {reservation.seriesId ? (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button 
+                                  variant="outline" 
+                                  size="sm" 
+                                  className="h-8 w-8 p-0 text-red-500" 
+                                >
+                                  <TrashIcon className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem onClick={() => deleteReservation(reservation.id, "this")}>
+                                  Delete this reservation
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  className="text-red-600"
+                                  onClick={() => deleteReservation(reservation.id, "future")}
+                                >
+                                  Delete this and following
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          ) : (
+                            <Button 
+                              variant="outline" 
+                              size="sm" 
+                              className="h-8 w-8 p-0 text-red-500" 
+                              onClick={() => deleteReservation(reservation.id)}
+                            >
+                              <TrashIcon className="h-4 w-4" />
+                            </Button>
+                          )}
                         </WithPermission>
                       </div>
                     </TableCell>
@@ -541,7 +727,7 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
       
       {/* Reservation Form Dialog */}
       <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-        <DialogContent className="sm:max-w-[550px]">
+        <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{dialogTitle}</DialogTitle>
           </DialogHeader>
@@ -579,6 +765,17 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
               />
               
               {/* Customer Details */}
+              {profile?.companyId && (
+                <div className="space-y-2">
+                  <Label>Customer Account (optional)</Label>
+                  <CustomerLookup
+                    companyId={profile.companyId}
+                    value={customer}
+                    onChange={selectCustomer}
+                  />
+                </div>
+              )}
+              
               <div className="grid grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
@@ -687,6 +884,170 @@ export function ReservationList({ profile, refreshKey }: ReservationListProps) {
                 />
               </div>
               
+              {/* Repeat - only when creating; later bookings are edited through the scope below */}
+              {!editingReservation && (
+                <div className="space-y-4">
+                  <FormField
+                    control={form.control}
+                    name="repeat"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={NO_REPEAT}>Does not repeat</SelectItem>
+                            {(Object.keys(RESERVATION_FREQUENCY_LABELS) as ReservationFrequency[]).map((frequency) => (
+                              <SelectItem key={frequency} value={frequency}>
+                                {reservedDate
+                                  ? describeRecurrence(frequency, reservedDate)
+                                  : RESERVATION_FREQUENCY_LABELS[frequency]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {repeat !== NO_REPEAT && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="repeatEnds"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Ends</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="count">After a number of bookings</SelectItem>
+                                <SelectItem value="until">On a date</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {repeatEnds === "count" ? (
+                        <FormField
+                          control={form.control}
+                          name="repeatCount"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Bookings</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min={2}
+                                  max={MAX_SERIES_OCCURRENCES}
+                                  {...field}
+                                  value={field.value ?? ""}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ) : (
+                        <FormField
+                          control={form.control}
+                          name="repeatUntil"
+                          render={({ field }) => (
+                            <FormItem className="flex flex-col">
+                              <FormLabel>Last Date</FormLabel>
+                              <Popover>
+                                <PopoverTrigger asChild>
+                                  <FormControl>
+                                    <Button
+                                      variant={"outline"}
+                                      className={cn(
+                                        "pl-3 text-left font-normal",
+                                        !field.value && "text-muted-foreground"
+                                      )}
+                                    >
+                                      {field.value ? (
+                                        format(field.value, "PPP")
+                                      ) : (
+                                        <span>Pick a date</span>
+                                      )}
+                                      <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                                    </Button>
+                                  </FormControl>
+                                </PopoverTrigger>
+                                <PopoverContent className="w-auto p-0" align="start">
+                                  <Calendar
+                                    mode="single"
+                                    selected={field.value}
+                                    onSelect={field.onChange}
+                                    disabled={(date) => !!reservedDate && date < reservedDate}
+                                    initialFocus
+                                  />
+                                </PopoverContent>
+                              </Popover>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Edit scope - only for a booking in a series */}
+              {editingReservation?.series && (
+                <div className="space-y-2">
+                  <Label>Apply Changes To</Label>
+                  <Select value={editScope} onValueChange={(value) => setEditScope(value as ReservationEditScope)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="this">This reservation only</SelectItem>
+                      <SelectItem value="future">This and following reservations</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {describeRecurrence(
+                      editingReservation.series.frequency,
+                      parseISO(editingReservation.reservedFrom),
+                      editingReservation.series.timeZone ?? undefined
+                    )}
+                  </p>
+                </div>
+              )}
+
+              {clashes.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertTitle>
+                    {clashes.length} {clashes.length === 1 ? "booking clashes" : "bookings clash"} with other reservations
+                  </AlertTitle>
+                  <AlertDescription>
+                    <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-sm">
+                      {clashes.map((clash) => (
+                        <li key={clash.reservedFrom}>
+                          {formatDate(clash.reservedFrom)}, {formatTime(clash.reservedFrom)} - {formatTime(clash.reservedTo)}:{" "}
+                          {clash.conflicts
+                            .map((conflict) => `${conflict.customerName || "Reserved"} (${formatTime(conflict.reservedFrom)} - ${formatTime(conflict.reservedTo)})`)
+                            .join(", ")}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              
               {/* Status - only show for editing */}
               {editingReservation && (
                 <FormField
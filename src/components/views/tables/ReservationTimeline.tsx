@@ -0,0 +1,471 @@
+"use client";
+
+import { PointerEvent as ReactPointerEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  differenceInMinutes,
+  endOfDay,
+  format,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ChevronLeft, ChevronRight, Loader2, Repeat } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type {
+  ReservationTimeline as TimelineData,
+  TimelineReservation,
+} from "@/lib/reservationUtils";
+
+type TimelineView = "day" | "week";
+
+interface ReservationTimelineProps {
+  companyId: string;
+  refreshKey: number;
+}
+
+// A reservation being dragged, and where it would land if dropped now
+interface DragState {
+  reservation: TimelineReservation;
+  mode: "move" | "resize";
+  startX: number;
+  startY: number;
+  rowIndex: number;
+  tableId: string;
+  from: Date;
+  to: Date;
+}
+
+const ROW_HEIGHT = 48;
+const LABEL_WIDTH = 160;
+
+// Width of an hour in pixels, and the step drags snap to in minutes
+const VIEW_SCALES: Record<TimelineView, { days: number; hourWidth: number; snapMinutes: number }> = {
+  day: { days: 1, hourWidth: 64, snapMinutes: 15 },
+  week: { days: 7, hourWidth: 8, snapMinutes: 60 },
+};
+
+const STATUS_COLORS: Record<string, string> = {
+  CONFIRMED: "bg-green-100 border-green-500 text-green-900",
+  PENDING: "bg-yellow-100 border-yellow-500 text-yellow-900",
+  COMPLETED: "bg-gray-100 border-gray-400 text-gray-700",
+};
+
+const MAINTENANCE_STRIPES = {
+  backgroundImage:
+    "repeating-linear-gradient(45deg, rgba(239, 68, 68, 0.15) 0 6px, transparent 6px 12px)",
+};
+
+const getRangeStart = (date: Date, view: TimelineView) =>
+  view === "day" ? startOfDay(date) : startOfWeek(date, { weekStartsOn: 1 });
+
+const getReservationName = (reservation: TimelineReservation) =>
+  reservation.customerName || reservation.customer?.name || "Reservation";
+
+export function ReservationTimeline({ companyId, refreshKey }: ReservationTimelineProps) {
+  const { toast } = useToast();
+  const { hasPermissionClient } = useAuth();
+  const canEditReservations = hasPermissionClient("tables", "edit");
+
+  const [view, setView] = useState<TimelineView>("day");
+  const [date, setDate] = useState(() => new Date());
+  const [timeline, setTimeline] = useState<TimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  // The pointer handlers read the latest drag from here rather than from state
+  const dragRef = useRef<DragState | null>(null);
+
+  const { days, hourWidth, snapMinutes } = VIEW_SCALES[view];
+  const rangeStart = getRangeStart(date, view);
+  const rangeEnd = addDays(rangeStart, days);
+  const pxPerMinute = hourWidth / 60;
+  const totalWidth = days * 24 * hourWidth;
+  const from = rangeStart.toISOString();
+  const to = rangeEnd.toISOString();
+  const tables = useMemo(() => timeline?.tables ?? [], [timeline]);
+
+  const fetchTimeline = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = new URLSearchParams({ companyId, from, to });
+      const response = await fetch(`/api/tables/reservations/timeline?${params.toString()}`);
+      if (!response.ok) throw new Error("Failed to fetch reservation timeline");
+      setTimeline(await response.json());
+    } catch (error) {
+      console.error("Error fetching reservation timeline:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the reservation timeline. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId, from, to, toast]);
+
+  useEffect(() => {
+    if (companyId) {
+      fetchTimeline();
+    }
+  }, [companyId, refreshKey, fetchTimeline]);
+
+  const updateDrag = useCallback((next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  }, []);
+
+  // Save where a reservation was dropped. The server runs the same overlap
+  // check as when booking, and a clash puts the reservation back.
+  const dropReservation = useCallback(
+    async (dropped: DragState) => {
+      const { reservation, tableId } = dropped;
+      if (
+        tableId === reservation.tableId &&
+        dropped.from.getTime() === new Date(reservation.reservedFrom).getTime() &&
+        dropped.to.getTime() === new Date(reservation.reservedTo).getTime()
+      ) {
+        return;
+      }
+
+      // Show it where it was dropped while the change saves
+      setTimeline((current) =>
+        current && {
+          ...current,
+          reservations: current.reservations.map((entry) =>
+            entry.id === reservation.id
+              ? { ...entry, tableId, reservedFrom: dropped.from, reservedTo: dropped.to }
+              : entry
+          ),
+        }
+      );
+
+      try {
+        setSaving(true);
+        const response = await fetch(`/api/tables/reservations/${reservation.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            tableId,
+            reservedFrom: dropped.from.toISOString(),
+            reservedTo: dropped.to.toISOString(),
+          }),
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          if (response.status === 409) {
+            toast({
+              title: "Conflict",
+              description: "This table is already reserved for this time slot.",
+              variant: "destructive",
+            });
+          } else {
+            throw new Error(errorData.error || "Something went wrong");
+          }
+        } else {
+          toast({
+            title: "Success",
+            description: `${getReservationName(reservation)} moved to ${format(dropped.from, "EEE h:mm a")}–${format(dropped.to, "h:mm a")}`,
+          });
+        }
+      } catch (error) {
+        console.error("Error moving reservation:", error);
+        toast({
+          title: "Error",
+          description: `Failed to move reservation: ${error instanceof Error ? error.message : "Unknown error"}`,
+          variant: "destructive",
+        });
+      } finally {
+        setSaving(false);
+        fetchTimeline();
+      }
+    },
+    [fetchTimeline, toast]
+  );
+
+  const dragging = drag !== null;
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    const handleMove = (event: PointerEvent) => {
+      const current = dragRef.current;
+      if (!current) return;
+
+      const shift =
+        Math.round((event.clientX - current.startX) / (pxPerMinute * snapMinutes)) * snapMinutes;
+      const reservedFrom = new Date(current.reservation.reservedFrom);
+      const reservedTo = new Date(current.reservation.reservedTo);
+
+      if (current.mode === "resize") {
+        // Never shorter than one step
+        const shortest = addMinutes(reservedFrom, snapMinutes);
+        const resized = addMinutes(reservedTo, shift);
+        updateDrag({ ...current, to: resized > shortest ? resized : shortest });
+        return;
+      }
+
+      const rowIndex = Math.min(
+        tables.length - 1,
+        Math.max(0, current.rowIndex + Math.round((event.clientY - current.startY) / ROW_HEIGHT))
+      );
+      updateDrag({
+        ...current,
+        tableId: tables[rowIndex].id,
+        from: addMinutes(reservedFrom, shift),
+        to: addMinutes(reservedTo, shift),
+      });
+    };
+
+    const handleUp = () => {
+      const current = dragRef.current;
+      updateDrag(null);
+      if (current) dropReservation(current);
+    };
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [dragging, dropReservation, pxPerMinute, snapMinutes, tables, updateDrag]);
+
+  function startDrag(
+    event: ReactPointerEvent,
+    reservation: TimelineReservation,
+    mode: DragState["mode"],
+    rowIndex: number
+  ) {
+    if (!canEditReservations || saving || event.button !== 0) return;
+    event.preventDefault();
+    event.stopPropagation();
+
+    updateDrag({
+      reservation,
+      mode,
+      startX: event.clientX,
+      startY: event.clientY,
+      rowIndex,
+      tableId: reservation.tableId,
+      from: new Date(reservation.reservedFrom),
+      to: new Date(reservation.reservedTo),
+    });
+  }
+
+  // Position of a block in its row, cut to the period shown
+  function getBlockStyle(blockFrom: Date, blockTo: Date) {
+    const start = Math.max(0, differenceInMinutes(blockFrom, rangeStart));
+    const end = Math.min(days * 24 * 60, differenceInMinutes(blockTo, rangeStart));
+    if (end <= start) return null;
+    return { left: start * pxPerMinute, width: Math.max((end - start) * pxPerMinute, 4) };
+  }
+
+  function move(direction: number) {
+    setDate((current) => addDays(current, direction * days));
+  }
+
+  const now = new Date();
+  const nowOffset = differenceInMinutes(now, rangeStart);
+  const columns =
+    view === "day"
+      ? Array.from({ length: 24 }, (_, hour) => format(addHours(rangeStart, hour), "HH:mm"))
+      : Array.from({ length: 7 }, (_, day) => format(addDays(rangeStart, day), "EEE d"));
+  const columnWidth = totalWidth / columns.length;
+
+  const renderReservation = (reservation: TimelineReservation, rowIndex: number, preview?: DragState) => {
+    const blockFrom = preview ? preview.from : new Date(reservation.reservedFrom);
+    const blockTo = preview ? preview.to : new Date(reservation.reservedTo);
+    const style = getBlockStyle(blockFrom, blockTo);
+    if (!style) return null;
+
+    const name = getReservationName(reservation);
+    const times = `${format(blockFrom, "h:mm a")}–${format(blockTo, "h:mm a")}`;
+
+    return (
+      <div
+        key={reservation.id}
+        className={cn(
+          "absolute top-1 bottom-1 z-20 rounded border px-2 text-xs overflow-hidden whitespace-nowrap",
+          STATUS_COLORS[reservation.status ?? ""] ?? "bg-gray-100 border-gray-400 text-gray-800",
+          canEditReservations && "cursor-grab",
+          preview && "z-30 opacity-80 ring-2 ring-primary cursor-grabbing"
+        )}
+        style={style}
+        title={`${name} · ${format(blockFrom, "EEE MMM d")} ${times}${reservation.status ? ` · ${reservation.status}` : ""}`}
+        onPointerDown={(event) => startDrag(event, reservation, "move", rowIndex)}
+      >
+        <div className="flex items-center gap-1 font-medium leading-5 pt-0.5">
+          {/* Dragging moves just this booking, not the rest of its series */}
+          {reservation.series && <Repeat className="h-3 w-3 shrink-0" />}
+          <span className="truncate">{name}</span>
+        </div>
+        {view === "day" && <div className="truncate leading-4">{times}</div>}
+        {canEditReservations && (
+          <div
+            className="absolute right-0 top-0 h-full w-2 cursor-ew-resize"
+            onPointerDown={(event) => startDrag(event, reservation, "resize", rowIndex)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => move(-1)} title="Previous">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setDate(new Date())}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => move(1)} title="Next">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <span className="font-medium ml-2">
+              {view === "day"
+                ? format(rangeStart, "EEEE, MMM d, yyyy")
+                : `${format(rangeStart, "MMM d")} – ${format(addDays(rangeStart, 6), "MMM d, yyyy")}`}
+            </span>
+            {(loading || saving) && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+          <div className="flex items-center gap-1">
+            {(Object.keys(VIEW_SCALES) as TimelineView[]).map((option) => (
+              <Button
+                key={option}
+                variant={view === option ? "default" : "outline"}
+                size="sm"
+                onClick={() => setView(option)}
+              >
+                {option === "day" ? "Day" : "Week"}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded border border-green-500 bg-green-100" /> Reservation
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded border border-dashed border-blue-500 bg-blue-100" /> In play
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded border border-red-400" style={MAINTENANCE_STRIPES} /> Maintenance
+          </span>
+          {canEditReservations && <span>Drag a reservation to move it, or its right edge to change its length</span>}
+        </div>
+
+        {!timeline ? (
+          <div className="flex items-center justify-center py-8">
+            {loading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <p className="text-muted-foreground">Unable to load the timeline</p>
+            )}
+          </div>
+        ) : tables.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No tables to show</p>
+        ) : (
+          <div className="border rounded-md overflow-x-auto">
+            <div className="relative select-none" style={{ width: LABEL_WIDTH + totalWidth }}>
+              <div className="flex border-b bg-muted/50 text-xs font-medium">
+                <div
+                  className="sticky left-0 z-40 shrink-0 border-r bg-muted px-3 py-2"
+                  style={{ width: LABEL_WIDTH }}
+                >
+                  Table
+                </div>
+                {columns.map((column) => (
+                  <div key={column} className="shrink-0 border-r px-1 py-2" style={{ width: columnWidth }}>
+                    {column}
+                  </div>
+                ))}
+              </div>
+
+              {tables.map((table, rowIndex) => (
+                <div key={table.id} className="flex border-b last:border-b-0">
+                  <div
+                    className="sticky left-0 z-40 shrink-0 border-r bg-background px-3 flex items-center text-sm font-medium truncate"
+                    style={{ width: LABEL_WIDTH, height: ROW_HEIGHT }}
+                  >
+                    {table.name}
+                  </div>
+                  <div
+                    className="relative shrink-0"
+                    style={{
+                      width: totalWidth,
+                      height: ROW_HEIGHT,
+                      backgroundImage: `repeating-linear-gradient(to right, hsl(var(--border)) 0 1px, transparent 1px ${columnWidth}px)`,
+                    }}
+                  >
+                    {timeline.maintenance
+                      .filter((record) => record.tableId === table.id)
+                      .map((record) => {
+                        const style = getBlockStyle(
+                          startOfDay(new Date(record.maintenanceAt)),
+                          endOfDay(new Date(record.maintenanceAt))
+                        );
+                        return (
+                          style && (
+                            <div
+                              key={record.id}
+                              className="absolute inset-y-0 z-0 border-x border-red-400 px-2 text-xs text-red-700 pointer-events-none overflow-hidden whitespace-nowrap leading-[48px]"
+                              style={{ ...style, ...MAINTENANCE_STRIPES }}
+                              title={record.description || "Maintenance"}
+                            >
+                              Maintenance{record.description ? `: ${record.description}` : ""}
+                            </div>
+                          )
+                        );
+                      })}
+
+                    {/* A session in play holds the table until at least now */}
+                    {timeline.sessions
+                      .filter((tableSession) => tableSession.tableId === table.id)
+                      .map((tableSession) => {
+                        const style = getBlockStyle(new Date(tableSession.startedAt), now);
+                        return (
+                          style && (
+                            <div
+                              key={tableSession.id}
+                              className="absolute top-1 bottom-1 z-10 rounded border border-dashed border-blue-500 bg-blue-100/70 px-2 text-xs text-blue-900 pointer-events-none overflow-hidden whitespace-nowrap leading-[38px]"
+                              style={style}
+                            >
+                              In play{tableSession.customerName ? ` · ${tableSession.customerName}` : ""}
+                            </div>
+                          )
+                        );
+                      })}
+
+                    {timeline.reservations
+                      .filter((reservation) => reservation.tableId === table.id && reservation.id !== drag?.reservation.id)
+                      .map((reservation) => renderReservation(reservation, rowIndex))}
+
+                    {drag && drag.tableId === table.id && renderReservation(drag.reservation, drag.rowIndex, drag)}
+
+                    {nowOffset >= 0 && nowOffset <= days * 24 * 60 && (
+                      <div
+                        className="absolute inset-y-0 z-30 w-px bg-red-500 pointer-events-none"
+                        style={{ left: nowOffset * pxPerMinute }}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
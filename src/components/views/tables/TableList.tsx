@@ -13,30 +13,38 @@ import {
 } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { 
+  ArrowRightLeft,
   Edit, 
+  Receipt,
+  Pause,
   Play, 
   StopCircle, 
   Trash,
   Plus,
   WrenchIcon
 } from "lucide-react";
-import { Table, TableSession } from "@prisma/client";
+import { Table } from "@prisma/client";
 import { 
   calculateSessionDuration, 
   calculateSessionCost, 
   formatPrice, 
-  formatDuration 
+  formatDuration,
+  isSessionPaused,
+  SessionWithPauses
 } from "@/lib/tableUtils";
 import { WithPermission } from "@/components/ui/permission-button";
 import { StartSessionModal } from "@/components/modals/StartSessionModal";
 import { ConfirmDeleteModal } from "@/components/modals/ConfirmDeleteModal";
+import { TransferSessionModal } from "@/components/modals/TransferSessionModal";
+import { EndSessionModal } from "@/components/modals/EndSessionModal";
+import { CheckoutModal } from "@/components/modals/CheckoutModal";
 import { Dialog, DialogContent, DialogTrigger } from "@/components/ui/dialog";
 import { ScheduleMaintenanceForm } from "@/components/views/tables/ScheduleMaintenanceForm";
 import Link from "next/link";
 import { Profile } from "@/hooks/use-auth";
 
 type TableWithSession = Table & {
-  sessions: TableSession[];
+  sessions: SessionWithPauses[];
 };
 
 type TableListProps = {
@@ -58,6 +66,9 @@ export function TableList({
   const [loading, setLoading] = useState(true);
   const [sessionModalOpen, setSessionModalOpen] = useState(false);
   const [deleteModalOpen, setDeleteModalOpen] = useState(false);
+  const [transferModalOpen, setTransferModalOpen] = useState(false);
+  const [endModalOpen, setEndModalOpen] = useState(false);
+  const [checkoutModalOpen, setCheckoutModalOpen] = useState(false);
   const [maintenanceDialogOpen, setMaintenanceDialogOpen] = useState(false);
   const [selectedTable, setSelectedTable] = useState<Table | null>(null);
   const [refreshInterval, setRefreshInterval] = useState<NodeJS.Timeout | null>(null);
@@ -131,7 +142,7 @@ export function TableList({
   }, [tables, searchQuery, statusFilter]);
 
   // Get active session for a table
-  const getActiveSession = (table: TableWithSession): TableSession | undefined => {
+  const getActiveSession = (table: TableWithSession): SessionWithPauses | undefined => {
     if (!table.sessions) return undefined;
     return table.sessions.find(
       (session) => session.endedAt === null
@@ -145,7 +156,7 @@ export function TableList({
   };
 
   // Start a new session
-  const startSession = async () => {
+  const startSession = async (customerId: string | null) => {
     if (!selectedTable) return;
     
     try {
@@ -155,6 +166,7 @@ export function TableList({
         body: JSON.stringify({
           tableId: selectedTable.id,
           startedAt: new Date().toISOString(),
+          customerId,
         }),
       });
       
@@ -167,10 +179,18 @@ export function TableList({
     }
   };
 
+  // Handle end session button click
+  const handleEndSession = (table: Table) => {
+    setSelectedTable(table);
+    setEndModalOpen(true);
+  };
+
   // End a session
-  const endSession = async (tableId: string) => {
+  const endSession = async () => {
+    if (!selectedTable) return;
+
     try {
-      const response = await fetch(`/api/tables/sessions/${tableId}/end`, {
+      const response = await fetch(`/api/tables/sessions/${selectedTable.id}/end`, {
         method: "PATCH",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
@@ -180,12 +200,80 @@ export function TableList({
       
       if (!response.ok) throw new Error("Failed to end session");
       
+      setEndModalOpen(false);
       fetchTables();
     } catch (error) {
       console.error("Error ending session:", error);
     }
   };
 
+  // Pause or resume a session
+  const togglePause = async (tableId: string, paused: boolean) => {
+    const action = paused ? "resume" : "pause";
+    
+    try {
+      const response = await fetch(`/api/tables/sessions/${tableId}/${action}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          paused
+            ? { resumedAt: new Date().toISOString() }
+            : { pausedAt: new Date().toISOString() }
+        ),
+      });
+      
+      if (!response.ok) throw new Error(`Failed to ${action} session`);
+      
+      fetchTables();
+    } catch (error) {
+      console.error(`Error trying to ${action} session:`, error);
+    }
+  };
+
+  // Handle checkout button click
+  const handleCheckout = (table: Table) => {
+    setSelectedTable(table);
+    setCheckoutModalOpen(true);
+  };
+
+  // Handle move session button click
+  const handleTransferSession = (table: Table) => {
+    setSelectedTable(table);
+    setTransferModalOpen(true);
+  };
+
+  // Move the active session to another table
+  const transferSession = async (targetTableId: string) => {
+    if (!selectedTable) return;
+    
+    try {
+      const response = await fetch(`/api/tables/sessions/${selectedTable.id}/transfer`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          targetTableId,
+          transferredAt: new Date().toISOString(),
+        }),
+      });
+      
+      if (!response.ok) throw new Error("Failed to transfer session");
+      
+      setTransferModalOpen(false);
+      fetchTables();
+    } catch (error) {
+      console.error("Error transferring session:", error);
+    }
+  };
+
+  // Tables a session can be moved to
+  const availableTables = tables.filter(
+    (table) =>
+      table.id !== selectedTable?.id &&
+      table.companyId === selectedTable?.companyId &&
+      table.status !== "MAINTENANCE" &&
+      !getActiveSession(table)
+  );
+
   // Handle delete button click
   const handleDeleteTable = (table: Table) => {
     setSelectedTable(table);
@@ -276,12 +364,18 @@ export function TableList({
         filteredTables.map((table) => {
           const activeSession = getActiveSession(table);
           const isTableActive = !!activeSession;
+          const isPaused = !!activeSession && isSessionPaused(activeSession);
           
           return (
             <Card key={table.id} className={`overflow-hidden ${isTableActive ? 'border-green-400 border-2' : ''}`}>
               <CardHeader className="pb-2">
                 <CardTitle className="flex justify-between items-center">
                   <span>{table.name}</span>
+                  {isPaused && (
+                    <span className="text-xs bg-blue-200 dark:bg-blue-800 text-blue-800 dark:text-blue-200 px-2 py-1 rounded">
+                      Paused
+                    </span>
+                  )}
                   {table.status === "MAINTENANCE" && (
                     <span className="text-xs bg-yellow-200 dark:bg-yellow-800 text-yellow-800 dark:text-yellow-200 px-2 py-1 rounded">
                       Maintenance
@@ -305,14 +399,44 @@ export function TableList({
               
               <CardFooter className="flex flex-wrap gap-2 pt-2">
                 {isTableActive ? (
-                  <Button 
-                    size="sm" 
-                    variant="destructive"
-                    className="flex-1"
-                    onClick={() => endSession(table.id)}
-                  >
-                    <StopCircle className="mr-1 h-4 w-4" /> End
-                  </Button>
+                  <>
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => togglePause(table.id, isPaused)}
+                    >
+                      {isPaused ? (
+                        <><Play className="mr-1 h-4 w-4" /> Resume</>
+                      ) : (
+                        <><Pause className="mr-1 h-4 w-4" /> Pause</>
+                      )}
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      className="flex-1"
+                      onClick={() => handleTransferSession(table)}
+                    >
+                      <ArrowRightLeft className="mr-1 h-4 w-4" /> Move
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant="default"
+                      className="flex-1"
+                      onClick={() => handleCheckout(table)}
+                    >
+                      <Receipt className="mr-1 h-4 w-4" /> Checkout
+                    </Button>
+                    <Button 
+                      size="sm" 
+                      variant="destructive"
+                      className="flex-1"
+                      onClick={() => handleEndSession(table)}
+                    >
+                      <StopCircle className="mr-1 h-4 w-4" /> End
+                    </Button>
+                  </>
                 ) : (
                   <Button 
                     size="sm" 
@@ -373,6 +497,31 @@ export function TableList({
         table={selectedTable}
       />
       
+      <TransferSessionModal
+        isOpen={transferModalOpen}
+        onClose={() => setTransferModalOpen(false)}
+        onConfirm={transferSession}
+        table={selectedTable}
+        availableTables={availableTables}
+      />
+      
+      <EndSessionModal
+        isOpen={endModalOpen}
+        onClose={() => setEndModalOpen(false)}
+        onConfirm={endSession}
+        table={selectedTable}
+      />
+      
+      <CheckoutModal
+        isOpen={checkoutModalOpen}
+        onClose={() => setCheckoutModalOpen(false)}
+        onSuccess={() => {
+          setCheckoutModalOpen(false);
+          fetchTables();
+        }}
+        table={selectedTable}
+      />
+      
       <ConfirmDeleteModal
         isOpen={deleteModalOpen}
         onClose={() => setDeleteModalOpen(false)}
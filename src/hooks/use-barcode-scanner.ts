@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// Keyboard-wedge scanners type a whole code faster than anyone can by hand,
+// then press Enter
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Call onScan with each barcode read by a keyboard-wedge scanner. Keys typed
+ * into a form field are left to the field, so scans are picked up whenever
+ * focus isn't in one.
+ */
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  // Kept in a ref so a new callback each render doesn't re-attach the listener
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTypingTarget(event.target) || event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) {
+        buffer = "";
+      }
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
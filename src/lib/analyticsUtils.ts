@@ -1,6 +1,7 @@
 import { format, startOfToday, startOfWeek, endOfWeek, subDays, eachDayOfInterval } from "date-fns";
 import { FinanceCategoryType } from "@prisma/client";
 import { db } from "./db";
+import { getMarginPercent } from "./costingUtils";
 
 /**
  * Get today's revenue from POS orders
@@ -79,10 +80,11 @@ export async function getActiveTableSessions(companyId: string) {
     where: {
       companyId,
       endedAt: null,
-      status: "ACTIVE"
+      status: { in: ["ACTIVE", "PAUSED"] }
     },
     include: {
-      table: true
+      table: true,
+      pauses: true
     },
     orderBy: {
       startedAt: "asc"
@@ -110,7 +112,9 @@ export async function getTopProducts(companyId: string, limit = 5) {
     },
     _sum: {
       quantity: true,
-      lineTotal: true
+      lineTotal: true,
+      discountAmount: true,
+      costAmount: true
     },
     orderBy: {
       _sum: {
@@ -127,10 +131,17 @@ export async function getTopProducts(companyId: string, limit = 5) {
         where: { id: product.itemId }
       });
       
+      const revenue = Number(product._sum.lineTotal || 0) - Number(product._sum.discountAmount || 0);
+      const cost = Number(product._sum.costAmount || 0);
+      const margin = Math.round((revenue - cost) * 100) / 100;
+      
       return {
         item,
         quantitySold: product._sum.quantity || 0,
-        revenue: Number(product._sum.lineTotal || 0)
+        revenue,
+        cost,
+        margin,
+        marginPercent: getMarginPercent(revenue, margin)
       };
     })
   );
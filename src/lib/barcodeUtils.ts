@@ -0,0 +1,121 @@
+export const BARCODE_SYMBOLOGIES = ["code128", "ean13"] as const;
+export type BarcodeSymbology = (typeof BARCODE_SYMBOLOGIES)[number];
+
+/**
+ * Thrown when a value can't be written in the barcode asked for, e.g. letters
+ * in an EAN-13
+ */
+export class BarcodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BarcodeError";
+  }
+}
+
+// Bar and space widths of each Code 128 symbol, in modules, starting with a bar
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232",
+];
+const CODE128_STOP = "2331112";
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+
+// EAN-13 digit patterns as modules, 1 for a bar. R patterns are the L patterns
+// inverted, and G patterns the R patterns reversed.
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_R = EAN_L.map((pattern) => pattern.replace(/./g, (bit) => (bit === "1" ? "0" : "1")));
+const EAN_G = EAN_R.map((pattern) => pattern.split("").reverse().join(""));
+// Which of the left-hand digits use G patterns, set by the first digit
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+// Turn bar and space widths into modules, 1 for a bar
+const widthsToModules = (widths: string): string =>
+  widths
+    .split("")
+    .map((width, index) => (index % 2 === 0 ? "1" : "0").repeat(Number(width)))
+    .join("");
+
+export const getEan13CheckDigit = (digits: string): number => {
+  const sum = digits
+    .slice(0, 12)
+    .split("")
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (value: string): boolean =>
+  /^\d{13}$/.test(value) && getEan13CheckDigit(value) === Number(value[12]);
+
+/**
+ * Code 128 modules for any printable ASCII. All-digit values of even length
+ * use code set C, which packs two digits into each symbol.
+ */
+export const encodeCode128 = (value: string): string => {
+  if (value.length === 0) {
+    throw new BarcodeError("Nothing to encode");
+  }
+  if (!/^[\x20-\x7e]+$/.test(value)) {
+    throw new BarcodeError(`${value} has characters a Code 128 barcode can't hold`);
+  }
+
+  const packDigits = /^\d+$/.test(value) && value.length % 2 === 0;
+  const symbols = packDigits
+    ? [CODE128_START_C, ...(value.match(/\d\d/g) ?? []).map(Number)]
+    : [CODE128_START_B, ...value.split("").map((char) => char.charCodeAt(0) - 32)];
+
+  const checksum = symbols.reduce((sum, symbol, index) => sum + symbol * Math.max(index, 1), 0) % 103;
+
+  return [...symbols, checksum].map((symbol) => widthsToModules(CODE128_PATTERNS[symbol])).join("") +
+    widthsToModules(CODE128_STOP);
+};
+
+/**
+ * EAN-13 modules for 13 digits, or for 12 with the check digit worked out
+ */
+export const encodeEan13 = (value: string): string => {
+  const digits = value.length === 12 && /^\d+$/.test(value) ? `${value}${getEan13CheckDigit(value)}` : value;
+
+  if (!isValidEan13(digits)) {
+    throw new BarcodeError(`${value} isn't a valid EAN-13`);
+  }
+
+  const parity = EAN_PARITY[Number(digits[0])];
+  const left = digits
+    .slice(1, 7)
+    .split("")
+    .map((digit, index) => (parity[index] === "G" ? EAN_G : EAN_L)[Number(digit)])
+    .join("");
+  const right = digits
+    .slice(7)
+    .split("")
+    .map((digit) => EAN_R[Number(digit)])
+    .join("");
+
+  return `101${left}01010${right}101`;
+};
+
+/**
+ * EAN-13 for codes that already are one, Code 128 for anything else
+ */
+export const chooseSymbology = (value: string): BarcodeSymbology =>
+  isValidEan13(value) ? "ean13" : "code128";
+
+export const encodeBarcode = (value: string, symbology: BarcodeSymbology): string =>
+  symbology === "ean13" ? encodeEan13(value) : encodeCode128(value);
+
+/**
+ * The code an item is labelled and scanned by: its own barcode, or its SKU
+ * when it has none
+ */
+export const getItemCode = (item: { sku: string | null; barcode: string | null }): string | null =>
+  item.barcode || item.sku || null;
@@ -0,0 +1,253 @@
+import { Prisma, TableReservation } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { findConflictingReservations, lockTableReservations } from "@/lib/reservationUtils";
+import { fromWallTime, toWallTime } from "@/lib/recurrenceUtils";
+import { toMinuteOfDay } from "@/lib/pricingUtils";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const bookingSettingsSelect = {
+  timeZone: true,
+  onlineBookingEnabled: true,
+  bookingSlotMinutes: true,
+  bookingMaxHours: true,
+  bookingDaysAhead: true,
+  bookingMaxPerPhone: true,
+} satisfies Prisma.CompanySelect;
+
+export type BookingSettings = Prisma.CompanyGetPayload<{ select: typeof bookingSettingsSelect }>;
+
+export interface BookingSlot {
+  start: Date;
+  end: Date;
+  // Tables free for the whole slot, in the order they're offered
+  tableIds: string[];
+}
+
+/**
+ * Thrown when every table free for a slot is taken by someone else while
+ * an online booking is being saved
+ */
+export class BookingSlotTakenError extends Error {
+  constructor() {
+    super("That time is no longer available. Please choose another.");
+    this.name = "BookingSlotTakenError";
+  }
+}
+
+type OnlineBookingResult =
+  | { error: string; httpStatus: number }
+  | { reservation: TableReservation };
+
+/** Digits and a leading +, so the same number is recognised however it's written */
+export function normalizePhone(phone: string) {
+  const digits = phone.replace(/\D/g, "");
+  return phone.trim().startsWith("+") ? `+${digits}` : digits;
+}
+
+/** Today's date in a time zone, as YYYY-MM-DD */
+export function getBookingToday(timeZone: string, now = new Date()) {
+  return new Date(toWallTime(now, timeZone)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a date can be booked: not in the past and no further ahead than
+ * the venue takes bookings for.
+ */
+export function isBookableDate(date: string, settings: BookingSettings, now = new Date()) {
+  const today = Date.parse(getBookingToday(settings.timeZone, now));
+  const day = Date.parse(date);
+  return !isNaN(day) && day >= today && day <= today + settings.bookingDaysAhead * DAY_MS;
+}
+
+/** Booking lengths on offer, in minutes: an hour and up in half hours */
+export function getBookingDurations(settings: Pick<BookingSettings, "bookingMaxHours">) {
+  const durations: number[] = [];
+  for (let minutes = 60; minutes <= settings.bookingMaxHours * 60; minutes += 30) {
+    durations.push(minutes);
+  }
+  return durations;
+}
+
+/**
+ * Start times on a day when at least one table is free for the whole
+ * booking. Start times run every slot interval from opening, and a booking
+ * has to finish by closing. Tables are busy when they're reserved, out of
+ * service or have maintenance booked that day. The date is a calendar date
+ * in the venue's time zone.
+ */
+export async function getAvailableSlots(
+  companyId: string,
+  settings: BookingSettings,
+  date: string,
+  durationMinutes: number,
+  now = new Date()
+): Promise<BookingSlot[]> {
+  const dayStart = Date.parse(date);
+  const hours = await prisma.openingHours.findUnique({
+    where: { companyId_weekday: { companyId, weekday: new Date(dayStart).getUTCDay() } },
+  });
+
+  if (!hours) return [];
+
+  const opensAt = toMinuteOfDay(hours.opensAt);
+  const closesAt = toMinuteOfDay(hours.closesAt) + (hours.closesAt <= hours.opensAt ? 24 * 60 : 0);
+  const opens = fromWallTime(dayStart + opensAt * MINUTE_MS, settings.timeZone);
+  const closes = fromWallTime(dayStart + closesAt * MINUTE_MS, settings.timeZone);
+
+  const [tables, maintenance, reservations] = await Promise.all([
+    prisma.table.findMany({
+      where: { companyId, NOT: { status: "MAINTENANCE" } },
+      select: { id: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.tableMaintenance.findMany({
+      where: {
+        companyId,
+        maintenanceAt: {
+          gte: fromWallTime(dayStart, settings.timeZone),
+          lt: fromWallTime(dayStart + DAY_MS, settings.timeZone),
+        },
+      },
+      select: { tableId: true },
+    }),
+    prisma.tableReservation.findMany({
+      where: {
+        companyId,
+        status: { not: "CANCELLED" },
+        reservedFrom: { lt: closes },
+        reservedTo: { gt: opens },
+      },
+      select: { tableId: true, reservedFrom: true, reservedTo: true },
+    }),
+  ]);
+
+  const inMaintenance = new Set(maintenance.map((record) => record.tableId));
+  const openTables = tables.filter((table) => !inMaintenance.has(table.id));
+  const slotMs = settings.bookingSlotMinutes * MINUTE_MS;
+  const durationMs = durationMinutes * MINUTE_MS;
+
+  const slots: BookingSlot[] = [];
+  for (let start = opens.getTime(); start + durationMs <= closes.getTime(); start += slotMs) {
+    if (start <= now.getTime()) continue;
+
+    const end = start + durationMs;
+    const tableIds = openTables
+      .filter(
+        (table) =>
+          !reservations.some(
+            (reservation) =>
+              reservation.tableId === table.id &&
+              reservation.reservedFrom.getTime() < end &&
+              reservation.reservedTo.getTime() > start
+          )
+      )
+      .map((table) => table.id);
+
+    if (tableIds.length > 0) {
+      slots.push({ start: new Date(start), end: new Date(end), tableIds });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Books a table for a request from the public booking page. The request is
+ * checked against the per-phone limit and the slot looked up again, then
+ * the first table still free is reserved as PENDING for staff to confirm.
+ */
+export async function createOnlineBooking(
+  companyId: string,
+  settings: BookingSettings,
+  request: {
+    date: string;
+    reservedFrom: Date;
+    durationMinutes: number;
+    customerName: string;
+    customerPhone: string;
+  }
+): Promise<OnlineBookingResult> {
+  const { date, reservedFrom, durationMinutes, customerName } = request;
+  const customerPhone = normalizePhone(request.customerPhone);
+
+  if (!isBookableDate(date, settings)) {
+    return { error: `Bookings can be made up to ${settings.bookingDaysAhead} days ahead`, httpStatus: 400 };
+  }
+
+  if (!getBookingDurations(settings).includes(durationMinutes)) {
+    return { error: "That booking length isn't available", httpStatus: 400 };
+  }
+
+  const slot = (await getAvailableSlots(companyId, settings, date, durationMinutes)).find(
+    (candidate) => candidate.start.getTime() === reservedFrom.getTime()
+  );
+
+  if (!slot) {
+    return { error: "That time is no longer available. Please choose another.", httpStatus: 409 };
+  }
+
+  return prisma.$transaction(async (tx) => {
+    // Requests from one phone number wait on each other here, so two sent
+    // together can't both fit under the limit
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${companyId}::text || ':' || ${customerPhone}::text))`;
+
+    const activeRequests = await tx.tableReservation.count({
+      where: {
+        companyId,
+        source: "ONLINE",
+        customerPhone,
+        status: { not: "CANCELLED" },
+        reservedTo: { gt: new Date() },
+      },
+    });
+
+    if (activeRequests >= settings.bookingMaxPerPhone) {
+      return {
+        error: "You already have the most bookings we take online for one phone number. Please call us to book more.",
+        httpStatus: 429,
+      };
+    }
+
+    // Someone may have taken a table since the slots were worked out
+    await lockTableReservations(tx, slot.tableIds);
+    for (const tableId of slot.tableIds) {
+      const conflicts = await findConflictingReservations(tableId, slot.start, slot.end, undefined, tx);
+      if (conflicts.length > 0) continue;
+
+      const reservation = await tx.tableReservation.create({
+        data: {
+          companyId,
+          tableId,
+          customerName,
+          customerPhone,
+          reservedFrom: slot.start,
+          reservedTo: slot.end,
+          status: "PENDING",
+          source: "ONLINE",
+        },
+      });
+
+      await tx.tableActivityLog.create({
+        data: {
+          companyId,
+          action: "CREATE",
+          entityType: "RESERVATION",
+          entityId: reservation.id,
+          metadata: {
+            source: "ONLINE",
+            tableId,
+            customerName,
+            reservedFrom: slot.start.toISOString(),
+            reservedTo: slot.end.toISOString(),
+          },
+        },
+      });
+
+      return { reservation };
+    }
+
+    throw new BookingSlotTakenError();
+  });
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateBillTotals,
+  calculateNetSales,
+  calculateTimeTaxes,
+  getOrderOutstanding,
+} from "./checkoutUtils";
+
+const vat = { id: "vat", name: "VAT", rate: 10 };
+
+describe("getOrderOutstanding", () => {
+  it("is what is left to pay", () => {
+    expect(getOrderOutstanding(20, 5, 0)).toBe(15);
+    expect(getOrderOutstanding(20, 20, 0)).toBe(0);
+  });
+
+  it("only counts refunds beyond what was paid", () => {
+    expect(getOrderOutstanding(20, 5, 3)).toBe(15);
+    expect(getOrderOutstanding(20, 5, 8)).toBe(12);
+    expect(getOrderOutstanding(20, 0, 20)).toBe(0);
+  });
+});
+
+describe("calculateBillTotals", () => {
+  it("takes the discount off before the tip", () => {
+    expect(
+      calculateBillTotals({
+        timeCost: 30,
+        ordersTotal: 20,
+        taxAmount: 2.7,
+        discount: { type: "PERCENT", value: 10 },
+        tipAmount: 3,
+      })
+    ).toEqual({
+      timeCost: 30,
+      ordersTotal: 20,
+      subtotal: 50,
+      taxAmount: 2.7,
+      discountAmount: 5,
+      tipAmount: 3,
+      total: 50.7,
+    });
+  });
+
+  it("never discounts more than the subtotal", () => {
+    const totals = calculateBillTotals({
+      timeCost: 10,
+      ordersTotal: 5,
+      discount: { type: "AMOUNT", value: 40 },
+    });
+
+    expect(totals.discountAmount).toBe(15);
+    expect(totals.total).toBe(0);
+  });
+});
+
+describe("calculateTimeTaxes", () => {
+  it("taxes table time after its share of the discount", () => {
+    const [line] = calculateTimeTaxes({
+      timeCost: 30,
+      ordersTotal: 20,
+      discount: { type: "AMOUNT", value: 10 },
+      taxRate: vat,
+      inclusive: false,
+    });
+
+    // Time is 30 of the 50, so 6 of the 10 off comes off the time
+    expect(line).toMatchObject({ taxableAmount: 24, taxAmount: 2.4 });
+  });
+
+  it("works included tax back out of the time", () => {
+    const [line] = calculateTimeTaxes({ timeCost: 33, ordersTotal: 0, taxRate: vat, inclusive: true });
+
+    expect(line).toMatchObject({ inclusive: true, taxableAmount: 30, taxAmount: 3 });
+  });
+
+  it("has no tax lines without a tax class for table time", () => {
+    expect(calculateTimeTaxes({ timeCost: 30, ordersTotal: 0, taxRate: null, inclusive: false })).toEqual([]);
+  });
+});
+
+describe("calculateNetSales", () => {
+  it("leaves out the orders' tax less their share of the discount", () => {
+    expect(
+      calculateNetSales({
+        subtotal: 50,
+        ordersTotal: 20,
+        ordersTaxAmount: 2,
+        discountAmount: 10,
+        timeTaxes: [{ inclusive: false, taxAmount: 2.4 }],
+      })
+    ).toBe(38.4);
+  });
+
+  it("leaves out tax included in table time", () => {
+    expect(
+      calculateNetSales({
+        subtotal: 33,
+        ordersTotal: 0,
+        ordersTaxAmount: 0,
+        discountAmount: 0,
+        timeTaxes: [{ inclusive: true, taxAmount: 3 }],
+      })
+    ).toBe(30);
+  });
+});
@@ -0,0 +1,148 @@
+import { DiscountValues } from "./validations/checkout";
+import { summarizeTaxes, TaxLineValues, TaxRateInfo } from "./taxUtils";
+
+export interface BillOrder {
+  id: string;
+  orderNumber: string;
+  totalAmount: number;
+  paidAmount: number;
+  // Approved refunds and partial voids on the order
+  refundedAmount: number;
+  outstanding: number;
+}
+
+export interface BillTransfer {
+  sessionId: string;
+  tableName: string;
+  durationMin: number;
+  cost: number;
+}
+
+export interface BillTotals {
+  timeCost: number;
+  ordersTotal: number;
+  subtotal: number;
+  taxAmount: number;
+  discountAmount: number;
+  tipAmount: number;
+  total: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * What is still owed on an order. Refunds first give back what was paid
+ * for the items, so only refunds beyond that lower what's left to pay.
+ */
+export const getOrderOutstanding = (
+  totalAmount: number,
+  paidAmount: number,
+  refundedAmount: number
+): number => roundCurrency(Math.max(0, totalAmount - Math.max(paidAmount, refundedAmount)));
+
+/**
+ * Work out the discount for a bill; it can never exceed the subtotal
+ */
+export const calculateDiscountAmount = (
+  subtotal: number,
+  discount?: DiscountValues | null
+): number => {
+  if (!discount || discount.value <= 0) return 0;
+
+  const amount = discount.type === "PERCENT"
+    ? (subtotal * discount.value) / 100
+    : discount.value;
+
+  return roundCurrency(Math.min(amount, subtotal));
+};
+
+/**
+ * Combine table time and outstanding order amounts into the totals of one bill.
+ * Tips are added after the discount so they are never discounted. Tax added on
+ * top of table time is worked out on the discounted time (see calculateTimeTaxes)
+ * and added after the discount comes off the subtotal.
+ */
+export const calculateBillTotals = ({
+  timeCost,
+  ordersTotal,
+  taxAmount = 0,
+  discount,
+  tipAmount = 0,
+}: {
+  timeCost: number;
+  ordersTotal: number;
+  taxAmount?: number;
+  discount?: DiscountValues | null;
+  tipAmount?: number;
+}): BillTotals => {
+  const subtotal = roundCurrency(timeCost + ordersTotal);
+  const discountAmount = calculateDiscountAmount(subtotal, discount);
+
+  return {
+    timeCost: roundCurrency(timeCost),
+    ordersTotal: roundCurrency(ordersTotal),
+    subtotal,
+    taxAmount: roundCurrency(taxAmount),
+    discountAmount,
+    tipAmount: roundCurrency(tipAmount),
+    total: roundCurrency(subtotal + taxAmount - discountAmount + tipAmount),
+  };
+};
+
+/**
+ * The part of a bill's discount that comes off one part of its subtotal.
+ * The discount is shared between table time and orders by their size.
+ */
+const getDiscountShare = (part: number, subtotal: number, discountAmount: number): number =>
+  subtotal > 0 ? (discountAmount * part) / subtotal : 0;
+
+/**
+ * Tax on table time, worked out on what's left of the time after its share
+ * of the discount
+ */
+export const calculateTimeTaxes = ({
+  timeCost,
+  ordersTotal,
+  discount,
+  taxRate,
+  inclusive,
+}: {
+  timeCost: number;
+  ordersTotal: number;
+  discount?: DiscountValues | null;
+  taxRate: TaxRateInfo | null;
+  inclusive: boolean;
+}): TaxLineValues[] => {
+  const subtotal = roundCurrency(timeCost + ordersTotal);
+  const discountAmount = calculateDiscountAmount(subtotal, discount);
+  const discountedTime = roundCurrency(timeCost - getDiscountShare(timeCost, subtotal, discountAmount));
+
+  return summarizeTaxes([{ amount: discountedTime, taxRate }], inclusive);
+};
+
+/**
+ * What a bill adds to sales: the subtotal after the discount, without the
+ * tax in it. Tax included in table time and the tax on the orders, less
+ * the orders' share of the discount, is owed rather than earned.
+ */
+export const calculateNetSales = ({
+  subtotal,
+  ordersTotal,
+  ordersTaxAmount,
+  discountAmount,
+  timeTaxes,
+}: {
+  subtotal: number;
+  ordersTotal: number;
+  ordersTaxAmount: number;
+  discountAmount: number;
+  timeTaxes: Pick<TaxLineValues, "inclusive" | "taxAmount">[];
+}): number => {
+  const includedTimeTax = timeTaxes
+    .filter((line) => line.inclusive)
+    .reduce((sum, line) => sum + line.taxAmount, 0);
+  const ordersDiscount = getDiscountShare(ordersTotal, subtotal, discountAmount);
+  const ordersTax = ordersTotal > 0 ? ordersTaxAmount * (1 - ordersDiscount / ordersTotal) : 0;
+
+  return roundCurrency(subtotal - discountAmount - includedTimeTax - ordersTax);
+};
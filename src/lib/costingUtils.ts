@@ -0,0 +1,361 @@
+import { CostingMethod, InventoryTransaction, Prisma, ReversalStatus } from "@prisma/client";
+import { startOfDay } from "date-fns";
+import prisma from "@/lib/prisma";
+
+export interface StockValuationRow {
+  itemId: string;
+  name: string;
+  sku: string | null;
+  category: string | null;
+  quantity: number;
+  unitCost: number;
+  value: number;
+}
+
+export interface StockValuationReport {
+  costingMethod: CostingMethod;
+  items: StockValuationRow[];
+  totals: {
+    quantity: number;
+    value: number;
+  };
+}
+
+export interface ProductMarginRow {
+  itemId: string;
+  name: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+  margin: number;
+  // Margin as a share of revenue, null when nothing was charged
+  marginPercent: number | null;
+}
+
+export interface GrossMarginReport {
+  from: Date;
+  to: Date;
+  items: ProductMarginRow[];
+  totals: {
+    revenue: number;
+    cost: number;
+    margin: number;
+    marginPercent: number | null;
+  };
+}
+
+// Where stock goes in or comes out: a new lot's number and expiry date, or
+// the lot an outgoing movement has to come from, such as a write-off
+export interface LotDetails {
+  lotId?: string;
+  lotNumber?: string | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * Thrown when a movement has to come from a lot that no longer holds enough,
+ * e.g. because a sale used it up while it was being written off
+ */
+export class LotUnavailableError extends Error {
+  constructor(public readonly lotId: string) {
+    super("That lot no longer holds enough stock");
+    this.name = "LotUnavailableError";
+  }
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Unit costs are kept to four places, e.g. per ml of a spirit
+const roundUnitCost = (amount: number): number => Math.round(amount * 10000) / 10000;
+
+export const getMarginPercent = (revenue: number, margin: number): number | null =>
+  revenue === 0 ? null : Math.round((margin / revenue) * 1000) / 10;
+
+/**
+ * Average cost of what is left in an item's lots, or null when they are used up
+ */
+async function getRemainingLotCost(
+  itemId: string,
+  client: Prisma.TransactionClient
+): Promise<number | null> {
+  const lots = await client.inventoryLot.findMany({
+    where: { itemId, quantityRemaining: { gt: 0 } },
+    select: { unitCost: true, quantityRemaining: true },
+  });
+
+  const quantity = lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+  if (quantity === 0) return null;
+
+  const value = lots.reduce((sum, lot) => sum + lot.quantityRemaining * Number(lot.unitCost), 0);
+  return value / quantity;
+}
+
+/**
+ * Use up an item's lots, those expiring soonest first and then the oldest, or
+ * only the given lot. Lots that have already expired are waiting to be
+ * written off, so sales only draw on them once everything in date is gone.
+ * Returns what was taken from each lot; together they can come to less than
+ * asked for when stock was on hand without a lot, e.g. after a correction
+ * below zero.
+ */
+async function consumeLots(
+  itemId: string,
+  quantity: number,
+  client: Prisma.TransactionClient,
+  lotId?: string
+): Promise<{ quantity: number; unitCost: number }[]> {
+  const today = startOfDay(new Date());
+  const lots = await client.inventoryLot.findMany({
+    where: { itemId, quantityRemaining: { gt: 0 }, ...(lotId ? { id: lotId } : {}) },
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { receivedAt: "asc" }],
+  });
+  const isExpired = (lot: (typeof lots)[number]) => lot.expiresAt !== null && lot.expiresAt < today;
+  const ordered = [...lots.filter((lot) => !isExpired(lot)), ...lots.filter(isExpired)];
+
+  const taken: { quantity: number; unitCost: number }[] = [];
+  let outstanding = quantity;
+
+  for (const lot of ordered) {
+    if (outstanding === 0) break;
+
+    const take = Math.min(lot.quantityRemaining, outstanding);
+    // A lot used up by a concurrent sale is skipped rather than overdrawn
+    const { count } = await client.inventoryLot.updateMany({
+      where: { id: lot.id, quantityRemaining: { gte: take } },
+      data: { quantityRemaining: { decrement: take } },
+    });
+
+    if (count > 0) {
+      taken.push({ quantity: take, unitCost: Number(lot.unitCost) });
+      outstanding -= take;
+    }
+  }
+
+  return taken;
+}
+
+/**
+ * Cost a stock movement that has just been recorded. Stock brought in opens a
+ * lot at its unit cost, or at the item's current cost when none is given.
+ * Stock taken out uses up lots soonest to expire first, or the lot it is
+ * given, and is charged at the item's average cost, or at what those lots
+ * cost under FIFO.
+ *
+ * The item's unit cost is kept at the average cost of what is on hand, which
+ * is what stock is valued at and what new sales are priced against.
+ */
+export async function recordStockCost(
+  transaction: InventoryTransaction,
+  quantityBefore: number,
+  client: Prisma.TransactionClient,
+  lot: LotDetails = {}
+): Promise<InventoryTransaction> {
+  if (transaction.quantityDelta === 0) return transaction;
+
+  const [item, company] = await Promise.all([
+    client.inventoryItem.findUniqueOrThrow({
+      where: { id: transaction.itemId },
+      select: { unitCost: true },
+    }),
+    client.company.findUniqueOrThrow({
+      where: { id: transaction.companyId },
+      select: { costingMethod: true },
+    }),
+  ]);
+  const currentCost = Number(item.unitCost ?? 0);
+  const isFifo = company.costingMethod === CostingMethod.FIFO;
+
+  if (transaction.quantityDelta > 0) {
+    const quantity = transaction.quantityDelta;
+    const lotCost = transaction.unitCost === null ? currentCost : Number(transaction.unitCost);
+
+    await client.inventoryLot.create({
+      data: {
+        companyId: transaction.companyId,
+        itemId: transaction.itemId,
+        transactionId: transaction.id,
+        unitCost: lotCost,
+        quantityReceived: quantity,
+        quantityRemaining: quantity,
+        lotNumber: lot.lotNumber || null,
+        expiresAt: lot.expiresAt ?? null,
+      },
+    });
+
+    // Stock below zero was already sold, so it doesn't weigh on the average
+    const onHand = Math.max(quantityBefore, 0);
+    const averageCost = isFifo
+      ? (await getRemainingLotCost(transaction.itemId, client)) ?? lotCost
+      : (onHand * currentCost + quantity * lotCost) / (onHand + quantity);
+
+    await client.inventoryItem.update({
+      where: { id: transaction.itemId },
+      data: { unitCost: roundUnitCost(averageCost) },
+    });
+
+    return client.inventoryTransaction.update({
+      where: { id: transaction.id },
+      data: { unitCost: lotCost },
+    });
+  }
+
+  const quantity = -transaction.quantityDelta;
+  const taken = await consumeLots(transaction.itemId, quantity, client, lot.lotId);
+
+  if (lot.lotId && taken.reduce((sum, lotTaken) => sum + lotTaken.quantity, 0) < quantity) {
+    throw new LotUnavailableError(lot.lotId);
+  }
+
+  let costAmount = quantity * currentCost;
+  if (isFifo) {
+    const fromLots = taken.reduce((sum, lot) => sum + lot.quantity, 0);
+    costAmount =
+      taken.reduce((sum, lot) => sum + lot.quantity * lot.unitCost, 0) +
+      (quantity - fromLots) * currentCost;
+
+    const remainingCost = await getRemainingLotCost(transaction.itemId, client);
+    if (remainingCost !== null) {
+      await client.inventoryItem.update({
+        where: { id: transaction.itemId },
+        data: { unitCost: roundUnitCost(remainingCost) },
+      });
+    }
+  }
+
+  return client.inventoryTransaction.update({
+    where: { id: transaction.id },
+    data: { costAmount: roundCurrency(costAmount) },
+  });
+}
+
+/**
+ * What the stock on hand is worth. Under FIFO that is what is left in each
+ * lot at its own cost; otherwise every unit is worth the item's average cost.
+ */
+export async function getStockValuation(
+  companyId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<StockValuationReport> {
+  const [company, items] = await Promise.all([
+    client.company.findUniqueOrThrow({
+      where: { id: companyId },
+      select: { costingMethod: true },
+    }),
+    client.inventoryItem.findMany({
+      where: { companyId, quantity: { gt: 0 } },
+      include: {
+        category: { select: { name: true } },
+        lots: {
+          where: { quantityRemaining: { gt: 0 } },
+          select: { unitCost: true, quantityRemaining: true },
+        },
+      },
+      orderBy: { name: "asc" },
+    }),
+  ]);
+  const isFifo = company.costingMethod === CostingMethod.FIFO;
+
+  const rows: StockValuationRow[] = items.map((item) => {
+    const unitCost = Number(item.unitCost ?? 0);
+    let value = item.quantity * unitCost;
+
+    if (isFifo) {
+      const lotQuantity = item.lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+      const lotValue = item.lots.reduce((sum, lot) => sum + lot.quantityRemaining * Number(lot.unitCost), 0);
+      // Stock on hand without a lot is valued at the item's cost
+      value = lotValue + Math.max(item.quantity - lotQuantity, 0) * unitCost;
+    }
+
+    return {
+      itemId: item.id,
+      name: item.name,
+      sku: item.sku,
+      category: item.category?.name ?? null,
+      quantity: item.quantity,
+      unitCost,
+      value: roundCurrency(value),
+    };
+  });
+
+  return {
+    costingMethod: company.costingMethod,
+    items: rows.sort((a, b) => b.value - a.value),
+    totals: {
+      quantity: rows.reduce((sum, row) => sum + row.quantity, 0),
+      value: roundCurrency(rows.reduce((sum, row) => sum + row.value, 0)),
+    },
+  };
+}
+
+/**
+ * Revenue, cost of goods and gross margin of each product sold over a
+ * period, net of tax. Voided orders are left out, and refunded items take
+ * their share of revenue and cost with them since their stock went back on
+ * the shelf.
+ */
+export async function getGrossMarginReport(
+  companyId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<GrossMarginReport> {
+  const orderItems = await client.posOrderItem.findMany({
+    where: {
+      order: { companyId, voidedAt: null, createdAt: { gte: from, lte: to } },
+    },
+    include: {
+      item: { select: { name: true } },
+      order: { select: { taxInclusive: true } },
+      reversalItems: {
+        where: { reversal: { status: ReversalStatus.APPROVED } },
+        select: { quantity: true },
+      },
+    },
+  });
+
+  const products = new Map<string, ProductMarginRow>();
+  orderItems.forEach((orderItem) => {
+    const row = products.get(orderItem.itemId) ?? {
+      itemId: orderItem.itemId,
+      name: orderItem.item.name,
+      quantity: 0,
+      revenue: 0,
+      cost: 0,
+      margin: 0,
+      marginPercent: null,
+    };
+
+    const refunded = orderItem.reversalItems.reduce((sum, reversalItem) => sum + reversalItem.quantity, 0);
+    const kept = Math.max(orderItem.quantity - refunded, 0);
+    if (kept === 0) return;
+    const share = kept / orderItem.quantity;
+
+    // Tax included in the price was collected for the tax office, not earned
+    const netAmount = Number(orderItem.lineTotal) - Number(orderItem.discountAmount);
+    const revenue = orderItem.order.taxInclusive ? netAmount - Number(orderItem.taxAmount) : netAmount;
+
+    row.quantity += kept;
+    row.revenue = roundCurrency(row.revenue + revenue * share);
+    row.cost = roundCurrency(row.cost + Number(orderItem.costAmount) * share);
+    row.margin = roundCurrency(row.revenue - row.cost);
+    row.marginPercent = getMarginPercent(row.revenue, row.margin);
+    products.set(orderItem.itemId, row);
+  });
+
+  const rows = Array.from(products.values()).sort((a, b) => b.margin - a.margin);
+  const revenue = roundCurrency(rows.reduce((sum, row) => sum + row.revenue, 0));
+  const cost = roundCurrency(rows.reduce((sum, row) => sum + row.cost, 0));
+  const margin = roundCurrency(revenue - cost);
+
+  return {
+    from,
+    to,
+    items: rows,
+    totals: {
+      revenue,
+      cost,
+      margin,
+      marginPercent: getMarginPercent(revenue, margin),
+    },
+  };
+}
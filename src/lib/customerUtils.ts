@@ -0,0 +1,152 @@
+import { PaymentMethod, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { sumPayments } from "./paymentUtils";
+
+export type StatementPayment = Prisma.PaymentGetPayload<{
+  include: {
+    order: { select: { orderNumber: true } };
+    checkout: { include: { session: { include: { table: { select: { name: true } } } } } };
+  };
+}>;
+
+export interface StatementEntry {
+  id: string;
+  date: Date;
+  description: string;
+  charge: number;
+  payment: number;
+  balance: number;
+}
+
+/**
+ * What a customer owes on their house tab: everything charged to the tab
+ * minus settlement payments. Pass `before` for the balance at a point in time.
+ */
+export async function getTabBalance(
+  customerId: string,
+  before?: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  const balances = await getTabBalances([customerId], before, client);
+  return balances[customerId] ?? 0;
+}
+
+/**
+ * Tab balances for several customers at once, keyed by customer ID
+ */
+export async function getTabBalances(
+  customerIds: string[],
+  before?: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<Record<string, number>> {
+  if (customerIds.length === 0) return {};
+
+  const totals = await client.payment.groupBy({
+    by: ["customerId", "method"],
+    where: {
+      customerId: { in: customerIds },
+      ...(before ? { createdAt: { lt: before } } : {}),
+    },
+    _sum: { amount: true },
+  });
+
+  const balances: Record<string, number> = {};
+  totals.forEach((total) => {
+    if (!total.customerId) return;
+    const amount = Number(total._sum.amount ?? 0);
+    balances[total.customerId] = sumPayments([
+      { amount: balances[total.customerId] ?? 0 },
+      { amount: total.method === PaymentMethod.TAB ? amount : -amount },
+    ]);
+  });
+
+  return balances;
+}
+
+/**
+ * Thrown when a tab charge no longer fits the customer's credit limit once
+ * it is checked inside the transaction that saves it
+ */
+export class TabChargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TabChargeError";
+  }
+}
+
+/**
+ * Credit left on a tab, never negative
+ */
+export const getAvailableCredit = (creditLimit: number, balance: number): number => {
+  return Math.max(0, sumPayments([{ amount: creditLimit }, { amount: -balance }]));
+};
+
+/**
+ * Check that a charge fits within the customer's credit limit.
+ * Returns an error message when it doesn't. The customer stays locked until
+ * the transaction ends, so pass the transaction the charge is saved in and
+ * two charges at once can't both fit under the limit.
+ */
+export async function validateTabCharge(
+  customer: { id: string; name: string; creditLimit: Prisma.Decimal | number; active: boolean },
+  amount: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  if (!customer.active) {
+    return `${customer.name}'s account is closed`;
+  }
+
+  await client.$queryRaw`SELECT id FROM customers WHERE id = ${customer.id}::uuid FOR UPDATE`;
+  const balance = await getTabBalance(customer.id, undefined, client);
+  const available = getAvailableCredit(Number(customer.creditLimit), balance);
+
+  if (Math.round(amount * 100) > Math.round(available * 100)) {
+    return `Charge exceeds ${customer.name}'s available credit of ${available.toFixed(2)}`;
+  }
+
+  return null;
+}
+
+/**
+ * Turn tab charges and settlements into statement lines with a running balance
+ */
+export const buildStatementEntries = (
+  payments: StatementPayment[],
+  openingBalance: number
+): StatementEntry[] => {
+  let balance = openingBalance;
+
+  return payments.map((payment) => {
+    const amount = Number(payment.amount);
+    const isTab = payment.method === PaymentMethod.TAB;
+    balance = sumPayments([{ amount: balance }, { amount: isTab ? amount : -amount }]);
+
+    // Refunds of tab charges are recorded as negative charges
+    const isCharge = isTab && amount >= 0;
+    const credit = isTab ? -amount : amount;
+
+    let description = `Payment (${payment.method.toLowerCase()})`;
+    if (isTab && !isCharge) {
+      description = "Refund";
+    } else if (isCharge && payment.order) {
+      description = `Order ${payment.order.orderNumber}`;
+    } else if (isCharge && payment.checkout) {
+      description = `Checkout ${payment.checkout.session.table.name}`;
+    } else if (isCharge && payment.membershipId) {
+      description = "Membership";
+    } else if (isCharge && payment.prepaidCardId) {
+      description = "Prepaid hours";
+    } else if (isCharge) {
+      description = "Tab charge";
+    }
+
+    return {
+      id: payment.id,
+      date: payment.createdAt,
+      description,
+      charge: isCharge ? amount : 0,
+      payment: isCharge ? 0 : credit,
+      balance,
+    };
+  });
+};
@@ -1,7 +1,16 @@
-import { FinanceCategoryType } from "@prisma/client";
+import { FinanceCategoryType, Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
 import { startOfToday, endOfToday } from "date-fns";
 
+// Income category that checkouts and order payments are posted to
+export const SALES_CATEGORY_NAME = "Sales";
+
+// Expense category that cash taken out of the drawer is posted to
+export const CASH_PAYOUTS_CATEGORY_NAME = "Cash Payouts";
+
+// Expense category that stock received from suppliers is posted to
+export const INVENTORY_PURCHASES_CATEGORY_NAME = "Inventory Purchases";
+
 export interface FinanceSummary {
   totalIncome: number;
   totalExpense: number;
@@ -164,4 +173,30 @@ export async function assertFinanceAccess(companyId: string, userId: string): Pr
   if (!profile) {
     throw new Error("Unauthorized access to finance data");
   }
-} 
\ No newline at end of file
+} 
+/**
+ * Find a finance category by name, creating it when it doesn't exist yet.
+ * Used for entries that are posted automatically, such as checkout income.
+ * 
+ * @param companyId Company ID
+ * @param name Category name
+ * @param categoryType Category type (INCOME or EXPENSE)
+ * @param client Prisma client or transaction client to run the queries on
+ * @returns The matching finance category
+ */
+export async function getOrCreateFinanceCategory(
+  companyId: string,
+  name: string,
+  categoryType: FinanceCategoryType,
+  client: Prisma.TransactionClient = prisma
+) {
+  const existing = await client.financeCategory.findFirst({
+    where: { companyId, name, categoryType },
+  });
+
+  if (existing) return existing;
+
+  return client.financeCategory.create({
+    data: { companyId, name, categoryType },
+  });
+}
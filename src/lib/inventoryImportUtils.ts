@@ -0,0 +1,428 @@
+import prisma from "./prisma";
+import { adjustInventoryQuantity } from "./inventoryUtils";
+import { SpreadsheetCell } from "./spreadsheetUtils";
+import {
+  CATEGORY_IMPORT_FIELDS,
+  CategoryImportRow,
+  ColumnMapping,
+  ITEM_IMPORT_FIELDS,
+  ImportField,
+  ItemImportRow,
+  categoryImportRowSchema,
+  itemImportRowSchema,
+} from "./validations/inventoryImport";
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Rows shown under each column while mapping them
+const SAMPLE_ROWS = 5;
+
+export interface ImportRowResult {
+  // Row number in the spreadsheet, counting the header as row 1
+  row: number;
+  name: string;
+  action: "create" | "update" | "error";
+  errors: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  headers: string[];
+  mapping: ColumnMapping;
+  sample: string[][];
+  rows: ImportRowResult[];
+  created: number;
+  updated: number;
+  failed: number;
+  // Categories named in the file that don't exist yet, created on import
+  newCategories: string[];
+}
+
+export interface ImportOptions {
+  // Check the file and report what would change without saving anything
+  dryRun: boolean;
+  staffId?: string;
+}
+
+type ImportOutcome = { result: ImportResult } | { error: string; httpStatus: number };
+
+type ItemFieldKey = (typeof ITEM_IMPORT_FIELDS)[number]["key"];
+type CategoryFieldKey = (typeof CATEGORY_IMPORT_FIELDS)[number]["key"];
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Pick a column for each field whose header is the field's label or one of
+ * its aliases, ignoring case, spaces and punctuation
+ */
+export const guessColumnMapping = (headers: string[], fields: readonly ImportField[]): ColumnMapping =>
+  Object.fromEntries(
+    fields.map((field) => {
+      const names = [field.label, ...field.aliases].map(normalizeHeader);
+      return [field.key, headers.find((header) => names.includes(normalizeHeader(header))) ?? null];
+    })
+  );
+
+/**
+ * Check the mapping against the file's headers and read each row into the
+ * mapped fields, leaving blank cells out
+ */
+const prepareImport = (
+  sheet: string[][],
+  requestedMapping: ColumnMapping | undefined,
+  fields: readonly ImportField[]
+):
+  | { headers: string[]; mapping: ColumnMapping; records: Record<string, string>[] }
+  | { error: string; httpStatus: number } => {
+  if (sheet.length === 0) {
+    return { error: "The file is empty", httpStatus: 400 };
+  }
+
+  const [headerRow, ...rows] = sheet;
+  const headers = headerRow.map((header) => header.trim());
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time`, httpStatus: 400 };
+  }
+
+  const mapping = requestedMapping ?? guessColumnMapping(headers, fields);
+
+  for (const field of fields) {
+    const header = mapping[field.key] ?? null;
+    if (field.required && !header) {
+      return { error: `Choose the column to read ${field.label} from`, httpStatus: 400 };
+    }
+    if (header && !headers.includes(header)) {
+      return { error: `The file has no column called ${header}`, httpStatus: 400 };
+    }
+  }
+
+  const columns = fields.flatMap((field) => {
+    const header = mapping[field.key];
+    return header ? [{ key: field.key, index: headers.indexOf(header) }] : [];
+  });
+
+  const records = rows.map((row) =>
+    Object.fromEntries(
+      columns.flatMap(({ key, index }) => {
+        const value = row[index]?.trim();
+        return value ? [[key, value]] : [];
+      })
+    )
+  );
+
+  return {
+    headers,
+    mapping: Object.fromEntries(fields.map((field) => [field.key, mapping[field.key] ?? null])),
+    records,
+  };
+};
+
+const summarize = (
+  headers: string[],
+  mapping: ColumnMapping,
+  sheet: string[][],
+  rows: ImportRowResult[],
+  options: ImportOptions,
+  newCategories: string[] = []
+): ImportResult => ({
+  dryRun: options.dryRun,
+  headers,
+  mapping,
+  sample: sheet.slice(1, SAMPLE_ROWS + 1),
+  rows,
+  created: rows.filter((row) => row.action === "create").length,
+  updated: rows.filter((row) => row.action === "update").length,
+  failed: rows.filter((row) => row.action === "error").length,
+  newCategories,
+});
+
+/**
+ * Import items from spreadsheet rows. Rows are matched to the company's items
+ * by SKU and update them; rows with a new SKU or none at all add items.
+ * Categories are matched by name, and any that don't exist yet are created.
+ * Rows with errors are skipped and the rest imported together.
+ */
+export async function importInventoryItems(
+  companyId: string,
+  sheet: string[][],
+  requestedMapping: ColumnMapping | undefined,
+  options: ImportOptions
+): Promise<ImportOutcome> {
+  const prepared = prepareImport(sheet, requestedMapping, ITEM_IMPORT_FIELDS);
+  if ("error" in prepared) {
+    return prepared;
+  }
+
+  const { headers, mapping, records } = prepared;
+  const skus = records.flatMap((record) => (record.sku ? [record.sku] : []));
+  const barcodes = records.flatMap((record) => (record.barcode ? [record.barcode] : []));
+
+  // SKUs are unique across companies, so they're looked up everywhere
+  const [skuOwners, barcodeOwners, categories] = await Promise.all([
+    prisma.inventoryItem.findMany({
+      where: { sku: { in: skus } },
+      select: { id: true, companyId: true, sku: true },
+    }),
+    prisma.inventoryItem.findMany({
+      where: { companyId, barcode: { in: barcodes } },
+      select: { id: true, name: true, barcode: true },
+    }),
+    prisma.inventoryCategory.findMany({
+      where: { companyId },
+      select: { id: true, name: true },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const itemsBySku = new Map(skuOwners.map((item) => [item.sku, item]));
+  const itemsByBarcode = new Map(barcodeOwners.map((item) => [item.barcode, item]));
+  const categoryIds = new Map<string, string>();
+  for (const category of categories) {
+    if (!categoryIds.has(category.name.toLowerCase())) {
+      categoryIds.set(category.name.toLowerCase(), category.id);
+    }
+  }
+
+  const seenSkus = new Set<string>();
+  const seenBarcodes = new Set<string>();
+  const newCategories = new Map<string, string>();
+  const rows: ImportRowResult[] = [];
+  const changes: { values: ItemImportRow; itemId?: string }[] = [];
+
+  records.forEach((record, index) => {
+    const parsed = itemImportRowSchema.safeParse(record);
+    const errors = parsed.success ? [] : parsed.error.issues.map((issue) => issue.message);
+    let itemId: string | undefined;
+
+    if (parsed.success) {
+      const { sku, barcode, category } = parsed.data;
+
+      if (sku) {
+        const owner = itemsBySku.get(sku);
+        if (seenSkus.has(sku)) {
+          errors.push(`SKU ${sku} is on more than one row`);
+        } else if (owner && owner.companyId !== companyId) {
+          errors.push(`SKU ${sku} is already used by another company`);
+        } else {
+          itemId = owner?.id;
+        }
+        seenSkus.add(sku);
+      }
+
+      if (barcode) {
+        const owner = itemsByBarcode.get(barcode);
+        if (seenBarcodes.has(barcode)) {
+          errors.push(`Barcode ${barcode} is on more than one row`);
+        } else if (owner && owner.id !== itemId) {
+          errors.push(`${owner.name} already has barcode ${barcode}`);
+        }
+        seenBarcodes.add(barcode);
+      }
+
+      if (errors.length === 0) {
+        changes.push({ values: parsed.data, itemId });
+
+        if (category && !categoryIds.has(category.toLowerCase()) && !newCategories.has(category.toLowerCase())) {
+          newCategories.set(category.toLowerCase(), category);
+        }
+      }
+    }
+
+    rows.push({
+      row: index + 2,
+      name: record.name ?? "",
+      action: errors.length > 0 ? "error" : itemId ? "update" : "create",
+      errors,
+    });
+  });
+
+  if (!options.dryRun && changes.length > 0) {
+    // A whole catalogue takes longer than the default allows
+    await prisma.$transaction(
+      async (tx) => {
+        for (const [key, name] of newCategories) {
+          const category = await tx.inventoryCategory.create({
+            data: { companyId, name },
+            select: { id: true },
+          });
+          categoryIds.set(key, category.id);
+        }
+
+        for (const { values, itemId } of changes) {
+          const { category, quantity, ...fields } = values;
+          const data = {
+            ...fields,
+            categoryId: category ? categoryIds.get(category.toLowerCase()) : undefined,
+          };
+
+          // Stock changes go through the ledger like any other movement, as
+          // opening stock for new items and a correction for existing ones
+          if (itemId) {
+            const item = await tx.inventoryItem.update({ where: { id: itemId }, data });
+            if (quantity !== undefined && quantity !== item.quantity) {
+              await adjustInventoryQuantity(
+                {
+                  itemId,
+                  companyId,
+                  quantityDelta: quantity - item.quantity,
+                  transactionType: "ADJUSTMENT",
+                  note: "Import",
+                  staffId: options.staffId,
+                },
+                tx
+              );
+            }
+          } else {
+            const item = await tx.inventoryItem.create({
+              data: { ...data, companyId, quantity: 0 },
+            });
+            if (quantity) {
+              await adjustInventoryQuantity(
+                {
+                  itemId: item.id,
+                  companyId,
+                  quantityDelta: quantity,
+                  transactionType: "INCOMING",
+                  note: "Opening stock",
+                  staffId: options.staffId,
+                },
+                tx
+              );
+            }
+          }
+        }
+      },
+      { timeout: 120000 }
+    );
+  }
+
+  return {
+    result: summarize(headers, mapping, sheet, rows, options, Array.from(newCategories.values())),
+  };
+}
+
+/**
+ * Import categories from spreadsheet rows, matched to the company's
+ * categories by name
+ */
+export async function importInventoryCategories(
+  companyId: string,
+  sheet: string[][],
+  requestedMapping: ColumnMapping | undefined,
+  options: ImportOptions
+): Promise<ImportOutcome> {
+  const prepared = prepareImport(sheet, requestedMapping, CATEGORY_IMPORT_FIELDS);
+  if ("error" in prepared) {
+    return prepared;
+  }
+
+  const { headers, mapping, records } = prepared;
+  const categories = await prisma.inventoryCategory.findMany({
+    where: { companyId },
+    select: { id: true, name: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const categoryIds = new Map<string, string>();
+  for (const category of categories) {
+    if (!categoryIds.has(category.name.toLowerCase())) {
+      categoryIds.set(category.name.toLowerCase(), category.id);
+    }
+  }
+
+  const seenNames = new Set<string>();
+  const rows: ImportRowResult[] = [];
+  const changes: { values: CategoryImportRow; categoryId?: string }[] = [];
+
+  records.forEach((record, index) => {
+    const parsed = categoryImportRowSchema.safeParse(record);
+    const errors = parsed.success ? [] : parsed.error.issues.map((issue) => issue.message);
+    let categoryId: string | undefined;
+
+    if (parsed.success) {
+      const key = parsed.data.name.toLowerCase();
+      if (seenNames.has(key)) {
+        errors.push(`${parsed.data.name} is on more than one row`);
+      } else {
+        categoryId = categoryIds.get(key);
+        changes.push({ values: parsed.data, categoryId });
+      }
+      seenNames.add(key);
+    }
+
+    rows.push({
+      row: index + 2,
+      name: record.name ?? "",
+      action: errors.length > 0 ? "error" : categoryId ? "update" : "create",
+      errors,
+    });
+  });
+
+  if (!options.dryRun && changes.length > 0) {
+    await prisma.$transaction(async (tx) => {
+      for (const { values, categoryId } of changes) {
+        if (categoryId) {
+          await tx.inventoryCategory.update({
+            where: { id: categoryId },
+            data: { name: values.name, description: values.description },
+          });
+        } else {
+          await tx.inventoryCategory.create({
+            data: { companyId, name: values.name, description: values.description ?? null },
+          });
+        }
+      }
+    });
+  }
+
+  return { result: summarize(headers, mapping, sheet, rows, options) };
+}
+
+/**
+ * The company's items as spreadsheet rows, with the same columns the import
+ * reads so an export can be edited and imported back
+ */
+export async function exportInventoryItems(companyId: string): Promise<SpreadsheetCell[][]> {
+  const items = await prisma.inventoryItem.findMany({
+    where: { companyId },
+    include: { category: { select: { name: true } } },
+    orderBy: { name: "asc" },
+  });
+
+  return [
+    ITEM_IMPORT_FIELDS.map((field) => field.label),
+    ...items.map((item) => {
+      const values: Record<ItemFieldKey, SpreadsheetCell> = {
+        name: item.name,
+        sku: item.sku,
+        barcode: item.barcode,
+        category: item.category?.name ?? null,
+        price: item.price === null ? null : Number(item.price),
+        unitCost: item.unitCost === null ? null : Number(item.unitCost),
+        quantity: item.quantity,
+        criticalThreshold: item.criticalThreshold,
+        reorderQuantity: item.reorderQuantity,
+      };
+      return ITEM_IMPORT_FIELDS.map((field) => values[field.key]);
+    }),
+  ];
+}
+
+export async function exportInventoryCategories(companyId: string): Promise<SpreadsheetCell[][]> {
+  const categories = await prisma.inventoryCategory.findMany({
+    where: { companyId },
+    orderBy: { name: "asc" },
+  });
+
+  return [
+    CATEGORY_IMPORT_FIELDS.map((field) => field.label),
+    ...categories.map((category) => {
+      const values: Record<CategoryFieldKey, SpreadsheetCell> = {
+        name: category.name,
+        description: category.description,
+      };
+      return CATEGORY_IMPORT_FIELDS.map((field) => values[field.key]);
+    }),
+  ];
+}
@@ -1,18 +1,9 @@
-import { PrismaClient, InventoryTransactionType } from "@prisma/client";
+import { InventoryItem, InventoryTransaction, InventoryTransactionType, Prisma } from "@prisma/client";
+import { addDays, differenceInCalendarDays, format, startOfDay } from "date-fns";
 import prisma from "./prisma";
+import { recordStockCost } from "./costingUtils";
 
-/**
- * Adjusts inventory quantity and creates a transaction record
- */
-export async function adjustInventoryQuantity({
-  itemId,
-  companyId,
-  quantityDelta,
-  transactionType,
-  note,
-  staffId,
-  posOrderItemId,
-}: {
+export interface InventoryAdjustment {
   itemId: string;
   companyId: string;
   quantityDelta: number;
@@ -20,51 +11,163 @@ export async function adjustInventoryQuantity({
   note?: string;
   staffId?: string;
   posOrderItemId?: string;
-}) {
+  unitCost?: number;
+  purchaseReceiptId?: string;
+  stocktakeId?: string;
+  // For stock brought in: the lot it arrived as and when it expires
+  lotNumber?: string | null;
+  expiresAt?: Date | null;
+  // For stock taken out of one lot in particular, e.g. a write-off
+  lotId?: string;
+}
+
+export interface InventoryLedgerFilters {
+  transactionType?: InventoryTransactionType;
+  staffId?: string;
+  from?: Date;
+  to?: Date;
+  // Only movements made by a POS order whose number contains this
+  orderNumber?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export const ledgerEntryInclude = {
+  staff: { select: { id: true, firstName: true, lastName: true } },
+  posOrderItem: { select: { order: { select: { id: true, orderNumber: true } } } },
+  purchaseReceipt: { select: { purchaseOrder: { select: { id: true, orderNumber: true } } } },
+  stocktake: { select: { id: true, reference: true } },
+} satisfies Prisma.InventoryTransactionInclude;
+
+export type InventoryLedgerEntry = Prisma.InventoryTransactionGetPayload<{
+  include: typeof ledgerEntryInclude;
+}> & {
+  // Stock on hand once this movement was made
+  balance: number;
+};
+
+export interface InventoryLedger {
+  entries: InventoryLedgerEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+  quantity: number;
+  // What the movements add up to, and how far the item's quantity is from it
+  ledgerQuantity: number;
+  discrepancy: number;
+}
+
+// How far ahead the expiring soon feed looks
+export const EXPIRY_WARNING_DAYS = 7;
+
+export const stockLotInclude = {
+  item: { select: { id: true, name: true, sku: true } },
+} satisfies Prisma.InventoryLotInclude;
+
+export type StockLot = Prisma.InventoryLotGetPayload<{
+  include: typeof stockLotInclude;
+}> & {
+  // Negative once the lot has expired, null when it doesn't expire
+  daysUntilExpiry: number | null;
+};
+
+/**
+ * Thrown when taking stock out would leave an item below zero
+ */
+export class InsufficientStockError extends Error {
+  constructor(
+    public readonly itemId: string,
+    public readonly itemName: string,
+    public readonly available: number
+  ) {
+    super(`Only ${available} of ${itemName} left in stock`);
+    this.name = "InsufficientStockError";
+  }
+}
+
+/**
+ * Adjusts inventory quantity and creates a transaction record, costed by the
+ * company's costing method.
+ * Pass a transaction client to make the adjustment part of a larger transaction,
+ * e.g. so a sale is rolled back when one of its items is out of stock.
+ */
+export async function adjustInventoryQuantity(
+  adjustment: InventoryAdjustment,
+  client?: Prisma.TransactionClient
+): Promise<{ item: InventoryItem; transaction: InventoryTransaction }> {
   // Start a transaction to ensure consistency
-  return await prisma.$transaction(async (tx) => {
-    // Get current inventory item
-    const item = await tx.inventoryItem.findUnique({
+  if (!client) {
+    return prisma.$transaction((tx) => adjustInventoryQuantity(adjustment, tx));
+  }
+
+  const {
+    itemId,
+    companyId,
+    quantityDelta,
+    transactionType,
+    note,
+    staffId,
+    posOrderItemId,
+    unitCost,
+    purchaseReceiptId,
+    stocktakeId,
+    lotNumber,
+    expiresAt,
+    lotId,
+  } = adjustment;
+
+  // Prevent negative inventory (except for ADJUSTMENT type which can be used for corrections).
+  // The stock check is part of the update so concurrent sales can't both take the last unit.
+  const guardStock = quantityDelta < 0 && transactionType !== "ADJUSTMENT";
+  const { count } = await client.inventoryItem.updateMany({
+    where: {
+      id: itemId,
+      ...(guardStock ? { quantity: { gte: -quantityDelta } } : {}),
+    },
+    data: { quantity: { increment: quantityDelta } },
+  });
+
+  if (count === 0) {
+    const item = await client.inventoryItem.findUnique({
       where: { id: itemId },
-      select: { quantity: true },
+      select: { name: true, quantity: true },
     });
-
     if (!item) {
       throw new Error(`Inventory item with ID ${itemId} not found`);
     }
+    throw new InsufficientStockError(itemId, item.name, item.quantity);
+  }
 
-    // Update quantity
-    const newQuantity = item.quantity + quantityDelta;
-    
-    // Prevent negative inventory (except for ADJUSTMENT type which can be used for corrections)
-    if (newQuantity < 0 && transactionType !== 'ADJUSTMENT') {
-      throw new Error(`Insufficient stock for item ID ${itemId}`);
-    }
-    
-    // Update inventory item quantity
-    const updatedItem = await tx.inventoryItem.update({
-      where: { id: itemId },
-      data: { quantity: newQuantity },
-    });
+  const updatedItem = await client.inventoryItem.findUniqueOrThrow({
+    where: { id: itemId },
+  });
 
-    // Create transaction record
-    const transaction = await tx.inventoryTransaction.create({
-      data: {
-        itemId,
-        companyId,
-        quantityDelta,
-        transactionType,
-        note: note || null,
-        staffId: staffId || null,
-        posOrderItemId: posOrderItemId || null,
-      },
-    });
+  // Create transaction record
+  const recorded = await client.inventoryTransaction.create({
+    data: {
+      itemId,
+      companyId,
+      quantityDelta,
+      transactionType,
+      note: note || null,
+      staffId: staffId || null,
+      posOrderItemId: posOrderItemId || null,
+      unitCost: unitCost ?? null,
+      purchaseReceiptId: purchaseReceiptId || null,
+      stocktakeId: stocktakeId || null,
+    },
+  });
 
-    return {
-      item: updatedItem,
-      transaction,
-    };
+  const transaction = await recordStockCost(recorded, updatedItem.quantity - quantityDelta, client, {
+    lotId,
+    lotNumber,
+    expiresAt,
   });
+
+  return {
+    item: await client.inventoryItem.findUniqueOrThrow({ where: { id: itemId } }),
+    transaction,
+  };
 }
 
 /**
@@ -147,4 +250,159 @@ export async function createPosInventoryTransaction({
     staffId,
     posOrderItemId,
   });
-} 
\ No newline at end of file
+}
+
+/**
+ * An item's stock movements, newest first, each with the balance it left.
+ * Balances run over every movement of the item, so they stay true when the
+ * list is filtered. The ledger also says whether the item's quantity matches
+ * what its movements add up to; stock set without a movement, such as on
+ * items from before movements were recorded, shows up as a discrepancy.
+ */
+export async function getInventoryLedger(
+  item: { id: string; quantity: number },
+  filters: InventoryLedgerFilters = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<InventoryLedger> {
+  const { transactionType, staffId, from, to, orderNumber, page = 1, pageSize = 50 } = filters;
+
+  const movements = await client.inventoryTransaction.findMany({
+    where: { itemId: item.id },
+    select: { id: true, quantityDelta: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+
+  const balances = new Map<string, number>();
+  let ledgerQuantity = 0;
+  movements.forEach((movement) => {
+    ledgerQuantity += movement.quantityDelta;
+    balances.set(movement.id, ledgerQuantity);
+  });
+
+  // Anything not explained by a movement was there before the first one
+  const discrepancy = item.quantity - ledgerQuantity;
+
+  const where: Prisma.InventoryTransactionWhereInput = {
+    itemId: item.id,
+    ...(transactionType ? { transactionType } : {}),
+    ...(staffId ? { staffId } : {}),
+    ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+    ...(orderNumber
+      ? { posOrderItem: { order: { orderNumber: { contains: orderNumber, mode: "insensitive" } } } }
+      : {}),
+  };
+
+  const [total, entries] = await Promise.all([
+    client.inventoryTransaction.count({ where }),
+    client.inventoryTransaction.findMany({
+      where,
+      include: ledgerEntryInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+  ]);
+
+  return {
+    entries: entries.map((entry) => ({ ...entry, balance: balances.get(entry.id) ?? 0 })),
+    total,
+    page,
+    pageSize,
+    quantity: item.quantity,
+    ledgerQuantity,
+    discrepancy,
+  };
+}
+
+const withDaysUntilExpiry = (
+  lot: Prisma.InventoryLotGetPayload<{ include: typeof stockLotInclude }>
+): StockLot => ({
+  ...lot,
+  daysUntilExpiry: lot.expiresAt ? differenceInCalendarDays(lot.expiresAt, new Date()) : null,
+});
+
+/**
+ * The lots an item's stock is held in, in the order they will be used up
+ */
+export async function getItemLots(
+  itemId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<StockLot[]> {
+  const lots = await client.inventoryLot.findMany({
+    where: { itemId, quantityRemaining: { gt: 0 } },
+    include: stockLotInclude,
+    orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { receivedAt: "asc" }],
+  });
+
+  return lots.map(withDaysUntilExpiry);
+}
+
+/**
+ * Stock that has expired or expires within the next few days, soonest first
+ */
+export async function getExpiringLots(
+  companyId: string,
+  days: number = EXPIRY_WARNING_DAYS,
+  client: Prisma.TransactionClient = prisma
+): Promise<StockLot[]> {
+  const lots = await client.inventoryLot.findMany({
+    where: {
+      companyId,
+      quantityRemaining: { gt: 0 },
+      expiresAt: { not: null, lte: addDays(startOfDay(new Date()), days) },
+    },
+    include: stockLotInclude,
+    orderBy: [{ expiresAt: "asc" }, { receivedAt: "asc" }],
+  });
+
+  return lots.map(withDaysUntilExpiry);
+}
+
+/**
+ * Write off what is left of an expired lot as a WRITE_OFF transaction, taken
+ * from that lot and costed at what it holds.
+ *
+ * Run inside a transaction, so the write-off rolls back if a sale uses the
+ * lot up first.
+ */
+export async function writeOffLot(
+  lotId: string,
+  companyId: string,
+  note: string | null | undefined,
+  staffId: string,
+  tx: Prisma.TransactionClient
+): Promise<
+  | { error: string; httpStatus: number }
+  | { item: InventoryItem; transaction: InventoryTransaction }
+> {
+  const lot = await tx.inventoryLot.findUnique({
+    where: { id: lotId, companyId },
+  });
+
+  if (!lot) {
+    return { error: "Lot not found", httpStatus: 404 };
+  }
+
+  if (lot.quantityRemaining === 0) {
+    return { error: "That lot has nothing left to write off", httpStatus: 400 };
+  }
+
+  if (!lot.expiresAt || differenceInCalendarDays(lot.expiresAt, new Date()) >= 0) {
+    return { error: "Only expired stock can be written off", httpStatus: 400 };
+  }
+
+  const expired = `Expired ${format(lot.expiresAt, "MMM d, yyyy")}${lot.lotNumber ? `, lot ${lot.lotNumber}` : ""}`;
+
+  return adjustInventoryQuantity(
+    {
+      itemId: lot.itemId,
+      companyId,
+      quantityDelta: -lot.quantityRemaining,
+      transactionType: InventoryTransactionType.WRITE_OFF,
+      note: note ? `${expired}: ${note}` : expired,
+      staffId,
+      lotId: lot.id,
+    },
+    tx
+  );
+}
@@ -0,0 +1,209 @@
+import { BarcodeSymbology, encodeBarcode } from "./barcodeUtils";
+import { formatPrice } from "./tableUtils";
+
+export const LABEL_FORMATS = ["svg", "pdf"] as const;
+export type LabelFormat = (typeof LABEL_FORMATS)[number];
+
+export interface BarcodeLabel {
+  name: string;
+  code: string;
+  symbology: BarcodeSymbology;
+  price: number | null;
+}
+
+// A 2" x 1.25" label, in points
+const LABEL_WIDTH = 144;
+const LABEL_HEIGHT = 90;
+const MARGIN = 6;
+const BAR_TOP = 20;
+const BAR_HEIGHT = 48;
+// Blank modules either side of the bars so scanners can find where they start
+const QUIET_ZONE = 10;
+const MAX_MODULE_WIDTH = 2;
+const NAME_SIZE = 8;
+const CODE_SIZE = 7;
+
+// Labels on an SVG sheet, cut apart or printed on label stock
+const SHEET_COLUMNS = 3;
+const SHEET_GAP = 8;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// The built-in PDF fonts only cover plain ASCII reliably
+const toAscii = (value: string): string =>
+  value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "?");
+
+// Helvetica averages about half an em per character
+const fitText = (text: string, width: number, fontSize: number): string => {
+  const maxLength = Math.floor(width / (fontSize * 0.5));
+  return text.length > maxLength ? `${text.slice(0, maxLength - 3)}...` : text;
+};
+
+interface LabelLayout {
+  name: string;
+  price: string | null;
+  code: string;
+  // Each bar's left edge and width, in points from the label's left edge
+  bars: { x: number; width: number }[];
+}
+
+/**
+ * Work out where everything on a label goes, shared by the SVG and PDF
+ */
+const layoutLabel = (label: BarcodeLabel): LabelLayout => {
+  const modules = encodeBarcode(label.code, label.symbology);
+  const innerWidth = LABEL_WIDTH - MARGIN * 2;
+  const moduleWidth = Math.min(MAX_MODULE_WIDTH, innerWidth / (modules.length + QUIET_ZONE * 2));
+  const left = (LABEL_WIDTH - modules.length * moduleWidth) / 2;
+
+  const bars: { x: number; width: number }[] = [];
+  let runStart = -1;
+  for (let index = 0; index <= modules.length; index++) {
+    if (modules[index] === "1" && runStart < 0) {
+      runStart = index;
+    } else if (modules[index] !== "1" && runStart >= 0) {
+      bars.push({ x: left + runStart * moduleWidth, width: (index - runStart) * moduleWidth });
+      runStart = -1;
+    }
+  }
+
+  const price = label.price !== null ? formatPrice(label.price) : null;
+  const nameWidth = innerWidth - (price ? price.length * NAME_SIZE * 0.6 + 4 : 0);
+
+  return {
+    name: fitText(label.name, nameWidth, NAME_SIZE),
+    price,
+    code: label.code,
+    bars,
+  };
+};
+
+const renderLabelSvg = (label: BarcodeLabel): string => {
+  const { name, price, code, bars } = layoutLabel(label);
+
+  return [
+    `<rect x="0.5" y="0.5" width="${LABEL_WIDTH - 1}" height="${LABEL_HEIGHT - 1}" fill="#fff" stroke="#ccc" stroke-dasharray="2 2" />`,
+    `<text x="${MARGIN}" y="${MARGIN + NAME_SIZE}" font-size="${NAME_SIZE}">${escapeXml(name)}</text>`,
+    price
+      ? `<text x="${LABEL_WIDTH - MARGIN}" y="${MARGIN + NAME_SIZE}" font-size="${NAME_SIZE}" font-weight="bold" text-anchor="end">${escapeXml(price)}</text>`
+      : "",
+    ...bars.map(
+      (bar) => `<rect x="${bar.x.toFixed(2)}" y="${BAR_TOP}" width="${bar.width.toFixed(2)}" height="${BAR_HEIGHT}" />`
+    ),
+    `<text x="${LABEL_WIDTH / 2}" y="${BAR_TOP + BAR_HEIGHT + CODE_SIZE + 3}" font-size="${CODE_SIZE}" text-anchor="middle" letter-spacing="1">${escapeXml(code)}</text>`,
+  ].join("");
+};
+
+/**
+ * A sheet of labels as one SVG, three to a row
+ */
+export const renderLabelsSvg = (labels: BarcodeLabel[]): string => {
+  const columns = Math.min(SHEET_COLUMNS, labels.length);
+  const rows = Math.ceil(labels.length / SHEET_COLUMNS);
+  const width = columns * LABEL_WIDTH + (columns - 1) * SHEET_GAP;
+  const height = rows * LABEL_HEIGHT + (rows - 1) * SHEET_GAP;
+
+  const content = labels
+    .map((label, index) => {
+      const x = (index % SHEET_COLUMNS) * (LABEL_WIDTH + SHEET_GAP);
+      const y = Math.floor(index / SHEET_COLUMNS) * (LABEL_HEIGHT + SHEET_GAP);
+      return `<g transform="translate(${x} ${y})">${renderLabelSvg(label)}</g>`;
+    })
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}pt" height="${height}pt" viewBox="0 0 ${width} ${height}" font-family="Helvetica, Arial, sans-serif">
+${content}
+</svg>
+`;
+};
+
+/**
+ * One label per page, for label printers, set in the built-in Helvetica font
+ * so it needs no font files or PDF libraries
+ */
+export const renderLabelsPdf = (labels: BarcodeLabel[]): Buffer => {
+  const escapePdf = (value: string) => value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+  // PDF measures from the bottom of the page
+  const fromTop = (y: number) => (LABEL_HEIGHT - y).toFixed(2);
+
+  const contents = labels.map((label) => {
+    const { name, price, code, bars } = layoutLabel(label);
+    const codeText = toAscii(code);
+    const codeWidth = codeText.length * CODE_SIZE * 0.55;
+
+    return [
+      "BT",
+      `/F1 ${NAME_SIZE} Tf`,
+      `${MARGIN} ${fromTop(MARGIN + NAME_SIZE)} Td`,
+      `(${escapePdf(toAscii(name))}) Tj`,
+      "ET",
+      ...(price
+        ? [
+            "BT",
+            `/F2 ${NAME_SIZE} Tf`,
+            `${(LABEL_WIDTH - MARGIN - price.length * NAME_SIZE * 0.6).toFixed(2)} ${fromTop(MARGIN + NAME_SIZE)} Td`,
+            `(${escapePdf(toAscii(price))}) Tj`,
+            "ET",
+          ]
+        : []),
+      ...bars.map((bar) => `${bar.x.toFixed(2)} ${fromTop(BAR_TOP + BAR_HEIGHT)} ${bar.width.toFixed(2)} ${BAR_HEIGHT} re`),
+      "f",
+      "BT",
+      `/F1 ${CODE_SIZE} Tf`,
+      `${((LABEL_WIDTH - codeWidth) / 2).toFixed(2)} ${fromTop(BAR_TOP + BAR_HEIGHT + CODE_SIZE + 3)} Td`,
+      `(${escapePdf(codeText)}) Tj`,
+      "ET",
+    ].join("\n");
+  });
+
+  // Catalog, page tree and fonts, then a page and its content for each label
+  const pageIds = contents.map((_, index) => 5 + index * 2);
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${contents.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+    ...contents.flatMap((content, index) => [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${LABEL_WIDTH} ${LABEL_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    ]),
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
+
+/**
+ * Render labels in the requested format along with the headers to serve them
+ */
+export const renderLabels = (
+  labels: BarcodeLabel[],
+  labelFormat: LabelFormat
+): { body: string | Buffer; contentType: string; filename: string } => {
+  const filename = labels.length === 1 ? `label-${labels[0].code.replace(/[^\w-]/g, "_")}` : "labels";
+
+  switch (labelFormat) {
+    case "pdf":
+      return { body: renderLabelsPdf(labels), contentType: "application/pdf", filename: `${filename}.pdf` };
+    default:
+      return { body: renderLabelsSvg(labels), contentType: "image/svg+xml; charset=utf-8", filename: `${filename}.svg` };
+  }
+};
@@ -0,0 +1,379 @@
+import { Customer, FinanceCategoryType, Payment, Prisma } from "@prisma/client";
+import { addDays } from "date-fns";
+import prisma from "@/lib/prisma";
+import { calculateChange, sumPayments } from "./paymentUtils";
+import { getOrCreateFinanceCategory } from "./financeUtils";
+import { getOpenShift } from "./shiftUtils";
+import { validateTabCharge } from "./customerUtils";
+import { fromWallTime, toWallTime } from "./recurrenceUtils";
+import { PaymentValues, TAB_PAYMENT_METHOD } from "./validations/payment";
+
+// Income category that membership and prepaid hour sales are posted to
+export const MEMBERSHIPS_CATEGORY_NAME = "Memberships";
+
+export interface PrepaidCardBalance {
+  id: string;
+  minutesRemaining: number;
+  expiresAt: Date | null;
+}
+
+export interface MemberBenefits {
+  membership: {
+    id: string;
+    planName: string;
+    discountPercent: number;
+    freeMinutesPerMonth: number;
+    freeMinutesRemaining: number;
+    expiresAt: Date;
+  } | null;
+  prepaidCards: PrepaidCardBalance[];
+  prepaidMinutes: number;
+}
+
+export interface AppliedMemberBenefits {
+  grossCost: number;
+  freeMinutes: number;
+  prepaidMinutes: number;
+  prepaidUsages: { cardId: string; minutes: number }[];
+  coveredAmount: number;
+  discountAmount: number;
+  netCost: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Free minutes reset at midnight on the 1st in the venue's time zone
+const getMonthStart = (at: Date, timeZone: string): Date => {
+  const wall = new Date(toWallTime(at, timeZone));
+  return fromWallTime(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), 1), timeZone);
+};
+
+const getFreeMinutesUsed = async (
+  client: Prisma.TransactionClient,
+  membershipId: string,
+  since: Date
+): Promise<number> => {
+  const used = await client.sessionMemberBenefit.aggregate({
+    where: { membershipId, createdAt: { gte: since } },
+    _sum: { freeMinutes: true },
+  });
+  return used._sum.freeMinutes ?? 0;
+};
+
+/**
+ * When a membership bought now would expire. Renewing before the current
+ * membership runs out extends it instead of overlapping it.
+ */
+export const calculateMembershipPeriod = (
+  durationDays: number,
+  currentExpiresAt?: Date | null,
+  now: Date = new Date()
+): { startsAt: Date; expiresAt: Date } => {
+  const startsAt = currentExpiresAt && currentExpiresAt > now ? currentExpiresAt : now;
+  return { startsAt, expiresAt: addDays(startsAt, durationDays) };
+};
+
+/**
+ * Load what a customer can put towards table time at a given moment:
+ * their active membership with the free minutes left this calendar month,
+ * and prepaid hour cards with time left, soonest to expire first
+ */
+export async function getMemberBenefits(
+  customerId: string,
+  at: Date = new Date(),
+  client: Prisma.TransactionClient = prisma
+): Promise<MemberBenefits> {
+  const [membership, cards] = await Promise.all([
+    client.customerMembership.findFirst({
+      where: {
+        customerId,
+        cancelledAt: null,
+        startsAt: { lte: at },
+        expiresAt: { gt: at },
+      },
+      include: { plan: true, company: { select: { timeZone: true } } },
+      orderBy: { expiresAt: "desc" },
+    }),
+    client.prepaidHourCard.findMany({
+      where: {
+        customerId,
+        minutesRemaining: { gt: 0 },
+        OR: [{ expiresAt: null }, { expiresAt: { gt: at } }],
+      },
+      orderBy: [{ expiresAt: { sort: "asc", nulls: "last" } }, { createdAt: "asc" }],
+    }),
+  ]);
+
+  let membershipBenefits: MemberBenefits["membership"] = null;
+
+  if (membership) {
+    const freeMinutesPerMonth = Math.round(Number(membership.plan.freeHoursPerMonth) * 60);
+    const used = await getFreeMinutesUsed(
+      client,
+      membership.id,
+      getMonthStart(at, membership.company.timeZone)
+    );
+
+    membershipBenefits = {
+      id: membership.id,
+      planName: membership.plan.name,
+      discountPercent: Number(membership.plan.discountPercent),
+      freeMinutesPerMonth,
+      freeMinutesRemaining: Math.max(0, freeMinutesPerMonth - used),
+      expiresAt: membership.expiresAt,
+    };
+  }
+
+  const prepaidCards = cards.map((card) => ({
+    id: card.id,
+    minutesRemaining: card.minutesRemaining,
+    expiresAt: card.expiresAt,
+  }));
+
+  return {
+    membership: membershipBenefits,
+    prepaidCards,
+    prepaidMinutes: prepaidCards.reduce((sum, card) => sum + card.minutesRemaining, 0),
+  };
+}
+
+/**
+ * Put a member's benefits towards the cost of a session. Free monthly minutes
+ * are used first, then prepaid hours; the time they cover is taken off the
+ * cost pro rata, and the plan discount applies to whatever is left to pay.
+ */
+export const applyMemberBenefits = (
+  billedMinutes: number,
+  grossCost: number,
+  benefits: MemberBenefits
+): AppliedMemberBenefits => {
+  let minutesLeft = Math.max(0, billedMinutes);
+
+  const freeMinutes = Math.min(minutesLeft, benefits.membership?.freeMinutesRemaining ?? 0);
+  minutesLeft -= freeMinutes;
+
+  const prepaidUsages: AppliedMemberBenefits["prepaidUsages"] = [];
+  for (const card of benefits.prepaidCards) {
+    if (minutesLeft <= 0) break;
+    const minutes = Math.min(minutesLeft, card.minutesRemaining);
+    prepaidUsages.push({ cardId: card.id, minutes });
+    minutesLeft -= minutes;
+  }
+  const prepaidMinutes = prepaidUsages.reduce((sum, usage) => sum + usage.minutes, 0);
+
+  const coveredAmount = billedMinutes > 0
+    ? roundCurrency((grossCost * (freeMinutes + prepaidMinutes)) / billedMinutes)
+    : 0;
+  const remaining = sumPayments([{ amount: grossCost }, { amount: -coveredAmount }]);
+  const discountAmount = roundCurrency((remaining * (benefits.membership?.discountPercent ?? 0)) / 100);
+
+  return {
+    grossCost: roundCurrency(grossCost),
+    freeMinutes,
+    prepaidMinutes,
+    prepaidUsages,
+    coveredAmount,
+    discountAmount,
+    netCost: sumPayments([{ amount: remaining }, { amount: -discountAmount }]),
+  };
+};
+
+/**
+ * Price a session for its customer. Sessions without a customer,
+ * or whose customer has nothing to put towards it, pay the full cost.
+ */
+export async function priceSessionForCustomer(
+  customerId: string | null,
+  billedMinutes: number,
+  grossCost: number,
+  at: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<{ benefits: MemberBenefits | null; applied: AppliedMemberBenefits | null }> {
+  if (!customerId) return { benefits: null, applied: null };
+
+  const benefits = await getMemberBenefits(customerId, at, client);
+  if (!benefits.membership && benefits.prepaidMinutes === 0) {
+    return { benefits, applied: null };
+  }
+
+  return { benefits, applied: applyMemberBenefits(billedMinutes, grossCost, benefits) };
+}
+
+/**
+ * Thrown when free monthly minutes or prepaid hours a session was priced
+ * with are no longer there, because another session used them meanwhile
+ */
+export class MemberBenefitsUsedError extends Error {
+  constructor(benefit: string) {
+    super(`${benefit} were used by another session meanwhile. Try again to use what is left.`);
+    this.name = "MemberBenefitsUsedError";
+  }
+}
+
+/**
+ * Record the benefits used by a session and take the prepaid minutes
+ * off the customer's cards. Must run in the transaction that ends the session;
+ * free minutes are checked again under a lock on the membership.
+ */
+export async function recordMemberBenefits(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  customerId: string,
+  membershipId: string | null,
+  applied: AppliedMemberBenefits
+) {
+  if (membershipId && applied.freeMinutes > 0) {
+    await tx.$queryRaw`SELECT id FROM customer_memberships WHERE id = ${membershipId}::uuid FOR UPDATE`;
+
+    const membership = await tx.customerMembership.findUniqueOrThrow({
+      where: { id: membershipId },
+      include: { plan: true, company: { select: { timeZone: true } } },
+    });
+    const freeMinutesPerMonth = Math.round(Number(membership.plan.freeHoursPerMonth) * 60);
+    const used = await getFreeMinutesUsed(
+      tx,
+      membershipId,
+      getMonthStart(new Date(), membership.company.timeZone)
+    );
+
+    if (used + applied.freeMinutes > freeMinutesPerMonth) {
+      throw new MemberBenefitsUsedError("Free monthly minutes");
+    }
+  }
+
+  for (const usage of applied.prepaidUsages) {
+    // Only take the minutes if they are still on the card
+    const { count } = await tx.prepaidHourCard.updateMany({
+      where: { id: usage.cardId, minutesRemaining: { gte: usage.minutes } },
+      data: { minutesRemaining: { decrement: usage.minutes } },
+    });
+
+    if (count === 0) {
+      throw new MemberBenefitsUsedError("Prepaid hours");
+    }
+
+    await tx.prepaidHourUsage.create({
+      data: { cardId: usage.cardId, sessionId, minutes: usage.minutes },
+    });
+  }
+
+  return tx.sessionMemberBenefit.create({
+    data: {
+      sessionId,
+      customerId,
+      membershipId,
+      grossCost: applied.grossCost,
+      freeMinutes: applied.freeMinutes,
+      prepaidMinutes: applied.prepaidMinutes,
+      coveredAmount: applied.coveredAmount,
+      discountAmount: applied.discountAmount,
+    },
+  });
+}
+
+/**
+ * Check that payments for a membership or a block of prepaid hours can be
+ * taken: they must cover the price exactly, cash needs an open drawer and
+ * anything charged to the customer's tab has to fit within their credit limit.
+ * Returns the open shift the payments belong to.
+ */
+export async function validateMembershipSale(
+  tx: Prisma.TransactionClient,
+  customer: Customer,
+  price: number,
+  payments: PaymentValues[]
+): Promise<{ error: string; httpStatus: number } | { shiftId: string | null }> {
+  if (!customer.active) {
+    return { error: `${customer.name}'s account is closed`, httpStatus: 400 };
+  }
+
+  const paymentTotal = sumPayments(payments);
+  if (Math.round(paymentTotal * 100) !== Math.round(price * 100)) {
+    return {
+      error: `Payments (${paymentTotal.toFixed(2)}) must add up to the price (${price.toFixed(2)})`,
+      httpStatus: 400,
+    };
+  }
+
+  // Cash goes into the drawer of the open shift
+  const shift = await getOpenShift(customer.companyId, tx);
+  if (!shift && payments.some((payment) => payment.method === "CASH")) {
+    return { error: "Open a cash drawer shift before taking cash payments", httpStatus: 400 };
+  }
+
+  const tabTotal = sumPayments(payments.filter((payment) => payment.method === TAB_PAYMENT_METHOD));
+  if (tabTotal > 0) {
+    const tabError = await validateTabCharge(customer, tabTotal, tx);
+    if (tabError) return { error: tabError, httpStatus: 400 };
+  }
+
+  return { shiftId: shift?.id ?? null };
+}
+
+/**
+ * Record the payments for a validated membership or prepaid hours sale
+ * and post the income
+ */
+export async function recordMembershipSale(
+  tx: Prisma.TransactionClient,
+  {
+    customer,
+    staffId,
+    shiftId,
+    price,
+    payments,
+    description,
+    membershipId = null,
+    prepaidCardId = null,
+  }: {
+    customer: Customer;
+    staffId: string;
+    shiftId: string | null;
+    price: number;
+    payments: PaymentValues[];
+    description: string;
+    membershipId?: string | null;
+    prepaidCardId?: string | null;
+  }
+): Promise<Payment[]> {
+  if (price > 0) {
+    const category = await getOrCreateFinanceCategory(
+      customer.companyId,
+      MEMBERSHIPS_CATEGORY_NAME,
+      FinanceCategoryType.INCOME,
+      tx
+    );
+
+    await tx.financeTransaction.create({
+      data: {
+        companyId: customer.companyId,
+        categoryId: category.id,
+        amount: price,
+        transactionDate: new Date(),
+        description,
+        staffId,
+      },
+    });
+  }
+
+  // Only tab charges carry the customer, other customer payments settle the tab
+  return Promise.all(
+    payments.map((payment) =>
+      tx.payment.create({
+        data: {
+          companyId: customer.companyId,
+          staffId,
+          method: payment.method,
+          amount: payment.amount,
+          tenderedAmount: payment.tenderedAmount ?? null,
+          changeAmount: calculateChange(payment.amount, payment.tenderedAmount),
+          payerName: payment.payerName || customer.name,
+          shiftId,
+          customerId: payment.method === TAB_PAYMENT_METHOD ? customer.id : null,
+          membershipId,
+          prepaidCardId,
+        },
+      })
+    )
+  );
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateChange,
+  getMethodShare,
+  getOutstandingBalance,
+  getPaymentStatus,
+  splitByItems,
+  splitEvenly,
+  sumPayments,
+} from "./paymentUtils";
+
+describe("splitEvenly", () => {
+  it("gives the leftover cents to the first payers", () => {
+    expect(splitEvenly(10, 3)).toEqual([3.34, 3.33, 3.33]);
+    expect(splitEvenly(0.05, 2)).toEqual([0.03, 0.02]);
+  });
+
+  it("splits nothing without payers", () => {
+    expect(splitEvenly(10, 0)).toEqual([]);
+  });
+});
+
+describe("splitByItems", () => {
+  const items = [
+    { id: "burger", lineTotal: 10 },
+    { id: "chips", lineTotal: 5 },
+    { id: "sauce", lineTotal: 0.05 },
+  ];
+
+  it("charges assigned items to their payer and shares the rest", () => {
+    expect(splitByItems(items, { burger: 0 }, 2)).toEqual([12.53, 2.52]);
+  });
+
+  it("shares items assigned to a payer who isn't there", () => {
+    expect(splitByItems(items, { burger: 2 }, 2)).toEqual([7.53, 7.52]);
+  });
+
+  it("always adds up to the bill", () => {
+    const shares = splitByItems(items, { chips: 1 }, 3);
+    expect(sumPayments(shares.map((amount) => ({ amount })))).toBe(15.05);
+  });
+});
+
+describe("sumPayments", () => {
+  it("adds up in cents", () => {
+    expect(sumPayments([{ amount: 0.1 }, { amount: 0.2 }])).toBe(0.3);
+  });
+});
+
+describe("calculateChange", () => {
+  it("gives change on what was tendered over the amount", () => {
+    expect(calculateChange(12.5, 20)).toBe(7.5);
+  });
+
+  it("gives no change when nothing or too little was tendered", () => {
+    expect(calculateChange(12.5)).toBe(0);
+    expect(calculateChange(12.5, 10)).toBe(0);
+  });
+});
+
+describe("getOutstandingBalance", () => {
+  it("never goes below zero", () => {
+    expect(getOutstandingBalance(20.1, 5.05)).toBe(15.05);
+    expect(getOutstandingBalance(20, 25)).toBe(0);
+  });
+});
+
+describe("getPaymentStatus", () => {
+  it("follows what has been paid", () => {
+    expect(getPaymentStatus(20, 0)).toBe("UNPAID");
+    expect(getPaymentStatus(20, 10)).toBe("PARTIAL");
+    expect(getPaymentStatus(20, 20)).toBe("PAID");
+  });
+});
+
+describe("getMethodShare", () => {
+  it("is the part paid with the method", () => {
+    expect(
+      getMethodShare(
+        [
+          { method: "CASH", amount: 30 },
+          { method: "CARD", amount: 10 },
+        ],
+        "CASH"
+      )
+    ).toBe(0.75);
+  });
+
+  it("is nothing when nothing was paid", () => {
+    expect(getMethodShare([], "CASH")).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { PaymentValues } from "./validations/payment";
+
+export type PaymentStatus = "PAID" | "PARTIAL" | "UNPAID";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentValues["method"], string> = {
+  CASH: "Cash",
+  CARD: "Card",
+  TRANSFER: "Transfer",
+  QR: "QR",
+  TAB: "House tab",
+};
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+const fromCents = (cents: number): number => cents / 100;
+
+/**
+ * Amount still owed on a bill, never negative
+ */
+export const getOutstandingBalance = (total: number, paid: number): number => {
+  return fromCents(Math.max(0, toCents(total) - toCents(paid)));
+};
+
+/**
+ * Derive the payment status of a bill from what has been paid so far
+ */
+export const getPaymentStatus = (total: number, paid: number): PaymentStatus => {
+  if (toCents(paid) <= 0) return "UNPAID";
+  if (toCents(paid) >= toCents(total)) return "PAID";
+  return "PARTIAL";
+};
+
+/**
+ * The part of what was paid that was paid one way, e.g. how much of a
+ * refund comes out of the drawer or goes back on a tab. Nothing paid means
+ * no part of it was paid that way.
+ */
+export const getMethodShare = (
+  payments: { method: string; amount: number }[],
+  method: PaymentValues["method"]
+): number => {
+  const total = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  if (total <= 0) return 0;
+
+  const paidWithMethod = payments
+    .filter((payment) => payment.method === method)
+    .reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  return paidWithMethod / total;
+};
+
+/**
+ * Change to hand back for a cash payment
+ */
+export const calculateChange = (amount: number, tendered?: number | null): number => {
+  if (tendered == null) return 0;
+  return fromCents(Math.max(0, toCents(tendered) - toCents(amount)));
+};
+
+/**
+ * Split an amount evenly between payers. Leftover cents go to the first
+ * payers so the shares always add up to the original amount.
+ */
+export const splitEvenly = (amount: number, payers: number): number[] => {
+  if (payers < 1) return [];
+
+  const totalCents = toCents(amount);
+  const baseShare = Math.floor(totalCents / payers);
+  const remainder = totalCents - baseShare * payers;
+
+  return Array.from({ length: payers }, (_, index) =>
+    fromCents(baseShare + (index < remainder ? 1 : 0))
+  );
+};
+
+/**
+ * Split a bill by line item: each item is charged to the payer it is assigned to.
+ * Items without an assignment are shared evenly by everyone.
+ */
+export const splitByItems = (
+  items: { id: string; lineTotal: number }[],
+  assignments: Record<string, number>,
+  payers: number
+): number[] => {
+  if (payers < 1) return [];
+
+  const shares = Array.from({ length: payers }, () => 0);
+
+  items.forEach((item) => {
+    const payer = assignments[item.id];
+    if (payer !== undefined && payer >= 0 && payer < payers) {
+      shares[payer] += toCents(item.lineTotal);
+    } else {
+      splitEvenly(item.lineTotal, payers).forEach((share, index) => {
+        shares[index] += toCents(share);
+      });
+    }
+  });
+
+  return shares.map(fromCents);
+};
+
+/**
+ * Total applied to the bill by a set of payments
+ */
+export const sumPayments = (payments: Pick<PaymentValues, "amount">[]): number => {
+  return fromCents(payments.reduce((sum, payment) => sum + toCents(payment.amount), 0));
+};
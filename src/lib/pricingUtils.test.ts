@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { PricingRule, Prisma, Table } from "@prisma/client";
+import {
+  calculateSessionCostBreakdown,
+  getEarlierTabTime,
+  PricingSettings,
+  ruleAppliesAt,
+} from "./pricingUtils";
+
+const table = {
+  id: "table-1",
+  companyId: "company-1",
+  name: "Table 1",
+  type: "POOL",
+  status: null,
+  hourlyRate: new Prisma.Decimal(12),
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+} as Table;
+
+const makeSettings = (overrides: Partial<PricingSettings> = {}): PricingSettings => ({
+  minimumCharge: null,
+  billingIncrementMin: 1,
+  timeZone: "UTC",
+  ...overrides,
+});
+
+const makeRule = (overrides: Partial<PricingRule>): PricingRule => ({
+  id: "rule-1",
+  companyId: "company-1",
+  name: "Evening",
+  tableType: null,
+  daysOfWeek: [],
+  startTime: null,
+  endTime: null,
+  hourlyRate: new Prisma.Decimal(18),
+  priority: 0,
+  active: true,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+  ...overrides,
+});
+
+const makeSession = (
+  startedAt: string,
+  endedAt: string,
+  pauses: { pausedAt: string; resumedAt: string | null }[] = []
+) => ({
+  startedAt: new Date(startedAt),
+  endedAt: new Date(endedAt),
+  pauses: pauses.map((pause) => ({
+    pausedAt: new Date(pause.pausedAt),
+    resumedAt: pause.resumedAt ? new Date(pause.resumedAt) : null,
+  })),
+});
+
+describe("calculateSessionCostBreakdown", () => {
+  it("charges the table's hourly rate when no rule applies", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T10:00:00Z", "2026-01-05T11:30:00Z"),
+      table,
+      [],
+      makeSettings()
+    );
+
+    expect(breakdown.elapsedMinutes).toBe(90);
+    expect(breakdown.billedMinutes).toBe(90);
+    expect(breakdown.segments).toHaveLength(1);
+    expect(breakdown.segments[0]).toMatchObject({ label: "Standard rate", minutes: 90, cost: 18 });
+    expect(breakdown.total).toBe(18);
+  });
+
+  it("rounds part-hour costs to the cent", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T10:00:00Z", "2026-01-05T10:07:00Z"),
+      { ...table, hourlyRate: new Prisma.Decimal(10) },
+      [],
+      makeSettings()
+    );
+
+    expect(breakdown.total).toBe(1.17);
+  });
+
+  it("splits the session where the rate changes", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T16:30:00Z", "2026-01-05T17:30:00Z"),
+      table,
+      [makeRule({ startTime: "17:00", endTime: "23:00" })],
+      makeSettings()
+    );
+
+    expect(breakdown.segments.map(({ label, minutes, cost }) => ({ label, minutes, cost }))).toEqual([
+      { label: "Standard rate", minutes: 30, cost: 6 },
+      { label: "Evening", minutes: 30, cost: 9 },
+    ]);
+    expect(breakdown.total).toBe(15);
+  });
+
+  it("reads rule times on the venue's clock", () => {
+    // 16:00 UTC is 17:00 in London during summer time
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-07-06T16:00:00Z", "2026-07-06T16:30:00Z"),
+      table,
+      [makeRule({ startTime: "17:00", endTime: "23:00" })],
+      makeSettings({ timeZone: "Europe/London" })
+    );
+
+    expect(breakdown.segments).toHaveLength(1);
+    expect(breakdown.segments[0].label).toBe("Evening");
+    expect(breakdown.total).toBe(9);
+  });
+
+  it("leaves paused time out and starts a new segment after a pause", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T10:00:00Z", "2026-01-05T11:00:00Z", [
+        { pausedAt: "2026-01-05T10:20:00Z", resumedAt: "2026-01-05T10:40:00Z" },
+      ]),
+      table,
+      [],
+      makeSettings()
+    );
+
+    expect(breakdown.elapsedMinutes).toBe(40);
+    expect(breakdown.segments.map((segment) => segment.minutes)).toEqual([20, 20]);
+    expect(breakdown.segments[1].startedAt).toBe("2026-01-05T10:40:00.000Z");
+    expect(breakdown.total).toBe(8);
+  });
+
+  it("rounds up to the billing increment at the last rate", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T10:00:00Z", "2026-01-05T11:01:00Z"),
+      table,
+      [],
+      makeSettings({ billingIncrementMin: 15 })
+    );
+
+    expect(breakdown.billedMinutes).toBe(75);
+    expect(breakdown.roundingMinutes).toBe(14);
+    expect(breakdown.total).toBe(15);
+  });
+
+  it("holds the session to the minimum charge", () => {
+    const breakdown = calculateSessionCostBreakdown(
+      makeSession("2026-01-05T10:00:00Z", "2026-01-05T10:10:00Z"),
+      table,
+      [],
+      makeSettings({ minimumCharge: new Prisma.Decimal(5) })
+    );
+
+    expect(breakdown.subtotal).toBe(2);
+    expect(breakdown.minimumChargeApplied).toBe(true);
+    expect(breakdown.total).toBe(5);
+  });
+
+  describe("on a tab moved between tables", () => {
+    const settings = makeSettings({ billingIncrementMin: 15, minimumCharge: new Prisma.Decimal(5) });
+
+    it("doesn't round or apply the minimum to a table the customer moves from", () => {
+      const breakdown = calculateSessionCostBreakdown(
+        makeSession("2026-01-05T10:00:00Z", "2026-01-05T10:07:00Z"),
+        table,
+        [],
+        settings,
+        { endsInTransfer: true }
+      );
+
+      expect(breakdown.billedMinutes).toBe(7);
+      expect(breakdown.minimumChargeApplied).toBe(false);
+      expect(breakdown.total).toBe(1.4);
+    });
+
+    it("rounds the whole tab once on the last table", () => {
+      const breakdown = calculateSessionCostBreakdown(
+        makeSession("2026-01-05T10:07:00Z", "2026-01-05T10:17:00Z"),
+        table,
+        [],
+        settings,
+        { earlierMinutes: 7, earlierCost: 1.4 }
+      );
+
+      // 17 minutes on the tab round up to 30, 23 of them on this table
+      expect(breakdown.billedMinutes).toBe(23);
+      expect(breakdown.total).toBe(4.6);
+      expect(breakdown.minimumChargeApplied).toBe(false);
+    });
+
+    it("only charges what the earlier tables left of the minimum", () => {
+      const breakdown = calculateSessionCostBreakdown(
+        makeSession("2026-01-05T10:07:00Z", "2026-01-05T10:17:00Z"),
+        table,
+        [],
+        { ...settings, minimumCharge: new Prisma.Decimal(10) },
+        { earlierMinutes: 7, earlierCost: 1.4 }
+      );
+
+      expect(breakdown.minimumChargeApplied).toBe(true);
+      expect(breakdown.total).toBe(8.6);
+    });
+  });
+});
+
+describe("ruleAppliesAt", () => {
+  const lateNight = makeRule({ startTime: "22:00", endTime: "02:00", daysOfWeek: [5] });
+
+  it("checks windows past midnight against the day they opened", () => {
+    // Saturday 01:00 belongs to Friday night's window
+    expect(ruleAppliesAt(lateNight, table, new Date("2026-01-10T01:00:00Z"), "UTC")).toBe(true);
+    expect(ruleAppliesAt(lateNight, table, new Date("2026-01-10T23:00:00Z"), "UTC")).toBe(false);
+  });
+
+  it("skips rules for another table type", () => {
+    expect(ruleAppliesAt(makeRule({ tableType: "SNOOKER" }), table, new Date("2026-01-05T12:00:00Z"))).toBe(false);
+  });
+});
+
+describe("getEarlierTabTime", () => {
+  it("adds up the earlier tables at their cost before benefits and combos", () => {
+    const previousSessions = [
+      {
+        durationMin: 30,
+        totalCost: new Prisma.Decimal(4),
+        memberBenefit: { grossCost: new Prisma.Decimal(6) },
+        comboTimeUsages: [{ credit: new Prisma.Decimal(1.5) }],
+      },
+      { durationMin: 15, totalCost: new Prisma.Decimal(3), memberBenefit: null, comboTimeUsages: [] },
+    ] as unknown as Parameters<typeof getEarlierTabTime>[0];
+
+    expect(getEarlierTabTime(previousSessions)).toEqual({ earlierMinutes: 45, earlierCost: 10.5 });
+  });
+});
@@ -0,0 +1,320 @@
+import { Company, PricingRule, Prisma, Table } from "@prisma/client";
+import { db } from "./db";
+import { toWallTime } from "./recurrenceUtils";
+import { calculateSessionDuration, SessionWithPauses } from "./tableUtils";
+
+export type PricingSettings = Pick<Company, "minimumCharge" | "billingIncrementMin" | "timeZone">;
+
+export interface CostSegment {
+  ruleId: string | null;
+  label: string;
+  startedAt: string;
+  endedAt: string;
+  minutes: number;
+  hourlyRate: number;
+  cost: number;
+}
+
+export interface SessionCostBreakdown {
+  segments: CostSegment[];
+  elapsedMinutes: number;
+  billedMinutes: number;
+  roundingMinutes: number;
+  subtotal: number;
+  minimumCharge: number;
+  minimumChargeApplied: boolean;
+  total: number;
+}
+
+/**
+ * Where a session's time sits on its tab. Time on a table the customer moves
+ * from isn't rounded or held to the minimum charge; the last table does that
+ * once for the whole tab, counting the time and cost of the tables before it.
+ */
+export interface TabPosition {
+  endsInTransfer?: boolean;
+  earlierMinutes?: number;
+  earlierCost?: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Convert an "HH:mm" string into minutes since midnight
+ */
+export const toMinuteOfDay = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Check whether a rule applies at a given moment, on the venue's clock.
+ * Windows that end before they start (e.g. 22:00 - 02:00) wrap past midnight,
+ * in which case the day-of-week filter is checked against the day the window opened.
+ */
+export const ruleAppliesAt = (rule: PricingRule, table: Table, at: Date, timeZone?: string): boolean => {
+  if (!rule.active) return false;
+  if (rule.tableType && rule.tableType !== table.type) return false;
+
+  const wallTime = new Date(toWallTime(at, timeZone));
+  const day = wallTime.getUTCDay();
+  const minuteOfDay = wallTime.getUTCHours() * 60 + wallTime.getUTCMinutes();
+  const matchesDay = (d: number) => rule.daysOfWeek.length === 0 || rule.daysOfWeek.includes(d);
+
+  if (!rule.startTime || !rule.endTime) {
+    return matchesDay(day);
+  }
+
+  const start = toMinuteOfDay(rule.startTime);
+  const end = toMinuteOfDay(rule.endTime);
+
+  if (start === end) {
+    return matchesDay(day);
+  }
+
+  if (start < end) {
+    return matchesDay(day) && minuteOfDay >= start && minuteOfDay < end;
+  }
+
+  // Window wraps past midnight
+  if (minuteOfDay >= start) {
+    return matchesDay(day);
+  }
+  return minuteOfDay < end && matchesDay((day + 6) % 7);
+};
+
+/**
+ * Pick the rule that wins at a given moment: highest priority first,
+ * then rules scoped to a table type over company-wide rules
+ */
+export const findApplicableRule = (
+  rules: PricingRule[],
+  table: Table,
+  at: Date,
+  timeZone?: string
+): PricingRule | null => {
+  const matching = rules.filter((rule) => ruleAppliesAt(rule, table, at, timeZone));
+  if (matching.length === 0) return null;
+
+  matching.sort((a, b) => {
+    if (b.priority !== a.priority) return b.priority - a.priority;
+    return Number(Boolean(b.tableType)) - Number(Boolean(a.tableType));
+  });
+
+  return matching[0];
+};
+
+/**
+ * Move a timestamp past any pause it falls into
+ */
+const skipPauses = (time: number, pauses: SessionWithPauses["pauses"], endTime: number): number => {
+  let cursor = time;
+  let moved = true;
+
+  while (moved && pauses) {
+    moved = false;
+    for (const pause of pauses) {
+      const pauseStart = new Date(pause.pausedAt).getTime();
+      const pauseEnd = pause.resumedAt ? new Date(pause.resumedAt).getTime() : endTime;
+      if (cursor >= pauseStart && cursor < pauseEnd) {
+        cursor = pauseEnd;
+        moved = true;
+      }
+    }
+  }
+
+  return cursor;
+};
+
+/**
+ * Calculate an itemized cost for a session, splitting it into segments
+ * wherever the applicable rate changes or the session was paused. Minutes that
+ * are not covered by any rule are charged at the table's base hourly rate.
+ */
+export const calculateSessionCostBreakdown = (
+  session: Pick<SessionWithPauses, "startedAt" | "endedAt" | "pauses">,
+  table: Table,
+  rules: PricingRule[],
+  settings: PricingSettings,
+  tab: TabPosition = {}
+): SessionCostBreakdown => {
+  const { endsInTransfer = false, earlierMinutes = 0, earlierCost = 0 } = tab;
+  const startTime = new Date(session.startedAt).getTime();
+  // Time that hasn't happened yet isn't billed, which also bounds the walk below
+  const endTime = Math.min(session.endedAt ? new Date(session.endedAt).getTime() : Date.now(), Date.now());
+  const elapsedMinutes = calculateSessionDuration({ ...session, endedAt: new Date(endTime) });
+  const baseRate = table.hourlyRate ? parseFloat(table.hourlyRate.toString()) : 0;
+
+  const segments: CostSegment[] = [];
+  let cursor = startTime;
+
+  for (let minute = 0; minute < elapsedMinutes; minute++) {
+    const resumedAt = skipPauses(cursor, session.pauses, endTime);
+    const wasPaused = resumedAt !== cursor;
+    cursor = resumedAt;
+
+    const at = new Date(cursor);
+    const rule = findApplicableRule(rules, table, at, settings.timeZone);
+    const ruleId = rule?.id ?? null;
+    const hourlyRate = rule ? parseFloat(rule.hourlyRate.toString()) : baseRate;
+    const current = segments[segments.length - 1];
+    cursor += MINUTE_MS;
+
+    if (current && !wasPaused && current.ruleId === ruleId && current.hourlyRate === hourlyRate) {
+      current.minutes += 1;
+      current.endedAt = new Date(cursor).toISOString();
+    } else {
+      segments.push({
+        ruleId,
+        label: rule?.name ?? "Standard rate",
+        startedAt: at.toISOString(),
+        endedAt: new Date(at.getTime() + MINUTE_MS).toISOString(),
+        minutes: 1,
+        hourlyRate,
+        cost: 0,
+      });
+    }
+  }
+
+  // Round the tab up to the billing increment; the extra minutes are charged at the last rate
+  const increment = endsInTransfer ? 1 : Math.max(1, settings.billingIncrementMin);
+  const tabMinutes = earlierMinutes + elapsedMinutes;
+  const billedMinutes = Math.max(0, Math.ceil(tabMinutes / increment) * increment - earlierMinutes);
+  const roundingMinutes = Math.max(0, billedMinutes - elapsedMinutes);
+
+  if (roundingMinutes > 0 && segments.length > 0) {
+    segments[segments.length - 1].minutes += roundingMinutes;
+  }
+
+  segments.forEach((segment) => {
+    segment.cost = roundCurrency((segment.hourlyRate * segment.minutes) / 60);
+  });
+
+  const subtotal = roundCurrency(segments.reduce((sum, segment) => sum + segment.cost, 0));
+  const minimumCharge = settings.minimumCharge ? parseFloat(settings.minimumCharge.toString()) : 0;
+  const minimumChargeApplied = !endsInTransfer && minimumCharge > earlierCost + subtotal;
+
+  return {
+    segments,
+    elapsedMinutes,
+    billedMinutes,
+    roundingMinutes,
+    subtotal,
+    minimumCharge,
+    minimumChargeApplied,
+    total: minimumChargeApplied ? roundCurrency(minimumCharge - earlierCost) : subtotal,
+  };
+};
+
+/**
+ * Load the active pricing rules and settings for a company
+ */
+export async function getPricingContext(companyId: string) {
+  const [rules, company] = await Promise.all([
+    db.pricingRule.findMany({
+      where: { companyId, active: true },
+      orderBy: { priority: "desc" },
+    }),
+    db.company.findUnique({
+      where: { id: companyId },
+      select: { minimumCharge: true, billingIncrementMin: true, timeZone: true },
+    }),
+  ]);
+
+  return {
+    rules,
+    settings: company ?? { minimumCharge: null, billingIncrementMin: 1, timeZone: "UTC" },
+  };
+}
+
+/**
+ * Thrown when a session is ended, checked out or moved by someone else
+ * while this request was being handled
+ */
+export class SessionAlreadyEndedError extends Error {
+  constructor() {
+    super("Session has already been ended");
+    this.name = "SessionAlreadyEndedError";
+  }
+}
+
+/**
+ * Thrown when a session is moved to a table that was taken by someone else
+ * while this request was being handled
+ */
+export class TableOccupiedError extends Error {
+  constructor() {
+    super("Target table already has an active session");
+    this.name = "TableOccupiedError";
+  }
+}
+
+/**
+ * Close a running session unless another request closed it first. Call it
+ * before recording what the session used, in the same transaction, so combo
+ * time and member hours are only ever taken once.
+ */
+export async function closeRunningSession(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  data: Prisma.TableSessionUpdateManyMutationInput
+) {
+  const { count } = await tx.tableSession.updateMany({
+    where: { id: sessionId, endedAt: null },
+    data,
+  });
+
+  if (count === 0) {
+    throw new SessionAlreadyEndedError();
+  }
+}
+
+/**
+ * Walk back through the sessions a session was transferred from,
+ * oldest first, so the time on every table can be billed as one tab
+ */
+export async function getTransferredSessions(sessionId: string) {
+  const previous = [];
+  let current = await db.tableSession.findUnique({
+    where: { id: sessionId },
+    select: { transferredFromId: true },
+  });
+
+  while (current?.transferredFromId) {
+    const session = await db.tableSession.findUnique({
+      where: { id: current.transferredFromId },
+      include: {
+        table: { select: { id: true, name: true } },
+        memberBenefit: { select: { grossCost: true } },
+        comboTimeUsages: { select: { credit: true } },
+      },
+    });
+    if (!session) break;
+
+    previous.unshift(session);
+    current = session;
+  }
+
+  return previous;
+}
+
+/**
+ * The time and cost of the tables a session was moved from, before combo
+ * deals and member benefits, so the last table can price the tab as a whole
+ */
+export const getEarlierTabTime = (
+  previousSessions: Awaited<ReturnType<typeof getTransferredSessions>>
+): Pick<TabPosition, "earlierMinutes" | "earlierCost"> => ({
+  earlierMinutes: previousSessions.reduce((sum, previous) => sum + (previous.durationMin ?? 0), 0),
+  earlierCost: roundCurrency(
+    previousSessions.reduce(
+      (sum, previous) =>
+        sum +
+        Number(previous.memberBenefit?.grossCost ?? previous.totalCost ?? 0) +
+        previous.comboTimeUsages.reduce((credit, usage) => credit + Number(usage.credit), 0),
+      0
+    )
+  ),
+});
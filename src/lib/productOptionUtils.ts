@@ -0,0 +1,118 @@
+import { InventoryItem, ProductModifier, ProductVariant } from "@prisma/client";
+
+export type ItemWithOptions = InventoryItem & {
+  variants: ProductVariant[];
+  modifiers: ProductModifier[];
+};
+
+export interface OrderItemRequest {
+  inventoryItemId: string;
+  quantity: number;
+  variantId?: string | null;
+  modifierIds?: string[];
+}
+
+export interface ChosenModifier {
+  modifierId: string;
+  name: string;
+  priceDelta: number;
+}
+
+export interface StockDeduction {
+  itemId: string;
+  quantity: number;
+}
+
+export interface ResolvedOptions {
+  variant: ProductVariant | null;
+  modifiers: ChosenModifier[];
+  // What one unit costs with the chosen options
+  unitPrice: number;
+  // What one unit takes out of stock
+  stockPerUnit: StockDeduction[];
+}
+
+/**
+ * Name an order line with its options, e.g. "IPA (Pint) + Lime"
+ */
+export const formatItemName = (
+  itemName: string,
+  variantName?: string | null,
+  modifierNames: string[] = []
+): string =>
+  [variantName ? `${itemName} (${variantName})` : itemName, ...modifierNames].join(" + ");
+
+/**
+ * Check the chosen variant and modifiers belong to the item and are still on
+ * sale, then work out what a unit costs and what it takes out of stock.
+ * Items with variants must be sold as one of them.
+ */
+export const resolveOptions = (
+  item: ItemWithOptions,
+  { variantId, modifierIds = [] }: Pick<OrderItemRequest, "variantId" | "modifierIds">
+): { error: string; httpStatus: number } | ResolvedOptions => {
+  const activeVariants = item.variants.filter((variant) => variant.active);
+  let variant: ProductVariant | null = null;
+
+  if (variantId) {
+    variant = activeVariants.find((candidate) => candidate.id === variantId) ?? null;
+    if (!variant) {
+      return { error: `That option is no longer available for ${item.name}`, httpStatus: 400 };
+    }
+  } else if (activeVariants.length > 0) {
+    return { error: `Choose an option for ${item.name}`, httpStatus: 400 };
+  } else if (item.price === null) {
+    return { error: `${item.name} has no price and can't be sold`, httpStatus: 400 };
+  }
+
+  const modifiers: ProductModifier[] = [];
+  for (const modifierId of Array.from(new Set(modifierIds))) {
+    const modifier = item.modifiers.find((candidate) => candidate.id === modifierId && candidate.active);
+    if (!modifier) {
+      return { error: `That add-on is no longer available for ${item.name}`, httpStatus: 400 };
+    }
+    modifiers.push(modifier);
+  }
+
+  const basePrice = Number(variant ? variant.price : item.price ?? 0);
+  const unitPrice = modifiers.reduce(
+    (sum, modifier) => Math.round((sum + Number(modifier.priceDelta)) * 100) / 100,
+    basePrice
+  );
+
+  if (unitPrice < 0) {
+    return { error: `The add-ons chosen take ${item.name} below zero`, httpStatus: 400 };
+  }
+
+  const stockPerUnit = mergeDeductions([
+    variant
+      ? { itemId: variant.stockItemId ?? item.id, quantity: variant.stockQuantity }
+      : { itemId: item.id, quantity: 1 },
+    ...modifiers
+      .filter((modifier) => modifier.stockItemId)
+      .map((modifier) => ({ itemId: modifier.stockItemId!, quantity: modifier.stockQuantity })),
+  ]);
+
+  return {
+    variant,
+    modifiers: modifiers.map((modifier) => ({
+      modifierId: modifier.id,
+      name: modifier.name,
+      priceDelta: Number(modifier.priceDelta),
+    })),
+    unitPrice,
+    stockPerUnit,
+  };
+};
+
+/**
+ * Combine deductions from the same stock item, e.g. a variant and an add-on
+ * that both pour from the same keg
+ */
+export const mergeDeductions = (deductions: StockDeduction[]): StockDeduction[] => {
+  const merged = new Map<string, number>();
+  deductions.forEach(({ itemId, quantity }) => {
+    merged.set(itemId, (merged.get(itemId) ?? 0) + quantity);
+  });
+  return Array.from(merged, ([itemId, quantity]) => ({ itemId, quantity }));
+};
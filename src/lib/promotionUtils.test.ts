@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { Prisma, PromotionType } from "@prisma/client";
+import { applyPromotions, PromotionLine, PromotionWithComboItems } from "./promotionUtils";
+
+const makePromotion = (overrides: Partial<PromotionWithComboItems>): PromotionWithComboItems => ({
+  id: "promotion-1",
+  companyId: "company-1",
+  name: "Promotion",
+  type: PromotionType.PERCENT_OFF,
+  code: null,
+  value: new Prisma.Decimal(0),
+  itemId: null,
+  categoryId: null,
+  buyQuantity: null,
+  getQuantity: null,
+  tableMinutes: 0,
+  usageLimit: null,
+  timesUsed: 0,
+  startsAt: null,
+  endsAt: null,
+  active: true,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+  comboItems: [],
+  ...overrides,
+});
+
+const makeCombo = (price: number, tableMinutes = 0) =>
+  makePromotion({
+    id: "combo",
+    name: "Beer and chips",
+    type: PromotionType.COMBO,
+    value: new Prisma.Decimal(price),
+    tableMinutes,
+    comboItems: [
+      { id: "combo-beer", promotionId: "combo", itemId: "beer", quantity: 1 },
+      { id: "combo-chips", promotionId: "combo", itemId: "chips", quantity: 1 },
+    ],
+  });
+
+const lines: PromotionLine[] = [
+  { itemId: "beer", categoryId: "drinks", quantity: 3, unitPrice: 5, lineTotal: 15 },
+  { itemId: "chips", categoryId: "food", quantity: 1, unitPrice: 4, lineTotal: 4 },
+];
+
+describe("applyPromotions", () => {
+  it("spreads an order discount over the lines by their size", () => {
+    const { lineDiscounts, applied } = applyPromotions(lines, [
+      makePromotion({ value: new Prisma.Decimal(10) }),
+    ]);
+
+    expect(lineDiscounts).toEqual([1.5, 0.4]);
+    expect(applied).toEqual([
+      { promotionId: "promotion-1", name: "Promotion", code: null, discountAmount: 1.9, tableMinutes: 0 },
+    ]);
+  });
+
+  it("gives the cent left over from splitting to the largest line", () => {
+    const { lineDiscounts } = applyPromotions(
+      [
+        { itemId: "a", categoryId: null, quantity: 1, unitPrice: 1, lineTotal: 1 },
+        { itemId: "b", categoryId: null, quantity: 1, unitPrice: 1, lineTotal: 1 },
+        { itemId: "c", categoryId: null, quantity: 1, unitPrice: 1, lineTotal: 1 },
+      ],
+      [makePromotion({ type: PromotionType.AMOUNT_OFF, value: new Prisma.Decimal(1) })]
+    );
+
+    expect(lineDiscounts).toEqual([0.34, 0.33, 0.33]);
+  });
+
+  it("never takes more off the order than it costs", () => {
+    const { lineDiscounts } = applyPromotions(lines, [
+      makePromotion({ type: PromotionType.AMOUNT_OFF, value: new Prisma.Decimal(50) }),
+    ]);
+
+    expect(lineDiscounts).toEqual([15, 4]);
+  });
+
+  it("takes an item discount off each unit", () => {
+    const { lineDiscounts } = applyPromotions(lines, [
+      makePromotion({ type: PromotionType.AMOUNT_OFF, value: new Prisma.Decimal(1), itemId: "beer" }),
+    ]);
+
+    expect(lineDiscounts).toEqual([3, 0]);
+  });
+
+  it("makes the cheapest units of each group free", () => {
+    const { lineDiscounts } = applyPromotions(
+      [
+        { itemId: "ale", categoryId: "drinks", quantity: 2, unitPrice: 6, lineTotal: 12 },
+        { itemId: "lager", categoryId: "drinks", quantity: 1, unitPrice: 4, lineTotal: 4 },
+        { itemId: "chips", categoryId: "food", quantity: 1, unitPrice: 3, lineTotal: 3 },
+      ],
+      [
+        makePromotion({
+          type: PromotionType.BUY_X_GET_Y,
+          categoryId: "drinks",
+          buyQuantity: 2,
+          getQuantity: 1,
+        }),
+      ]
+    );
+
+    expect(lineDiscounts).toEqual([0, 4, 0]);
+  });
+
+  it("charges a combo's bundle price for the items it includes", () => {
+    const { lineDiscounts, applied } = applyPromotions(lines, [makeCombo(7)]);
+
+    expect(lineDiscounts).toEqual([1.12, 0.88]);
+    expect(applied[0].discountAmount).toBe(2);
+  });
+
+  it("records a combo priced above its items as a negative discount", () => {
+    const { applied } = applyPromotions(lines, [makeCombo(12, 60)], { hasTableSession: true });
+
+    expect(applied[0]).toMatchObject({ discountAmount: -3, tableMinutes: 60 });
+  });
+
+  it("leaves combos with table time off orders without a table", () => {
+    const { lineDiscounts, applied } = applyPromotions(lines, [makeCombo(12, 60)]);
+
+    expect(lineDiscounts).toEqual([0, 0]);
+    expect(applied).toEqual([]);
+  });
+
+  it("keeps units bundled in a combo out of other deals", () => {
+    const { applied } = applyPromotions(lines, [
+      makePromotion({
+        id: "three-for-two",
+        type: PromotionType.BUY_X_GET_Y,
+        itemId: "beer",
+        buyQuantity: 2,
+        getQuantity: 1,
+      }),
+      makeCombo(7),
+    ]);
+
+    // Only two beers are left once the combo takes one
+    expect(applied.map((promotion) => promotion.promotionId)).toEqual(["combo"]);
+  });
+
+  it("works order discounts out on what is left after item deals", () => {
+    const { lineDiscounts } = applyPromotions(lines, [
+      makePromotion({ id: "ten-percent", value: new Prisma.Decimal(10) }),
+      makeCombo(7),
+    ]);
+
+    // 10% of the 17 left after the combo
+    expect(lineDiscounts).toEqual([2.51, 1.19]);
+  });
+});
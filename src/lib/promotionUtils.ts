@@ -0,0 +1,629 @@
+import { Prisma, Promotion, PromotionComboItem, PromotionType } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { sumPayments } from "./paymentUtils";
+import { expandRecipes } from "./recipeUtils";
+import {
+  ChosenModifier,
+  formatItemName,
+  OrderItemRequest,
+  resolveOptions,
+  ResolvedOptions,
+  StockDeduction,
+} from "./productOptionUtils";
+import {
+  calculateTax,
+  getAddedTax,
+  getItemTaxRates,
+  getTaxSettings,
+  getTotalTax,
+  summarizeTaxes,
+  TaxLineValues,
+  TaxRateInfo,
+} from "./taxUtils";
+
+export type PromotionWithComboItems = Promotion & { comboItems: PromotionComboItem[] };
+
+export interface PromotionLine {
+  itemId: string;
+  categoryId: string | null;
+  quantity: number;
+  unitPrice: number;
+  lineTotal: number;
+}
+
+export interface AppliedPromotion {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  // Negative when a combo's bundle price, which also pays for table time,
+  // is more than the items it includes
+  discountAmount: number;
+  tableMinutes: number;
+}
+
+export interface PricedOrderLine {
+  inventoryItemId: string;
+  variantId: string | null;
+  modifiers: ChosenModifier[];
+  // What the whole line takes out of stock, and what that stock costs at
+  // today's unit costs. The sale itself is charged what its lots cost.
+  stockDeductions: StockDeduction[];
+  costAmount: number;
+  name: string;
+  quantity: number;
+  price: number;
+  lineTotal: number;
+  discountAmount: number;
+  taxRate: TaxRateInfo | null;
+  taxAmount: number;
+}
+
+export interface PricedOrder {
+  lines: PricedOrderLine[];
+  promotions: AppliedPromotion[];
+  taxLines: TaxLineValues[];
+  pricesIncludeTax: boolean;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+export interface ComboTimeUsage {
+  redemptionId: string;
+  minutes: number;
+  credit: number;
+}
+
+export interface ComboTimeCredit {
+  minutes: number;
+  credit: number;
+  usages: ComboTimeUsage[];
+  // What is left to bill once the combo time is taken off
+  billedMinutes: number;
+  grossCost: number;
+}
+
+export interface PromotionReportRow {
+  promotionId: string;
+  name: string;
+  code: string | null;
+  type: PromotionType;
+  redemptions: number;
+  orderDiscount: number;
+  tableCredit: number;
+  totalDiscount: number;
+}
+
+export interface PromotionReport {
+  from: Date;
+  to: Date;
+  rows: PromotionReportRow[];
+  totals: Omit<PromotionReportRow, "promotionId" | "name" | "code" | "type">;
+}
+
+/**
+ * Thrown when a promotion reaches its usage limit while an order is being
+ * placed, so the order can be rolled back
+ */
+export class PromotionUnavailableError extends Error {
+  constructor(
+    public readonly promotionId: string,
+    public readonly promotionName: string
+  ) {
+    super(`${promotionName} is no longer available`);
+    this.name = "PromotionUnavailableError";
+  }
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Whether a promotion can be used at the given time
+ */
+export const isPromotionAvailable = (promotion: Promotion, at: Date): boolean =>
+  promotion.active &&
+  (!promotion.startsAt || promotion.startsAt <= at) &&
+  (!promotion.endsAt || promotion.endsAt > at) &&
+  (promotion.usageLimit === null || promotion.timesUsed < promotion.usageLimit);
+
+const isOrderLevel = (promotion: Promotion): boolean =>
+  (promotion.type === PromotionType.PERCENT_OFF || promotion.type === PromotionType.AMOUNT_OFF) &&
+  !promotion.itemId &&
+  !promotion.categoryId;
+
+const appliesTo = (promotion: Promotion, line: PromotionLine): boolean => {
+  if (promotion.itemId) return line.itemId === promotion.itemId;
+  if (promotion.categoryId) return line.categoryId === promotion.categoryId;
+  return true;
+};
+
+// Combos claim their items first, then deals on items, then discounts on the whole order
+const evaluationOrder = (promotion: Promotion): number => {
+  if (promotion.type === PromotionType.COMBO) return 0;
+  if (promotion.type === PromotionType.BUY_X_GET_Y) return 1;
+  return isOrderLevel(promotion) ? 3 : 2;
+};
+
+/**
+ * Split an amount over lines in proportion to their weights, in whole cents.
+ * The rounding difference goes to the largest line.
+ */
+const allocate = (amount: number, weights: number[]): number[] => {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  if (totalWeight <= 0 || amount === 0) return weights.map(() => 0);
+
+  const cents = Math.round(amount * 100);
+  const shares = weights.map((weight) => Math.trunc((cents * weight) / totalWeight));
+  const largest = weights.indexOf(Math.max(...weights));
+  shares[largest] += cents - shares.reduce((sum, share) => sum + share, 0);
+
+  return shares.map((share) => share / 100);
+};
+
+/**
+ * Work out the discount each promotion gives on a set of order lines.
+ * Returns the discount taken off each line and the promotions that applied.
+ * Combos with table time only apply to orders on a table session.
+ */
+export const applyPromotions = (
+  lines: PromotionLine[],
+  promotions: PromotionWithComboItems[],
+  { hasTableSession = false }: { hasTableSession?: boolean } = {}
+): { lineDiscounts: number[]; applied: AppliedPromotion[] } => {
+  const lineDiscounts = lines.map(() => 0);
+  // Units already bundled into a combo can't be part of another deal
+  const comboUnits = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+
+  const remaining = (index: number) => Math.max(0, roundCurrency(lines[index].lineTotal - lineDiscounts[index]));
+  const freeUnits = (index: number) => lines[index].quantity - comboUnits[index];
+
+  const apply = (promotion: Promotion, shares: number[], tableMinutes = 0) => {
+    shares.forEach((share, index) => {
+      lineDiscounts[index] = roundCurrency(lineDiscounts[index] + share);
+    });
+
+    const discountAmount = sumPayments(shares.map((amount) => ({ amount })));
+    if (discountAmount !== 0 || tableMinutes > 0) {
+      applied.push({
+        promotionId: promotion.id,
+        name: promotion.name,
+        code: promotion.code,
+        discountAmount,
+        tableMinutes,
+      });
+    }
+  };
+
+  const sorted = [...promotions].sort((a, b) => evaluationOrder(a) - evaluationOrder(b));
+
+  for (const promotion of sorted) {
+    const value = Number(promotion.value);
+
+    switch (promotion.type) {
+      case PromotionType.COMBO: {
+        if (promotion.comboItems.length === 0) break;
+        if (promotion.tableMinutes > 0 && !hasTableSession) break;
+
+        // Number of complete bundles in the order
+        const sets = Math.min(
+          ...promotion.comboItems.map((comboItem) => {
+            const available = lines.reduce(
+              (sum, line, index) => (line.itemId === comboItem.itemId ? sum + freeUnits(index) : sum),
+              0
+            );
+            return Math.floor(available / comboItem.quantity);
+          })
+        );
+        if (sets <= 0) break;
+
+        const taken = lines.map(() => 0);
+        promotion.comboItems.forEach((comboItem) => {
+          let needed = comboItem.quantity * sets;
+          lines.forEach((line, index) => {
+            if (needed <= 0 || line.itemId !== comboItem.itemId) return;
+            const units = Math.min(needed, freeUnits(index) - taken[index]);
+            taken[index] += units;
+            needed -= units;
+          });
+        });
+
+        const bundledValues = taken.map((units, index) => roundCurrency(units * lines[index].unitPrice));
+        const bundledTotal = sumPayments(bundledValues.map((amount) => ({ amount })));
+        taken.forEach((units, index) => {
+          comboUnits[index] += units;
+        });
+
+        apply(
+          promotion,
+          allocate(roundCurrency(bundledTotal - value * sets), bundledValues),
+          promotion.tableMinutes * sets
+        );
+        break;
+      }
+
+      case PromotionType.BUY_X_GET_Y: {
+        const buy = promotion.buyQuantity ?? 0;
+        const get = promotion.getQuantity ?? 0;
+        if (buy <= 0 || get <= 0) break;
+
+        // Group the units from most to least expensive; the cheapest of each group are free
+        const units = lines
+          .flatMap((line, index) =>
+            appliesTo(promotion, line) ? Array.from({ length: freeUnits(index) }, () => index) : []
+          )
+          .sort((a, b) => lines[b].unitPrice - lines[a].unitPrice);
+
+        const shares = lines.map(() => 0);
+        const groupSize = buy + get;
+        for (let start = 0; start + groupSize <= units.length; start += groupSize) {
+          units.slice(start + buy, start + groupSize).forEach((index) => {
+            shares[index] = roundCurrency(shares[index] + lines[index].unitPrice);
+          });
+        }
+
+        apply(promotion, shares.map((share, index) => Math.min(share, remaining(index))));
+        break;
+      }
+
+      case PromotionType.PERCENT_OFF: {
+        const weights = lines.map((line, index) => (appliesTo(promotion, line) ? remaining(index) : 0));
+        const base = weights.reduce((sum, weight) => sum + weight, 0);
+        apply(promotion, allocate(roundCurrency((base * value) / 100), weights));
+        break;
+      }
+
+      case PromotionType.AMOUNT_OFF: {
+        if (isOrderLevel(promotion)) {
+          const weights = lines.map((_, index) => remaining(index));
+          const base = weights.reduce((sum, weight) => sum + weight, 0);
+          apply(promotion, allocate(Math.min(value, base), weights));
+        } else {
+          // Item and category discounts come off each unit
+          apply(
+            promotion,
+            lines.map((line, index) =>
+              appliesTo(promotion, line) ? Math.min(roundCurrency(value * line.quantity), remaining(index)) : 0
+            )
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  return { lineDiscounts, applied };
+};
+
+/**
+ * Price an order: resolve what is being sold from the inventory, apply the
+ * automatic promotions and any promo codes given, then tax each line on
+ * what is left after its discount. Nothing is taken from the client but the
+ * items, their options, quantities and codes.
+ */
+export async function priceOrder(
+  companyId: string,
+  items: OrderItemRequest[],
+  {
+    promoCodes = [],
+    hasTableSession = false,
+    at = new Date(),
+  }: { promoCodes?: string[]; hasTableSession?: boolean; at?: Date } = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<{ error: string; httpStatus: number } | PricedOrder> {
+  const inventoryItems = await client.inventoryItem.findMany({
+    where: {
+      id: { in: items.map((item) => item.inventoryItemId) },
+      companyId,
+    },
+    include: { variants: true, modifiers: true },
+  });
+  const itemsById = new Map(inventoryItems.map((item) => [item.id, item]));
+
+  const options: ResolvedOptions[] = [];
+  for (const requested of items) {
+    const inventoryItem = itemsById.get(requested.inventoryItemId);
+
+    if (!inventoryItem) {
+      return { error: "Item not found", httpStatus: 404 };
+    }
+
+    const resolved = resolveOptions(inventoryItem, requested);
+    if ("error" in resolved) {
+      return resolved;
+    }
+    options.push(resolved);
+  }
+
+  const codes = Array.from(new Set(promoCodes.map((code) => code.trim().toUpperCase())));
+  const promotions = await client.promotion.findMany({
+    where: {
+      companyId,
+      active: true,
+      OR: [{ code: null }, { code: { in: codes } }],
+    },
+    include: { comboItems: true },
+  });
+
+  for (const code of codes) {
+    const promotion = promotions.find((candidate) => candidate.code === code);
+
+    if (!promotion) {
+      return { error: `Promo code ${code} is not valid`, httpStatus: 400 };
+    }
+
+    if (!isPromotionAvailable(promotion, at)) {
+      return { error: `Promo code ${code} has expired or been used up`, httpStatus: 400 };
+    }
+  }
+
+  const baseLines = items.map((item, index) => {
+    const inventoryItem = itemsById.get(item.inventoryItemId)!;
+    const { variant, modifiers, unitPrice: price, stockPerUnit } = options[index];
+    return {
+      inventoryItemId: item.inventoryItemId,
+      variantId: variant?.id ?? null,
+      modifiers,
+      stockDeductions: stockPerUnit.map((deduction) => ({
+        itemId: deduction.itemId,
+        quantity: deduction.quantity * item.quantity,
+      })),
+      name: formatItemName(
+        inventoryItem.name,
+        variant?.name,
+        modifiers.map((modifier) => modifier.name)
+      ),
+      itemId: item.inventoryItemId,
+      categoryId: inventoryItem.categoryId,
+      quantity: item.quantity,
+      unitPrice: price,
+      price,
+      lineTotal: roundCurrency(price * item.quantity),
+    };
+  });
+
+  const { lineDiscounts, applied } = applyPromotions(
+    baseLines,
+    promotions.filter((promotion) => isPromotionAvailable(promotion, at)),
+    { hasTableSession }
+  );
+
+  // Items made to a recipe take their ingredients out of stock instead
+  const stockUsage = await expandRecipes(
+    baseLines.map((line) => line.stockDeductions),
+    client
+  );
+
+  // Tax each line at the rate of its category, on what the customer pays for it
+  const { pricesIncludeTax } = await getTaxSettings(companyId, client);
+  const itemTaxRates = await getItemTaxRates(items.map((item) => item.inventoryItemId), client);
+  const lines: PricedOrderLine[] = baseLines.map((line, index) => {
+    const taxRate = itemTaxRates[line.inventoryItemId] ?? null;
+    const netAmount = roundCurrency(line.lineTotal - lineDiscounts[index]);
+    return {
+      inventoryItemId: line.inventoryItemId,
+      variantId: line.variantId,
+      modifiers: line.modifiers,
+      stockDeductions: stockUsage[index].stockDeductions,
+      costAmount: stockUsage[index].costAmount,
+      name: line.name,
+      quantity: line.quantity,
+      price: line.price,
+      lineTotal: line.lineTotal,
+      discountAmount: lineDiscounts[index],
+      taxRate,
+      taxAmount: taxRate ? calculateTax(netAmount, taxRate.rate, pricesIncludeTax) : 0,
+    };
+  });
+  const taxLines = summarizeTaxes(
+    lines.map((line) => ({ amount: roundCurrency(line.lineTotal - line.discountAmount), taxRate: line.taxRate })),
+    pricesIncludeTax
+  );
+
+  const subtotal = sumPayments(lines.map((line) => ({ amount: line.lineTotal })));
+  const discountAmount = sumPayments(lines.map((line) => ({ amount: line.discountAmount })));
+
+  return {
+    lines,
+    promotions: applied,
+    taxLines,
+    pricesIncludeTax,
+    subtotal,
+    discountAmount,
+    taxAmount: getTotalTax(taxLines),
+    totalAmount: sumPayments([
+      { amount: subtotal },
+      { amount: -discountAmount },
+      { amount: getAddedTax(taxLines) },
+    ]),
+  };
+}
+
+/**
+ * Count the promotions used by an order against their limits and record
+ * what they gave. Must run in the transaction that creates the order;
+ * throws if a promotion ran out in the meantime.
+ */
+export async function recordPromotionRedemptions(
+  tx: Prisma.TransactionClient,
+  companyId: string,
+  orderId: string,
+  applied: AppliedPromotion[]
+) {
+  for (const promotion of applied) {
+    const { count } = await tx.promotion.updateMany({
+      where: {
+        id: promotion.promotionId,
+        OR: [
+          { usageLimit: null },
+          { timesUsed: { lt: prisma.promotion.fields.usageLimit } },
+        ],
+      },
+      data: { timesUsed: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      throw new PromotionUnavailableError(promotion.promotionId, promotion.name);
+    }
+
+    await tx.promotionRedemption.create({
+      data: {
+        companyId,
+        promotionId: promotion.promotionId,
+        orderId,
+        discountAmount: promotion.discountAmount,
+        tableMinutes: promotion.tableMinutes,
+      },
+    });
+  }
+}
+
+/**
+ * Give back the uses of the promotions redeemed on a voided order
+ */
+export async function releasePromotionRedemptions(tx: Prisma.TransactionClient, orderId: string) {
+  const redemptions = await tx.promotionRedemption.findMany({
+    where: { orderId },
+  });
+
+  for (const redemption of redemptions) {
+    await tx.promotion.update({
+      where: { id: redemption.promotionId },
+      data: { timesUsed: { decrement: 1 } },
+    });
+  }
+}
+
+/**
+ * Put the table time bought with combo deals towards a session's time.
+ * Combo minutes come from orders on the session and are used up in the
+ * order they were bought, at the session's average rate.
+ */
+export async function applyComboTableTime(
+  sessionId: string,
+  billedMinutes: number,
+  grossCost: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<ComboTimeCredit> {
+  const redemptions = await client.promotionRedemption.findMany({
+    where: {
+      order: { tableSessionId: sessionId, voidedAt: null },
+      tableMinutes: { gt: 0 },
+      tableMinutesUsed: { lt: prisma.promotionRedemption.fields.tableMinutes },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let minutesLeft = Math.max(0, billedMinutes);
+  const usages: ComboTimeUsage[] = [];
+
+  for (const redemption of redemptions) {
+    if (minutesLeft <= 0) break;
+
+    const minutes = Math.min(minutesLeft, redemption.tableMinutes - redemption.tableMinutesUsed);
+    usages.push({
+      redemptionId: redemption.id,
+      minutes,
+      credit: roundCurrency((grossCost * minutes) / billedMinutes),
+    });
+    minutesLeft -= minutes;
+  }
+
+  const credit = sumPayments(usages.map((usage) => ({ amount: usage.credit })));
+
+  return {
+    minutes: usages.reduce((sum, usage) => sum + usage.minutes, 0),
+    credit,
+    usages,
+    billedMinutes: minutesLeft,
+    grossCost: sumPayments([{ amount: grossCost }, { amount: -credit }]),
+  };
+}
+
+/**
+ * Use up the combo minutes that went towards a session.
+ * Must run in the transaction that ends the session.
+ */
+export async function recordComboTableTime(
+  tx: Prisma.TransactionClient,
+  sessionId: string,
+  usages: ComboTimeUsage[]
+) {
+  for (const usage of usages) {
+    await tx.promotionRedemption.update({
+      where: { id: usage.redemptionId },
+      data: {
+        tableMinutesUsed: { increment: usage.minutes },
+        tableCredit: { increment: usage.credit },
+      },
+    });
+
+    await tx.promotionTimeUsage.create({
+      data: {
+        redemptionId: usage.redemptionId,
+        sessionId,
+        minutes: usage.minutes,
+        credit: usage.credit,
+      },
+    });
+  }
+}
+
+/**
+ * Discount given per promotion over a period, on order lines and on table
+ * time. Redemptions on voided orders don't count.
+ */
+export async function getPromotionReport(
+  companyId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<PromotionReport> {
+  const redemptions = await client.promotionRedemption.findMany({
+    where: {
+      companyId,
+      createdAt: { gte: from, lte: to },
+      order: { voidedAt: null },
+    },
+    include: {
+      promotion: { select: { name: true, code: true, type: true } },
+    },
+  });
+
+  const rows = new Map<string, PromotionReportRow>();
+  redemptions.forEach((redemption) => {
+    const row = rows.get(redemption.promotionId) ?? {
+      promotionId: redemption.promotionId,
+      name: redemption.promotion.name,
+      code: redemption.promotion.code,
+      type: redemption.promotion.type,
+      redemptions: 0,
+      orderDiscount: 0,
+      tableCredit: 0,
+      totalDiscount: 0,
+    };
+
+    row.redemptions += 1;
+    row.orderDiscount = roundCurrency(row.orderDiscount + Number(redemption.discountAmount));
+    row.tableCredit = roundCurrency(row.tableCredit + Number(redemption.tableCredit));
+    row.totalDiscount = roundCurrency(row.orderDiscount + row.tableCredit);
+    rows.set(redemption.promotionId, row);
+  });
+
+  const sortedRows = Array.from(rows.values()).sort((a, b) => b.totalDiscount - a.totalDiscount);
+  const sum = (key: "redemptions" | "orderDiscount" | "tableCredit" | "totalDiscount") =>
+    roundCurrency(sortedRows.reduce((total, row) => total + row[key], 0));
+
+  return {
+    from,
+    to,
+    rows: sortedRows,
+    totals: {
+      redemptions: sum("redemptions"),
+      orderDiscount: sum("orderDiscount"),
+      tableCredit: sum("tableCredit"),
+      totalDiscount: sum("totalDiscount"),
+    },
+  };
+}
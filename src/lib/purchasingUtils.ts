@@ -0,0 +1,317 @@
+import {
+  FinanceCategoryType,
+  InventoryItem,
+  InventoryTransactionType,
+  Prisma,
+  PurchaseOrderStatus,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getInventoryAlerts } from "./analyticsUtils";
+import { getOrCreateFinanceCategory, INVENTORY_PURCHASES_CATEGORY_NAME } from "./financeUtils";
+import { adjustInventoryQuantity } from "./inventoryUtils";
+import type { ReceivePurchaseOrderValues } from "./validations/purchasing";
+
+export const purchaseOrderInclude = {
+  supplier: { select: { id: true, name: true, email: true, phone: true } },
+  items: {
+    include: { item: { select: { id: true, name: true, sku: true, quantity: true } } },
+    orderBy: { item: { name: "asc" } },
+  },
+  receipts: {
+    include: { receivedBy: { select: { id: true, firstName: true, lastName: true } } },
+    orderBy: { createdAt: "desc" },
+  },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.PurchaseOrderInclude;
+
+export type PurchaseOrderWithItems = Prisma.PurchaseOrderGetPayload<{
+  include: typeof purchaseOrderInclude;
+}>;
+
+// Orders that still have stock to come
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  PurchaseOrderStatus.DRAFT,
+  PurchaseOrderStatus.SENT,
+  PurchaseOrderStatus.PARTIALLY_RECEIVED,
+];
+
+export interface ReorderSuggestion extends InventoryItem {
+  supplier: { id: string; name: string } | null;
+  // Ordered from suppliers but not delivered yet
+  onOrder: number;
+  // Zero when what is already on order covers the shortfall
+  suggestedQuantity: number;
+}
+
+/**
+ * Thrown when a purchase order line is received by someone else while a
+ * delivery is being booked against it
+ */
+export class PurchaseOrderConflictError extends Error {
+  constructor(public readonly orderNumber: string) {
+    super(`Purchase order ${orderNumber} was received by someone else. Reload it and try again.`);
+    this.name = "PurchaseOrderConflictError";
+  }
+}
+
+type ReceiveResult =
+  | { error: string; httpStatus: number }
+  | { order: PurchaseOrderWithItems; receiptId: string };
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export function generatePurchaseOrderNumber(): string {
+  const timestamp = new Date().getTime().toString().slice(-6);
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+  return `PO-${timestamp}${random}`;
+}
+
+/**
+ * How many of each item are on open purchase orders and not yet delivered
+ */
+export async function getQuantitiesOnOrder(
+  companyId: string,
+  itemIds: string[],
+  client: Prisma.TransactionClient = prisma
+): Promise<Map<string, number>> {
+  const lines = await client.purchaseOrderItem.findMany({
+    where: {
+      itemId: { in: itemIds },
+      purchaseOrder: { companyId, status: { in: OPEN_PURCHASE_ORDER_STATUSES } },
+    },
+    select: { itemId: true, quantityOrdered: true, quantityReceived: true },
+  });
+
+  const onOrder = new Map<string, number>();
+  lines.forEach((line) => {
+    const outstanding = Math.max(line.quantityOrdered - line.quantityReceived, 0);
+    onOrder.set(line.itemId, (onOrder.get(line.itemId) ?? 0) + outstanding);
+  });
+  return onOrder;
+}
+
+/**
+ * Items below their critical threshold, with how many to reorder.
+ *
+ * An item that is short once what is already on order arrives is reordered
+ * by its reorder quantity, or by enough to bring it up to twice its critical
+ * threshold when it has none.
+ */
+export async function getReorderSuggestions(companyId: string): Promise<ReorderSuggestion[]> {
+  const alerts = await getInventoryAlerts(companyId);
+  const onOrder = await getQuantitiesOnOrder(
+    companyId,
+    alerts.map((item) => item.id)
+  );
+
+  const supplierIds = Array.from(
+    new Set(alerts.flatMap((item) => (item.supplierId ? [item.supplierId] : [])))
+  );
+  const suppliers = await prisma.supplier.findMany({
+    where: { id: { in: supplierIds } },
+    select: { id: true, name: true },
+  });
+  const suppliersById = new Map(suppliers.map((supplier) => [supplier.id, supplier]));
+
+  return alerts.map((item) => {
+    const itemOnOrder = onOrder.get(item.id) ?? 0;
+    const expected = item.quantity + itemOnOrder;
+    const suggestedQuantity = expected >= item.criticalThreshold
+      ? 0
+      : item.reorderQuantity ?? Math.max(item.criticalThreshold * 2 - expected, 1);
+
+    return {
+      ...item,
+      supplier: item.supplierId ? suppliersById.get(item.supplierId) ?? null : null,
+      onOrder: itemOnOrder,
+      suggestedQuantity,
+    };
+  });
+}
+
+/**
+ * Draft one purchase order per supplier for every suggested reorder. Items
+ * without a preferred supplier are left out, since there is no one to order
+ * them from.
+ */
+export async function createReorderDrafts(companyId: string, createdById: string) {
+  const suggestions = await getReorderSuggestions(companyId);
+
+  const bySupplier = new Map<string, ReorderSuggestion[]>();
+  suggestions
+    .filter((suggestion) => suggestion.suggestedQuantity > 0 && suggestion.supplierId)
+    .forEach((suggestion) => {
+      const supplierId = suggestion.supplierId as string;
+      bySupplier.set(supplierId, [...(bySupplier.get(supplierId) ?? []), suggestion]);
+    });
+
+  return prisma.$transaction((tx) =>
+    Promise.all(
+      Array.from(bySupplier.entries()).map(([supplierId, items]) =>
+        tx.purchaseOrder.create({
+          data: {
+            companyId,
+            supplierId,
+            orderNumber: generatePurchaseOrderNumber(),
+            notes: "Suggested reorder",
+            createdById,
+            items: {
+              create: items.map((item) => ({
+                itemId: item.id,
+                quantityOrdered: item.suggestedQuantity,
+                unitCost: item.unitCost ?? 0,
+              })),
+            },
+          },
+          include: purchaseOrderInclude,
+        })
+      )
+    )
+  );
+}
+
+/**
+ * Book a delivery against a sent purchase order. Each received line comes
+ * into stock as an INCOMING transaction at what it cost, in a lot of its own
+ * with its expiry date when it has one, and the delivery's total cost is
+ * posted as an expense.
+ *
+ * Run inside a transaction so a line received by someone else at the same
+ * time rolls the whole delivery back.
+ */
+export async function receivePurchaseOrder(
+  orderId: string,
+  data: ReceivePurchaseOrderValues,
+  staffId: string,
+  tx: Prisma.TransactionClient
+): Promise<ReceiveResult> {
+  const order = await tx.purchaseOrder.findUnique({
+    where: { id: orderId, companyId: data.companyId },
+    include: { items: { include: { item: { select: { name: true } } } } },
+  });
+
+  if (!order) {
+    return { error: "Purchase order not found", httpStatus: 404 };
+  }
+
+  if (
+    order.status !== PurchaseOrderStatus.SENT &&
+    order.status !== PurchaseOrderStatus.PARTIALLY_RECEIVED
+  ) {
+    return { error: "Only sent purchase orders can be received", httpStatus: 400 };
+  }
+
+  const deliveries = data.items.filter((line) => line.quantity > 0);
+  if (deliveries.length === 0) {
+    return { error: "Receive at least one item", httpStatus: 400 };
+  }
+
+  // A line can arrive in several lots, so quantities add up per order line
+  const receivedLines = new Map<string, number>();
+  const lines = [];
+
+  for (const delivery of deliveries) {
+    const line = order.items.find((orderItem) => orderItem.id === delivery.purchaseOrderItemId);
+    if (!line) {
+      return { error: "Purchase order item not found", httpStatus: 404 };
+    }
+
+    const received = (receivedLines.get(line.id) ?? 0) + delivery.quantity;
+    const outstanding = line.quantityOrdered - line.quantityReceived;
+    if (received > outstanding) {
+      return {
+        error: `Only ${outstanding} of ${line.item.name} still to be received`,
+        httpStatus: 400,
+      };
+    }
+    receivedLines.set(line.id, received);
+
+    lines.push({
+      line,
+      quantity: delivery.quantity,
+      unitCost: delivery.unitCost ?? Number(line.unitCost),
+      lotNumber: delivery.lotNumber?.trim() || null,
+      expiresAt: delivery.expiresAt ? new Date(delivery.expiresAt) : null,
+    });
+  }
+
+  const totalCost = roundCurrency(lines.reduce((sum, { quantity, unitCost }) => sum + quantity * unitCost, 0));
+
+  let financeTransactionId: string | null = null;
+  if (totalCost > 0) {
+    const category = await getOrCreateFinanceCategory(
+      order.companyId,
+      INVENTORY_PURCHASES_CATEGORY_NAME,
+      FinanceCategoryType.EXPENSE,
+      tx
+    );
+
+    const financeTransaction = await tx.financeTransaction.create({
+      data: {
+        companyId: order.companyId,
+        categoryId: category.id,
+        amount: totalCost,
+        transactionDate: new Date(),
+        description: `Stock received on purchase order ${order.orderNumber}`,
+        staffId,
+      },
+    });
+    financeTransactionId = financeTransaction.id;
+  }
+
+  const receipt = await tx.purchaseReceipt.create({
+    data: {
+      purchaseOrderId: order.id,
+      totalCost,
+      financeTransactionId,
+      receivedById: staffId,
+    },
+  });
+
+  for (const line of order.items) {
+    const quantity = receivedLines.get(line.id);
+    if (!quantity) continue;
+
+    // Only count the delivery if nobody else has received this line meanwhile
+    const { count } = await tx.purchaseOrderItem.updateMany({
+      where: { id: line.id, quantityReceived: line.quantityReceived },
+      data: { quantityReceived: { increment: quantity } },
+    });
+
+    if (count === 0) {
+      throw new PurchaseOrderConflictError(order.orderNumber);
+    }
+  }
+
+  for (const { line, quantity, unitCost, lotNumber, expiresAt } of lines) {
+    await adjustInventoryQuantity(
+      {
+        itemId: line.itemId,
+        companyId: order.companyId,
+        quantityDelta: quantity,
+        transactionType: InventoryTransactionType.INCOMING,
+        note: `Purchase order ${order.orderNumber}`,
+        staffId,
+        unitCost,
+        purchaseReceiptId: receipt.id,
+        lotNumber,
+        expiresAt,
+      },
+      tx
+    );
+  }
+
+  const fullyReceived = order.items.every(
+    (line) => line.quantityReceived + (receivedLines.get(line.id) ?? 0) >= line.quantityOrdered
+  );
+
+  const updatedOrder = await tx.purchaseOrder.update({
+    where: { id: order.id },
+    data: fullyReceived
+      ? { status: PurchaseOrderStatus.RECEIVED, receivedAt: new Date() }
+      : { status: PurchaseOrderStatus.PARTIALLY_RECEIVED },
+    include: purchaseOrderInclude,
+  });
+
+  return { order: updatedOrder, receiptId: receipt.id };
+}
@@ -0,0 +1,49 @@
+import { NextRequest } from "next/server";
+import prisma from "@/lib/prisma";
+
+export interface RateLimitResult {
+  allowed: boolean;
+  // Seconds until the window resets, for the Retry-After header
+  retryAfter: number;
+}
+
+/**
+ * Counts a request against a key, allowing up to limit of them in each
+ * window. Keys are usually a route name and the caller's IP address.
+ * Counts are kept in the database, so every server instance shares them.
+ */
+export async function rateLimit(key: string, limit: number, windowMs: number): Promise<RateLimitResult> {
+  const now = new Date();
+  const resetAt = new Date(now.getTime() + windowMs);
+
+  // Starting a fresh window and counting into the current one happen in one
+  // statement, so requests arriving together can't both take the last place
+  const [window] = await prisma.$queryRaw<{ count: number; reset_at: Date }[]>`
+    INSERT INTO rate_limit_windows (key, count, reset_at)
+    VALUES (${key}, 1, ${resetAt})
+    ON CONFLICT (key) DO UPDATE SET
+      count = CASE WHEN rate_limit_windows.reset_at <= ${now} THEN 1 ELSE rate_limit_windows.count + 1 END,
+      reset_at = CASE WHEN rate_limit_windows.reset_at <= ${now} THEN EXCLUDED.reset_at ELSE rate_limit_windows.reset_at END
+    RETURNING count, reset_at
+  `;
+
+  // A fresh window is a good moment to clear out ones nobody came back for
+  if (window.count === 1) {
+    await prisma.rateLimitWindow.deleteMany({ where: { resetAt: { lt: now } } });
+    return { allowed: true, retryAfter: 0 };
+  }
+
+  return {
+    allowed: window.count <= limit,
+    retryAfter: Math.ceil((window.reset_at.getTime() - now.getTime()) / 1000),
+  };
+}
+
+/** The caller's IP address, as passed on by the proxy in front of the app */
+export function getClientIp(req: NextRequest) {
+  return (
+    req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    req.headers.get("x-real-ip") ||
+    "unknown"
+  );
+}
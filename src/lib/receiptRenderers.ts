@@ -0,0 +1,279 @@
+import { format } from "date-fns";
+import type { Receipt } from "./receiptUtils";
+import { formatPrice } from "./tableUtils";
+
+export const RECEIPT_FORMATS = ["html", "pdf", "escpos"] as const;
+export type ReceiptFormat = (typeof RECEIPT_FORMATS)[number];
+
+// Characters per line on a standard 80mm thermal printer
+const RECEIPT_WIDTH = 42;
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Thermal printers and the built-in PDF fonts only cover plain ASCII reliably
+const toAscii = (value: string): string =>
+  value.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "?");
+
+const center = (text: string, width: number): string => {
+  const padding = Math.max(0, Math.floor((width - text.length) / 2));
+  return " ".repeat(padding) + text;
+};
+
+// Put a label and an amount on the same line, wrapping long labels
+const columns = (label: string, amount: string, width: number): string[] => {
+  const labelWidth = width - amount.length - 1;
+  const lines: string[] = [];
+  let rest = label;
+
+  while (rest.length > labelWidth) {
+    const breakAt = rest.lastIndexOf(" ", labelWidth);
+    const cut = breakAt > 0 ? breakAt : labelWidth;
+    lines.push(rest.slice(0, cut));
+    rest = rest.slice(cut).trimStart();
+  }
+
+  lines.push(rest.padEnd(labelWidth) + " " + amount);
+  return lines;
+};
+
+/**
+ * Lay a receipt out as fixed-width text lines, the common ground
+ * for thermal printers and the PDF receipt
+ */
+export const formatReceiptText = (receipt: Receipt, width: number = RECEIPT_WIDTH): string[] => {
+  const rule = "-".repeat(width);
+  const lines: string[] = [];
+
+  lines.push(center(receipt.company.name, width));
+  if (receipt.company.address) lines.push(center(receipt.company.address, width));
+  if (receipt.company.phone) lines.push(center(receipt.company.phone, width));
+  lines.push(rule);
+
+  lines.push(`${receipt.title} #${receipt.number}`);
+  lines.push(format(receipt.issuedAt, "MMM d, yyyy h:mm a"));
+  if (receipt.tableName) lines.push(`Table: ${receipt.tableName}`);
+  if (receipt.customerName) lines.push(`Customer: ${receipt.customerName}`);
+  if (receipt.staffName) lines.push(`Served by: ${receipt.staffName}`);
+  lines.push(rule);
+
+  receipt.lines.forEach((line) => {
+    const label = line.quantity !== null ? `${line.quantity} x ${line.description}` : line.description;
+    lines.push(...columns(label, formatPrice(line.amount), width));
+    if (line.quantity !== null && line.quantity > 1 && line.unitPrice !== null) {
+      lines.push(`    @ ${formatPrice(line.unitPrice)}`);
+    }
+  });
+  lines.push(rule);
+
+  lines.push(...columns("Subtotal", formatPrice(receipt.subtotal), width));
+  [...receipt.adjustments, ...receipt.taxes].forEach((entry) => {
+    lines.push(...columns(entry.label, formatPrice(entry.amount), width));
+  });
+  lines.push(...columns("TOTAL", formatPrice(receipt.total), width));
+
+  if (receipt.payments.length > 0) {
+    lines.push(rule);
+    receipt.payments.forEach((payment) => {
+      lines.push(...columns(payment.label, formatPrice(payment.amount), width));
+      if (payment.tendered !== null) {
+        lines.push(...columns("  Tendered", formatPrice(payment.tendered), width));
+      }
+      if (payment.change > 0) {
+        lines.push(...columns("  Change", formatPrice(payment.change), width));
+      }
+    });
+  }
+
+  if (receipt.balanceDue > 0) {
+    lines.push(...columns("Balance due", formatPrice(receipt.balanceDue), width));
+  }
+
+  receipt.notes.forEach((note) => lines.push(center(`** ${note} **`, width)));
+
+  lines.push(rule);
+  lines.push(center("Thank you!", width));
+
+  return lines.map(toAscii);
+};
+
+/**
+ * Print-friendly HTML page sized for receipt paper
+ */
+export const renderReceiptHtml = (receipt: Receipt): string => {
+  const row = (label: string, amount: number, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(formatPrice(amount))}</td></tr>`;
+
+  const items = receipt.lines
+    .map((line) => {
+      const label = line.quantity !== null ? `${line.quantity} x ${line.description}` : line.description;
+      const unit = line.quantity !== null && line.quantity > 1 && line.unitPrice !== null
+        ? `<div class="muted">@ ${escapeHtml(formatPrice(line.unitPrice))}</div>`
+        : "";
+      return `<tr><td>${escapeHtml(label)}${unit}</td><td class="amount">${escapeHtml(formatPrice(line.amount))}</td></tr>`;
+    })
+    .join("");
+
+  const totals = [
+    row("Subtotal", receipt.subtotal),
+    ...[...receipt.adjustments, ...receipt.taxes].map((entry) => row(entry.label, entry.amount)),
+    row("Total", receipt.total, "total"),
+  ].join("");
+
+  const payments = receipt.payments
+    .map((payment) =>
+      [
+        row(payment.label, payment.amount),
+        payment.tendered !== null ? row("Tendered", payment.tendered, "muted") : "",
+        payment.change > 0 ? row("Change", payment.change, "muted") : "",
+      ].join("")
+    )
+    .join("");
+
+  const details = [
+    receipt.tableName && `Table: ${receipt.tableName}`,
+    receipt.customerName && `Customer: ${receipt.customerName}`,
+    receipt.staffName && `Served by: ${receipt.staffName}`,
+  ]
+    .filter(Boolean)
+    .map((detail) => `<div>${escapeHtml(detail as string)}</div>`)
+    .join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(`${receipt.title} #${receipt.number}`)}</title>
+<style>
+  @page { size: 80mm auto; margin: 4mm; }
+  body { font-family: "Courier New", monospace; font-size: 12px; width: 72mm; margin: 0 auto; color: #000; }
+  header, footer { text-align: center; }
+  h1 { font-size: 16px; margin: 0 0 4px; }
+  hr { border: none; border-top: 1px dashed #000; margin: 8px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  td { vertical-align: top; padding: 1px 0; }
+  .amount { text-align: right; white-space: nowrap; padding-left: 8px; }
+  .total td { font-weight: bold; font-size: 14px; border-top: 1px solid #000; padding-top: 4px; }
+  .muted { color: #555; font-size: 11px; }
+  .note { text-align: center; font-weight: bold; margin-top: 6px; }
+  .print { display: block; margin: 16px auto; }
+  @media print { .print { display: none; } }
+</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(receipt.company.name)}</h1>
+  ${receipt.company.address ? `<div>${escapeHtml(receipt.company.address)}</div>` : ""}
+  ${receipt.company.phone ? `<div>${escapeHtml(receipt.company.phone)}</div>` : ""}
+</header>
+<hr />
+<div><strong>${escapeHtml(`${receipt.title} #${receipt.number}`)}</strong></div>
+<div>${escapeHtml(format(receipt.issuedAt, "MMM d, yyyy h:mm a"))}</div>
+${details}
+<hr />
+<table>${items}</table>
+<hr />
+<table>${totals}</table>
+${payments ? `<hr /><table>${payments}</table>` : ""}
+${receipt.balanceDue > 0 ? `<table>${row("Balance due", receipt.balanceDue, "total")}</table>` : ""}
+${receipt.notes.map((note) => `<div class="note">${escapeHtml(note)}</div>`).join("")}
+<hr />
+<footer>Thank you!</footer>
+<button class="print" onclick="window.print()">Print</button>
+</body>
+</html>`;
+};
+
+/**
+ * A single-page PDF in a receipt-sized page, set in the built-in Courier font
+ * so it needs no font files or PDF libraries
+ */
+export const renderReceiptPdf = (receipt: Receipt): Buffer => {
+  const lines = formatReceiptText(receipt);
+  const fontSize = 8;
+  const leading = 10;
+  const margin = 14;
+  // Courier glyphs are 0.6em wide
+  const pageWidth = Math.ceil(RECEIPT_WIDTH * fontSize * 0.6 + margin * 2);
+  const pageHeight = lines.length * leading + margin * 2;
+
+  const escapePdf = (value: string) => value.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+  const content = [
+    "BT",
+    `/F1 ${fontSize} Tf`,
+    `${leading} TL`,
+    `${margin} ${pageHeight - margin - fontSize} Td`,
+    ...lines.map((line) => `(${escapePdf(line)}) '`),
+    "ET",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(pdf, "latin1"));
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/**
+ * Raw ESC/POS commands for a thermal printer: the company name in
+ * double size, the receipt body, then feed and cut the paper
+ */
+export const renderReceiptEscPos = (receipt: Receipt): Buffer => {
+  const [, ...body] = formatReceiptText(receipt);
+  const text = (value: string) => Buffer.from(`${value}\n`, "ascii");
+
+  return Buffer.concat([
+    Buffer.from([ESC, 0x40]), // initialize
+    Buffer.from([ESC, 0x61, 0x01]), // center
+    Buffer.from([GS, 0x21, 0x11]), // double width and height
+    text(toAscii(receipt.company.name)),
+    Buffer.from([GS, 0x21, 0x00]), // normal size
+    Buffer.from([ESC, 0x61, 0x00]), // left
+    ...body.map(text),
+    Buffer.from([ESC, 0x64, 0x04]), // feed 4 lines
+    Buffer.from([GS, 0x56, 0x42, 0x00]), // partial cut
+  ]);
+};
+
+/**
+ * Render a receipt in the requested format along with the headers to serve it
+ */
+export const renderReceipt = (
+  receipt: Receipt,
+  receiptFormat: ReceiptFormat
+): { body: string | Buffer; contentType: string; filename: string } => {
+  const filename = `receipt-${receipt.number}`;
+
+  switch (receiptFormat) {
+    case "pdf":
+      return { body: renderReceiptPdf(receipt), contentType: "application/pdf", filename: `${filename}.pdf` };
+    case "escpos":
+      return { body: renderReceiptEscPos(receipt), contentType: "application/octet-stream", filename: `${filename}.bin` };
+    default:
+      return { body: renderReceiptHtml(receipt), contentType: "text/html; charset=utf-8", filename: `${filename}.html` };
+  }
+};
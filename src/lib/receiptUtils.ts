@@ -0,0 +1,304 @@
+import { Prisma, ReversalStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { PAYMENT_METHOD_LABELS, sumPayments } from "./paymentUtils";
+import { formatTaxLabel } from "./taxUtils";
+import { formatItemName } from "./productOptionUtils";
+import { formatDuration } from "./tableUtils";
+
+export interface ReceiptLine {
+  description: string;
+  quantity: number | null;
+  unitPrice: number | null;
+  amount: number;
+}
+
+export interface ReceiptAmount {
+  label: string;
+  amount: number;
+}
+
+export interface ReceiptPayment {
+  label: string;
+  amount: number;
+  tendered: number | null;
+  change: number;
+}
+
+export interface Receipt {
+  company: {
+    name: string;
+    address: string | null;
+    phone: string | null;
+  };
+  title: string;
+  number: string;
+  issuedAt: Date;
+  staffName: string | null;
+  customerName: string | null;
+  tableName: string | null;
+  lines: ReceiptLine[];
+  subtotal: number;
+  adjustments: ReceiptAmount[];
+  taxes: ReceiptAmount[];
+  total: number;
+  payments: ReceiptPayment[];
+  balanceDue: number;
+  notes: string[];
+}
+
+const companySelect = { name: true, address: true, phone: true } as const;
+
+const toPayments = (
+  payments: { method: keyof typeof PAYMENT_METHOD_LABELS; amount: Prisma.Decimal; tenderedAmount: Prisma.Decimal | null; changeAmount: Prisma.Decimal }[]
+): ReceiptPayment[] =>
+  payments.map((payment) => ({
+    label: PAYMENT_METHOD_LABELS[payment.method],
+    amount: Number(payment.amount),
+    tendered: payment.tenderedAmount === null ? null : Number(payment.tenderedAmount),
+    change: Number(payment.changeAmount),
+  }));
+
+// One line per tax rate, adding up lines that share it
+const toTaxes = (
+  taxLines: { name: string; rate: Prisma.Decimal; inclusive: boolean; taxAmount: Prisma.Decimal }[]
+): ReceiptAmount[] => {
+  const taxes = new Map<string, number>();
+  taxLines.forEach((line) => {
+    const label = formatTaxLabel({ name: line.name, rate: Number(line.rate), inclusive: line.inclusive });
+    taxes.set(label, sumPayments([{ amount: taxes.get(label) ?? 0 }, { amount: Number(line.taxAmount) }]));
+  });
+  return Array.from(taxes, ([label, amount]) => ({ label, amount }));
+};
+
+const staffName = (staff: { firstName: string | null; lastName: string | null } | null) => {
+  const name = [staff?.firstName, staff?.lastName].filter(Boolean).join(" ");
+  return name || null;
+};
+
+/**
+ * Build the receipt for a POS order. Orders settled as part of a table
+ * checkout have no payments of their own and point to the checkout instead.
+ */
+export async function buildOrderReceipt(
+  orderId: string,
+  companyId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Receipt | null> {
+  const order = await client.posOrder.findUnique({
+    where: { id: orderId, companyId },
+    include: {
+      company: { select: companySelect },
+      orderItems: {
+        include: {
+          item: { select: { name: true } },
+          variant: { select: { name: true } },
+          modifiers: { select: { name: true } },
+        },
+      },
+      payments: { orderBy: { createdAt: "asc" } },
+      taxLines: { orderBy: { name: "asc" } },
+      redemptions: {
+        include: { promotion: { select: { name: true, code: true } } },
+        orderBy: { createdAt: "asc" },
+      },
+      reversals: {
+        where: { status: ReversalStatus.APPROVED },
+        orderBy: { createdAt: "asc" },
+      },
+      customer: { select: { name: true } },
+      tableSession: { include: { table: { select: { name: true } } } },
+    },
+  });
+
+  if (!order) return null;
+
+  const staff = order.staffId
+    ? await client.profile.findUnique({
+        where: { id: order.staffId },
+        select: { firstName: true, lastName: true },
+      })
+    : null;
+
+  const lines = order.orderItems.map((orderItem) => ({
+    description: formatItemName(
+      orderItem.item.name,
+      orderItem.variant?.name,
+      orderItem.modifiers.map((modifier) => modifier.name)
+    ),
+    quantity: orderItem.quantity,
+    unitPrice: Number(orderItem.unitPrice),
+    amount: Number(orderItem.lineTotal),
+  }));
+
+  const subtotal = sumPayments(lines);
+  const total = Number(order.totalAmount ?? subtotal);
+  const payments = toPayments(order.payments);
+
+  const notes: string[] = [];
+  if (order.voidedAt) notes.push("VOID");
+  order.reversals
+    .filter((reversal) => reversal.type === "REFUND")
+    .forEach((reversal) => notes.push(`Refunded ${Number(reversal.amount).toFixed(2)}`));
+  if (payments.length === 0 && order.tableSessionId && Number(order.paidAmount ?? 0) > 0) {
+    notes.push("Settled on the table checkout");
+  }
+
+  return {
+    company: order.company,
+    title: "Receipt",
+    number: order.orderNumber,
+    issuedAt: order.createdAt,
+    staffName: staffName(staff),
+    customerName: order.customer?.name ?? null,
+    tableName: order.tableSession?.table.name ?? null,
+    lines,
+    subtotal,
+    // Promotions are shown against the whole order, even when they applied to a line
+    adjustments: order.redemptions
+      .filter((redemption) => Number(redemption.discountAmount) !== 0)
+      .map((redemption) => ({
+        label: redemption.promotion.code
+          ? `${redemption.promotion.name} (${redemption.promotion.code})`
+          : redemption.promotion.name,
+        amount: -Number(redemption.discountAmount),
+      })),
+    taxes: toTaxes(order.taxLines),
+    total,
+    payments,
+    balanceDue: order.voidedAt
+      ? 0
+      : Math.max(0, sumPayments([{ amount: total }, { amount: -Number(order.paidAmount ?? 0) }])),
+    notes,
+  };
+}
+
+/**
+ * Build the receipt for a table checkout: time on every table the session
+ * was moved across, the orders on the tab, and the payments that settled it
+ */
+export async function buildCheckoutReceipt(
+  checkoutId: string,
+  companyId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<Receipt | null> {
+  const checkout = await client.sessionCheckout.findUnique({
+    where: { id: checkoutId, companyId },
+    include: {
+      company: { select: companySelect },
+      staff: { select: { firstName: true, lastName: true } },
+      payments: { orderBy: { createdAt: "asc" } },
+      taxLines: { orderBy: { name: "asc" } },
+      session: {
+        include: {
+          table: { select: { name: true } },
+          customer: { select: { name: true } },
+          memberBenefit: true,
+          comboTimeUsages: true,
+        },
+      },
+    },
+  });
+
+  if (!checkout) return null;
+
+  // Walk back through the tables the session was moved from
+  const legs = [checkout.session];
+  let previousId = checkout.session.transferredFromId;
+  while (previousId) {
+    const previous = await client.tableSession.findUnique({
+      where: { id: previousId },
+      include: { table: { select: { name: true } }, memberBenefit: true, comboTimeUsages: true },
+    });
+    if (!previous) break;
+    legs.unshift({ ...previous, customer: checkout.session.customer });
+    previousId = previous.transferredFromId;
+  }
+
+  const lines: ReceiptLine[] = [];
+  const adjustments: ReceiptAmount[] = [];
+
+  legs.forEach((leg) => {
+    const comboCredit = sumPayments(leg.comboTimeUsages.map((usage) => ({ amount: Number(usage.credit) })));
+    const grossCost = sumPayments([
+      { amount: leg.memberBenefit ? Number(leg.memberBenefit.grossCost) : Number(leg.totalCost ?? 0) },
+      { amount: comboCredit },
+    ]);
+    lines.push({
+      description: `${leg.table.name} (${formatDuration(leg.durationMin ?? 0)})`,
+      quantity: null,
+      unitPrice: null,
+      amount: grossCost,
+    });
+
+    if (comboCredit > 0) {
+      lines.push({ description: "Combo table time", quantity: null, unitPrice: null, amount: -comboCredit });
+    }
+
+    if (leg.memberBenefit) {
+      const memberCredit = sumPayments([
+        { amount: Number(leg.memberBenefit.coveredAmount) },
+        { amount: Number(leg.memberBenefit.discountAmount) },
+      ]);
+      if (memberCredit > 0) {
+        lines.push({ description: "Member benefits", quantity: null, unitPrice: null, amount: -memberCredit });
+      }
+    }
+  });
+
+  const orders = await client.posOrder.findMany({
+    where: { tableSessionId: { in: legs.map((leg) => leg.id) }, voidedAt: null },
+    include: { taxLines: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  orders.forEach((order) => {
+    lines.push({
+      description: `Order ${order.orderNumber}`,
+      quantity: null,
+      unitPrice: null,
+      amount: Number(order.totalAmount ?? 0),
+    });
+  });
+
+  // Anything paid on the orders before checkout is taken off the bill
+  const subtotal = Number(checkout.subtotal);
+  const paidEarlier = sumPayments([...lines, { amount: -subtotal }]);
+  if (paidEarlier > 0) {
+    lines.push({ description: "Paid on orders", quantity: null, unitPrice: null, amount: -paidEarlier });
+  }
+
+  const discount = Number(checkout.discountAmount);
+  if (discount > 0) {
+    adjustments.push({
+      label: checkout.discountReason ? `Discount (${checkout.discountReason})` : "Discount",
+      amount: -discount,
+    });
+  }
+
+  const tip = Number(checkout.tipAmount);
+  if (tip > 0) {
+    adjustments.push({ label: "Tip", amount: tip });
+  }
+
+  return {
+    company: checkout.company,
+    title: "Table Checkout",
+    number: checkout.id.slice(0, 8).toUpperCase(),
+    issuedAt: checkout.createdAt,
+    staffName: staffName(checkout.staff),
+    customerName: checkout.session.customer?.name ?? null,
+    tableName: checkout.session.table.name,
+    lines,
+    subtotal,
+    adjustments,
+    // Tax on the orders is already part of their amounts
+    taxes: toTaxes([
+      ...checkout.taxLines,
+      ...orders.flatMap((order) => order.taxLines.map((line) => ({ ...line, inclusive: true }))),
+    ]),
+    total: Number(checkout.total),
+    payments: toPayments(checkout.payments),
+    balanceDue: 0,
+    notes: [],
+  };
+}
@@ -0,0 +1,160 @@
+import { InventoryTransactionType, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { mergeDeductions, StockDeduction } from "./productOptionUtils";
+
+export interface StockUsage {
+  stockDeductions: StockDeduction[];
+  costAmount: number;
+}
+
+export interface IngredientUsageRow {
+  itemId: string;
+  name: string;
+  unitCost: number | null;
+  // What the recipes say sales should have used
+  theoreticalUsage: number;
+  // What actually left the shelf, including sales, wastage and count corrections
+  actualUsage: number;
+  variance: number;
+  varianceCost: number;
+}
+
+export interface IngredientUsageReport {
+  from: Date;
+  to: Date;
+  ingredients: IngredientUsageRow[];
+  totals: {
+    varianceCost: number;
+  };
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Swap items made to a recipe for the ingredients they are made from, then
+ * cost what is taken out at each stock item's unit cost. Takes the stock
+ * deductions of each order line and returns them in the same order.
+ */
+export async function expandRecipes(
+  lines: StockDeduction[][],
+  client: Prisma.TransactionClient = prisma
+): Promise<StockUsage[]> {
+  const itemIds = Array.from(new Set(lines.flat().map((deduction) => deduction.itemId)));
+  const recipes = await client.recipeIngredient.findMany({
+    where: { itemId: { in: itemIds } },
+  });
+
+  const recipesByItem = new Map<string, typeof recipes>();
+  recipes.forEach((ingredient) => {
+    recipesByItem.set(ingredient.itemId, [...(recipesByItem.get(ingredient.itemId) ?? []), ingredient]);
+  });
+
+  const expanded = lines.map((deductions) =>
+    mergeDeductions(
+      deductions.flatMap((deduction) => {
+        const recipe = recipesByItem.get(deduction.itemId);
+        return recipe
+          ? recipe.map((ingredient) => ({
+              itemId: ingredient.ingredientId,
+              quantity: ingredient.quantity * deduction.quantity,
+            }))
+          : [deduction];
+      })
+    )
+  );
+
+  const stockItems = await client.inventoryItem.findMany({
+    where: { id: { in: Array.from(new Set(expanded.flat().map((deduction) => deduction.itemId))) } },
+    select: { id: true, unitCost: true },
+  });
+  const unitCosts = new Map(stockItems.map((item) => [item.id, Number(item.unitCost ?? 0)]));
+
+  return expanded.map((stockDeductions) => ({
+    stockDeductions,
+    costAmount: roundCurrency(
+      stockDeductions.reduce(
+        (sum, deduction) => sum + deduction.quantity * (unitCosts.get(deduction.itemId) ?? 0),
+        0
+      )
+    ),
+  }));
+}
+
+/**
+ * Cost of one unit of an item made to a recipe, at today's ingredient costs
+ */
+export const getRecipeCost = (
+  recipe: { quantity: number; ingredient: { unitCost: Prisma.Decimal | number | string | null } }[]
+): number =>
+  roundCurrency(
+    recipe.reduce((sum, ingredient) => sum + ingredient.quantity * Number(ingredient.ingredient.unitCost ?? 0), 0)
+  );
+
+/**
+ * Theoretical against actual usage of every recipe ingredient over a period.
+ *
+ * Theoretical usage is what sales took out through their recipes, less what
+ * voids and refunds put back. Actual usage adds everything else that took
+ * stock out, such as wastage and stock count corrections, so the variance is
+ * stock that left without being sold.
+ */
+export async function getIngredientUsageReport(
+  companyId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<IngredientUsageReport> {
+  const ingredients = await client.inventoryItem.findMany({
+    where: { companyId, usedInRecipes: { some: {} } },
+    select: { id: true, name: true, unitCost: true },
+    orderBy: { name: "asc" },
+  });
+
+  const transactions = await client.inventoryTransaction.findMany({
+    where: {
+      companyId,
+      itemId: { in: ingredients.map((ingredient) => ingredient.id) },
+      createdAt: { gte: from, lte: to },
+    },
+    select: { itemId: true, quantityDelta: true, transactionType: true, posOrderItemId: true },
+  });
+
+  const usage = new Map<string, { theoretical: number; actual: number }>();
+  transactions.forEach((transaction) => {
+    const entry = usage.get(transaction.itemId) ?? { theoretical: 0, actual: 0 };
+    const fromSale = transaction.posOrderItemId !== null;
+
+    if (fromSale) {
+      entry.theoretical -= transaction.quantityDelta;
+    }
+    // Deliveries aren't usage, but anything put back from a sale is
+    if (fromSale || transaction.transactionType !== InventoryTransactionType.INCOMING) {
+      entry.actual -= transaction.quantityDelta;
+    }
+    usage.set(transaction.itemId, entry);
+  });
+
+  const ingredientRows: IngredientUsageRow[] = ingredients.map((ingredient) => {
+    const { theoretical, actual } = usage.get(ingredient.id) ?? { theoretical: 0, actual: 0 };
+    const unitCost = ingredient.unitCost === null ? null : Number(ingredient.unitCost);
+    const variance = actual - theoretical;
+    return {
+      itemId: ingredient.id,
+      name: ingredient.name,
+      unitCost,
+      theoreticalUsage: theoretical,
+      actualUsage: actual,
+      variance,
+      varianceCost: roundCurrency(variance * (unitCost ?? 0)),
+    };
+  });
+
+  return {
+    from,
+    to,
+    ingredients: ingredientRows,
+    totals: {
+      varianceCost: roundCurrency(ingredientRows.reduce((sum, row) => sum + row.varianceCost, 0)),
+    },
+  };
+}
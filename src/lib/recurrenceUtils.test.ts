@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { getOccurrences, MAX_SERIES_OCCURRENCES } from "./recurrenceUtils";
+
+const booking = (reservedFrom: string, hours = 2) => ({
+  reservedFrom: new Date(reservedFrom),
+  reservedTo: new Date(new Date(reservedFrom).getTime() + hours * 60 * 60 * 1000),
+});
+
+const starts = (occurrences: { reservedFrom: Date }[]) =>
+  occurrences.map((occurrence) => occurrence.reservedFrom.toISOString());
+
+describe("getOccurrences", () => {
+  it("repeats weekly for the number of bookings asked for", () => {
+    const occurrences = getOccurrences(booking("2026-01-06T18:00:00Z"), { frequency: "WEEKLY", count: 3 }, "UTC");
+
+    expect(starts(occurrences)).toEqual([
+      "2026-01-06T18:00:00.000Z",
+      "2026-01-13T18:00:00.000Z",
+      "2026-01-20T18:00:00.000Z",
+    ]);
+    expect(occurrences[2].reservedTo.toISOString()).toBe("2026-01-20T20:00:00.000Z");
+  });
+
+  it("keeps the time of day on the venue's clock when the clocks change", () => {
+    // London moves to summer time on 29 March 2026
+    const occurrences = getOccurrences(
+      booking("2026-03-24T19:00:00Z"),
+      { frequency: "WEEKLY", count: 2 },
+      "Europe/London"
+    );
+
+    expect(starts(occurrences)).toEqual(["2026-03-24T19:00:00.000Z", "2026-03-31T18:00:00.000Z"]);
+  });
+
+  it("includes a booking starting on the until date", () => {
+    const occurrences = getOccurrences(
+      booking("2026-01-06T18:00:00Z"),
+      { frequency: "BIWEEKLY", until: new Date("2026-02-03T18:00:00Z") },
+      "UTC"
+    );
+
+    expect(starts(occurrences)).toEqual([
+      "2026-01-06T18:00:00.000Z",
+      "2026-01-20T18:00:00.000Z",
+      "2026-02-03T18:00:00.000Z",
+    ]);
+  });
+
+  it("books the same weekday of each month", () => {
+    // The second Tuesday
+    const occurrences = getOccurrences(
+      booking("2026-01-13T18:00:00Z"),
+      { frequency: "MONTHLY_WEEKDAY", count: 3 },
+      "UTC"
+    );
+
+    expect(starts(occurrences)).toEqual([
+      "2026-01-13T18:00:00.000Z",
+      "2026-02-10T18:00:00.000Z",
+      "2026-03-10T18:00:00.000Z",
+    ]);
+  });
+
+  it("takes a fifth weekday to mean the last one", () => {
+    // February 2026 has four Thursdays
+    const occurrences = getOccurrences(
+      booking("2026-01-29T18:00:00Z"),
+      { frequency: "MONTHLY_WEEKDAY", count: 2 },
+      "UTC"
+    );
+
+    expect(starts(occurrences)[1]).toBe("2026-02-26T18:00:00.000Z");
+  });
+
+  it("stops one past the maximum when the series has no end", () => {
+    const occurrences = getOccurrences(booking("2026-01-06T18:00:00Z"), { frequency: "WEEKLY" }, "UTC");
+
+    expect(occurrences).toHaveLength(MAX_SERIES_OCCURRENCES + 1);
+  });
+});
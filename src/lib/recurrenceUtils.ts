@@ -0,0 +1,146 @@
+import type { ReservationFrequency } from "@prisma/client";
+
+// About two years of weekly bookings
+export const MAX_SERIES_OCCURRENCES = 104;
+
+export const RESERVATION_FREQUENCY_LABELS: Record<ReservationFrequency, string> = {
+  WEEKLY: "Weekly",
+  BIWEEKLY: "Every 2 weeks",
+  MONTHLY_WEEKDAY: "Monthly",
+};
+
+export interface RecurrenceRule {
+  frequency: ReservationFrequency;
+  // The last booking starts on or before this
+  until?: Date | null;
+  count?: number | null;
+}
+
+export interface Occurrence {
+  reservedFrom: Date;
+  reservedTo: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEK_OF_MONTH = ["first", "second", "third", "fourth", "last"];
+
+/** Whether the runtime knows an IANA time zone name, e.g. "Europe/London" */
+export function isTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Formatters are slow to build and pricing reads the clock once a minute
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getWallClockFormat(timeZone?: string) {
+  const key = timeZone ?? "";
+  let wallClockFormat = wallClockFormats.get(key);
+  if (!wallClockFormat) {
+    wallClockFormat = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    wallClockFormats.set(key, wallClockFormat);
+  }
+  return wallClockFormat;
+}
+
+// What a zone's clock reads at an instant, written as if that reading were
+// UTC. Without a zone the runtime's own is used.
+export function toWallTime(date: Date, timeZone?: string) {
+  const parts = getWallClockFormat(timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+
+  return (
+    Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")) +
+    date.getUTCMilliseconds()
+  );
+}
+
+// The instant a zone's clock reads the given wall time. The offset is looked
+// up a second time in case the clocks change between the guess and the answer.
+export function fromWallTime(wallTime: number, timeZone?: string) {
+  const offset = toWallTime(new Date(wallTime), timeZone) - wallTime;
+  const guess = wallTime - offset;
+  return new Date(wallTime - (toWallTime(new Date(guess), timeZone) - guess));
+}
+
+// Day of the month the nth weekday falls on. There isn't always a fifth
+// one, so that's taken to mean the last.
+function nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number) {
+  const firstWeekday = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return day > daysInMonth ? day - 7 : day;
+}
+
+/**
+ * Every booking in a series, starting with the first. Dates are worked out on
+ * the clock of the given time zone, so a 7pm booking stays at 7pm when the
+ * clocks change. A rule without a count stops one past the maximum, so
+ * callers can tell when it runs too long.
+ */
+export function getOccurrences(first: Occurrence, rule: RecurrenceRule, timeZone?: string): Occurrence[] {
+  const duration = first.reservedTo.getTime() - first.reservedFrom.getTime();
+  const start = toWallTime(first.reservedFrom, timeZone);
+  const startDate = new Date(start);
+  const timeOfDay = start % DAY_MS;
+  const weekday = startDate.getUTCDay();
+  const nth = Math.ceil(startDate.getUTCDate() / 7);
+  const limit = rule.count ?? MAX_SERIES_OCCURRENCES + 1;
+
+  const occurrences: Occurrence[] = [];
+  for (let index = 0; occurrences.length < limit; index++) {
+    let wallTime: number;
+    if (rule.frequency === "MONTHLY_WEEKDAY") {
+      const month = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + index, 1));
+      const day = nthWeekdayOfMonth(month.getUTCFullYear(), month.getUTCMonth(), weekday, nth);
+      wallTime = Date.UTC(month.getUTCFullYear(), month.getUTCMonth(), day) + timeOfDay;
+    } else {
+      wallTime = start + index * (rule.frequency === "BIWEEKLY" ? 14 : 7) * DAY_MS;
+    }
+
+    const reservedFrom = fromWallTime(wallTime, timeZone);
+    if (rule.until && reservedFrom > rule.until) break;
+    occurrences.push({ reservedFrom, reservedTo: new Date(reservedFrom.getTime() + duration) });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Moves a date by the same wall-clock difference as there is between two
+ * others, e.g. a series moved from Tuesday 7pm to Wednesday 8pm moves every
+ * booking in it a day and an hour on, whatever the clocks do in between.
+ */
+export function moveByWallTime(date: Date, from: Date, to: Date, timeZone?: string) {
+  const difference = toWallTime(to, timeZone) - toWallTime(from, timeZone);
+  return fromWallTime(toWallTime(date, timeZone) + difference, timeZone);
+}
+
+/**
+ * How a series repeats in words, e.g. "Monthly on the second Tuesday", read
+ * on the series' own clock. Without a zone the runtime's own is used.
+ */
+export function describeRecurrence(frequency: ReservationFrequency, firstDate: Date, timeZone?: string) {
+  const wallDate = new Date(toWallTime(firstDate, timeZone));
+  const weekday = wallDate.toLocaleDateString("en-US", { weekday: "long", timeZone: "UTC" });
+  if (frequency === "MONTHLY_WEEKDAY") {
+    const nth = Math.ceil(wallDate.getUTCDate() / 7);
+    return `Monthly on the ${WEEK_OF_MONTH[nth - 1]} ${weekday}`;
+  }
+  return `${RESERVATION_FREQUENCY_LABELS[frequency]} on ${weekday}`;
+}
@@ -0,0 +1,193 @@
+import { Prisma, TableReservation } from "@prisma/client";
+import { addDays, subDays } from "date-fns";
+import prisma from "@/lib/prisma";
+import type { Occurrence } from "@/lib/recurrenceUtils";
+import type { ReservationEditScope } from "@/lib/validations/reservation";
+
+export const timelineReservationInclude = {
+  customer: { select: { id: true, name: true, phone: true } },
+  series: { select: { id: true, frequency: true, timeZone: true } },
+} satisfies Prisma.TableReservationInclude;
+
+export type TimelineReservation = Prisma.TableReservationGetPayload<{
+  include: typeof timelineReservationInclude;
+}>;
+
+export interface TimelineSession {
+  id: string;
+  tableId: string;
+  startedAt: Date;
+  status: string | null;
+  customerName: string | null;
+}
+
+// Maintenance is booked for a day and takes the table out for all of it.
+// Which day that is depends on the viewer's time zone, so it's left to them.
+export interface TimelineMaintenance {
+  id: string;
+  tableId: string;
+  description: string | null;
+  maintenanceAt: Date;
+}
+
+export interface OccurrenceClash extends Occurrence {
+  conflicts: TableReservation[];
+}
+
+export interface ReservationTimeline {
+  tables: { id: string; name: string; status: string | null }[];
+  reservations: TimelineReservation[];
+  sessions: TimelineSession[];
+  maintenance: TimelineMaintenance[];
+}
+
+/**
+ * Hold tables' reservations until the transaction ends, so a clash check
+ * and the booking it allowed can't be split by another booking for a table.
+ * Call it first in the transaction, before checking for clashes. Tables are
+ * always locked in the same order, so two transactions locking several of
+ * them can't end up waiting on each other.
+ */
+export async function lockTableReservations(tx: Prisma.TransactionClient, tableIds: string[]) {
+  await tx.$queryRaw`SELECT id FROM tables WHERE id = ANY(${tableIds}::uuid[]) ORDER BY id FOR UPDATE`;
+}
+
+/**
+ * Reservations on a table that overlap the given period, other than
+ * cancelled ones. Pass the reservation being changed as excludeId so it
+ * doesn't clash with itself.
+ */
+export async function findConflictingReservations(
+  tableId: string,
+  reservedFrom: Date,
+  reservedTo: Date,
+  excludeId?: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.tableReservation.findMany({
+    where: {
+      tableId,
+      status: { not: "CANCELLED" },
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+      // Two periods overlap when each starts before the other ends
+      reservedFrom: { lt: reservedTo },
+      reservedTo: { gt: reservedFrom },
+    },
+  });
+}
+
+/**
+ * Checks each booking of a series against the table's other reservations
+ * and returns every one that clashes, along with what it clashes with.
+ * Reservations in excludeIds are the ones being moved, so they're left out.
+ */
+export async function findOccurrenceClashes(
+  tableId: string,
+  occurrences: Occurrence[],
+  excludeIds: string[] = [],
+  client: Prisma.TransactionClient = prisma
+): Promise<OccurrenceClash[]> {
+  if (occurrences.length === 0) return [];
+
+  const reservations = await client.tableReservation.findMany({
+    where: {
+      tableId,
+      status: { not: "CANCELLED" },
+      id: { notIn: excludeIds },
+      reservedFrom: { lt: new Date(Math.max(...occurrences.map((o) => o.reservedTo.getTime()))) },
+      reservedTo: { gt: new Date(Math.min(...occurrences.map((o) => o.reservedFrom.getTime()))) },
+    },
+    orderBy: { reservedFrom: "asc" },
+  });
+
+  return occurrences
+    .map((occurrence) => ({
+      ...occurrence,
+      conflicts: reservations.filter(
+        (reservation) =>
+          reservation.reservedFrom < occurrence.reservedTo &&
+          reservation.reservedTo > occurrence.reservedFrom
+      ),
+    }))
+    .filter((clash) => clash.conflicts.length > 0);
+}
+
+/**
+ * The reservations an edit applies to: the one given, or with the "future"
+ * scope it and every later booking in its series.
+ */
+export async function getReservationsInScope(
+  reservation: TableReservation,
+  scope: ReservationEditScope,
+  client: Prisma.TransactionClient = prisma
+) {
+  if (scope === "this" || !reservation.seriesId) return [reservation];
+
+  return client.tableReservation.findMany({
+    where: {
+      seriesId: reservation.seriesId,
+      reservedFrom: { gte: reservation.reservedFrom },
+    },
+    orderBy: { reservedFrom: "asc" },
+  });
+}
+
+/**
+ * Everything that occupies a company's tables between two times: reservations,
+ * sessions still in play and maintenance days. Maintenance a day either side
+ * is included for viewers whose day starts earlier or later than the server's.
+ */
+export async function getReservationTimeline(
+  companyId: string,
+  from: Date,
+  to: Date
+): Promise<ReservationTimeline> {
+  const [tables, reservations, sessions, maintenance] = await Promise.all([
+    prisma.table.findMany({
+      where: { companyId },
+      select: { id: true, name: true, status: true },
+      orderBy: { name: "asc" },
+    }),
+    prisma.tableReservation.findMany({
+      where: {
+        companyId,
+        status: { not: "CANCELLED" },
+        reservedFrom: { lt: to },
+        reservedTo: { gt: from },
+      },
+      include: timelineReservationInclude,
+      orderBy: { reservedFrom: "asc" },
+    }),
+    prisma.tableSession.findMany({
+      where: {
+        companyId,
+        endedAt: null,
+        startedAt: { lt: to },
+      },
+      select: {
+        id: true,
+        tableId: true,
+        startedAt: true,
+        status: true,
+        customer: { select: { name: true } },
+      },
+    }),
+    prisma.tableMaintenance.findMany({
+      where: {
+        companyId,
+        maintenanceAt: { gte: subDays(from, 1), lt: addDays(to, 1) },
+      },
+      select: { id: true, tableId: true, description: true, maintenanceAt: true },
+    }),
+  ]);
+
+  return {
+    tables,
+    reservations,
+    sessions: sessions.map(({ customer, ...session }) => ({
+      ...session,
+      customerName: customer?.name ?? null,
+    })),
+    maintenance,
+  };
+}
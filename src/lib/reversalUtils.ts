@@ -0,0 +1,292 @@
+import { FinanceCategoryType, PaymentMethod, Prisma, ReversalStatus } from "@prisma/client";
+import { getOrCreateFinanceCategory, SALES_CATEGORY_NAME } from "./financeUtils";
+import { adjustInventoryQuantity } from "./inventoryUtils";
+import { getOpenShift } from "./shiftUtils";
+import { getMethodShare } from "./paymentUtils";
+import { releasePromotionRedemptions } from "./promotionUtils";
+
+export type OrderWithReversals = Prisma.PosOrderGetPayload<{
+  include: {
+    orderItems: true;
+    reversals: { include: { items: true } };
+  };
+}>;
+
+export type ReversalWithItems = Prisma.PosOrderReversalGetPayload<{
+  include: { items: { include: { orderItem: { include: { inventoryTransactions: true } } } } };
+}>;
+
+/**
+ * Thrown when a reversal is reviewed, or an order voided, by someone else
+ * while this request was being handled
+ */
+export class ReversalConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReversalConflictError";
+  }
+}
+
+const ACTIVE_STATUSES: ReversalStatus[] = [ReversalStatus.PENDING, ReversalStatus.APPROVED];
+
+/**
+ * Quantity per order item that has been refunded or is waiting for approval
+ */
+export const getReversedQuantities = (order: OrderWithReversals): Record<string, number> => {
+  const quantities: Record<string, number> = {};
+
+  order.reversals
+    .filter((reversal) => ACTIVE_STATUSES.includes(reversal.status))
+    .forEach((reversal) => {
+      reversal.items.forEach((item) => {
+        quantities[item.orderItemId] = (quantities[item.orderItemId] ?? 0) + item.quantity;
+      });
+    });
+
+  return quantities;
+};
+
+/**
+ * Money already given back to the customer through approved reversals
+ */
+export const getRefundedAmount = (order: OrderWithReversals): number => {
+  return order.reversals
+    .filter((reversal) => reversal.status === ReversalStatus.APPROVED)
+    .reduce((sum, reversal) => sum + Number(reversal.amount), 0);
+};
+
+/**
+ * Lock an order until the transaction ends and read it again with its
+ * reversals, so two refunds of the same order can't both count the same
+ * items or money as still there
+ */
+export async function lockOrderForReversal(
+  tx: Prisma.TransactionClient,
+  orderId: string
+): Promise<OrderWithReversals> {
+  await tx.$queryRaw`SELECT id FROM pos_orders WHERE id = ${orderId}::uuid FOR UPDATE`;
+
+  return tx.posOrder.findUniqueOrThrow({
+    where: { id: orderId },
+    include: {
+      orderItems: true,
+      reversals: { include: { items: true } },
+    },
+  });
+}
+
+/**
+ * The items and amounts to refund from an order, or why they can't be.
+ * Refunds give back what was paid for the items: their share of the line
+ * after promotions, plus any tax added on top of it.
+ */
+export const getRefundItems = (
+  order: OrderWithReversals,
+  requestedItems: { orderItemId: string; quantity: number }[]
+):
+  | { error: string }
+  | { items: { orderItemId: string; quantity: number; amount: number }[] } => {
+  // Make sure nothing is refunded twice
+  const reversedQuantities = getReversedQuantities(order);
+  const items: { orderItemId: string; quantity: number; amount: number }[] = [];
+
+  for (const requested of requestedItems) {
+    const orderItem = order.orderItems.find((item) => item.id === requested.orderItemId);
+
+    if (!orderItem) {
+      return { error: "Item does not belong to this order" };
+    }
+
+    const remaining = orderItem.quantity - (reversedQuantities[orderItem.id] ?? 0);
+    if (requested.quantity > remaining) {
+      return { error: `Only ${remaining} of this item can still be refunded` };
+    }
+
+    const share = requested.quantity / orderItem.quantity;
+    const netAmount = (Number(orderItem.lineTotal) - Number(orderItem.discountAmount)) * share;
+    const addedTax = order.taxInclusive ? 0 : Number(orderItem.taxAmount) * share;
+
+    items.push({
+      orderItemId: orderItem.id,
+      quantity: requested.quantity,
+      amount: Math.round((netAmount + addedTax) * 100) / 100,
+    });
+  }
+
+  return { items };
+};
+
+/**
+ * Stock to put back when part of an order item is reversed. A variant,
+ * modifier or recipe may have taken stock from other items, so this follows
+ * what the sale actually took out, in proportion to the quantity reversed, and
+ * puts it back at what it cost. Orders from before that was recorded per item
+ * fall back to the item itself at its current cost.
+ */
+const getRestockQuantities = (
+  orderItem: ReversalWithItems["items"][number]["orderItem"],
+  quantity: number
+): { itemId: string; quantity: number; unitCost?: number }[] => {
+  const sales = orderItem.inventoryTransactions.filter(
+    (transaction) => transaction.transactionType === "OUTGOING" && transaction.quantityDelta < 0
+  );
+
+  if (sales.length === 0) {
+    return [{ itemId: orderItem.itemId, quantity }];
+  }
+
+  return sales
+    .map((transaction) => ({
+      itemId: transaction.itemId,
+      quantity: Math.round((-transaction.quantityDelta * quantity) / orderItem.quantity),
+      unitCost:
+        transaction.costAmount === null
+          ? undefined
+          : Number(transaction.costAmount) / -transaction.quantityDelta,
+    }))
+    .filter((restock) => restock.quantity > 0);
+};
+
+const paymentShareSelect = { select: { method: true, amount: true, customerId: true } } as const;
+
+/**
+ * Give the part of a refund that was charged to a house tab back to that
+ * tab, as a negative tab charge, so the customer's balance goes down with it.
+ * Orders on a table tab were paid at its checkout.
+ */
+async function creditRefundToTab(
+  tx: Prisma.TransactionClient,
+  order: { id: string; companyId: string },
+  refunded: number,
+  staffId: string
+) {
+  const { payments, tableSession } = await tx.posOrder.findUniqueOrThrow({
+    where: { id: order.id },
+    select: {
+      payments: paymentShareSelect,
+      tableSession: { select: { checkout: { select: { payments: paymentShareSelect } } } },
+    },
+  });
+
+  const paidWith = (payments.length > 0 ? payments : tableSession?.checkout?.payments ?? []).map(
+    (payment) => ({ ...payment, amount: Number(payment.amount) })
+  );
+  const tabPayment = paidWith.find((payment) => payment.method === PaymentMethod.TAB && payment.customerId);
+  if (!tabPayment) return;
+
+  const credit = Math.round(refunded * getMethodShare(paidWith, PaymentMethod.TAB) * 100) / 100;
+  if (credit <= 0) return;
+
+  await tx.payment.create({
+    data: {
+      companyId: order.companyId,
+      staffId,
+      method: PaymentMethod.TAB,
+      amount: -credit,
+      customerId: tabPayment.customerId,
+    },
+  });
+}
+
+/**
+ * Carry out an approved void or refund: restock the items, give back
+ * what was paid for them as a negative sales entry and mark the reversal approved.
+ * The money is handed back from the drawer of the shift open at approval time.
+ * Runs inside the caller's transaction.
+ */
+export async function applyReversal(
+  tx: Prisma.TransactionClient,
+  reversal: ReversalWithItems,
+  orderId: string,
+  approvedById: string
+) {
+  const label = reversal.type === "VOID" ? "Void" : "Refund";
+
+  // Money given back by other reversals of the order is read under its lock
+  const order = await lockOrderForReversal(tx, orderId);
+
+  // Claim the reversal, and for a void the order, before touching stock or
+  // money so two approvals at the same time can't both go through
+  const claimed = await tx.posOrderReversal.updateMany({
+    where: { id: reversal.id, status: ReversalStatus.PENDING },
+    data: { status: ReversalStatus.APPROVED },
+  });
+
+  if (claimed.count === 0) {
+    throw new ReversalConflictError("Refund has already been reviewed");
+  }
+
+  if (reversal.type === "VOID") {
+    const voided = await tx.posOrder.updateMany({
+      where: { id: order.id, voidedAt: null },
+      data: { voidedAt: new Date() },
+    });
+
+    if (voided.count === 0) {
+      throw new ReversalConflictError("Order has already been voided");
+    }
+
+    await releasePromotionRedemptions(tx, order.id);
+  }
+
+  // Put the items back on the shelf
+  for (const item of reversal.items) {
+    for (const restock of getRestockQuantities(item.orderItem, item.quantity)) {
+      await adjustInventoryQuantity(
+        {
+          companyId: order.companyId,
+          itemId: restock.itemId,
+          quantityDelta: restock.quantity,
+          transactionType: "INCOMING",
+          note: `${label}: ${reversal.id} (POS Order: ${order.id})`,
+          staffId: approvedById,
+          posOrderItemId: item.orderItemId,
+          unitCost: restock.unitCost,
+        },
+        tx
+      );
+    }
+  }
+
+  // Only money that was actually collected can be given back
+  const paid = Number(order.paidAmount ?? 0);
+  const refundable = Math.max(0, Math.min(Number(reversal.amount), paid - getRefundedAmount(order)));
+  let financeTransactionId: string | null = null;
+
+  if (refundable > 0) {
+    const category = await getOrCreateFinanceCategory(
+      order.companyId,
+      SALES_CATEGORY_NAME,
+      FinanceCategoryType.INCOME,
+      tx
+    );
+
+    const financeTransaction = await tx.financeTransaction.create({
+      data: {
+        companyId: order.companyId,
+        categoryId: category.id,
+        amount: -refundable,
+        transactionDate: new Date(),
+        description: `${label} of order ${order.orderNumber}`,
+        staffId: approvedById,
+      },
+    });
+    financeTransactionId = financeTransaction.id;
+
+    await creditRefundToTab(tx, order, refundable, approvedById);
+  }
+
+  const shift = await getOpenShift(order.companyId, tx);
+
+  return tx.posOrderReversal.update({
+    where: { id: reversal.id },
+    data: {
+      status: ReversalStatus.APPROVED,
+      approvedById,
+      approvedAt: new Date(),
+      financeTransactionId,
+      shiftId: shift?.id ?? null,
+    },
+    include: { items: true },
+  });
+}
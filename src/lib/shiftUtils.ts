@@ -0,0 +1,230 @@
+import { CashShiftStatus, PaymentMethod, Prisma, ReversalStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { getMethodShare, sumPayments } from "./paymentUtils";
+
+const staffName = { select: { firstName: true, lastName: true } } as const;
+
+const shiftReportInclude = {
+  openedBy: staffName,
+  closedBy: staffName,
+  // Voided orders are left out of sales, they're reported under refunds
+  orders: {
+    where: { voidedAt: null },
+    include: {
+      orderItems: {
+        include: {
+          item: { include: { category: true } },
+        },
+      },
+    },
+  },
+  payments: true,
+  checkouts: true,
+  reversals: {
+    where: { status: ReversalStatus.APPROVED },
+    include: {
+      financeTransaction: true,
+      order: {
+        select: {
+          payments: { select: { method: true, amount: true } },
+          tableSession: {
+            select: { checkout: { select: { payments: { select: { method: true, amount: true } } } } },
+          },
+        },
+      },
+    },
+  },
+  payouts: true,
+} satisfies Prisma.CashShiftInclude;
+
+export type ShiftWithActivity = Prisma.CashShiftGetPayload<{
+  include: typeof shiftReportInclude;
+}>;
+
+export interface ShiftReport {
+  shiftId: string;
+  status: CashShiftStatus;
+  openedAt: Date;
+  closedAt: Date | null;
+  openedBy: string;
+  closedBy: string | null;
+  orderCount: number;
+  salesByCategory: { categoryName: string; quantity: number; total: number }[];
+  grossSales: number;
+  tableRevenue: {
+    checkoutCount: number;
+    timeCost: number;
+    discounts: number;
+    tips: number;
+  };
+  paymentsByMethod: { method: PaymentMethod; count: number; total: number }[];
+  refunds: {
+    voidCount: number;
+    refundCount: number;
+    total: number;
+  };
+  payouts: {
+    count: number;
+    total: number;
+  };
+  cash: {
+    openingFloat: number;
+    cashPayments: number;
+    cashRefunds: number;
+    payouts: number;
+    expected: number;
+    counted: number | null;
+    variance: number | null;
+  };
+}
+
+/**
+ * The drawer shift that is currently open for a company, if any.
+ * Only one shift can be open per company at a time.
+ */
+export async function getOpenShift(
+  companyId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  return client.cashShift.findFirst({
+    where: { companyId, status: CashShiftStatus.OPEN },
+  });
+}
+
+/**
+ * Load a shift together with everything that was attributed to it
+ */
+export async function getShiftWithActivity(
+  shiftId: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<ShiftWithActivity | null> {
+  return client.cashShift.findUnique({
+    where: { id: shiftId },
+    include: shiftReportInclude,
+  });
+}
+
+/**
+ * Cash that should be in the drawer: the opening float plus cash taken,
+ * minus refunds handed back and payouts taken out
+ */
+export const calculateExpectedCash = ({
+  openingFloat,
+  cashPayments,
+  cashRefunds,
+  payouts,
+}: {
+  openingFloat: number;
+  cashPayments: number;
+  cashRefunds: number;
+  payouts: number;
+}): number => {
+  return sumPayments([
+    { amount: openingFloat },
+    { amount: cashPayments },
+    { amount: -cashRefunds },
+    { amount: -payouts },
+  ]);
+};
+
+/**
+ * The part of a refunded order's money that was paid in cash, so only that
+ * much is taken out of the drawer. Orders on a table tab were paid at its
+ * checkout. Nothing comes out of the drawer for an order nobody paid for.
+ */
+const getCashShare = (order: ShiftWithActivity["reversals"][number]["order"]): number => {
+  const payments = order.payments.length > 0
+    ? order.payments
+    : order.tableSession?.checkout?.payments ?? [];
+  return getMethodShare(
+    payments.map((payment) => ({ method: payment.method, amount: Number(payment.amount) })),
+    PaymentMethod.CASH
+  );
+};
+
+const formatStaffName = (staff: { firstName: string | null; lastName: string | null } | null) =>
+  staff ? [staff.firstName, staff.lastName].filter(Boolean).join(" ") || "Staff" : null;
+
+/**
+ * Build the Z-report for a shift. While the shift is still open this is a
+ * running summary and the counted cash and variance are empty.
+ */
+export const buildShiftReport = (shift: ShiftWithActivity): ShiftReport => {
+  // Sales by inventory category after promotions, refunds are reported separately
+  const categories: Record<string, { categoryName: string; quantity: number; total: number }> = {};
+  shift.orders.forEach((order) => {
+    order.orderItems.forEach((orderItem) => {
+      const categoryName = orderItem.item.category?.name ?? "Uncategorized";
+      const entry = categories[categoryName] ?? { categoryName, quantity: 0, total: 0 };
+      entry.quantity += orderItem.quantity;
+      entry.total = sumPayments([
+        { amount: entry.total },
+        { amount: Number(orderItem.lineTotal) },
+        { amount: -Number(orderItem.discountAmount) },
+      ]);
+      categories[categoryName] = entry;
+    });
+  });
+  const salesByCategory = Object.values(categories).sort((a, b) => b.total - a.total);
+
+  const methods: Partial<Record<PaymentMethod, { method: PaymentMethod; count: number; total: number }>> = {};
+  shift.payments.forEach((payment) => {
+    const entry = methods[payment.method] ?? { method: payment.method, count: 0, total: 0 };
+    entry.count += 1;
+    entry.total = sumPayments([{ amount: entry.total }, { amount: Number(payment.amount) }]);
+    methods[payment.method] = entry;
+  });
+
+  const cashPayments = methods[PaymentMethod.CASH]?.total ?? 0;
+
+  // Refunds of cash payments are handed back from the drawer, card and tab refunds aren't
+  const cashRefunds = sumPayments(
+    shift.reversals.map((reversal) => ({
+      amount: Math.abs(Number(reversal.financeTransaction?.amount ?? 0)) * getCashShare(reversal.order),
+    }))
+  );
+  const payouts = sumPayments(shift.payouts.map((payout) => ({ amount: Number(payout.amount) })));
+  const openingFloat = Number(shift.openingFloat);
+
+  // Closed shifts keep the figure that was shown when the drawer was counted
+  const expected = shift.expectedCash != null
+    ? Number(shift.expectedCash)
+    : calculateExpectedCash({ openingFloat, cashPayments, cashRefunds, payouts });
+
+  return {
+    shiftId: shift.id,
+    status: shift.status,
+    openedAt: shift.openedAt,
+    closedAt: shift.closedAt,
+    openedBy: formatStaffName(shift.openedBy) ?? "Staff",
+    closedBy: formatStaffName(shift.closedBy),
+    orderCount: shift.orders.length,
+    salesByCategory,
+    grossSales: sumPayments(salesByCategory.map((category) => ({ amount: category.total }))),
+    tableRevenue: {
+      checkoutCount: shift.checkouts.length,
+      timeCost: sumPayments(shift.checkouts.map((checkout) => ({ amount: Number(checkout.timeCost) }))),
+      discounts: sumPayments(shift.checkouts.map((checkout) => ({ amount: Number(checkout.discountAmount) }))),
+      tips: sumPayments(shift.checkouts.map((checkout) => ({ amount: Number(checkout.tipAmount) }))),
+    },
+    paymentsByMethod: Object.values(methods),
+    refunds: {
+      voidCount: shift.reversals.filter((reversal) => reversal.type === "VOID").length,
+      refundCount: shift.reversals.filter((reversal) => reversal.type === "REFUND").length,
+      total: sumPayments(shift.reversals.map((reversal) => ({ amount: Number(reversal.amount) }))),
+    },
+    payouts: {
+      count: shift.payouts.length,
+      total: payouts,
+    },
+    cash: {
+      openingFloat,
+      cashPayments,
+      cashRefunds,
+      payouts,
+      expected,
+      counted: shift.countedCash != null ? Number(shift.countedCash) : null,
+      variance: shift.variance != null ? Number(shift.variance) : null,
+    },
+  };
+};
@@ -0,0 +1,438 @@
+import { deflateRawSync, inflateRawSync } from "zlib";
+
+export const SPREADSHEET_FORMATS = ["csv", "xlsx"] as const;
+export type SpreadsheetFormat = (typeof SPREADSHEET_FORMATS)[number];
+
+export type SpreadsheetCell = string | number | null;
+
+/**
+ * Thrown when an uploaded file can't be read as a spreadsheet
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SpreadsheetError";
+  }
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const unescapeXml = (value: string): string =>
+  value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+// Rows with nothing in them, e.g. the blank lines spreadsheets leave at the end
+const dropEmptyRows = (rows: string[][]): string[][] =>
+  rows.filter((row) => row.some((cell) => cell.trim() !== ""));
+
+/**
+ * Rows of cells from CSV text, with quoted cells holding commas, quotes and
+ * line breaks
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  // Excel starts UTF-8 CSVs with a byte order mark
+  const source = text.replace(/^\uFEFF/, "");
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return dropEmptyRows(rows);
+};
+
+export const toCsv = (rows: SpreadsheetCell[][]): string => {
+  const escapeCell = (cell: SpreadsheetCell) => {
+    const value = cell === null ? "" : String(cell);
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+
+  // The byte order mark tells Excel the file is UTF-8
+  return `\uFEFF${rows.map((row) => row.map(escapeCell).join(",")).join("\r\n")}\r\n`;
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * A zip archive of the given files, deflated. Timestamps are left at the
+ * earliest date zip allows since nothing reads them.
+ */
+const writeZip = (files: { name: string; content: string }[]): Buffer => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const data = Buffer.from(file.content, "utf8");
+    const compressed = deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, compressed);
+    centralParts.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+};
+
+// Far more than an import could hold, but small enough that a zip bomb
+// can't take the server's memory
+const MAX_UNZIPPED_SIZE = 50 * 1024 * 1024;
+
+const invalidXlsx = () => new SpreadsheetError("The file isn't a valid .xlsx spreadsheet");
+
+const inflate = (content: Buffer, maxOutputLength: number): Buffer => {
+  try {
+    return inflateRawSync(content, { maxOutputLength: Math.max(1, maxOutputLength) });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new SpreadsheetError("The spreadsheet is too large to import");
+    }
+    throw invalidXlsx();
+  }
+};
+
+/**
+ * The files in a zip archive, by name. Every offset is checked against the
+ * file, so a truncated or corrupt upload is reported rather than crashing.
+ */
+const readZip = (data: Buffer): Map<string, Buffer> => {
+  // The end of central directory record is at the end, before any comment
+  let end = -1;
+  for (let index = data.length - 22; index >= Math.max(0, data.length - 22 - 0xffff); index--) {
+    if (data.readUInt32LE(index) === 0x06054b50) {
+      end = index;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw invalidXlsx();
+  }
+
+  const files = new Map<string, Buffer>();
+  const count = data.readUInt16LE(end + 10);
+  let position = data.readUInt32LE(end + 16);
+  let unzippedSize = 0;
+
+  for (let entry = 0; entry < count; entry++) {
+    if (position + 46 > end || data.readUInt32LE(position) !== 0x02014b50) {
+      throw invalidXlsx();
+    }
+
+    const method = data.readUInt16LE(position + 10);
+    const compressedSize = data.readUInt32LE(position + 20);
+    const nameLength = data.readUInt16LE(position + 28);
+    const extraLength = data.readUInt16LE(position + 30);
+    const commentLength = data.readUInt16LE(position + 32);
+    const localOffset = data.readUInt32LE(position + 42);
+    const next = position + 46 + nameLength + extraLength + commentLength;
+    if (next > end) {
+      throw invalidXlsx();
+    }
+    const name = data.toString("utf8", position + 46, position + 46 + nameLength);
+
+    // Sizes in the local header can be blank, so only its name and extra field are read
+    if (localOffset + 30 > data.length || data.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw invalidXlsx();
+    }
+    const start =
+      localOffset + 30 + data.readUInt16LE(localOffset + 26) + data.readUInt16LE(localOffset + 28);
+    if (start + compressedSize > data.length) {
+      throw invalidXlsx();
+    }
+
+    const content = data.subarray(start, start + compressedSize);
+    let file: Buffer;
+    if (method === 8) {
+      file = inflate(content, MAX_UNZIPPED_SIZE - unzippedSize);
+    } else if (method === 0) {
+      file = content;
+    } else {
+      throw invalidXlsx();
+    }
+
+    unzippedSize += file.length;
+    if (unzippedSize > MAX_UNZIPPED_SIZE) {
+      throw new SpreadsheetError("The spreadsheet is too large to import");
+    }
+
+    files.set(name, file);
+    position = next;
+  }
+
+  return files;
+};
+
+// A1-style column letters, from 0
+const columnName = (index: number): string => {
+  let name = "";
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string): number =>
+  (reference.match(/^[A-Z]+/i)?.[0] ?? "A")
+    .toUpperCase()
+    .split("")
+    .reduce((total, letter) => total * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+// Text of every <t> in a cell or shared string, which rich text splits into runs
+const readText = (xml: string): string =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (match) => unescapeXml(match[1])).join("");
+
+const getAttribute = (attributes: string, name: string): string | undefined =>
+  attributes.match(new RegExp(`(?:^|\\s)${name}="([^"]*)"`))?.[1];
+
+/**
+ * A single sheet workbook. Text goes in as inline strings so codes like SKUs
+ * and barcodes keep their leading zeros.
+ */
+export const writeXlsx = (rows: SpreadsheetCell[][], sheetName = "Sheet1"): Buffer => {
+  const sheetRows = rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, cellIndex) => {
+          const reference = `${columnName(cellIndex)}${rowIndex + 1}`;
+          if (cell === null || cell === "") return "";
+          if (typeof cell === "number") return `<c r="${reference}"><v>${cell}</v></c>`;
+          return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join("");
+
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const relationships = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+  return writeZip([
+    {
+      name: "[Content_Types].xml",
+      content: `${header}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      name: "_rels/.rels",
+      content: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${relationships}/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/workbook.xml",
+      content: `${header}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${relationships}"><sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `${header}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${relationships}/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: "xl/worksheets/sheet1.xml",
+      content: `${header}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+};
+
+/**
+ * Rows of cells from the first sheet of a workbook, as the text each cell
+ * holds. Numbers come back as they're stored, without any number format.
+ */
+export const readXlsx = (data: Buffer): string[][] => {
+  const files = readZip(data);
+  const readFile = (name: string) => files.get(name)?.toString("utf8");
+
+  const workbook = readFile("xl/workbook.xml");
+  if (!workbook) {
+    throw new SpreadsheetError("The file isn't a valid .xlsx spreadsheet");
+  }
+
+  // Find the first sheet's file through the workbook's relationships
+  let sheetPath = "xl/worksheets/sheet1.xml";
+  const sheetId = workbook.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1];
+  const relationships = readFile("xl/_rels/workbook.xml.rels") ?? "";
+  for (const match of relationships.matchAll(/<Relationship\s([^>]*?)\/?>/g)) {
+    const target = getAttribute(match[1], "Target");
+    if (sheetId && getAttribute(match[1], "Id") === sheetId && target) {
+      sheetPath = target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  const sheet = readFile(sheetPath);
+  if (!sheet) {
+    throw new SpreadsheetError("The spreadsheet has no sheets");
+  }
+
+  const sharedStrings = Array.from(
+    (readFile("xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g),
+    (match) => readText(match[1])
+  );
+
+  const rows: string[][] = [];
+  for (const rowMatch of sheet.matchAll(/<row\s([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(getAttribute(rowMatch[1], "r") ?? rows.length + 1);
+    const row: string[] = [];
+
+    for (const cellMatch of (rowMatch[2] ?? "").matchAll(/<c\s([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1];
+      const content = cellMatch[2] ?? "";
+      const reference = getAttribute(attributes, "r");
+      const index = reference ? columnIndex(reference) : row.length;
+      const value = content.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      switch (getAttribute(attributes, "t")) {
+        case "s":
+          row[index] = sharedStrings[Number(value)] ?? "";
+          break;
+        case "inlineStr":
+          row[index] = readText(content);
+          break;
+        case "b":
+          row[index] = value === "1" ? "TRUE" : "FALSE";
+          break;
+        default:
+          row[index] = value === undefined ? "" : unescapeXml(value);
+      }
+    }
+
+    rows[rowNumber - 1] = Array.from(row, (cell) => cell ?? "");
+  }
+
+  return dropEmptyRows(Array.from(rows, (row) => row ?? []));
+};
+
+/**
+ * Rows of cells from an uploaded .csv or .xlsx file, told apart by content
+ * rather than by name
+ */
+export const readSpreadsheet = (data: Buffer): string[][] => {
+  // .xlsx files are zip archives. Anything in one that can't be read is the
+  // file's fault, so it's reported as such rather than as a server error.
+  if (data.subarray(0, 4).equals(Buffer.from([0x50, 0x4b, 0x03, 0x04]))) {
+    try {
+      return readXlsx(data);
+    } catch (error) {
+      if (error instanceof SpreadsheetError) throw error;
+      throw invalidXlsx();
+    }
+  }
+
+  // Old .xls workbooks are a different binary format
+  if (data.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))) {
+    throw new SpreadsheetError("Save the file as .xlsx or .csv and try again");
+  }
+
+  return parseCsv(data.toString("utf8"));
+};
+
+/**
+ * Render rows in the requested format along with the headers to serve them
+ */
+export const renderSpreadsheet = (
+  rows: SpreadsheetCell[][],
+  spreadsheetFormat: SpreadsheetFormat,
+  name: string
+): { body: string | Buffer; contentType: string; filename: string } => {
+  switch (spreadsheetFormat) {
+    case "xlsx":
+      return {
+        body: writeXlsx(rows, name),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        filename: `${name.toLowerCase()}.xlsx`,
+      };
+    default:
+      return { body: toCsv(rows), contentType: "text/csv; charset=utf-8", filename: `${name.toLowerCase()}.csv` };
+  }
+};
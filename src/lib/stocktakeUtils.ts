@@ -0,0 +1,401 @@
+import { InventoryTransactionType, Prisma, StocktakeStatus } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { adjustInventoryQuantity } from "./inventoryUtils";
+import type { StocktakeCountsValues, StocktakeScanValues } from "./validations/stocktake";
+
+export const stocktakeInclude = {
+  items: {
+    include: {
+      item: {
+        select: {
+          id: true,
+          name: true,
+          sku: true,
+          barcode: true,
+          unitCost: true,
+          category: { select: { id: true, name: true } },
+        },
+      },
+      countedBy: { select: { id: true, firstName: true, lastName: true } },
+    },
+    orderBy: { item: { name: "asc" } },
+  },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  postedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.StocktakeInclude;
+
+export type StocktakeWithItems = Prisma.StocktakeGetPayload<{
+  include: typeof stocktakeInclude;
+}>;
+
+export interface StocktakeSummary {
+  itemCount: number;
+  countedCount: number;
+  // Counted less expected, over the items counted so far
+  varianceQuantity: number;
+  // What the variance was worth, once posted
+  varianceCost: number | null;
+}
+
+export interface ShrinkageByItemRow {
+  itemId: string;
+  name: string;
+  // Stocktakes that found the item short
+  counts: number;
+  shrinkageQuantity: number;
+  shrinkageCost: number;
+  // Shortfalls less stock found over what was expected
+  varianceQuantity: number;
+  varianceCost: number;
+}
+
+export interface ShrinkageByCountRow {
+  stocktakeId: string;
+  reference: string;
+  postedAt: Date;
+  itemsCounted: number;
+  shrinkageQuantity: number;
+  shrinkageCost: number;
+  varianceQuantity: number;
+  varianceCost: number;
+}
+
+export interface ShrinkageReport {
+  from: Date;
+  to: Date;
+  byItem: ShrinkageByItemRow[];
+  byCount: ShrinkageByCountRow[];
+  totals: {
+    shrinkageQuantity: number;
+    shrinkageCost: number;
+    varianceQuantity: number;
+    varianceCost: number;
+  };
+}
+
+/**
+ * Thrown when counts come in for a stocktake that was posted or cancelled
+ * while they were being entered
+ */
+export class StocktakeClosedError extends Error {
+  constructor(public readonly reference: string) {
+    super(`Stocktake ${reference} is no longer being counted`);
+    this.name = "StocktakeClosedError";
+  }
+}
+
+type StocktakeResult =
+  | { error: string; httpStatus: number }
+  | { stocktake: StocktakeWithItems };
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export function generateStocktakeReference(): string {
+  const timestamp = new Date().getTime().toString().slice(-6);
+  const random = Math.floor(Math.random() * 1000).toString().padStart(3, "0");
+  return `ST-${timestamp}${random}`;
+}
+
+export const getStocktakeSummary = (
+  stocktake: Prisma.StocktakeGetPayload<{ include: { items: true } }>
+): StocktakeSummary => {
+  const counted = stocktake.items.filter((item) => item.countedQuantity !== null);
+  return {
+    itemCount: stocktake.items.length,
+    countedCount: counted.length,
+    varianceQuantity: counted.reduce(
+      (sum, item) => sum + (item.countedQuantity ?? 0) - item.expectedQuantity,
+      0
+    ),
+    varianceCost:
+      stocktake.status === StocktakeStatus.POSTED
+        ? roundCurrency(counted.reduce((sum, item) => sum + Number(item.varianceCost ?? 0), 0))
+        : null,
+  };
+};
+
+/**
+ * Start a stocktake with what each stock item is expected to be at right now.
+ * Items made to a recipe hold no stock of their own and are left out.
+ *
+ * Only one stocktake can be counted at a time.
+ */
+export async function startStocktake(
+  companyId: string,
+  notes: string | null | undefined,
+  createdById: string,
+  tx: Prisma.TransactionClient
+): Promise<StocktakeResult> {
+  const open = await tx.stocktake.findFirst({
+    where: { companyId, status: StocktakeStatus.IN_PROGRESS },
+    select: { reference: true },
+  });
+
+  if (open) {
+    return { error: `Stocktake ${open.reference} is still being counted`, httpStatus: 409 };
+  }
+
+  const items = await tx.inventoryItem.findMany({
+    where: { companyId, recipe: { none: {} } },
+    select: { id: true, quantity: true },
+  });
+
+  if (items.length === 0) {
+    return { error: "There are no stock items to count", httpStatus: 400 };
+  }
+
+  const stocktake = await tx.stocktake.create({
+    data: {
+      companyId,
+      reference: generateStocktakeReference(),
+      notes: notes || null,
+      createdById,
+      items: {
+        create: items.map((item) => ({
+          itemId: item.id,
+          expectedQuantity: item.quantity,
+        })),
+      },
+    },
+    include: stocktakeInclude,
+  });
+
+  return { stocktake };
+}
+
+/**
+ * Record counted quantities against a stocktake. Each count is checked
+ * against the stocktake still being open, so counts that arrive after it was
+ * posted or cancelled roll back rather than being lost silently.
+ */
+export async function recordStocktakeCounts(
+  stocktake: { id: string; reference: string },
+  data: StocktakeCountsValues,
+  countedById: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const countedAt = new Date();
+
+  for (const count of data.counts) {
+    const { count: updated } = await tx.stocktakeItem.updateMany({
+      where: {
+        stocktakeId: stocktake.id,
+        itemId: count.itemId,
+        stocktake: { status: StocktakeStatus.IN_PROGRESS },
+      },
+      data:
+        count.countedQuantity === null
+          ? { countedQuantity: null, countedById: null, countedAt: null }
+          : { countedQuantity: count.countedQuantity, countedById, countedAt },
+    });
+
+    if (updated === 0) {
+      throw new StocktakeClosedError(stocktake.reference);
+    }
+  }
+}
+
+/**
+ * Add scanned units to an item's count. The increment is applied by the
+ * database so scans from several devices at once all add up.
+ * Run inside a transaction.
+ */
+export async function addStocktakeScan(
+  stocktake: { id: string; reference: string },
+  data: StocktakeScanValues,
+  countedById: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const where = {
+    stocktakeId: stocktake.id,
+    itemId: data.itemId,
+    stocktake: { status: StocktakeStatus.IN_PROGRESS },
+  };
+
+  // Adding to an empty count would leave it empty, so start it at zero first
+  await tx.stocktakeItem.updateMany({
+    where: { ...where, countedQuantity: null },
+    data: { countedQuantity: 0 },
+  });
+
+  const { count: updated } = await tx.stocktakeItem.updateMany({
+    where,
+    data: {
+      countedQuantity: { increment: data.quantity },
+      countedById,
+      countedAt: new Date(),
+    },
+  });
+
+  if (updated === 0) {
+    throw new StocktakeClosedError(stocktake.reference);
+  }
+}
+
+/**
+ * Post a stocktake: every counted item that differs from what was expected
+ * when the count started is adjusted by the difference, as ADJUSTMENT
+ * transactions sharing the stocktake as their reference. Stock that moved
+ * while counting, such as sales, is kept. Items nobody counted are left as
+ * they are.
+ *
+ * Run inside a transaction so a stocktake is posted once or not at all.
+ */
+export async function postStocktake(
+  stocktakeId: string,
+  companyId: string,
+  postedById: string,
+  tx: Prisma.TransactionClient
+): Promise<StocktakeResult> {
+  const stocktake = await tx.stocktake.findUnique({
+    where: { id: stocktakeId, companyId },
+    include: { _count: { select: { items: { where: { countedQuantity: { not: null } } } } } },
+  });
+
+  if (!stocktake) {
+    return { error: "Stocktake not found", httpStatus: 404 };
+  }
+
+  if (stocktake._count.items === 0) {
+    return { error: "Count at least one item before posting", httpStatus: 400 };
+  }
+
+  // Closing the stocktake first stops it being posted twice, and stops
+  // counts landing after the adjustments are worked out
+  const { count } = await tx.stocktake.updateMany({
+    where: { id: stocktake.id, status: StocktakeStatus.IN_PROGRESS },
+    data: { status: StocktakeStatus.POSTED, postedById, postedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return { error: "Only a stocktake being counted can be posted", httpStatus: 409 };
+  }
+
+  const counted = await tx.stocktakeItem.findMany({
+    where: { stocktakeId: stocktake.id, countedQuantity: { not: null } },
+  });
+
+  for (const line of counted) {
+    const quantityDelta = (line.countedQuantity ?? line.expectedQuantity) - line.expectedQuantity;
+    let varianceCost = 0;
+
+    if (quantityDelta !== 0) {
+      const { transaction } = await adjustInventoryQuantity(
+        {
+          itemId: line.itemId,
+          companyId,
+          quantityDelta,
+          transactionType: InventoryTransactionType.ADJUSTMENT,
+          note: `Stocktake ${stocktake.reference}`,
+          staffId: postedById,
+          stocktakeId: stocktake.id,
+        },
+        tx
+      );
+
+      varianceCost = quantityDelta > 0
+        ? roundCurrency(quantityDelta * Number(transaction.unitCost ?? 0))
+        : -Number(transaction.costAmount ?? 0);
+    }
+
+    await tx.stocktakeItem.update({
+      where: { id: line.id },
+      data: { varianceCost },
+    });
+  }
+
+  return {
+    stocktake: await tx.stocktake.findUniqueOrThrow({
+      where: { id: stocktake.id },
+      include: stocktakeInclude,
+    }),
+  };
+}
+
+/**
+ * Stock lost between what was expected and what was counted, over the
+ * stocktakes posted in a period. Shrinkage is only what came up short; the
+ * variance nets it against stock found over what was expected.
+ */
+export async function getShrinkageReport(
+  companyId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient = prisma
+): Promise<ShrinkageReport> {
+  const stocktakes = await client.stocktake.findMany({
+    where: {
+      companyId,
+      status: StocktakeStatus.POSTED,
+      postedAt: { gte: from, lte: to },
+    },
+    include: {
+      items: {
+        where: { countedQuantity: { not: null } },
+        include: { item: { select: { name: true } } },
+      },
+    },
+    orderBy: { postedAt: "desc" },
+  });
+
+  const items = new Map<string, ShrinkageByItemRow>();
+
+  const byCount: ShrinkageByCountRow[] = stocktakes.map((stocktake) => {
+    const row: ShrinkageByCountRow = {
+      stocktakeId: stocktake.id,
+      reference: stocktake.reference,
+      postedAt: stocktake.postedAt ?? stocktake.createdAt,
+      itemsCounted: stocktake.items.length,
+      shrinkageQuantity: 0,
+      shrinkageCost: 0,
+      varianceQuantity: 0,
+      varianceCost: 0,
+    };
+
+    stocktake.items.forEach((line) => {
+      const variance = (line.countedQuantity ?? line.expectedQuantity) - line.expectedQuantity;
+      const cost = Number(line.varianceCost ?? 0);
+      const itemRow = items.get(line.itemId) ?? {
+        itemId: line.itemId,
+        name: line.item.name,
+        counts: 0,
+        shrinkageQuantity: 0,
+        shrinkageCost: 0,
+        varianceQuantity: 0,
+        varianceCost: 0,
+      };
+
+      if (variance < 0) {
+        row.shrinkageQuantity -= variance;
+        row.shrinkageCost = roundCurrency(row.shrinkageCost - cost);
+        itemRow.counts += 1;
+        itemRow.shrinkageQuantity -= variance;
+        itemRow.shrinkageCost = roundCurrency(itemRow.shrinkageCost - cost);
+      }
+      row.varianceQuantity += variance;
+      row.varianceCost = roundCurrency(row.varianceCost + cost);
+      itemRow.varianceQuantity += variance;
+      itemRow.varianceCost = roundCurrency(itemRow.varianceCost + cost);
+      items.set(line.itemId, itemRow);
+    });
+
+    return row;
+  });
+
+  const byItem = Array.from(items.values())
+    .filter((row) => row.shrinkageQuantity > 0 || row.varianceQuantity !== 0)
+    .sort((a, b) => b.shrinkageCost - a.shrinkageCost);
+
+  return {
+    from,
+    to,
+    byItem,
+    byCount,
+    totals: {
+      shrinkageQuantity: byCount.reduce((sum, row) => sum + row.shrinkageQuantity, 0),
+      shrinkageCost: roundCurrency(byCount.reduce((sum, row) => sum + row.shrinkageCost, 0)),
+      varianceQuantity: byCount.reduce((sum, row) => sum + row.varianceQuantity, 0),
+      varianceCost: roundCurrency(byCount.reduce((sum, row) => sum + row.varianceCost, 0)),
+    },
+  };
+}
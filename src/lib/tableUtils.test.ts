@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { calculatePausedMs, calculateSessionDuration, clampSessionTime, getLastResumeTime } from "./tableUtils";
+
+const MINUTE_MS = 60 * 1000;
+
+const pause = (pausedAt: string, resumedAt: string | null) => ({
+  pausedAt: new Date(pausedAt),
+  resumedAt: resumedAt ? new Date(resumedAt) : null,
+});
+
+describe("calculatePausedMs", () => {
+  const startedAt = new Date("2026-01-05T10:00:00Z");
+  const endTime = new Date("2026-01-05T12:00:00Z");
+
+  it("counts time covered by overlapping pauses once", () => {
+    const pauses = [
+      pause("2026-01-05T10:10:00Z", "2026-01-05T10:40:00Z"),
+      pause("2026-01-05T10:30:00Z", "2026-01-05T10:50:00Z"),
+    ];
+
+    expect(calculatePausedMs({ startedAt, pauses }, endTime)).toBe(40 * MINUTE_MS);
+  });
+
+  it("only counts pause time within the session", () => {
+    const pauses = [pause("2026-01-05T09:50:00Z", "2026-01-05T10:10:00Z")];
+
+    expect(calculatePausedMs({ startedAt, pauses }, endTime)).toBe(10 * MINUTE_MS);
+  });
+
+  it("counts a pause that is still open up to the end", () => {
+    const pauses = [pause("2026-01-05T11:30:00Z", null)];
+
+    expect(calculatePausedMs({ startedAt, pauses }, endTime)).toBe(30 * MINUTE_MS);
+  });
+});
+
+describe("calculateSessionDuration", () => {
+  it("counts whole minutes played", () => {
+    expect(
+      calculateSessionDuration({
+        startedAt: new Date("2026-01-05T10:00:00Z"),
+        endedAt: new Date("2026-01-05T11:00:59Z"),
+        pauses: [pause("2026-01-05T10:20:00Z", "2026-01-05T10:35:00Z")],
+      })
+    ).toBe(45);
+  });
+});
+
+describe("getLastResumeTime", () => {
+  it("is the end of the latest pause, or the start without one", () => {
+    const startedAt = new Date("2026-01-05T10:00:00Z");
+
+    expect(getLastResumeTime({ startedAt, pauses: [] })).toEqual(startedAt);
+    expect(
+      getLastResumeTime({
+        startedAt,
+        pauses: [
+          pause("2026-01-05T10:30:00Z", "2026-01-05T10:45:00Z"),
+          pause("2026-01-05T10:10:00Z", "2026-01-05T10:20:00Z"),
+        ],
+      })
+    ).toEqual(new Date("2026-01-05T10:45:00Z"));
+  });
+});
+
+describe("clampSessionTime", () => {
+  it("never goes before the earliest time", () => {
+    const earliest = new Date("2026-01-05T10:00:00Z");
+
+    expect(clampSessionTime("2026-01-05T09:00:00Z", earliest)).toEqual(earliest);
+    expect(clampSessionTime("2026-01-05T10:30:00Z", earliest)).toEqual(new Date("2026-01-05T10:30:00Z"));
+  });
+});
@@ -1,22 +1,100 @@
-import { Table, TableSession } from "@prisma/client";
+import { Table, TableSession, TableSessionPause } from "@prisma/client";
+
+export type SessionWithPauses = TableSession & {
+  pauses?: Pick<TableSessionPause, "pausedAt" | "resumedAt">[];
+};
+
+/**
+ * When to end a session: at the time asked for, but never later than now,
+ * so nobody is billed for time that hasn't happened yet
+ */
+export const getSessionEndTime = (requested?: string | Date | null): Date => {
+  const now = new Date();
+  const endTime = requested ? new Date(requested) : now;
+  return isNaN(endTime.getTime()) || endTime > now ? now : endTime;
+};
+
+/**
+ * Check whether a session is currently paused
+ */
+export const isSessionPaused = (session: SessionWithPauses): boolean => {
+  return !!session.pauses?.some((pause) => pause.resumedAt === null);
+};
+
+/**
+ * When the session last started running: its start, or the end of its
+ * latest pause
+ */
+export const getLastResumeTime = (
+  session: Pick<SessionWithPauses, "startedAt" | "pauses">
+): Date => {
+  return (session.pauses ?? []).reduce(
+    (latest, pause) => (pause.resumedAt && pause.resumedAt > latest ? new Date(pause.resumedAt) : latest),
+    new Date(session.startedAt)
+  );
+};
 
 /**
- * Calculate the current duration of an active session in minutes
+ * A pause or resume time sent by the client, kept between the earliest it
+ * can be and now. A missing or invalid time means now.
  */
-export const calculateSessionDuration = (session: TableSession): number => {
+export const clampSessionTime = (requested: string | null | undefined, earliest: Date): Date => {
+  const time = getSessionEndTime(requested);
+  return time < earliest ? earliest : time;
+};
+
+/**
+ * Calculate the total paused time of a session in milliseconds.
+ * A pause that is still open counts up to the session end (or now).
+ * Only time within the session counts, and time covered by more than
+ * one pause counts once, the same way pricing skips it.
+ */
+export const calculatePausedMs = (
+  session: Pick<SessionWithPauses, "startedAt" | "pauses">,
+  endTime: Date
+): number => {
+  if (!session.pauses) return 0;
+
+  const startTime = new Date(session.startedAt).getTime();
+  const periods = session.pauses
+    .map((pause) => ({
+      from: Math.max(startTime, new Date(pause.pausedAt).getTime()),
+      to: Math.min(endTime.getTime(), pause.resumedAt ? new Date(pause.resumedAt).getTime() : endTime.getTime()),
+    }))
+    .filter((period) => period.to > period.from)
+    .sort((a, b) => a.from - b.from);
+
+  let total = 0;
+  let coveredUntil = startTime;
+  for (const period of periods) {
+    const from = Math.max(period.from, coveredUntil);
+    if (period.to > from) total += period.to - from;
+    coveredUntil = Math.max(coveredUntil, period.to);
+  }
+
+  return total;
+};
+
+/**
+ * Calculate the current duration of an active session in minutes,
+ * excluding any time the session was paused
+ */
+export const calculateSessionDuration = (
+  session: Pick<SessionWithPauses, "startedAt" | "endedAt" | "pauses">
+): number => {
   const startTime = new Date(session.startedAt);
   const endTime = session.endedAt ? new Date(session.endedAt) : new Date();
   
   // Calculate difference in milliseconds and convert to minutes
-  const durationMs = endTime.getTime() - startTime.getTime();
-  return Math.floor(durationMs / (1000 * 60));
+  const durationMs = endTime.getTime() - startTime.getTime() - calculatePausedMs(session, endTime);
+  return Math.max(0, Math.floor(durationMs / (1000 * 60)));
 };
 
 /**
  * Calculate the current cost of an active session
  */
 export const calculateSessionCost = (
-  session: TableSession, 
+  session: SessionWithPauses, 
   table: Table
 ): number => {
   if (!table.hourlyRate) return 0;
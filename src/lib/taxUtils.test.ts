@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { calculateTax, getAddedTax, summarizeTaxes, TaxRateInfo } from "./taxUtils";
+
+const vat: TaxRateInfo = { id: "vat", name: "VAT", rate: 10 };
+const service: TaxRateInfo = { id: "service", name: "Service", rate: 5 };
+
+describe("calculateTax", () => {
+  it("adds tax on top of exclusive prices", () => {
+    expect(calculateTax(100, 7, false)).toBe(7);
+  });
+
+  it("works tax back out of inclusive prices", () => {
+    expect(calculateTax(107, 7, true)).toBe(7);
+    expect(calculateTax(10, 7, true)).toBe(0.65);
+  });
+
+  it("charges nothing without a rate", () => {
+    expect(calculateTax(100, 0, false)).toBe(0);
+  });
+});
+
+describe("summarizeTaxes", () => {
+  it("groups amounts into one line per rate and skips untaxed amounts", () => {
+    const lines = summarizeTaxes(
+      [
+        { amount: 10, taxRate: vat },
+        { amount: 20, taxRate: service },
+        { amount: 5.5, taxRate: vat },
+        { amount: 8, taxRate: null },
+      ],
+      false
+    );
+
+    expect(lines).toEqual([
+      { taxRateId: "vat", name: "VAT", rate: 10, inclusive: false, taxableAmount: 15.5, taxAmount: 1.55 },
+      { taxRateId: "service", name: "Service", rate: 5, inclusive: false, taxableAmount: 20, taxAmount: 1 },
+    ]);
+  });
+
+  it("takes included tax out of the taxable amount", () => {
+    expect(summarizeTaxes([{ amount: 11, taxRate: vat }], true)).toEqual([
+      { taxRateId: "vat", name: "VAT", rate: 10, inclusive: true, taxableAmount: 10, taxAmount: 1 },
+    ]);
+  });
+
+  it("rounds each amount's tax before adding it up", () => {
+    // 0.33 each, where taxing the 6.66 in one go would give 0.67
+    const [line] = summarizeTaxes(
+      [
+        { amount: 3.33, taxRate: vat },
+        { amount: 3.33, taxRate: vat },
+      ],
+      false
+    );
+
+    expect(line.taxAmount).toBe(0.66);
+  });
+});
+
+describe("getAddedTax", () => {
+  it("only counts tax that isn't already in the prices", () => {
+    expect(
+      getAddedTax([
+        { inclusive: false, taxAmount: 1.55 },
+        { inclusive: true, taxAmount: 2 },
+        { inclusive: false, taxAmount: 0.1 },
+      ])
+    ).toBe(1.65);
+  });
+});
@@ -0,0 +1,237 @@
+import type { Prisma } from "@prisma/client";
+
+// Kept free of the prisma client import so the POS cart and checkout
+// modal can preview taxes with the same math the server stores.
+
+export interface TaxRateInfo {
+  id: string;
+  name: string;
+  rate: number;
+}
+
+export interface TaxLineValues {
+  taxRateId: string | null;
+  name: string;
+  rate: number;
+  inclusive: boolean;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxedAmount {
+  amount: number;
+  taxRate: TaxRateInfo | null;
+}
+
+export interface TaxLiabilityRow {
+  taxRateId: string | null;
+  name: string;
+  rate: number;
+  taxableAmount: number;
+  taxAmount: number;
+  refundedTaxableAmount: number;
+  refundedTaxAmount: number;
+  netTaxAmount: number;
+}
+
+export interface TaxLiabilityReport {
+  from: Date;
+  to: Date;
+  rows: TaxLiabilityRow[];
+  totals: Omit<TaxLiabilityRow, "taxRateId" | "name" | "rate">;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Tax on an amount. With tax-inclusive pricing the tax is already part of
+ * the amount and is worked back out of it, otherwise it comes on top.
+ */
+export const calculateTax = (amount: number, rate: number, inclusive: boolean): number => {
+  if (rate <= 0 || amount === 0) return 0;
+
+  return inclusive
+    ? roundCurrency(amount - amount / (1 + rate / 100))
+    : roundCurrency((amount * rate) / 100);
+};
+
+/**
+ * Tax every amount at its own rate and group the results into one line per
+ * rate. Amounts without a tax class are left untaxed.
+ */
+export const summarizeTaxes = (amounts: TaxedAmount[], inclusive: boolean): TaxLineValues[] => {
+  const lines = new Map<string, TaxLineValues>();
+
+  amounts.forEach(({ amount, taxRate }) => {
+    if (!taxRate) return;
+
+    const taxAmount = calculateTax(amount, taxRate.rate, inclusive);
+    const line = lines.get(taxRate.id) ?? {
+      taxRateId: taxRate.id,
+      name: taxRate.name,
+      rate: taxRate.rate,
+      inclusive,
+      taxableAmount: 0,
+      taxAmount: 0,
+    };
+
+    line.taxableAmount = roundCurrency(line.taxableAmount + (inclusive ? amount - taxAmount : amount));
+    line.taxAmount = roundCurrency(line.taxAmount + taxAmount);
+    lines.set(taxRate.id, line);
+  });
+
+  return Array.from(lines.values());
+};
+
+/**
+ * Tax that has to be added to the prices on a bill. Tax included in the
+ * prices is already part of the subtotal.
+ */
+export const getAddedTax = (lines: Pick<TaxLineValues, "inclusive" | "taxAmount">[]): number =>
+  roundCurrency(
+    lines.filter((line) => !line.inclusive).reduce((sum, line) => sum + line.taxAmount, 0)
+  );
+
+export const getTotalTax = (lines: Pick<TaxLineValues, "taxAmount">[]): number =>
+  roundCurrency(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+
+export const formatTaxLabel = (line: { name: string; rate: number; inclusive: boolean }): string =>
+  `${line.name} ${line.rate}%${line.inclusive ? " (included)" : ""}`;
+
+const toTaxRateInfo = (taxRate: { id: string; name: string; rate: Prisma.Decimal; active: boolean } | null) =>
+  taxRate && taxRate.active ? { id: taxRate.id, name: taxRate.name, rate: Number(taxRate.rate) } : null;
+
+/**
+ * The company's tax settings: whether prices include tax and the tax class
+ * for table time. Deactivated rates no longer apply to new sales.
+ */
+export async function getTaxSettings(companyId: string, client: Prisma.TransactionClient) {
+  const company = await client.company.findUniqueOrThrow({
+    where: { id: companyId },
+    select: { pricesIncludeTax: true, tableTimeTaxRate: true },
+  });
+
+  return {
+    pricesIncludeTax: company.pricesIncludeTax,
+    tableTimeTaxRate: toTaxRateInfo(company.tableTimeTaxRate),
+  };
+}
+
+/**
+ * Tax class of each inventory item through its category, keyed by item ID
+ */
+export async function getItemTaxRates(
+  itemIds: string[],
+  client: Prisma.TransactionClient
+): Promise<Record<string, TaxRateInfo | null>> {
+  const items = await client.inventoryItem.findMany({
+    where: { id: { in: itemIds } },
+    select: { id: true, category: { select: { taxRate: true } } },
+  });
+
+  return Object.fromEntries(items.map((item) => [item.id, toTaxRateInfo(item.category?.taxRate ?? null)]));
+}
+
+/**
+ * Build the tax liability report for a period: tax collected per rate on
+ * orders and checkouts, less the tax given back on refunds approved in the
+ * period. Voided orders never count as sales.
+ */
+export async function getTaxLiability(
+  companyId: string,
+  from: Date,
+  to: Date,
+  client: Prisma.TransactionClient
+): Promise<TaxLiabilityReport> {
+  const [taxLines, refunds] = await Promise.all([
+    client.taxLine.findMany({
+      where: {
+        companyId,
+        createdAt: { gte: from, lte: to },
+        OR: [{ orderId: null }, { order: { voidedAt: null } }],
+      },
+    }),
+    client.posOrderReversal.findMany({
+      where: {
+        companyId,
+        type: "REFUND",
+        status: "APPROVED",
+        approvedAt: { gte: from, lte: to },
+      },
+      include: {
+        order: {
+          select: {
+            taxInclusive: true,
+            taxLines: { select: { taxRateId: true, name: true, rate: true } },
+          },
+        },
+        items: { include: { orderItem: { include: { taxRate: true } } } },
+      },
+    }),
+  ]);
+
+  // A rate can be edited, so tax charged before and after an edit is kept apart
+  const rows = new Map<string, TaxLiabilityRow>();
+  const rowFor = (taxRateId: string | null, name: string, rate: number) => {
+    const key = `${taxRateId ?? name}:${rate}`;
+    const row = rows.get(key) ?? {
+      taxRateId,
+      name,
+      rate,
+      taxableAmount: 0,
+      taxAmount: 0,
+      refundedTaxableAmount: 0,
+      refundedTaxAmount: 0,
+      netTaxAmount: 0,
+    };
+    rows.set(key, row);
+    return row;
+  };
+
+  taxLines.forEach((line) => {
+    const row = rowFor(line.taxRateId, line.name, Number(line.rate));
+    row.taxableAmount = roundCurrency(row.taxableAmount + Number(line.taxableAmount));
+    row.taxAmount = roundCurrency(row.taxAmount + Number(line.taxAmount));
+  });
+
+  // Refunded items give back their share of the tax charged on the line, at
+  // the rate the order recorded when it was sold
+  refunds.forEach((refund) => {
+    refund.items.forEach(({ quantity, orderItem }) => {
+      if (!orderItem.taxRate || Number(orderItem.taxAmount) === 0) return;
+
+      const charged =
+        refund.order.taxLines.find((line) => line.taxRateId === orderItem.taxRateId) ?? orderItem.taxRate;
+
+      const share = quantity / orderItem.quantity;
+      const taxAmount = roundCurrency(Number(orderItem.taxAmount) * share);
+      const amount = roundCurrency((Number(orderItem.lineTotal) - Number(orderItem.discountAmount)) * share);
+      const row = rowFor(orderItem.taxRate.id, charged.name, Number(charged.rate));
+
+      row.refundedTaxableAmount = roundCurrency(
+        row.refundedTaxableAmount + (refund.order.taxInclusive ? amount - taxAmount : amount)
+      );
+      row.refundedTaxAmount = roundCurrency(row.refundedTaxAmount + taxAmount);
+    });
+  });
+
+  const sortedRows = Array.from(rows.values())
+    .map((row) => ({ ...row, netTaxAmount: roundCurrency(row.taxAmount - row.refundedTaxAmount) }))
+    .sort((a, b) => a.name.localeCompare(b.name) || a.rate - b.rate);
+
+  const sum = (key: keyof TaxLiabilityReport["totals"]) =>
+    roundCurrency(sortedRows.reduce((total, row) => total + row[key], 0));
+
+  return {
+    from,
+    to,
+    rows: sortedRows,
+    totals: {
+      taxableAmount: sum("taxableAmount"),
+      taxAmount: sum("taxAmount"),
+      refundedTaxableAmount: sum("refundedTaxableAmount"),
+      refundedTaxAmount: sum("refundedTaxAmount"),
+      netTaxAmount: sum("netTaxAmount"),
+    },
+  };
+}
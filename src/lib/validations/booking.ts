@@ -0,0 +1,53 @@
+import * as z from "zod";
+import { timeOfDay } from "@/lib/validations/pricing";
+import { timeZoneSchema } from "@/lib/validations/reservation";
+
+// A calendar date in the venue's time zone, e.g. 2025-09-16
+const bookingDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD");
+
+export const openingHoursSchema = z.object({
+  weekday: z.number().int().min(0).max(6),
+  opensAt: timeOfDay,
+  closesAt: timeOfDay,
+});
+
+export const bookingSettingsSchema = z.object({
+  onlineBookingEnabled: z.boolean(),
+  timeZone: timeZoneSchema,
+  bookingSlotMinutes: z
+    .number()
+    .int()
+    .min(5, "Start times must be at least 5 minutes apart")
+    .max(240, "Start times can't be more than 4 hours apart"),
+  bookingMaxHours: z.number().int().min(1, "Allow at least 1 hour").max(24, "No more than 24 hours"),
+  bookingDaysAhead: z.number().int().min(1, "Allow at least 1 day").max(365, "No more than a year ahead"),
+  bookingMaxPerPhone: z.number().int().min(1, "Allow at least 1 request").max(20, "No more than 20 requests"),
+  openingHours: z
+    .array(openingHoursSchema)
+    .refine(
+      (hours) => new Set(hours.map((day) => day.weekday)).size === hours.length,
+      "Each day can only have one set of opening hours"
+    ),
+});
+
+export const availabilityQuerySchema = z.object({
+  date: bookingDateSchema,
+  duration: z.coerce.number().int().positive("Choose how long to book for"),
+});
+
+export const publicBookingSchema = z.object({
+  date: bookingDateSchema,
+  reservedFrom: z.coerce.date(),
+  durationMinutes: z.number().int().positive("Choose how long to book for"),
+  customerName: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  customerPhone: z
+    .string()
+    .trim()
+    .refine((phone) => /^\+?\d{7,15}$/.test(phone.replace(/[\s().-]/g, "")), "Enter a valid phone number"),
+  // Left empty by people; bots that fill in every field give themselves away
+  website: z.string().max(0).optional(),
+});
+
+export type OpeningHoursValues = z.infer<typeof openingHoursSchema>;
+export type BookingSettingsValues = z.infer<typeof bookingSettingsSchema>;
+export type PublicBookingValues = z.infer<typeof publicBookingSchema>;
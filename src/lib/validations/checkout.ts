@@ -0,0 +1,26 @@
+import * as z from "zod";
+import { paymentSchema } from "./payment";
+
+export const discountSchema = z.object({
+  type: z.enum(["AMOUNT", "PERCENT"]),
+  value: z.number().min(0, "Discount can't be negative"),
+  reason: z.string().optional().nullable(),
+});
+
+export const checkoutSchema = z
+  .object({
+    sessionId: z.string().uuid().optional(),
+    endedAt: z.string().datetime().optional(),
+    discount: discountSchema.optional().nullable(),
+    tipAmount: z.number().min(0, "Tip can't be negative").default(0),
+    // Checked against the bill total, so a bill covered in full by
+    // discounts, member hours or combos is checked out with none
+    payments: z.array(paymentSchema),
+  })
+  .refine((data) => data.discount?.type !== "PERCENT" || data.discount.value <= 100, {
+    message: "Percentage discount can't exceed 100%",
+    path: ["discount", "value"],
+  });
+
+export type DiscountValues = z.infer<typeof discountSchema>;
+export type CheckoutValues = z.infer<typeof checkoutSchema>;
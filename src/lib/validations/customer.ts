@@ -0,0 +1,32 @@
+import * as z from "zod";
+import { paymentsSchema, TAB_PAYMENT_METHOD } from "./payment";
+
+export const customerSchema = z.object({
+  companyId: z.string(),
+  name: z.string().min(1, "Name is required"),
+  phone: z.string().optional().nullable(),
+  email: z.string().email("Invalid email address").optional().nullable().or(z.literal("")),
+  notes: z.string().optional().nullable(),
+  creditLimit: z.number().min(0, "Credit limit can't be negative").default(0),
+});
+
+export const customerUpdateSchema = customerSchema
+  .omit({ creditLimit: true })
+  .partial()
+  .extend({
+    companyId: z.string(),
+    creditLimit: z.number().min(0, "Credit limit can't be negative").optional(),
+    active: z.boolean().optional(),
+  });
+
+export const settlementSchema = paymentsSchema
+  .extend({
+    companyId: z.string(),
+  })
+  .refine((data) => data.payments.every((payment) => payment.method !== TAB_PAYMENT_METHOD), {
+    message: "A tab can't be settled by charging it to a tab",
+    path: ["payments"],
+  });
+
+export type CustomerValues = z.infer<typeof customerSchema>;
+export type CustomerUpdateValues = z.infer<typeof customerUpdateSchema>;
@@ -0,0 +1,70 @@
+import * as z from "zod";
+
+export interface ImportField {
+  key: string;
+  // Header the column has in exports, and is matched on when importing
+  label: string;
+  required?: boolean;
+  // Other headers a column for this field often has
+  aliases: string[];
+}
+
+export const ITEM_IMPORT_FIELDS = [
+  { key: "name", label: "Name", required: true, aliases: ["product", "product name", "item", "item name"] },
+  { key: "sku", label: "SKU", aliases: ["code", "item code", "product code"] },
+  { key: "barcode", label: "Barcode", aliases: ["ean", "upc", "gtin"] },
+  { key: "category", label: "Category", aliases: ["category name", "department", "group"] },
+  { key: "price", label: "Price", aliases: ["sell price", "sale price", "retail price"] },
+  { key: "unitCost", label: "Unit Cost", aliases: ["cost", "cost price", "buy price"] },
+  { key: "quantity", label: "Quantity", aliases: ["qty", "stock", "on hand", "stock on hand"] },
+  { key: "criticalThreshold", label: "Critical Threshold", aliases: ["low stock", "min stock", "reorder point"] },
+  { key: "reorderQuantity", label: "Reorder Quantity", aliases: ["reorder qty", "order quantity"] },
+] as const satisfies readonly ImportField[];
+
+export const CATEGORY_IMPORT_FIELDS = [
+  { key: "name", label: "Name", required: true, aliases: ["category", "category name"] },
+  { key: "description", label: "Description", aliases: ["details", "notes"] },
+] as const satisfies readonly ImportField[];
+
+// Which column header each field is read from, or null when it isn't imported
+export const columnMappingSchema = z.record(z.string(), z.string().nullable());
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+
+// Cells are read as text, blank ones left out, so amounts can be written
+// the way a spreadsheet shows them, e.g. $1,250.00
+const amountCell = (label: string) =>
+  z
+    .string()
+    .transform((value) => value.replace(/[$,\s]/g, ""))
+    .pipe(z.string().regex(/^\d+(\.\d+)?$/, `${label} must be a number of 0 or more`))
+    .transform(Number);
+
+const countCell = (label: string) =>
+  z
+    .string()
+    .transform((value) => value.replace(/[,\s]/g, ""))
+    .pipe(z.string().regex(/^\d+$/, `${label} must be a whole number of 0 or more`))
+    .transform(Number);
+
+export const itemImportRowSchema = z.object({
+  name: z.string({ required_error: "Name is required" }),
+  sku: z.string().optional(),
+  barcode: z.string().optional(),
+  category: z.string().optional(),
+  price: amountCell("Price").optional(),
+  unitCost: amountCell("Unit cost").optional(),
+  quantity: countCell("Quantity").optional(),
+  criticalThreshold: countCell("Critical threshold").optional(),
+  reorderQuantity: countCell("Reorder quantity")
+    .refine((value) => value >= 1, "Reorder quantity must be at least 1")
+    .optional(),
+});
+
+export const categoryImportRowSchema = z.object({
+  name: z.string({ required_error: "Name is required" }),
+  description: z.string().optional(),
+});
+
+export type ItemImportRow = z.infer<typeof itemImportRowSchema>;
+export type CategoryImportRow = z.infer<typeof categoryImportRowSchema>;
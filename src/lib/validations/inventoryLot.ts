@@ -0,0 +1,7 @@
+import * as z from "zod";
+
+export const lotWriteOffSchema = z.object({
+  note: z.string().optional().nullable(),
+});
+
+export type LotWriteOffValues = z.infer<typeof lotWriteOffSchema>;
@@ -0,0 +1,29 @@
+import * as z from "zod";
+import { paymentsSchema } from "./payment";
+
+export const membershipPlanSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  discountPercent: z.number().min(0, "Discount can't be negative").max(100, "Discount can't exceed 100%").default(0),
+  freeHoursPerMonth: z.number().min(0, "Free hours can't be negative").default(0),
+  durationDays: z.number().int().min(1, "Duration must be at least one day").default(30),
+  price: z.number().min(0, "Price can't be negative").default(0),
+  active: z.boolean().default(true),
+});
+
+export const membershipPlanUpdateSchema = membershipPlanSchema.partial();
+
+export const membershipSaleSchema = paymentsSchema.partial().extend({
+  companyId: z.string(),
+  planId: z.string().min(1, "Choose a plan"),
+});
+
+export const prepaidCardSaleSchema = paymentsSchema.partial().extend({
+  companyId: z.string(),
+  hours: z.number().positive("Hours must be greater than zero"),
+  price: z.number().min(0, "Price can't be negative"),
+  expiresAt: z.string().datetime().optional().nullable(),
+});
+
+export type MembershipPlanValues = z.infer<typeof membershipPlanSchema>;
+export type MembershipSaleValues = z.infer<typeof membershipSaleSchema>;
+export type PrepaidCardSaleValues = z.infer<typeof prepaidCardSaleSchema>;
@@ -0,0 +1,24 @@
+import * as z from "zod";
+
+export const PAYMENT_METHODS = ["CASH", "CARD", "TRANSFER", "QR", "TAB"] as const;
+
+// TAB charges the customer's house account instead of collecting money
+export const TAB_PAYMENT_METHOD = "TAB";
+
+export const paymentSchema = z
+  .object({
+    method: z.enum(PAYMENT_METHODS),
+    amount: z.number().positive("Amount must be greater than zero"),
+    tenderedAmount: z.number().min(0).optional().nullable(),
+    payerName: z.string().optional().nullable(),
+  })
+  .refine((payment) => payment.tenderedAmount == null || payment.tenderedAmount >= payment.amount, {
+    message: "Amount tendered can't be less than the amount paid",
+    path: ["tenderedAmount"],
+  });
+
+export const paymentsSchema = z.object({
+  payments: z.array(paymentSchema).min(1, "At least one payment is required"),
+});
+
+export type PaymentValues = z.infer<typeof paymentSchema>;
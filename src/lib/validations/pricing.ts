@@ -0,0 +1,23 @@
+import * as z from "zod";
+
+export const timeOfDay = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+export const pricingRuleSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    tableType: z.string().optional().nullable(),
+    daysOfWeek: z.array(z.number().int().min(0).max(6)).default([]),
+    startTime: timeOfDay.optional().nullable(),
+    endTime: timeOfDay.optional().nullable(),
+    hourlyRate: z.number().min(0, "Rate can't be negative"),
+    priority: z.number().int().default(0),
+    active: z.boolean().default(true),
+  })
+  .refine((rule) => Boolean(rule.startTime) === Boolean(rule.endTime), {
+    message: "Start and end time must be set together",
+    path: ["endTime"],
+  });
+
+export type PricingRuleValues = z.infer<typeof pricingRuleSchema>;
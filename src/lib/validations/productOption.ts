@@ -0,0 +1,27 @@
+import * as z from "zod";
+
+export const productVariantSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  price: z.number().min(0, "Price can't be negative"),
+  // Leave empty to take stock from the menu item itself
+  stockItemId: z.string().uuid().optional().nullable(),
+  stockQuantity: z.number().int().min(1, "Stock used must be at least 1").default(1),
+  active: z.boolean().default(true),
+});
+
+export const productVariantUpdateSchema = productVariantSchema.partial();
+
+export const productModifierSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  // Negative for add-ons that take something off, e.g. "no syrup"
+  priceDelta: z.number().default(0),
+  // Leave empty for add-ons that don't use up stock
+  stockItemId: z.string().uuid().optional().nullable(),
+  stockQuantity: z.number().int().min(1, "Stock used must be at least 1").default(1),
+  active: z.boolean().default(true),
+});
+
+export const productModifierUpdateSchema = productModifierSchema.partial();
+
+export type ProductVariantValues = z.infer<typeof productVariantSchema>;
+export type ProductModifierValues = z.infer<typeof productModifierSchema>;
@@ -0,0 +1,129 @@
+import * as z from "zod";
+import { PromotionType } from "@prisma/client";
+
+const promoCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z0-9_-]+$/, "Codes may only use letters, numbers, dashes and underscores")
+  .max(32, "Codes can't be longer than 32 characters");
+
+export const promotionComboItemSchema = z.object({
+  itemId: z.string().uuid("Choose an item"),
+  quantity: z.number().int().min(1, "Quantity must be at least 1").default(1),
+});
+
+export const promotionSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    type: z.nativeEnum(PromotionType),
+    // Leave the code empty to apply the promotion automatically
+    code: promoCodeSchema.optional().nullable(),
+    // Percent off, amount off or the bundle price, depending on the type
+    value: z.number().min(0, "Value can't be negative").default(0),
+    itemId: z.string().uuid().optional().nullable(),
+    categoryId: z.string().uuid().optional().nullable(),
+    buyQuantity: z.number().int().min(1, "Buy quantity must be at least 1").optional().nullable(),
+    getQuantity: z.number().int().min(1, "Free quantity must be at least 1").optional().nullable(),
+    tableMinutes: z.number().int().min(0, "Table time can't be negative").default(0),
+    comboItems: z.array(promotionComboItemSchema).default([]),
+    usageLimit: z.number().int().min(1, "Usage limit must be at least 1").optional().nullable(),
+    startsAt: z.string().datetime().optional().nullable(),
+    endsAt: z.string().datetime().optional().nullable(),
+    active: z.boolean().default(true),
+  })
+  .superRefine((data, ctx) => {
+    if (data.itemId && data.categoryId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Target either an item or a category, not both",
+        path: ["categoryId"],
+      });
+    }
+
+    if (data.startsAt && data.endsAt && new Date(data.endsAt) <= new Date(data.startsAt)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "End must be after the start",
+        path: ["endsAt"],
+      });
+    }
+
+    switch (data.type) {
+      case PromotionType.PERCENT_OFF:
+        if (data.value <= 0 || data.value > 100) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Percentage must be between 0 and 100",
+            path: ["value"],
+          });
+        }
+        break;
+      case PromotionType.AMOUNT_OFF:
+        if (data.value <= 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Amount must be greater than zero",
+            path: ["value"],
+          });
+        }
+        break;
+      case PromotionType.BUY_X_GET_Y:
+        if (!data.itemId && !data.categoryId) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Choose the item or category the deal applies to",
+            path: ["itemId"],
+          });
+        }
+        if (!data.buyQuantity || !data.getQuantity) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Set how many to buy and how many are free",
+            path: ["buyQuantity"],
+          });
+        }
+        break;
+      case PromotionType.COMBO:
+        if (data.comboItems.length === 0) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: "Add at least one item to the combo",
+            path: ["comboItems"],
+          });
+        }
+        break;
+    }
+  });
+
+// What a promotion applies to is fixed once created, since its redemptions
+// refer to it. Only the terms can change.
+export const promotionUpdateSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    code: promoCodeSchema.nullable(),
+    value: z.number().min(0, "Value can't be negative"),
+    usageLimit: z.number().int().min(1, "Usage limit must be at least 1").nullable(),
+    startsAt: z.string().datetime().nullable(),
+    endsAt: z.string().datetime().nullable(),
+    active: z.boolean(),
+  })
+  .partial();
+
+export const orderQuoteSchema = z.object({
+  companyId: z.string(),
+  tableSessionId: z.string().optional().nullable(),
+  items: z.array(
+    z.object({
+      inventoryItemId: z.string(),
+      quantity: z.number().int().positive(),
+      variantId: z.string().uuid().optional().nullable(),
+      modifierIds: z.array(z.string().uuid()).default([]),
+    })
+  ),
+  promoCodes: z.array(promoCodeSchema).default([]),
+});
+
+export type PromotionValues = z.infer<typeof promotionSchema>;
+export type PromotionUpdateValues = z.infer<typeof promotionUpdateSchema>;
+export type OrderQuoteValues = z.infer<typeof orderQuoteSchema>;
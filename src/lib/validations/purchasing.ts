@@ -0,0 +1,67 @@
+import * as z from "zod";
+
+export const supplierSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  contactName: z.string().optional().nullable(),
+  email: z.string().email("Enter a valid email").optional().nullable().or(z.literal("")),
+  phone: z.string().optional().nullable(),
+  notes: z.string().optional().nullable(),
+  active: z.boolean().default(true),
+});
+
+export const supplierUpdateSchema = supplierSchema.partial();
+
+export const purchaseOrderItemSchema = z.object({
+  itemId: z.string().uuid("Choose an item"),
+  quantityOrdered: z.number().int().min(1, "Quantity must be at least 1"),
+  unitCost: z.number().min(0, "Unit cost can't be negative"),
+});
+
+const purchaseOrderItemsSchema = z
+  .array(purchaseOrderItemSchema)
+  .min(1, "Add at least one item")
+  .refine(
+    (items) => new Set(items.map((item) => item.itemId)).size === items.length,
+    "Each item can only be on an order once"
+  );
+
+export const purchaseOrderSchema = z.object({
+  supplierId: z.string().uuid("Choose a supplier"),
+  items: purchaseOrderItemsSchema,
+  notes: z.string().optional().nullable(),
+  expectedAt: z.string().date().optional().nullable(),
+});
+
+// Lines can only be changed while the order is a draft. Sending or
+// cancelling it is a status change on its own.
+export const purchaseOrderUpdateSchema = z
+  .object({
+    items: purchaseOrderItemsSchema,
+    notes: z.string().nullable(),
+    expectedAt: z.string().date().nullable(),
+    status: z.enum(["SENT", "CANCELLED"]),
+  })
+  .partial();
+
+export const receivePurchaseOrderSchema = z.object({
+  companyId: z.string(),
+  items: z
+    .array(
+      z.object({
+        purchaseOrderItemId: z.string().uuid(),
+        quantity: z.number().int().min(0, "Quantity can't be negative"),
+        // What was actually paid, when it differs from the order
+        unitCost: z.number().min(0, "Unit cost can't be negative").optional(),
+        // For perishable stock, the batch it came in and when it expires
+        lotNumber: z.string().optional().nullable(),
+        expiresAt: z.string().date().optional().nullable(),
+      })
+    )
+    .refine((items) => items.some((item) => item.quantity > 0), "Receive at least one item"),
+});
+
+export type SupplierValues = z.infer<typeof supplierSchema>;
+export type SupplierUpdateValues = z.infer<typeof supplierUpdateSchema>;
+export type PurchaseOrderValues = z.infer<typeof purchaseOrderSchema>;
+export type PurchaseOrderUpdateValues = z.infer<typeof purchaseOrderUpdateSchema>;
+export type ReceivePurchaseOrderValues = z.infer<typeof receivePurchaseOrderSchema>;
@@ -0,0 +1,19 @@
+import * as z from "zod";
+
+export const recipeIngredientSchema = z.object({
+  ingredientId: z.string().uuid("Choose an ingredient"),
+  // In the ingredient's own stock unit, e.g. ml
+  quantity: z.number().int().min(1, "Quantity must be at least 1"),
+});
+
+// The whole recipe is saved at once; an empty list removes it
+export const recipeSchema = z.object({
+  ingredients: z
+    .array(recipeIngredientSchema)
+    .refine(
+      (ingredients) => new Set(ingredients.map((ingredient) => ingredient.ingredientId)).size === ingredients.length,
+      { message: "Each ingredient can only be listed once" }
+    ),
+});
+
+export type RecipeValues = z.infer<typeof recipeSchema>;
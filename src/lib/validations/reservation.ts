@@ -0,0 +1,33 @@
+import * as z from "zod";
+import { ReservationFrequency } from "@prisma/client";
+import { MAX_SERIES_OCCURRENCES, isTimeZone } from "@/lib/recurrenceUtils";
+
+// An edit to a booking in a series changes just that one, or it and every
+// later booking in the series
+export const RESERVATION_EDIT_SCOPES = ["this", "future"] as const;
+
+export type ReservationEditScope = (typeof RESERVATION_EDIT_SCOPES)[number];
+
+export const reservationEditScopeSchema = z.enum(RESERVATION_EDIT_SCOPES).default("this");
+
+// Series dates are worked out on the booking's local clock
+export const timeZoneSchema = z.string().refine(isTimeZone, "Unknown time zone");
+
+export const reservationRecurrenceSchema = z
+  .object({
+    frequency: z.nativeEnum(ReservationFrequency),
+    until: z.coerce.date().optional().nullable(),
+    count: z
+      .number()
+      .int()
+      .min(2, "A series needs at least 2 bookings")
+      .max(MAX_SERIES_OCCURRENCES, `A series can't have more than ${MAX_SERIES_OCCURRENCES} bookings`)
+      .optional()
+      .nullable(),
+  })
+  .refine((rule) => rule.until || rule.count, {
+    message: "Choose when the series ends",
+    path: ["until"],
+  });
+
+export type ReservationRecurrenceValues = z.infer<typeof reservationRecurrenceSchema>;
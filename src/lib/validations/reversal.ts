@@ -0,0 +1,30 @@
+import * as z from "zod";
+
+export const voidOrderSchema = z.object({
+  companyId: z.string(),
+  reason: z.string().min(1, "A reason is required"),
+});
+
+export const refundOrderSchema = z.object({
+  companyId: z.string(),
+  reason: z.string().min(1, "A reason is required"),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1, "Select at least one item to refund")
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      "Each item can only be listed once"
+    ),
+});
+
+export const reviewReversalSchema = z.object({
+  companyId: z.string(),
+  action: z.enum(["APPROVE", "REJECT"]),
+});
+
+export type RefundOrderValues = z.infer<typeof refundOrderSchema>;
@@ -0,0 +1,23 @@
+import * as z from "zod";
+
+export const openShiftSchema = z.object({
+  companyId: z.string(),
+  openingFloat: z.number().min(0, "Opening float can't be negative"),
+  note: z.string().optional().nullable(),
+});
+
+export const closeShiftSchema = z.object({
+  companyId: z.string(),
+  countedCash: z.number().min(0, "Counted cash can't be negative"),
+  note: z.string().optional().nullable(),
+});
+
+export const cashPayoutSchema = z.object({
+  companyId: z.string(),
+  amount: z.number().positive("Amount must be greater than zero"),
+  reason: z.string().min(1, "A reason is required"),
+});
+
+export type OpenShiftValues = z.infer<typeof openShiftSchema>;
+export type CloseShiftValues = z.infer<typeof closeShiftSchema>;
+export type CashPayoutValues = z.infer<typeof cashPayoutSchema>;
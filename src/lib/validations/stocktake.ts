@@ -0,0 +1,39 @@
+import * as z from "zod";
+
+export const stocktakeSchema = z.object({
+  notes: z.string().optional().nullable(),
+});
+
+export const stocktakeUpdateSchema = z
+  .object({
+    notes: z.string().nullable(),
+    status: z.literal("CANCELLED"),
+  })
+  .partial();
+
+// Counts can come in from several devices at once, so each one only sends the
+// items it counted. An empty count clears it.
+export const stocktakeCountsSchema = z.object({
+  companyId: z.string(),
+  counts: z
+    .array(
+      z.object({
+        itemId: z.string().uuid(),
+        countedQuantity: z.number().int().min(0, "Count can't be negative").nullable(),
+      })
+    )
+    .min(1, "Enter at least one count"),
+});
+
+// A scan adds to what the item has been counted at so far, on whichever
+// device it was counted
+export const stocktakeScanSchema = z.object({
+  companyId: z.string(),
+  itemId: z.string().uuid(),
+  quantity: z.number().int().positive().default(1),
+});
+
+export type StocktakeValues = z.infer<typeof stocktakeSchema>;
+export type StocktakeUpdateValues = z.infer<typeof stocktakeUpdateSchema>;
+export type StocktakeCountsValues = z.infer<typeof stocktakeCountsSchema>;
+export type StocktakeScanValues = z.infer<typeof stocktakeScanSchema>;
@@ -0,0 +1,13 @@
+import * as z from "zod";
+
+export const pauseSessionSchema = z.object({
+  pausedAt: z.string().datetime().optional().nullable(),
+  reason: z.string().optional().nullable(),
+});
+
+export const resumeSessionSchema = z.object({
+  resumedAt: z.string().datetime().optional().nullable(),
+});
+
+export type PauseSessionValues = z.infer<typeof pauseSessionSchema>;
+export type ResumeSessionValues = z.infer<typeof resumeSessionSchema>;
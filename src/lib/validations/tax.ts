@@ -0,0 +1,17 @@
+import * as z from "zod";
+
+export const taxRateSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  rate: z.number().min(0, "Rate can't be negative").max(100, "Rate can't exceed 100%"),
+  active: z.boolean().default(true),
+});
+
+export const taxRateUpdateSchema = taxRateSchema.partial();
+
+export const taxSettingsSchema = z.object({
+  pricesIncludeTax: z.boolean(),
+  tableTimeTaxRateId: z.string().uuid().nullable(),
+});
+
+export type TaxRateValues = z.infer<typeof taxRateSchema>;
+export type TaxSettingsValues = z.infer<typeof taxSettingsSchema>;
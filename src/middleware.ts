@@ -51,6 +51,8 @@ const PUBLIC_PATHS = [
   '/privacy',
   '/verify-email', // Added missing public path
   '/documentation', // Added missing public path
+  '/book', // Public booking pages, one per company
+  '/api/public', // Only the routes behind the public booking pages
 ]
 
 // Helper to check if a path starts with any of the public paths